@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import type { Entity } from '../core/Entity';
+import { InputComponent } from '../components/InputComponent';
+import { AIControllerComponent } from '../components/AIControllerComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import type { PhysicsWorld } from '../physics/PhysicsWorld';
+import type { FactionId, MechConfig } from '../types';
+import type { AIProfile } from '../config/AIConfig';
+import { createMech } from './createMech';
+
+/** Number of waypoints in the default patrol loop */
+const DEFAULT_PATROL_POINTS = 4;
+
+/**
+ * Create an AI-piloted mech.
+ * Non-local InputComponent lets AIMechSystem drive it through the player pipeline.
+ * @param id Unique entity identifier
+ * @param config Mech chassis configuration
+ * @param physicsWorld Physics world for body creation
+ * @param spawnPosition World spawn position
+ * @param profile AI tuning
+ * @param patrolRoute Optional patrol waypoints (defaults to a loop around spawn)
+ * @param faction Side the pilot fights for
+ */
+export function createEnemyMech(
+  id: string,
+  config: MechConfig,
+  physicsWorld: PhysicsWorld,
+  spawnPosition: THREE.Vector3,
+  profile: AIProfile,
+  patrolRoute: THREE.Vector3[] = [],
+  faction: FactionId = 'enemy'
+): Entity {
+  const entity = createMech(id, config, physicsWorld, spawnPosition, false);
+
+  const route =
+    patrolRoute.length > 0
+      ? patrolRoute
+      : createPatrolLoop(spawnPosition, profile.patrolRadius);
+
+  entity.addComponent(new InputComponent(false));
+  entity.addComponent(new AIControllerComponent(profile, route));
+  entity.addComponent(new FactionComponent(faction));
+
+  return entity;
+}
+
+/**
+ * Evenly spaced waypoints on a circle around a center point
+ */
+function createPatrolLoop(
+  center: THREE.Vector3,
+  radius: number
+): THREE.Vector3[] {
+  const route: THREE.Vector3[] = [];
+  for (let i = 0; i < DEFAULT_PATROL_POINTS; i++) {
+    const angle = (i / DEFAULT_PATROL_POINTS) * Math.PI * 2;
+    route.push(
+      new THREE.Vector3(
+        center.x + Math.cos(angle) * radius,
+        center.y,
+        center.z + Math.sin(angle) * radius
+      )
+    );
+  }
+  return route;
+}
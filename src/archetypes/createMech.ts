@@ -7,15 +7,19 @@ import { MechComponent } from '../components/MechComponent';
 import { WeaponComponent } from '../components/WeaponComponent';
 import { HeatComponent } from '../components/HeatComponent';
 import { HealthComponent } from '../components/HealthComponent';
+import { CriticalComponent } from '../components/CriticalComponent';
+import type { CriticalSlot } from '../components/CriticalComponent';
 import { InputComponent } from '../components/InputComponent';
 import { TargetingComponent } from '../components/TargetingComponent';
+import { FactionComponent } from '../components/FactionComponent';
 import { MechModel } from '../rendering/MechModel';
 import { MadCatModel } from '../rendering/MadCatModel';
 import { UrbanMechModel } from '../rendering/UrbanMechModel';
 import { PostProcessing } from '../rendering/PostProcessing';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
-import type { MechConfig } from '../types';
+import type { ArmorZones, MechConfig } from '../types';
 import { MECH_CONSTANTS } from '../config/MechConfigs';
+import { DAMAGE_CONFIG } from '../config/DamageConfig';
 
 /** Common interface for all mech models */
 type MechModelType = MechModel | MadCatModel | UrbanMechModel;
@@ -35,6 +39,31 @@ function createMechModel(config: MechConfig): MechModelType {
   }
 }
 
+/**
+ * Build critical slots from the standard layout plus the mech's hardpoints.
+ */
+function createCriticalSlots(
+  config: MechConfig
+): Record<keyof ArmorZones, CriticalSlot[]> {
+  const layout = DAMAGE_CONFIG.CRITICAL_LAYOUT;
+  const zones = Object.keys(layout) as Array<keyof ArmorZones>;
+
+  const slots = {} as Record<keyof ArmorZones, CriticalSlot[]>;
+  for (const zone of zones) {
+    slots[zone] = layout[zone].map((kind) => ({ kind, destroyed: false }));
+  }
+
+  for (const hp of config.hardpoints) {
+    slots[hp.zone].push({
+      kind: 'weapon',
+      weaponSlot: hp.slot,
+      destroyed: false,
+    });
+  }
+
+  return slots;
+}
+
 /**
  * Create a mech entity with all required components.
  */
@@ -105,7 +134,11 @@ export function createMech(
   const mechComp = new MechComponent(config);
   const weaponComp = new WeaponComponent(config.hardpoints);
   const heatComp = new HeatComponent(config.maxHeat, config.heatDissipation);
-  const healthComp = new HealthComponent(config.baseArmor);
+  const healthComp = new HealthComponent(
+    config.baseArmor,
+    config.baseStructure
+  );
+  const criticalComp = new CriticalComponent(createCriticalSlots(config));
 
   // Add all components to entity
   entity.addComponent(transformComp);
@@ -115,11 +148,13 @@ export function createMech(
   entity.addComponent(weaponComp);
   entity.addComponent(heatComp);
   entity.addComponent(healthComp);
+  entity.addComponent(criticalComp);
 
   // Add input and targeting components for player
   if (isPlayer) {
     entity.addComponent(new InputComponent(true));
     entity.addComponent(new TargetingComponent(150)); // 150m detection range
+    entity.addComponent(new FactionComponent('player'));
   }
 
   return entity;
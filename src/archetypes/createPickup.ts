@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { Entity } from '../core/Entity';
+import { TransformComponent } from '../components/TransformComponent';
+import { RenderComponent } from '../components/RenderComponent';
+import { PickupComponent } from '../components/PickupComponent';
+import { OBJECTIVE_MARKER_CONFIG } from '../config/ObjectiveMarkerConfig';
+
+/**
+ * Create a glowing supply cache: a crate inside a spinning wireframe shell
+ */
+function createPickupMesh(): THREE.Group {
+  const { color } = OBJECTIVE_MARKER_CONFIG.COLLECT;
+  const group = new THREE.Group();
+
+  const crate = new THREE.Mesh(
+    new THREE.BoxGeometry(1.6, 1.6, 1.6),
+    new THREE.MeshStandardMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 0.6,
+      roughness: 0.4,
+      metalness: 0.3,
+    })
+  );
+  crate.castShadow = true;
+  group.add(crate);
+
+  const shell = new THREE.Mesh(
+    new THREE.OctahedronGeometry(2.2),
+    new THREE.MeshBasicMaterial({
+      color,
+      wireframe: true,
+      transparent: true,
+      opacity: 0.6,
+    })
+  );
+  group.add(shell);
+
+  return group;
+}
+
+/**
+ * Create a collectible pickup for a collect objective.
+ * @param position Ground position; the pickup hovers above it
+ */
+export function createPickup(
+  id: string,
+  position: THREE.Vector3,
+  objectiveId: string,
+  radius: number = OBJECTIVE_MARKER_CONFIG.COLLECT.defaultRadius
+): Entity {
+  const entity = new Entity(id);
+
+  const mesh = createPickupMesh();
+  const meshOffset = new THREE.Vector3(
+    0,
+    OBJECTIVE_MARKER_CONFIG.COLLECT.hoverHeight,
+    0
+  );
+  mesh.position.copy(position).add(meshOffset);
+
+  entity.addComponent(new TransformComponent(position));
+  entity.addComponent(new RenderComponent(mesh, meshOffset));
+  entity.addComponent(new PickupComponent(objectiveId, radius));
+
+  return entity;
+}
@@ -4,11 +4,8 @@ import { TransformComponent } from '../components/TransformComponent';
 import { RenderComponent } from '../components/RenderComponent';
 import { ProjectileComponent } from '../components/ProjectileComponent';
 import type { Weapon } from '../components/WeaponComponent';
-import {
-  createAutocannonMesh,
-  createPPCMesh,
-  createMissileMesh,
-} from '../config/ProjectileVisuals';
+import { createProjectileMesh } from '../config/ProjectileVisuals';
+import { getWeaponEntry } from '../config/WeaponCatalog';
 
 /**
  * Create a projectile entity.
@@ -22,7 +19,8 @@ export function createProjectile(
   const id = `projectile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   const entity = new Entity(id);
 
-  const mesh = createProjectileMeshForType(weapon.config.type);
+  const visual = getWeaponEntry(weapon.config.type).visuals.projectile;
+  const mesh = visual ? createProjectileMesh(visual) : new THREE.Object3D();
   mesh.position.copy(position);
   mesh.lookAt(position.clone().add(direction));
 
@@ -42,20 +40,3 @@ export function createProjectile(
 
   return entity;
 }
-
-/**
- * Create the appropriate mesh for a projectile type.
- * Uses shared mesh factories from ProjectileVisuals config.
- */
-function createProjectileMeshForType(type: string): THREE.Object3D {
-  switch (type) {
-    case 'autocannon':
-      return createAutocannonMesh();
-    case 'ppc':
-      return createPPCMesh();
-    case 'missile':
-      return createMissileMesh();
-    default:
-      return createAutocannonMesh();
-  }
-}
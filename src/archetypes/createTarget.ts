@@ -4,6 +4,7 @@ import { TransformComponent } from '../components/TransformComponent';
 import { PhysicsComponent } from '../components/PhysicsComponent';
 import { RenderComponent } from '../components/RenderComponent';
 import { HealthComponent } from '../components/HealthComponent';
+import { FactionComponent } from '../components/FactionComponent';
 import { PostProcessing } from '../rendering/PostProcessing';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
 import type { ArmorZones } from '../types';
@@ -22,6 +23,8 @@ export interface TargetConfig {
   wallHeight: number;
   /** Wall thickness */
   wallThickness: number;
+  /** Health scale from difficulty (MissionDifficulty.enemyHealth) */
+  healthMultiplier: number;
 }
 
 /** Default target configuration */
@@ -32,6 +35,7 @@ const DEFAULT_TARGET_CONFIG: TargetConfig = {
   wallWidth: 8,
   wallHeight: 12, // Matches mech height (~12m from feet to head)
   wallThickness: 1,
+  healthMultiplier: 1,
 };
 
 /**
@@ -184,7 +188,7 @@ export function createTarget(
   // Create health component - targets only use torso zone
   const targetArmor: ArmorZones = {
     head: 0,
-    torso: finalConfig.health,
+    torso: finalConfig.health * finalConfig.healthMultiplier,
     leftArm: 0,
     rightArm: 0,
     leftLeg: 0,
@@ -197,6 +201,8 @@ export function createTarget(
   entity.addComponent(physicsComp);
   entity.addComponent(renderComp);
   entity.addComponent(healthComp);
+  // Practice targets belong to nobody
+  entity.addComponent(new FactionComponent('neutral'));
 
   return entity;
 }
@@ -6,10 +6,11 @@ import { RenderComponent } from '../components/RenderComponent';
 import { HealthComponent } from '../components/HealthComponent';
 import { WeaponComponent, WEAPON_CONFIGS } from '../components/WeaponComponent';
 import { TurretComponent } from '../components/TurretComponent';
+import { FactionComponent } from '../components/FactionComponent';
 import { TurretModel } from '../rendering/TurretModel';
 import { PostProcessing } from '../rendering/PostProcessing';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
-import type { ArmorZones, WeaponType } from '../types';
+import type { ArmorZones, FactionId, WeaponType } from '../types';
 
 /** Turret configuration */
 export interface TurretConfig {
@@ -23,6 +24,14 @@ export interface TurretConfig {
   aimTolerance: number;
   /** Weapon type for the turret */
   weaponType: WeaponType;
+  /** Minimum seconds between shots */
+  fireInterval: number;
+  /** Aim spread cone half-angle (radians) */
+  spread: number;
+  /** Side the turret fights for */
+  faction: FactionId;
+  /** Health scale from difficulty (MissionDifficulty.enemyHealth) */
+  healthMultiplier: number;
 }
 
 /** Default turret configuration */
@@ -32,6 +41,10 @@ const DEFAULT_TURRET_CONFIG: TurretConfig = {
   rotationSpeed: 1.5,
   aimTolerance: 0.1,
   weaponType: 'autocannon',
+  fireInterval: 0.6,
+  spread: 0.04,
+  faction: 'enemy',
+  healthMultiplier: 1,
 };
 
 /**
@@ -83,7 +96,7 @@ export function createTurret(
   // Create health component - turrets only use torso zone
   const turretArmor: ArmorZones = {
     head: 0,
-    torso: finalConfig.health,
+    torso: finalConfig.health * finalConfig.healthMultiplier,
     leftArm: 0,
     rightArm: 0,
     leftLeg: 0,
@@ -98,6 +111,7 @@ export function createTurret(
       slot: 1,
       weaponType: finalConfig.weaponType,
       position: { x: 0, y: 2.1, z: 3.0 }, // Barrel muzzle position
+      zone: 'torso',
     },
   ]);
   // Override weapon config for turrets (slower fire rate)
@@ -110,7 +124,9 @@ export function createTurret(
   const turretComp = new TurretComponent(
     finalConfig.detectionRange,
     finalConfig.rotationSpeed,
-    finalConfig.aimTolerance
+    finalConfig.aimTolerance,
+    finalConfig.fireInterval,
+    finalConfig.spread
   );
 
   // Add all components
@@ -120,6 +136,7 @@ export function createTurret(
   entity.addComponent(healthComp);
   entity.addComponent(weaponComp);
   entity.addComponent(turretComp);
+  entity.addComponent(new FactionComponent(finalConfig.faction));
 
   return entity;
 }
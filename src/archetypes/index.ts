@@ -3,3 +3,5 @@ export { createMech } from './createMech';
 export { createProjectile } from './createProjectile';
 export { createTarget } from './createTarget';
 export { createTurret } from './createTurret';
+export { createEnemyMech } from './createEnemyMech';
+export { createPickup } from './createPickup';
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { FootstepSynth } from './FootstepSynth';
 import { WeaponSynth } from './WeaponSynth';
 import { SystemSynth } from './SystemSynth';
+import type { WeaponSound } from '../config/WeaponCatalog';
 
 /**
  * Main sound manager that orchestrates all audio in the game.
@@ -103,54 +104,62 @@ export class SoundManager {
   // ============ Weapon Sounds ============
 
   /**
-   * Play laser weapon sound
+   * Play a weapon's firing sound from its catalog synth preset
    */
-  playLaser(): void {
+  playWeapon(sound: WeaponSound): void {
     if (!this.isReady() || !this.weaponSynth) return;
-    this.weaponSynth.playLaser(this.sfxVolume);
+    this.weaponSynth.play(sound, this.sfxVolume);
   }
 
+  // ============ System Sounds ============
+
   /**
-   * Play autocannon sound
+   * Play heat warning beep
+   * @param heatLevel 0-1, current heat level (affects urgency)
    */
-  playAutocannon(): void {
-    if (!this.isReady() || !this.weaponSynth) return;
-    this.weaponSynth.playAutocannon(this.sfxVolume);
+  playHeatWarning(heatLevel: number): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playHeatWarning(heatLevel, this.sfxVolume);
   }
 
   /**
-   * Play PPC (Particle Projector Cannon) sound
+   * Play overheat alarm
    */
-  playPPC(): void {
-    if (!this.isReady() || !this.weaponSynth) return;
-    this.weaponSynth.playPPC(this.sfxVolume);
+  playOverheatAlarm(): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playOverheatAlarm(this.sfxVolume);
   }
 
   /**
-   * Play missile launch sound
+   * Play ammo cook-off warning
    */
-  playMissile(): void {
-    if (!this.isReady() || !this.weaponSynth) return;
-    this.weaponSynth.playMissile(this.sfxVolume);
+  playCookoffWarning(): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playCookoffWarning(this.sfxVolume);
   }
 
-  // ============ System Sounds ============
+  /**
+   * Play shutdown override alarm
+   */
+  playOverrideAlarm(): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playOverrideAlarm(this.sfxVolume);
+  }
 
   /**
-   * Play heat warning beep
-   * @param heatLevel 0-1, current heat level (affects urgency)
+   * Play reactor shutdown sweep
    */
-  playHeatWarning(heatLevel: number): void {
+  playReactorShutdown(): void {
     if (!this.isReady() || !this.systemSynth) return;
-    this.systemSynth.playHeatWarning(heatLevel, this.sfxVolume);
+    this.systemSynth.playReactorShutdown(this.sfxVolume);
   }
 
   /**
-   * Play overheat alarm
+   * Play reactor restart sweep
    */
-  playOverheatAlarm(): void {
+  playReactorRestart(): void {
     if (!this.isReady() || !this.systemSynth) return;
-    this.systemSynth.playOverheatAlarm(this.sfxVolume);
+    this.systemSynth.playReactorRestart(this.sfxVolume);
   }
 
   /**
@@ -194,6 +203,23 @@ export class SoundManager {
     this.systemSynth.playWeaponSwitch(this.sfxVolume);
   }
 
+  /**
+   * Play missile lock tone
+   */
+  playMissileLock(): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playMissileLock(this.sfxVolume);
+  }
+
+  /**
+   * Play comms radio chirp
+   * @param intensity 0-1 scale (higher priority messages chirp louder)
+   */
+  playRadioChirp(intensity: number = 1): void {
+    if (!this.isReady() || !this.systemSynth) return;
+    this.systemSynth.playRadioChirp(intensity * this.sfxVolume);
+  }
+
   // ============ Volume Controls ============
 
   /**
@@ -106,6 +106,71 @@ export class SystemSynth extends ProceduralSynth {
     osc.stop(now + duration + 0.01);
   }
 
+  /**
+   * Play ammo cook-off warning - rapid high triple beep
+   */
+  playCookoffWarning(volume: number): void {
+    const gain = 0.3 * volume;
+
+    for (let i = 0; i < 3; i++) {
+      this.playWarningBeep(1400, gain, i * 0.09, 0.05);
+    }
+  }
+
+  /**
+   * Play shutdown override alarm - low, harsh two-tone pulse
+   */
+  playOverrideAlarm(volume: number): void {
+    const gain = 0.3 * volume;
+
+    this.playAlarmTone(320, gain, 0, 0.2);
+    this.playAlarmTone(240, gain, 0.2, 0.2);
+  }
+
+  /**
+   * Play reactor shutdown - power-down sweep
+   */
+  playReactorShutdown(volume: number): void {
+    this.playPowerSweep(400, 40, 0.3 * volume, 1.2);
+  }
+
+  /**
+   * Play reactor restart - power-up sweep
+   */
+  playReactorRestart(volume: number): void {
+    this.playPowerSweep(60, 300, 0.25 * volume, 0.8);
+  }
+
+  private playPowerSweep(
+    fromFreq: number,
+    toFreq: number,
+    gain: number,
+    duration: number
+  ): void {
+    const osc = this.ctx.createOscillator();
+    osc.type = 'sawtooth';
+
+    const gainNode = this.ctx.createGain();
+    const filter = this.createLowpassFilter(1200, 2);
+
+    osc.connect(filter);
+    filter.connect(gainNode);
+    gainNode.connect(this.masterGain);
+
+    const now = this.now;
+
+    osc.frequency.setValueAtTime(fromFreq, now);
+    osc.frequency.exponentialRampToValueAtTime(toFreq, now + duration);
+
+    gainNode.gain.setValueAtTime(0, now);
+    gainNode.gain.linearRampToValueAtTime(gain, now + 0.05);
+    gainNode.gain.setValueAtTime(gain, now + duration * 0.6);
+    gainNode.gain.linearRampToValueAtTime(0, now + duration);
+
+    osc.start(now);
+    osc.stop(now + duration);
+  }
+
   /**
    * Play damage impact sound
    */
@@ -400,4 +465,90 @@ export class SystemSynth extends ProceduralSynth {
     osc2.start(now2);
     osc2.stop(now2 + 0.02);
   }
+
+  /**
+   * Play missile lock tone - two quick high beeps
+   */
+  playMissileLock(volume: number): void {
+    const gain = 0.2 * volume;
+
+    for (let i = 0; i < 2; i++) {
+      const osc = this.ctx.createOscillator();
+      osc.type = 'square';
+      osc.frequency.value = 1800;
+
+      const gainNode = this.ctx.createGain();
+      osc.connect(gainNode);
+      gainNode.connect(this.masterGain);
+
+      const start = this.now + i * 0.1;
+      const duration = 0.06;
+
+      gainNode.gain.setValueAtTime(0, start);
+      gainNode.gain.linearRampToValueAtTime(gain, start + 0.005);
+      gainNode.gain.setValueAtTime(gain, start + duration - 0.01);
+      gainNode.gain.linearRampToValueAtTime(0, start + duration);
+
+      osc.start(start);
+      osc.stop(start + duration);
+    }
+  }
+
+  /**
+   * Play radio chirp - static-filtered two-tone squelch opening a transmission
+   */
+  playRadioChirp(volume: number): void {
+    const gain = 0.2 * volume;
+    const now = this.now;
+
+    // Squelch burst of band-limited static
+    const noise = this.createNoiseSource(0.12);
+    const noiseFilter = this.createBandpassFilter(2400, 2);
+    const noiseGain = this.ctx.createGain();
+    noise.connect(noiseFilter);
+    noiseFilter.connect(noiseGain);
+    noiseGain.connect(this.masterGain);
+
+    noiseGain.gain.setValueAtTime(0, now);
+    noiseGain.gain.linearRampToValueAtTime(gain * 0.6, now + 0.005);
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
+
+    noise.start(now);
+    noise.stop(now + 0.12);
+
+    // Rising two-tone chirp through a narrow "radio" band
+    this.playChirpTone(1400, 1900, gain, 0.04, 0.06);
+    this.playChirpTone(1900, 2500, gain * 0.8, 0.1, 0.05);
+  }
+
+  private playChirpTone(
+    startFreq: number,
+    endFreq: number,
+    gain: number,
+    delay: number,
+    duration: number
+  ): void {
+    const osc = this.ctx.createOscillator();
+    osc.type = 'square';
+
+    const gainNode = this.ctx.createGain();
+    const filter = this.createBandpassFilter(2000, 3);
+
+    osc.connect(filter);
+    filter.connect(gainNode);
+    gainNode.connect(this.masterGain);
+
+    const now = this.now + delay;
+
+    osc.frequency.setValueAtTime(startFreq, now);
+    osc.frequency.exponentialRampToValueAtTime(endFreq, now + duration);
+
+    gainNode.gain.setValueAtTime(0, now);
+    gainNode.gain.linearRampToValueAtTime(gain, now + 0.005);
+    gainNode.gain.setValueAtTime(gain, now + duration - 0.01);
+    gainNode.gain.linearRampToValueAtTime(0, now + duration);
+
+    osc.start(now);
+    osc.stop(now + duration);
+  }
 }
@@ -1,23 +1,52 @@
 import { ProceduralSynth } from './ProceduralSynth';
+import type { WeaponSound } from '../config/WeaponCatalog';
 
 /**
- * Synthesizes weapon firing sounds for all weapon types
+ * Synthesizes weapon firing sounds from the synth presets in WEAPON_CATALOG
  */
 export class WeaponSynth extends ProceduralSynth {
+  /**
+   * Play a weapon's firing sound
+   */
+  play(sound: WeaponSound, volume: number): void {
+    const gain = volume * sound.volume;
+
+    switch (sound.voice) {
+      case 'laser':
+        this.playLaser(gain, sound.pitch);
+        break;
+      case 'autocannon':
+        this.playAutocannon(gain, sound.pitch);
+        break;
+      case 'ppc':
+        this.playPPC(gain, sound.pitch);
+        break;
+      case 'missile':
+        this.playMissile(gain, sound.pitch);
+        break;
+      case 'flamer':
+        this.playFlamer(gain, sound.pitch);
+        break;
+      case 'gauss':
+        this.playGauss(gain, sound.pitch);
+        break;
+    }
+  }
+
   /**
    * Play laser weapon sound - high frequency sweep with noise
    */
-  playLaser(volume: number): void {
+  private playLaser(volume: number, pitch: number): void {
     const gain = 0.35 * volume;
 
     // Layer 1: High frequency sweep down
-    this.playLaserBeam(gain);
+    this.playLaserBeam(gain, pitch);
 
     // Layer 2: Electrical crackle
     this.playElectricalCrackle(gain * 0.4);
   }
 
-  private playLaserBeam(gain: number): void {
+  private playLaserBeam(gain: number, pitch: number): void {
     const duration = 0.25;
 
     const osc = this.ctx.createOscillator();
@@ -33,8 +62,8 @@ export class WeaponSynth extends ProceduralSynth {
     const now = this.now;
 
     // High to low sweep
-    osc.frequency.setValueAtTime(3000, now);
-    osc.frequency.exponentialRampToValueAtTime(500, now + duration);
+    osc.frequency.setValueAtTime(3000 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(500 * pitch, now + duration);
 
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(gain, now + 0.01);
@@ -68,16 +97,20 @@ export class WeaponSynth extends ProceduralSynth {
   /**
    * Play autocannon sound - rapid mechanical gunfire
    */
-  playAutocannon(volume: number): void {
+  private playAutocannon(volume: number, pitch: number): void {
     const gain = 0.4 * volume;
 
     // Fire 3 rapid shots
     for (let i = 0; i < 3; i++) {
-      this.scheduleAutocannonShot(gain * (1 - i * 0.15), i * 0.06);
+      this.scheduleAutocannonShot(gain * (1 - i * 0.15), i * 0.06, pitch);
     }
   }
 
-  private scheduleAutocannonShot(gain: number, delay: number): void {
+  private scheduleAutocannonShot(
+    gain: number,
+    delay: number,
+    pitch: number
+  ): void {
     const duration = 0.08;
     const now = this.now + delay;
 
@@ -94,7 +127,7 @@ export class WeaponSynth extends ProceduralSynth {
     noise.buffer = buffer;
 
     const gainNode = this.ctx.createGain();
-    const filter = this.createBandpassFilter(800, 2);
+    const filter = this.createBandpassFilter(800 * pitch, 2);
 
     noise.connect(filter);
     filter.connect(gainNode);
@@ -107,7 +140,7 @@ export class WeaponSynth extends ProceduralSynth {
     // Low thump for impact feel
     const thump = this.ctx.createOscillator();
     thump.type = 'sine';
-    thump.frequency.value = 80;
+    thump.frequency.value = 80 * pitch;
 
     const thumpGain = this.ctx.createGain();
     thump.connect(thumpGain);
@@ -126,20 +159,20 @@ export class WeaponSynth extends ProceduralSynth {
   /**
    * Play PPC (Particle Projector Cannon) - heavy energy weapon
    */
-  playPPC(volume: number): void {
+  private playPPC(volume: number, pitch: number): void {
     const gain = 0.5 * volume;
 
     // Layer 1: Deep bass charge
-    this.playPPCBass(gain);
+    this.playPPCBass(gain, pitch);
 
     // Layer 2: Energy discharge
-    this.playPPCDischarge(gain * 0.7);
+    this.playPPCDischarge(gain * 0.7, pitch);
 
     // Layer 3: Electrical aftermath
     this.playPPCAftermath(gain * 0.3);
   }
 
-  private playPPCBass(gain: number): void {
+  private playPPCBass(gain: number, pitch: number): void {
     const duration = 0.4;
 
     const osc = this.ctx.createOscillator();
@@ -154,9 +187,9 @@ export class WeaponSynth extends ProceduralSynth {
 
     const now = this.now;
 
-    osc.frequency.setValueAtTime(40, now);
-    osc.frequency.linearRampToValueAtTime(80, now + 0.1);
-    osc.frequency.exponentialRampToValueAtTime(30, now + duration);
+    osc.frequency.setValueAtTime(40 * pitch, now);
+    osc.frequency.linearRampToValueAtTime(80 * pitch, now + 0.1);
+    osc.frequency.exponentialRampToValueAtTime(30 * pitch, now + duration);
 
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(gain, now + 0.05);
@@ -166,7 +199,7 @@ export class WeaponSynth extends ProceduralSynth {
     osc.stop(now + duration);
   }
 
-  private playPPCDischarge(gain: number): void {
+  private playPPCDischarge(gain: number, pitch: number): void {
     const duration = 0.3;
 
     const osc = this.ctx.createOscillator();
@@ -181,8 +214,8 @@ export class WeaponSynth extends ProceduralSynth {
 
     const now = this.now;
 
-    osc.frequency.setValueAtTime(600, now);
-    osc.frequency.exponentialRampToValueAtTime(100, now + duration);
+    osc.frequency.setValueAtTime(600 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(100 * pitch, now + duration);
 
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(gain, now + 0.02);
@@ -216,14 +249,14 @@ export class WeaponSynth extends ProceduralSynth {
   /**
    * Play missile launch and travel sound
    */
-  playMissile(volume: number): void {
+  private playMissile(volume: number, pitch: number): void {
     const gain = 0.35 * volume;
 
     // Layer 1: Launch whoosh
     this.playMissileLaunch(gain);
 
     // Layer 2: Rocket burn (rising pitch)
-    this.playRocketBurn(gain * 0.6);
+    this.playRocketBurn(gain * 0.6, pitch);
   }
 
   private playMissileLaunch(gain: number): void {
@@ -253,7 +286,7 @@ export class WeaponSynth extends ProceduralSynth {
     noise.stop(now + duration + 0.1);
   }
 
-  private playRocketBurn(gain: number): void {
+  private playRocketBurn(gain: number, pitch: number): void {
     const duration = 0.4;
 
     const osc = this.ctx.createOscillator();
@@ -269,8 +302,8 @@ export class WeaponSynth extends ProceduralSynth {
     const now = this.now + 0.05; // Slight delay after launch
 
     // Rising pitch as missile accelerates
-    osc.frequency.setValueAtTime(100, now);
-    osc.frequency.linearRampToValueAtTime(400, now + duration);
+    osc.frequency.setValueAtTime(100 * pitch, now);
+    osc.frequency.linearRampToValueAtTime(400 * pitch, now + duration);
 
     gainNode.gain.setValueAtTime(0, now);
     gainNode.gain.linearRampToValueAtTime(gain, now + 0.05);
@@ -279,4 +312,64 @@ export class WeaponSynth extends ProceduralSynth {
     osc.start(now);
     osc.stop(now + duration);
   }
+
+  /**
+   * Play flamer sound - roaring burst of low-passed noise
+   */
+  private playFlamer(volume: number, pitch: number): void {
+    const gain = 0.3 * volume;
+    const duration = 0.3;
+
+    const noise = this.createNoiseSource(duration);
+    const gainNode = this.ctx.createGain();
+    const filter = this.createLowpassFilter(900 * pitch, 1);
+
+    noise.connect(filter);
+    filter.connect(gainNode);
+    gainNode.connect(this.masterGain);
+
+    const now = this.now;
+
+    gainNode.gain.setValueAtTime(0, now);
+    gainNode.gain.linearRampToValueAtTime(gain, now + 0.04);
+    gainNode.gain.linearRampToValueAtTime(gain * 0.6, now + duration * 0.7);
+    gainNode.gain.linearRampToValueAtTime(0, now + duration);
+
+    noise.start(now);
+    noise.stop(now + duration);
+  }
+
+  /**
+   * Play gauss rifle sound - rising capacitor whine then a hard crack
+   */
+  private playGauss(volume: number, pitch: number): void {
+    const gain = 0.45 * volume;
+    const charge = 0.12;
+
+    // Layer 1: Capacitor whine
+    const osc = this.ctx.createOscillator();
+    osc.type = 'square';
+
+    const whineGain = this.ctx.createGain();
+    const filter = this.createBandpassFilter(1200 * pitch, 4);
+
+    osc.connect(filter);
+    filter.connect(whineGain);
+    whineGain.connect(this.masterGain);
+
+    const now = this.now;
+
+    osc.frequency.setValueAtTime(400 * pitch, now);
+    osc.frequency.exponentialRampToValueAtTime(2400 * pitch, now + charge);
+
+    whineGain.gain.setValueAtTime(0, now);
+    whineGain.gain.linearRampToValueAtTime(gain * 0.3, now + charge);
+    whineGain.gain.linearRampToValueAtTime(0, now + charge + 0.01);
+
+    osc.start(now);
+    osc.stop(now + charge + 0.01);
+
+    // Layer 2: Slug release crack
+    this.scheduleAutocannonShot(gain, charge, pitch * 0.6);
+  }
 }
@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import type { Component } from '../core/Component';
+import type { InputSnapshot } from '../types';
+import type { AIProfile } from '../config/AIConfig';
+import { InputComponent } from './InputComponent';
+
+/** High-level behaviors an AI pilot can be in */
+export type AIBehavior = 'patrol' | 'engage' | 'flank' | 'retreat';
+
+/**
+ * AI controller component for computer-piloted mechs.
+ * AIMechSystem writes its snapshot into the entity's InputComponent so the
+ * mech is driven through the same systems as the player.
+ */
+export class AIControllerComponent implements Component {
+  static readonly type = 'AIController';
+  readonly type = AIControllerComponent.type;
+
+  /** Tuning for this pilot */
+  profile: AIProfile;
+
+  /** Current behavior */
+  behavior: AIBehavior = 'patrol';
+
+  /** Patrol route in world space */
+  patrolRoute: THREE.Vector3[];
+
+  /** Index of the next patrol waypoint */
+  waypointIndex: number = 0;
+
+  /** Entity currently being fought, if any */
+  targetId: string | null = null;
+
+  /** Which side of the target to flank toward (1 = right, -1 = left) */
+  flankSide: number = 1;
+
+  /** Time left on the current flanking run */
+  flankTimer: number = 0;
+
+  /** Time until the next behavior re-evaluation */
+  decisionTimer: number = 0;
+
+  /** Smoothed path to the current movement goal */
+  path: THREE.Vector3[] = [];
+
+  /** Index of the next path waypoint */
+  pathIndex: number = 0;
+
+  /** Goal the current path was planned toward */
+  pathGoal: THREE.Vector3 | null = null;
+
+  /** Time until the path is refreshed */
+  repathTimer: number = 0;
+
+  /** Input snapshot built each tick */
+  snapshot: InputSnapshot = InputComponent.createEmptySnapshot();
+
+  constructor(profile: AIProfile, patrolRoute: THREE.Vector3[]) {
+    this.profile = profile;
+    this.patrolRoute = patrolRoute;
+  }
+}
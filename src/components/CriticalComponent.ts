@@ -0,0 +1,73 @@
+import type { Component } from '../core/Component';
+import type { ArmorZones, CriticalSlotKind } from '../types';
+
+/**
+ * A single critical slot inside a zone
+ */
+export interface CriticalSlot {
+  kind: CriticalSlotKind;
+  /** Weapon slot number (weapon criticals only) */
+  weaponSlot?: number;
+  destroyed: boolean;
+}
+
+/** Maximum number of entries kept in the critical hit log */
+const MAX_LOG_ENTRIES = 6;
+
+/**
+ * Critical component tracks internal components that can be knocked out
+ * once damage gets through armor into internal structure.
+ */
+export class CriticalComponent implements Component {
+  static readonly type = 'Critical';
+  readonly type = CriticalComponent.type;
+
+  /** Critical slots per zone */
+  slots: Record<keyof ArmorZones, CriticalSlot[]>;
+
+  /** Heat sinks fitted at build time (each carries an equal share of dissipation) */
+  readonly heatSinkCount: number;
+
+  /** Number of engine criticals taken */
+  engineHits: number = 0;
+
+  /** Recent critical hit reports, most recent last */
+  log: string[] = [];
+
+  constructor(slots: Record<keyof ArmorZones, CriticalSlot[]>) {
+    this.slots = slots;
+    this.heatSinkCount = Object.values(slots)
+      .flat()
+      .filter((s) => s.kind === 'heatSink').length;
+  }
+
+  /**
+   * Pick a random intact slot in a zone, or undefined if nothing is left
+   */
+  pickIntactSlot(
+    zone: keyof ArmorZones,
+    random: () => number = Math.random
+  ): CriticalSlot | undefined {
+    const intact = this.slots[zone].filter((s) => !s.destroyed);
+    if (intact.length === 0) return undefined;
+    return intact[Math.floor(random() * intact.length)];
+  }
+
+  /**
+   * Count destroyed slots of a kind in a zone
+   */
+  countDestroyed(zone: keyof ArmorZones, kind: CriticalSlotKind): number {
+    return this.slots[zone].filter((s) => s.kind === kind && s.destroyed)
+      .length;
+  }
+
+  /**
+   * Add a critical hit report to the log
+   */
+  record(entry: string): void {
+    this.log.push(entry);
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.shift();
+    }
+  }
+}
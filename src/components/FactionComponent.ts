@@ -0,0 +1,38 @@
+import type { Component } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import type { FactionId, FactionRelation } from '../types';
+import { getFactionRelation } from '../config/FactionConfig';
+
+/**
+ * Faction component marks which side an entity fights for.
+ * Entities without one are treated as neutral.
+ */
+export class FactionComponent implements Component {
+  static readonly type = 'Faction';
+  readonly type = FactionComponent.type;
+
+  faction: FactionId;
+
+  constructor(faction: FactionId) {
+    this.faction = faction;
+  }
+
+  /**
+   * How entity `from` regards entity `to`
+   */
+  static relationBetween(from: Entity, to: Entity): FactionRelation {
+    const a = from.getComponent(FactionComponent)?.faction ?? 'neutral';
+    const b = to.getComponent(FactionComponent)?.faction ?? 'neutral';
+    return getFactionRelation(a, b);
+  }
+
+  /**
+   * Whether entity `from` should shoot at entity `to`
+   */
+  static isHostile(from: Entity, to: Entity): boolean {
+    return (
+      from.id !== to.id &&
+      FactionComponent.relationBetween(from, to) === 'hostile'
+    );
+  }
+}
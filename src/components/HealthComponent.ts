@@ -1,8 +1,33 @@
 import type { Component } from '../core/Component';
 import type { ArmorZones } from '../types';
 
+/** Default for entities without internal structure (turrets, targets) */
+const NO_STRUCTURE: ArmorZones = {
+  head: 0,
+  torso: 0,
+  leftArm: 0,
+  rightArm: 0,
+  leftLeg: 0,
+  rightLeg: 0,
+};
+
+/**
+ * Result of applying damage to a zone
+ */
+export interface DamageResult {
+  /** Damage absorbed by armor */
+  armorDamage: number;
+  /** Damage that got through armor into internal structure */
+  structureDamage: number;
+  /** True if this hit destroyed the zone */
+  zoneDestroyed: boolean;
+  /** Damage left over once the zone had nothing more to absorb it */
+  overflow: number;
+}
+
 /**
  * Health component for entities with armor zones.
+ * Armor is stripped first, then damage goes into internal structure.
  */
 export class HealthComponent implements Component {
   static readonly type = 'Health';
@@ -14,20 +39,65 @@ export class HealthComponent implements Component {
   /** Base (maximum) armor values for each zone */
   baseArmor: ArmorZones;
 
-  constructor(baseArmor: ArmorZones) {
+  /** Current internal structure for each zone */
+  structure: ArmorZones;
+
+  /** Base (maximum) internal structure for each zone */
+  baseStructure: ArmorZones;
+
+  /** Entity that last damaged this one (kill attribution) */
+  lastAttackerId: string | null = null;
+
+  /** Set when destroyed by something other than zone loss (e.g. engine explosion) */
+  private forcedDestroyed: boolean = false;
+
+  constructor(baseArmor: ArmorZones, baseStructure: ArmorZones = NO_STRUCTURE) {
     this.baseArmor = { ...baseArmor };
     this.armor = { ...baseArmor };
+    this.baseStructure = { ...baseStructure };
+    this.structure = { ...baseStructure };
   }
 
   /**
-   * Apply damage to a specific zone
+   * Apply damage to a specific zone - armor first, remainder to structure
    */
-  takeDamage(zone: keyof ArmorZones, amount: number): boolean {
-    const previousValue = this.armor[zone];
-    this.armor[zone] = Math.max(0, this.armor[zone] - amount);
+  takeDamage(zone: keyof ArmorZones, amount: number): DamageResult {
+    const wasDestroyed = this.isZoneDestroyed(zone);
+
+    const armorDamage = Math.min(this.armor[zone], amount);
+    this.armor[zone] -= armorDamage;
+
+    const structureDamage = Math.min(
+      this.structure[zone],
+      amount - armorDamage
+    );
+    this.structure[zone] -= structureDamage;
+
+    return {
+      armorDamage,
+      structureDamage,
+      zoneDestroyed: !wasDestroyed && this.isZoneDestroyed(zone),
+      overflow: amount - armorDamage - structureDamage,
+    };
+  }
+
+  /**
+   * Apply damage straight to internal structure, bypassing armor (e.g. ammo explosions).
+   * Zones without structure take it on armor instead.
+   */
+  takeInternalDamage(zone: keyof ArmorZones, amount: number): DamageResult {
+    if (this.baseStructure[zone] <= 0) return this.takeDamage(zone, amount);
+
+    const wasDestroyed = this.isZoneDestroyed(zone);
+    const structureDamage = Math.min(this.structure[zone], amount);
+    this.structure[zone] -= structureDamage;
 
-    // Return true if zone was destroyed
-    return previousValue > 0 && this.armor[zone] <= 0;
+    return {
+      armorDamage: 0,
+      structureDamage,
+      zoneDestroyed: !wasDestroyed && this.isZoneDestroyed(zone),
+      overflow: amount - structureDamage,
+    };
   }
 
   /**
@@ -38,21 +108,63 @@ export class HealthComponent implements Component {
   }
 
   /**
-   * Check if entity is destroyed (head or torso at 0, only if they had armor)
+   * Get internal structure percentage for a zone (0-100)
+   */
+  getStructurePercentage(zone: keyof ArmorZones): number {
+    if (this.baseStructure[zone] <= 0) return 0;
+    return (this.structure[zone] / this.baseStructure[zone]) * 100;
+  }
+
+  /**
+   * Check if a zone is destroyed.
+   * Zones with structure fall when it is gone; otherwise when armor is depleted
+   * (only if the zone had armor to begin with).
+   */
+  isZoneDestroyed(zone: keyof ArmorZones): boolean {
+    if (this.baseStructure[zone] > 0) {
+      return this.structure[zone] <= 0;
+    }
+    return this.baseArmor[zone] > 0 && this.armor[zone] <= 0;
+  }
+
+  /**
+   * Check if entity is destroyed (head or torso destroyed)
    */
   isDestroyed(): boolean {
-    // Only consider a zone destroyed if it had base armor and is now depleted
-    const headDestroyed = this.baseArmor.head > 0 && this.armor.head <= 0;
-    const torsoDestroyed = this.baseArmor.torso > 0 && this.armor.torso <= 0;
-    return headDestroyed || torsoDestroyed;
+    return (
+      this.forcedDestroyed ||
+      this.isZoneDestroyed('head') ||
+      this.isZoneDestroyed('torso')
+    );
+  }
+
+  /**
+   * Destroy the entity outright regardless of remaining armor
+   */
+  destroy(): void {
+    this.forcedDestroyed = true;
+  }
+
+  /**
+   * Scale base and current armor and structure (e.g. for tougher enemies)
+   */
+  scale(multiplier: number): void {
+    for (const zone of Object.keys(this.baseArmor) as (keyof ArmorZones)[]) {
+      this.baseArmor[zone] *= multiplier;
+      this.armor[zone] *= multiplier;
+      this.baseStructure[zone] *= multiplier;
+      this.structure[zone] *= multiplier;
+    }
   }
 
   /**
-   * Get total remaining armor percentage
+   * Get total remaining armor and structure percentage
    */
   getTotalArmorPercentage(): number {
-    const totalCurrent = Object.values(this.armor).reduce((a, b) => a + b, 0);
-    const totalBase = Object.values(this.baseArmor).reduce((a, b) => a + b, 0);
+    const sum = (zones: ArmorZones) =>
+      Object.values(zones).reduce((a, b) => a + b, 0);
+    const totalCurrent = sum(this.armor) + sum(this.structure);
+    const totalBase = sum(this.baseArmor) + sum(this.baseStructure);
     return (totalCurrent / totalBase) * 100;
   }
 }
@@ -1,5 +1,6 @@
 import type { Component } from '../core/Component';
 import { HEAT_CONFIG } from '../config/HeatConfig';
+import type { HeatStage } from '../config/HeatConfig';
 
 /**
  * Heat component for entities with heat management.
@@ -17,18 +18,24 @@ export class HeatComponent implements Component {
   /** Heat dissipation rate per second */
   dissipationRate: number;
 
-  /** Whether the entity is in overheat state */
+  /** Shut down from overheating: no movement, torso control or firing until restart */
   isOverheated: boolean = false;
 
+  /** Shutdown override engaged: keeps running past the shutdown threshold at the cost of internal damage */
+  overrideEngaged: boolean = false;
+
+  /** Seconds until the next override damage pulse */
+  overrideDamageTimer: number = HEAT_CONFIG.OVERRIDE.damageInterval;
+
+  /** Last heat stage reported by HeatSystem */
+  stage: HeatStage = 'normal';
+
   /** Heat level at which warning triggers (uses centralized HEAT_CONFIG) */
   warningThreshold: number;
 
   /** Heat level at which shutdown triggers (uses centralized HEAT_CONFIG) */
   shutdownThreshold: number;
 
-  /** Track if warning was already triggered this frame */
-  warningTriggered: boolean = false;
-
   constructor(max: number, dissipationRate: number) {
     this.max = max;
     this.dissipationRate = dissipationRate;
@@ -38,15 +45,10 @@ export class HeatComponent implements Component {
   }
 
   /**
-   * Add heat to the system
+   * Add heat to the system (HeatSystem handles shutdown)
    */
   addHeat(amount: number): void {
     this.current = Math.min(this.max, this.current + amount);
-
-    // Check overheat
-    if (this.current >= this.shutdownThreshold && !this.isOverheated) {
-      this.isOverheated = true;
-    }
   }
 
   /**
@@ -70,6 +72,19 @@ export class HeatComponent implements Component {
     return this.current >= this.warningThreshold;
   }
 
+  /**
+   * Current heat stage (see HeatStage)
+   */
+  getStage(): HeatStage {
+    if (this.isOverheated) return 'shutdown';
+    // Only reachable with the override engaged
+    if (this.current >= this.shutdownThreshold) return 'override';
+    if (this.current >= this.max * HEAT_CONFIG.AMMO_COOKOFF.threshold) {
+      return 'cookoff';
+    }
+    return this.isWarning() ? 'warning' : 'normal';
+  }
+
   /**
    * Check if a heat-generating action can be performed
    */
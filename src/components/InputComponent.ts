@@ -18,6 +18,12 @@ export class InputComponent implements Component {
   /** Previous frame's fire state (for semi-auto weapons) */
   wasFiring: boolean = false;
 
+  /** Previous frame's alpha strike state (fires once per press) */
+  wasAlphaStriking: boolean = false;
+
+  /** When false, systems receive an empty snapshot (e.g. pilot is dead) */
+  enabled: boolean = true;
+
   constructor(isLocalPlayer: boolean = true) {
     this.isLocalPlayer = isLocalPlayer;
   }
@@ -45,6 +51,9 @@ export class InputComponent implements Component {
       mouseDeltaX: 0,
       mouseDeltaY: 0,
       weaponSlot: 1,
+      weaponGroup: 0,
+      alphaStrike: false,
+      shutdownOverride: false,
     };
   }
 }
@@ -0,0 +1,27 @@
+import type { Component } from '../core/Component';
+
+/**
+ * Pickup component for collectible objective items.
+ * Collected when the player walks within range.
+ */
+export class PickupComponent implements Component {
+  static readonly type = 'Pickup';
+  readonly type = PickupComponent.type;
+
+  /** Collect objective this pickup counts toward */
+  objectiveId: string;
+
+  /** Horizontal distance at which the player collects it */
+  radius: number;
+
+  /** Set once collected (entity removal is deferred) */
+  collected: boolean = false;
+
+  /** Animation clock for spin and bob */
+  time: number = 0;
+
+  constructor(objectiveId: string, radius: number) {
+    this.objectiveId = objectiveId;
+    this.radius = radius;
+  }
+}
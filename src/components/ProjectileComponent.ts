@@ -15,6 +15,9 @@ export class ProjectileComponent implements Component {
   /** Damage dealt on impact */
   damage: number;
 
+  /** Difficulty damage scale for the shooter, fixed when fired */
+  damageMultiplier: number = 1;
+
   /** Maximum range before despawn */
   range: number;
 
@@ -30,6 +33,18 @@ export class ProjectileComponent implements Component {
   /** Time accumulator for PPC sparkle animation */
   sparkleTime: number = 0;
 
+  /** Entity a guided missile homes on (null once flying dumb-fire) */
+  targetId: string | null = null;
+
+  /** Distance flown before the projectile arms and can deal damage */
+  armingRange: number = 0;
+
+  /** Downward acceleration (m/s²) */
+  gravity: number = 0;
+
+  /** Splash damage radius on impact (0 = direct hits only) */
+  splashRadius: number = 0;
+
   constructor(
     weaponType: WeaponType,
     damage: number,
@@ -51,6 +66,13 @@ export class ProjectileComponent implements Component {
     return this.distanceTraveled >= this.range;
   }
 
+  /**
+   * Check if the projectile has flown far enough to deal damage
+   */
+  isArmed(): boolean {
+    return this.distanceTraveled >= this.armingRange;
+  }
+
   /**
    * Move the projectile by velocity * dt
    * @returns Distance moved
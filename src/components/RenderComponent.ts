@@ -10,6 +10,8 @@ export interface AnimatableModel {
   resetPose?(): void;
   setTorsoRotation?(yaw: number): void;
   setHeadPitch?(pitch: number): void;
+  setLimp?(side: 'left' | 'right' | null): void;
+  setCollapse?(progress: number): void;
   dispose?(): void;
 }
 
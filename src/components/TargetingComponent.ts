@@ -1,4 +1,5 @@
 import type { Component } from '../core/Component';
+import type { FactionRelation } from '../types';
 
 /**
  * Targeting component for tracking and locking enemies.
@@ -22,12 +23,27 @@ export class TargetingComponent implements Component {
   /** Screen positions of detected targets (updated by system) */
   targetScreenPositions: Map<
     string,
-    { x: number; y: number; distance: number; healthPercent: number }
+    {
+      x: number;
+      y: number;
+      distance: number;
+      healthPercent: number;
+      relation: FactionRelation;
+    }
   > = new Map();
 
   /** Whether the locked target is visible on screen */
   lockedTargetVisible: boolean = false;
 
+  /** Seconds a missile lock takes (0 when no guided weapon is mounted) */
+  missileLockTime: number = 0;
+
+  /** Seconds spent acquiring a missile lock on the current target */
+  missileLockProgress: number = 0;
+
+  /** Target the missile lock is being acquired on */
+  missileLockTargetId: string | null = null;
+
   constructor(detectionRange: number = 150) {
     this.detectionRange = detectionRange;
   }
@@ -91,6 +107,26 @@ export class TargetingComponent implements Component {
     return this.lockedTargetId !== null;
   }
 
+  /**
+   * Check if guided missiles would home on the locked target
+   */
+  hasMissileLock(): boolean {
+    return (
+      this.missileLockTime > 0 &&
+      this.missileLockTargetId !== null &&
+      this.missileLockTargetId === this.lockedTargetId &&
+      this.missileLockProgress >= this.missileLockTime
+    );
+  }
+
+  /**
+   * Drop any missile lock in progress
+   */
+  resetMissileLock(): void {
+    this.missileLockProgress = 0;
+    this.missileLockTargetId = null;
+  }
+
   /**
    * Update detected targets list
    */
@@ -28,14 +28,30 @@ export class TurretComponent implements Component {
   /** Time since last target check (for optimization) */
   lastTargetCheckTime: number = 0;
 
+  /** Minimum seconds between shots (before difficulty scaling) */
+  fireInterval: number;
+
+  /** Aim spread cone half-angle in radians (before difficulty scaling) */
+  spread: number;
+
+  /** Time remaining until the turret may fire again */
+  fireCooldown: number = 0;
+
+  /** Whether the turret has a clear line of fire to its target */
+  hasLineOfSight: boolean = false;
+
   constructor(
     detectionRange: number = 100,
     rotationSpeed: number = 1.5,
-    aimTolerance: number = 0.1
+    aimTolerance: number = 0.1,
+    fireInterval: number = 0.6,
+    spread: number = 0.04
   ) {
     this.detectionRange = detectionRange;
     this.rotationSpeed = rotationSpeed;
     this.aimTolerance = aimTolerance;
+    this.fireInterval = fireInterval;
+    this.spread = spread;
   }
 
   /**
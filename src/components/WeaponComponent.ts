@@ -1,47 +1,20 @@
 import * as THREE from 'three';
 import type { Component } from '../core/Component';
-import type { HardpointConfig, WeaponConfig, WeaponType } from '../types';
+import type {
+  ArmorZones,
+  HardpointConfig,
+  WeaponConfig,
+  WeaponGroup,
+  WeaponType,
+} from '../types';
+import { WEAPON_TYPES, getWeaponEntry } from '../config/WeaponCatalog';
 
 /**
- * Weapon configuration with defaults
+ * Weapon configuration with defaults, derived from WEAPON_CATALOG
  */
-export const WEAPON_CONFIGS: Record<WeaponType, WeaponConfig> = {
-  laser: {
-    type: 'laser',
-    damage: 15,
-    heatGenerated: 8,
-    cooldown: 0.5,
-    projectileSpeed: 0, // Instant hitscan
-    range: 400,
-  },
-  ppc: {
-    type: 'ppc',
-    damage: 35,
-    heatGenerated: 20,
-    cooldown: 2.0,
-    projectileSpeed: 300,
-    range: 500,
-  },
-  missile: {
-    type: 'missile',
-    damage: 8,
-    heatGenerated: 0,
-    cooldown: 0,
-    projectileSpeed: 100,
-    range: 600,
-    ammo: 16,
-    semiAuto: true,
-  },
-  autocannon: {
-    type: 'autocannon',
-    damage: 20,
-    heatGenerated: 0,
-    cooldown: 0.1,
-    projectileSpeed: 400,
-    range: 350,
-    ammo: 500,
-  },
-};
+export const WEAPON_CONFIGS = Object.fromEntries(
+  WEAPON_TYPES.map((type) => [type, { type, ...getWeaponEntry(type).stats }])
+) as Record<WeaponType, WeaponConfig>;
 
 /**
  * Individual weapon state
@@ -52,6 +25,12 @@ export interface Weapon {
   cooldownRemaining: number;
   ammo?: number;
   position: THREE.Vector3;
+  /** Armor zone the weapon is mounted in */
+  zone: keyof ArmorZones;
+  /** True once the mounting zone has been destroyed */
+  destroyed: boolean;
+  /** Extra firing-cone half-angle built up by sustained fire (radians) */
+  bloom: number;
 }
 
 /**
@@ -67,6 +46,18 @@ export class WeaponComponent implements Component {
   /** Currently selected weapon slot */
   selectedSlot: number = 1;
 
+  /** Weapon groups; group numbers are 1-based indexes into this list */
+  groups: WeaponGroup[] = [];
+
+  /** Selected weapon group (0 fires the selected slot alone) */
+  selectedGroup: number = 0;
+
+  /** Position in the selected group's chain-fire cycle */
+  chainIndex: number = 0;
+
+  /** Seconds until a chain-fire group can fire its next weapon */
+  chainCooldown: number = 0;
+
   constructor(hardpoints: HardpointConfig[]) {
     this.weapons = hardpoints.map((hp) => {
       const config = WEAPON_CONFIGS[hp.weaponType];
@@ -80,6 +71,9 @@ export class WeaponComponent implements Component {
           hp.position.y,
           hp.position.z
         ),
+        zone: hp.zone,
+        destroyed: false,
+        bloom: 0,
       };
     });
   }
@@ -110,21 +104,105 @@ export class WeaponComponent implements Component {
     return false;
   }
 
+  /**
+   * Get a weapon group by its 1-based number
+   */
+  getGroup(group: number): WeaponGroup | undefined {
+    return group > 0 ? this.groups[group - 1] : undefined;
+  }
+
+  /**
+   * Get the selected weapon group, if one is selected
+   */
+  getSelectedGroup(): WeaponGroup | undefined {
+    return this.getGroup(this.selectedGroup);
+  }
+
+  /**
+   * Select a weapon group (0 deselects). Empty groups can't be selected.
+   */
+  selectGroup(group: number): boolean {
+    if (group !== 0 && !this.getGroup(group)?.slots.length) return false;
+    this.selectedGroup = group;
+    this.chainIndex = 0;
+    return true;
+  }
+
+  /**
+   * 1-based numbers of the groups a slot belongs to
+   */
+  getGroupsForSlot(slot: number): number[] {
+    return this.groups.flatMap((group, index) =>
+      group.slots.includes(slot) ? [index + 1] : []
+    );
+  }
+
+  /**
+   * Next weapon in the selected group's chain that can fire, without
+   * advancing the chain. Returns undefined if none is ready.
+   */
+  nextChainSlot(): number | undefined {
+    const slots = this.getSelectedGroup()?.slots ?? [];
+    for (let i = 0; i < slots.length; i++) {
+      const slot = slots[(this.chainIndex + i) % slots.length];
+      if (this.canFire(slot)) return slot;
+    }
+    return undefined;
+  }
+
+  /**
+   * Advance the selected group's chain past a weapon that fired.
+   * Returns false if the slot isn't in a selected chain-fire group.
+   */
+  advanceChain(slot: number): boolean {
+    const group = this.getSelectedGroup();
+    const index = group?.chainFire ? group.slots.indexOf(slot) : -1;
+    if (index < 0) return false;
+    this.chainIndex = (index + 1) % group!.slots.length;
+    return true;
+  }
+
   /**
    * Check if a weapon can fire (not on cooldown, has ammo)
    */
   canFire(slot: number): boolean {
     const weapon = this.getWeapon(slot);
     if (!weapon) return false;
+    if (weapon.destroyed) return false;
     if (weapon.cooldownRemaining > 0) return false;
     if (weapon.ammo !== undefined && weapon.ammo <= 0) return false;
     return true;
   }
 
+  /**
+   * Disable all weapons mounted in a destroyed zone.
+   * Returns the weapons that were lost by this call.
+   */
+  destroyZone(zone: keyof ArmorZones): Weapon[] {
+    const lost = this.weapons.filter((w) => w.zone === zone && !w.destroyed);
+    for (const weapon of lost) {
+      this.destroyWeapon(weapon.slot);
+    }
+    return lost;
+  }
+
+  /**
+   * Knock out a single weapon (critical hit).
+   * Returns false if the weapon was missing or already destroyed.
+   */
+  destroyWeapon(slot: number): boolean {
+    const weapon = this.getWeapon(slot);
+    if (!weapon || weapon.destroyed) return false;
+    weapon.destroyed = true;
+    weapon.cooldownRemaining = 0;
+    return true;
+  }
+
   /**
    * Update weapon cooldowns
    */
   updateCooldowns(dt: number): void {
+    this.chainCooldown = Math.max(0, this.chainCooldown - dt);
     for (const weapon of this.weapons) {
       if (weapon.cooldownRemaining > 0) {
         weapon.cooldownRemaining = Math.max(0, weapon.cooldownRemaining - dt);
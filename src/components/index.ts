@@ -7,7 +7,14 @@ export { WeaponComponent, WEAPON_CONFIGS } from './WeaponComponent';
 export type { Weapon } from './WeaponComponent';
 export { HeatComponent } from './HeatComponent';
 export { HealthComponent } from './HealthComponent';
+export type { DamageResult } from './HealthComponent';
+export { CriticalComponent } from './CriticalComponent';
+export type { CriticalSlot } from './CriticalComponent';
 export { InputComponent } from './InputComponent';
 export { ProjectileComponent } from './ProjectileComponent';
 export { TurretComponent } from './TurretComponent';
+export { AIControllerComponent } from './AIControllerComponent';
+export type { AIBehavior } from './AIControllerComponent';
 export { TargetingComponent } from './TargetingComponent';
+export { FactionComponent } from './FactionComponent';
+export { PickupComponent } from './PickupComponent';
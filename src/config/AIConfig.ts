@@ -0,0 +1,73 @@
+/**
+ * Tunable parameters for an AI mech pilot.
+ * Maps and missions can override any of these (MapConfig.ai, EnemyMechSpawn.ai).
+ */
+export interface AIProfile {
+  /** Distance at which the AI notices hostile units (meters) */
+  detectionRange: number;
+  /** Closest the AI wants to be to its target - backs off inside this */
+  engageRangeMin: number;
+  /** Furthest the AI wants to be from its target - closes in beyond this */
+  engageRangeMax: number;
+  /** Chance per decision to start a flanking run while engaging (0-1) */
+  flankChance: number;
+  /** Lateral offset of the flanking point from the target (meters) */
+  flankDistance: number;
+  /** Longest a single flanking run lasts (seconds) */
+  flankDuration: number;
+  /** Heat fraction at which the AI backs off to cool down */
+  retreatHeat: number;
+  /** Heat fraction at which a cooling AI returns to the fight */
+  resumeHeat: number;
+  /** Total armor fraction below which the AI falls back */
+  retreatArmor: number;
+  /** Distance the AI tries to keep from its target while retreating (meters) */
+  retreatDistance: number;
+  /** Highest heat fraction the AI will accept after firing a weapon */
+  maxFiringHeat: number;
+  /** Torso aim error allowed before firing (radians) */
+  fireTolerance: number;
+  /** Seconds between behavior re-evaluations */
+  decisionInterval: number;
+  /** Patrol loop radius around the spawn point when no route is given (meters) */
+  patrolRadius: number;
+}
+
+/**
+ * AI configuration - single source of truth for enemy mech behavior defaults.
+ */
+export const AI_CONFIG = {
+  /** Baseline pilot used when a map or mission gives no overrides */
+  DEFAULT_PROFILE: {
+    detectionRange: 150,
+    engageRangeMin: 40,
+    engageRangeMax: 110,
+    flankChance: 0.25,
+    flankDistance: 60,
+    flankDuration: 6,
+    retreatHeat: 0.8,
+    resumeHeat: 0.45,
+    retreatArmor: 0.3,
+    retreatDistance: 160,
+    maxFiringHeat: 0.75,
+    fireTolerance: 0.08,
+    decisionInterval: 1.0,
+    patrolRadius: 40,
+  } as AIProfile,
+
+  /** Leg steering settings */
+  STEERING: {
+    /** Heading error below which the AI stops turning (radians) */
+    turnTolerance: 0.08,
+    /** Heading error below which the AI walks while turning (radians) */
+    driveAngle: 0.6,
+    /** Distance at which a patrol waypoint or flank point counts as reached (meters) */
+    arrivalRadius: 8,
+  },
+
+  /** Targets further than detectionRange times this are forgotten */
+  LOSE_TARGET_MULTIPLIER: 1.5,
+
+  /** Weapon choice - score = damage - heatGenerated * heat fraction * heatPenalty */
+  WEAPON_HEAT_PENALTY: 4,
+} as const;
@@ -18,6 +18,32 @@ export const ANIMATION_CONFIG = {
     armCounterSwing: 0.4,
   },
 
+  /** Limp overlay when a leg zone is destroyed */
+  LIMP: {
+    /** Swing multiplier for the destroyed leg (drags stiffly) */
+    damagedLegSwing: 0.3,
+    /** Torso drop while weight is on the destroyed leg */
+    dipAmount: 0.25,
+    /** Constant lean toward the destroyed leg (radians) */
+    leanAngle: 0.03,
+    /** Extra lean while weight is on the destroyed leg (radians) */
+    hitchAngle: 0.06,
+  },
+
+  /** Collapse pose when a mech is destroyed (applied at full progress) */
+  COLLAPSE: {
+    /** Outward leg splay (radians) */
+    legSplay: 0.35,
+    /** Torso drop toward the ground */
+    torsoDrop: 2.5,
+    /** Forward torso slump (radians) */
+    torsoPitch: 0.6,
+    /** Arm droop (radians) */
+    armDroop: 0.9,
+    /** Head slump (radians) */
+    headSlump: 0.4,
+  },
+
   /** Torso base Y position */
   TORSO_BASE_Y: 5.5,
 
@@ -32,6 +32,18 @@ export const CAMERA_CONFIG = {
     lookDistance: 100,
   },
 
+  /** Death camera orbiting the player's wreck */
+  DEATH: {
+    /** Orbit radius around the wreck */
+    distance: 30,
+    /** Height above the wreck */
+    height: 14,
+    /** Height of the look-at target */
+    lookAtHeight: 3,
+    /** Orbit speed in radians per second */
+    orbitSpeed: 0.35,
+  },
+
   /** Camera transition settings */
   TRANSITION: {
     /** Duration of camera mode transitions in seconds */
@@ -0,0 +1,48 @@
+/**
+ * Comms channel configuration - single source of truth for message timing,
+ * queueing, speaker portraits and the automatic alerts fed into the channel.
+ * Scripted mission messages live in MissionConfig.triggers.
+ */
+export const COMMS_CONFIG = {
+  /** Base seconds on screen per priority */
+  DURATION: {
+    low: 3,
+    normal: 4,
+    high: 5,
+    critical: 6,
+  },
+  /** Extra seconds per character so long lines stay readable */
+  readingTimePerChar: 0.04,
+  /** Messages waiting behind the current one; the lowest priority is dropped */
+  maxQueue: 4,
+  /** Minimum seconds between repeats of the same automatic alert */
+  alertCooldown: 10,
+
+  /** Portrait glyphs and colors per speaker */
+  SPEAKERS: {
+    COMMAND: { portrait: '◆', color: '#00ff88' },
+    BETTY: { portrait: '◉', color: '#ffaa00' },
+  } as Record<string, { portrait: string; color: string }>,
+  /** Speakers not listed above */
+  DEFAULT_SPEAKER: { portrait: '▣', color: '#88aacc' },
+
+  /** Automatic alerts */
+  ALERTS: {
+    /** Onboard computer voicing heat and damage alerts */
+    systemSpeaker: 'BETTY',
+    /** Mission control voicing objective updates */
+    commandSpeaker: 'COMMAND',
+    /** Protected assets below this integrity (%) raise a warning */
+    protectIntegrity: 50,
+    /** Mission time limits raise a warning at this many seconds left */
+    timeRemaining: 30,
+  },
+
+  /** Radio chirp volume per priority */
+  CHIRP_VOLUME: {
+    low: 0.5,
+    normal: 0.7,
+    high: 0.85,
+    critical: 1,
+  },
+} as const;
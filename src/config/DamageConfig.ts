@@ -0,0 +1,83 @@
+import type { ArmorZones, CriticalSlotKind } from '../types';
+
+/**
+ * Damage configuration - single source of truth for internal structure and critical hits.
+ */
+export const DAMAGE_CONFIG = {
+  /** Critical hit rolls made when damage reaches internal structure */
+  CRITICAL_CHANCE: {
+    /** Chance of a critical on any hit that damages structure */
+    base: 0.2,
+    /** Extra chance per point of structure damage in the hit */
+    perDamage: 0.01,
+    /** Upper bound on the chance for a single hit */
+    max: 0.75,
+  },
+
+  /**
+   * Standard critical slots per zone. Weapon slots are appended from the
+   * mech's hardpoints when the mech is built.
+   */
+  CRITICAL_LAYOUT: {
+    head: [],
+    torso: ['engine', 'engine', 'engine', 'heatSink', 'heatSink'],
+    leftArm: ['actuator', 'actuator'],
+    rightArm: ['actuator', 'actuator'],
+    leftLeg: ['actuator', 'actuator', 'heatSink'],
+    rightLeg: ['actuator', 'actuator', 'heatSink'],
+  } as Record<keyof ArmorZones, readonly CriticalSlotKind[]>,
+
+  /** Engine critical effects */
+  ENGINE: {
+    /** Heat added per second for each engine hit */
+    heatPerHitPerSecond: 2,
+    /** Engine hits that destroy the mech */
+    maxHits: 3,
+  },
+
+  /** Actuator critical effects (multipliers applied per actuator lost) */
+  ACTUATOR: {
+    /** Leg actuators - speed multiplier */
+    legSpeedMultiplier: 0.8,
+    /** Leg actuators - turn rate multiplier */
+    legTurnRateMultiplier: 0.85,
+    /** Arm actuators - cooldown multiplier for weapons in that arm */
+    armCooldownMultiplier: 1.3,
+  },
+
+  /** Mech destruction sequence timings */
+  DESTRUCTION: {
+    /** Seconds for the wreck to collapse */
+    collapseDuration: 1.6,
+    /** Seconds after destruction before the reactor explodes */
+    explosionDelay: 1.2,
+    /** Seconds the death camera shows the player's wreck before defeat */
+    deathCameraDuration: 4.0,
+    /** Seconds an AI wreck remains before it is removed */
+    wreckDuration: 8.0,
+  },
+
+  /** Reactor explosion visual */
+  EXPLOSION: {
+    /** Final fireball radius (meters) */
+    radius: 9,
+    /** Fireball lifetime (seconds) */
+    duration: 1.0,
+    /** Fireball color */
+    color: 0xff7722,
+    /** Peak flash light intensity */
+    lightIntensity: 40,
+    /** Height of the fireball above the mech origin */
+    offsetY: 4,
+  },
+
+  /** Short zone labels for critical hit reports (match the HUD armor diagram) */
+  ZONE_LABELS: {
+    head: 'HD',
+    torso: 'CT',
+    leftArm: 'LA',
+    rightArm: 'RA',
+    leftLeg: 'LL',
+    rightLeg: 'RL',
+  } as Record<keyof ArmorZones, string>,
+} as const;
@@ -0,0 +1,254 @@
+import type { ArmorZones, MechConfig, WeaponType } from '../types';
+import type { DifficultyLevel, MissionConfig } from './missions/MissionConfig';
+import { getWeaponEntry } from './WeaponCatalog';
+
+/** What a destroyed entity counts as for bounties */
+export type KillType = 'mech' | 'turret' | 'target';
+
+/**
+ * Damage an owned mech carries between campaign missions
+ */
+export interface MechDamageState {
+  /** Remaining armor per zone */
+  armor: ArmorZones;
+  /** Remaining internal structure per zone */
+  structure: ArmorZones;
+  /** Hardpoint slots whose weapons were destroyed */
+  destroyedWeapons: number[];
+}
+
+/**
+ * One line of a mission payout (negative amounts are charges)
+ */
+export interface PayoutLine {
+  label: string;
+  amount: number;
+}
+
+/**
+ * C-bills and salvage earned by a mission
+ */
+export interface MissionPayout {
+  lines: PayoutLine[];
+  total: number;
+  /** Weapons recovered from destroyed enemy mechs */
+  salvage: WeaponType[];
+}
+
+/**
+ * Price of repairing a damaged mech
+ */
+export interface RepairEstimate {
+  total: number;
+  /** Spare weapons the repair fits instead of buying new ones */
+  sparesUsed: WeaponType[];
+}
+
+/**
+ * Campaign economy configuration - single source of truth for C-bill
+ * rewards, salvage, repair costs and chassis prices. Weapon prices come
+ * from WEAPON_CATALOG.
+ */
+export const ECONOMY_CONFIG = {
+  /** C-bills a new campaign starts with */
+  startingCBills: 100000,
+
+  /** Paid for completing a mission (MissionConfig.reward overrides) */
+  missionReward: 50000,
+  /** Paid for finishing under MissionConfig.parTime */
+  parTimeBonus: 20000,
+  /** Paid per completed optional objective */
+  bonusObjectiveReward: 15000,
+
+  /** Paid per entity the player destroys */
+  KILL_BOUNTY: {
+    mech: 25000,
+    turret: 8000,
+    target: 2000,
+  } as Record<KillType, number>,
+
+  /** Multiplier on every reward per difficulty */
+  DIFFICULTY_MULTIPLIER: {
+    easy: 0.75,
+    normal: 1,
+    hard: 1.25,
+    veteran: 1.5,
+  } as Record<DifficultyLevel, number>,
+
+  /** Chance each intact weapon on a destroyed enemy mech is salvaged */
+  salvageChance: 0.35,
+
+  REPAIR: {
+    /** C-bills per armor point restored */
+    armorPoint: 60,
+    /** C-bills per structure point restored */
+    structurePoint: 200,
+    /** Share of the market price paid to replace a destroyed weapon */
+    weaponFactor: 0.5,
+  },
+
+  /** Market price per chassis (chassis not listed can't be bought) */
+  CHASSIS_PRICES: {
+    URBANMECH: 150000,
+    MADCAT: 450000,
+  } as Record<string, number>,
+} as const;
+
+const KILL_LABELS: Record<KillType, string> = {
+  mech: 'Mechs destroyed',
+  turret: 'Turrets destroyed',
+  target: 'Targets destroyed',
+};
+
+const ZONES: Array<keyof ArmorZones> = [
+  'head',
+  'torso',
+  'leftArm',
+  'rightArm',
+  'leftLeg',
+  'rightLeg',
+];
+
+/**
+ * Format an amount as C-bills ("125,000 C")
+ */
+export function formatCBills(amount: number): string {
+  return `${Math.round(amount).toLocaleString('en-US')} C`;
+}
+
+/**
+ * Reward breakdown for a victorious mission
+ */
+export function calculateMissionPayout(
+  mission: MissionConfig,
+  difficulty: DifficultyLevel,
+  timePlayed: number,
+  objectivesCompleted: string[],
+  kills: Record<KillType, number>,
+  salvage: WeaponType[]
+): MissionPayout {
+  const multiplier = ECONOMY_CONFIG.DIFFICULTY_MULTIPLIER[difficulty];
+  const lines: PayoutLine[] = [
+    {
+      label: 'Mission contract',
+      amount: mission.reward ?? ECONOMY_CONFIG.missionReward,
+    },
+  ];
+
+  for (const type of Object.keys(kills) as KillType[]) {
+    if (kills[type] > 0) {
+      lines.push({
+        label: `${KILL_LABELS[type]} ×${kills[type]}`,
+        amount: kills[type] * ECONOMY_CONFIG.KILL_BOUNTY[type],
+      });
+    }
+  }
+
+  const bonusObjectives = mission.objectives.filter(
+    (obj) => !obj.required && objectivesCompleted.includes(obj.id)
+  ).length;
+  if (bonusObjectives > 0) {
+    lines.push({
+      label: `Bonus objectives ×${bonusObjectives}`,
+      amount: bonusObjectives * ECONOMY_CONFIG.bonusObjectiveReward,
+    });
+  }
+
+  if (mission.parTime && timePlayed < mission.parTime) {
+    lines.push({
+      label: 'Par time bonus',
+      amount: ECONOMY_CONFIG.parTimeBonus,
+    });
+  }
+
+  if (multiplier !== 1) {
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    lines.push({
+      label: `Difficulty (${difficulty})`,
+      amount: Math.round(subtotal * (multiplier - 1)),
+    });
+  }
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    salvage,
+  };
+}
+
+/**
+ * Cost of restoring a mech to full armor, structure and weapons.
+ * Destroyed weapons are replaced from spares first.
+ */
+export function calculateRepairCost(
+  damage: MechDamageState,
+  config: MechConfig,
+  spares: Partial<Record<WeaponType, number>>
+): RepairEstimate {
+  const { REPAIR } = ECONOMY_CONFIG;
+  let total = 0;
+
+  for (const zone of ZONES) {
+    total +=
+      Math.max(0, config.baseArmor[zone] - damage.armor[zone]) *
+      REPAIR.armorPoint;
+    total +=
+      Math.max(0, config.baseStructure[zone] - damage.structure[zone]) *
+      REPAIR.structurePoint;
+  }
+
+  const available = { ...spares };
+  const sparesUsed: WeaponType[] = [];
+  for (const slot of damage.destroyedWeapons) {
+    const weaponType = config.hardpoints.find(
+      (hp) => hp.slot === slot
+    )?.weaponType;
+    if (!weaponType) continue;
+
+    if ((available[weaponType] ?? 0) > 0) {
+      available[weaponType]! -= 1;
+      sparesUsed.push(weaponType);
+    } else {
+      total += getWeaponEntry(weaponType).price * REPAIR.weaponFactor;
+    }
+  }
+
+  return { total: Math.round(total), sparesUsed };
+}
+
+/**
+ * Remaining armor and structure as a percentage (0-100)
+ */
+export function getMechCondition(
+  damage: MechDamageState,
+  config: MechConfig
+): number {
+  const sum = (zones: ArmorZones) =>
+    ZONES.reduce((total, zone) => total + zones[zone], 0);
+  const base = sum(config.baseArmor) + sum(config.baseStructure);
+  if (base <= 0) return 100;
+  return ((sum(damage.armor) + sum(damage.structure)) / base) * 100;
+}
+
+/**
+ * Weapons a loadout mounts beyond its chassis' stock loadout; in the
+ * campaign these must be owned as spares
+ */
+export function getNonStockWeapons(
+  config: MechConfig,
+  chassis: MechConfig
+): Partial<Record<WeaponType, number>> {
+  const counts: Partial<Record<WeaponType, number>> = {};
+  for (const hp of config.hardpoints) {
+    counts[hp.weaponType] = (counts[hp.weaponType] ?? 0) + 1;
+  }
+  for (const hp of chassis.hardpoints) {
+    counts[hp.weaponType] = (counts[hp.weaponType] ?? 0) - 1;
+  }
+
+  const extra: Partial<Record<WeaponType, number>> = {};
+  for (const [type, count] of Object.entries(counts)) {
+    if (count > 0) extra[type as WeaponType] = count;
+  }
+  return extra;
+}
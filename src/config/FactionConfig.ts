@@ -0,0 +1,55 @@
+import type { FactionId, FactionRelation } from '../types';
+
+/**
+ * Faction configuration - single source of truth for allegiance.
+ * Targeting, AI, friendly fire and HUD colors all read from here.
+ */
+export const FACTION_CONFIG = {
+  /** How each faction (row) regards each other faction (column) */
+  RELATIONS: {
+    player: {
+      player: 'friendly',
+      allied: 'friendly',
+      enemy: 'hostile',
+      neutral: 'neutral',
+    },
+    allied: {
+      player: 'friendly',
+      allied: 'friendly',
+      enemy: 'hostile',
+      neutral: 'neutral',
+    },
+    enemy: {
+      player: 'hostile',
+      allied: 'hostile',
+      enemy: 'friendly',
+      neutral: 'neutral',
+    },
+    neutral: {
+      player: 'neutral',
+      allied: 'neutral',
+      enemy: 'neutral',
+      neutral: 'neutral',
+    },
+  } as Record<FactionId, Record<FactionId, FactionRelation>>,
+
+  /** Damage multiplier for hits between friendly factions (0 = no friendly fire) */
+  FRIENDLY_FIRE_MULTIPLIER: 0,
+
+  /** HUD bracket and radar colors by relation to the player */
+  HUD_COLORS: {
+    hostile: '#ff4444',
+    friendly: '#44aaff',
+    neutral: '#ffcc00',
+  } as Record<FactionRelation, string>,
+} as const;
+
+/**
+ * Look up how one faction regards another
+ */
+export function getFactionRelation(
+  from: FactionId,
+  to: FactionId
+): FactionRelation {
+  return FACTION_CONFIG.RELATIONS[from][to];
+}
@@ -1,3 +1,18 @@
+/**
+ * Heat stages from coolest to hottest, as reported by HeatSystem:
+ * - warning: above WARNING_THRESHOLD
+ * - cookoff: in the AMMO_COOKOFF band, where ammo can explode
+ * - shutdown: reactor shut down; no movement, torso control or firing
+ * - override: past the shutdown threshold with the override engaged,
+ *   taking internal damage
+ */
+export type HeatStage =
+  | 'normal'
+  | 'warning'
+  | 'cookoff'
+  | 'shutdown'
+  | 'override';
+
 /**
  * Heat system configuration - single source of truth for heat thresholds and behavior.
  */
@@ -10,4 +25,84 @@ export const HEAT_CONFIG = {
 
   /** Heat level (as percentage of max) at which recovery from overheat occurs */
   RECOVERY_THRESHOLD: 0.5,
+
+  /** Speed and turn rate penalty as heat rises */
+  MOVEMENT_PENALTY: {
+    /** Heat level (as percentage of max) where the penalty starts */
+    start: 0.5,
+    /** Speed and turn rate multiplier at the shutdown threshold and above */
+    minMultiplier: 0.5,
+    /** Curve exponent; above 1 the penalty is mild at first and steepens */
+    exponent: 2,
+  },
+
+  /** Ammunition explosions while heat is high */
+  AMMO_COOKOFF: {
+    /** Heat level (as percentage of max) where cook-off risk begins */
+    threshold: 0.8,
+    /** Chance per second per loaded weapon at the threshold */
+    minChancePerSecond: 0.02,
+    /** Chance per second per loaded weapon at the shutdown threshold and above */
+    maxChancePerSecond: 0.2,
+    /** Internal structure damage to the weapon's zone */
+    damage: 20,
+  },
+
+  /** Running past the shutdown threshold with the override engaged */
+  OVERRIDE: {
+    /** Seconds between internal damage pulses */
+    damageInterval: 1,
+    /** Internal structure damage to the torso per pulse */
+    damage: 4,
+  },
+
+  /** Map ambient temperature effect on heat sinks */
+  AMBIENT: {
+    /** Temperature (°C) at which heat sinks dissipate at their rated value */
+    referenceTemperature: 20,
+    /** Dissipation change per degree below (+) or above (-) the reference */
+    dissipationPerDegree: 0.01,
+    /** Dissipation multiplier floor (hottest maps) */
+    minDissipationMultiplier: 0.25,
+    /** Dissipation multiplier cap (coldest maps) */
+    maxDissipationMultiplier: 1.75,
+  },
+
+  /** Default heat per second for a mech standing in a terrain region; negative cools */
+  TERRAIN_REGION_HEAT: {
+    water: -4,
+    lava: 8,
+  },
 } as const;
+
+/**
+ * Heat sink dissipation multiplier for an ambient temperature (°C)
+ */
+export function getAmbientDissipationMultiplier(temperature: number): number {
+  const {
+    referenceTemperature,
+    dissipationPerDegree,
+    minDissipationMultiplier,
+    maxDissipationMultiplier,
+  } = HEAT_CONFIG.AMBIENT;
+  const multiplier =
+    1 - (temperature - referenceTemperature) * dissipationPerDegree;
+  return Math.min(
+    maxDissipationMultiplier,
+    Math.max(minDissipationMultiplier, multiplier)
+  );
+}
+
+/**
+ * Speed and turn rate multiplier for a heat level (fraction of max)
+ */
+export function getHeatMobilityMultiplier(heatLevel: number): number {
+  const { start, minMultiplier, exponent } = HEAT_CONFIG.MOVEMENT_PENALTY;
+  if (heatLevel <= start) return 1;
+
+  const t = Math.min(
+    1,
+    (heatLevel - start) / (HEAT_CONFIG.SHUTDOWN_THRESHOLD - start)
+  );
+  return 1 - (1 - minMultiplier) * Math.pow(t, exponent);
+}
@@ -39,6 +39,37 @@ export const MECH_CONSTANTS = {
       offsetY: -2,
     },
   },
+
+  /**
+   * Local-space hit boxes used to resolve which armor zone a hit lands on.
+   * Y values are relative to the physics body center, X is lateral distance in
+   * model space (negative = model's left side, matching MechModel.leftArmGroup).
+   */
+  HIT_ZONES: {
+    /** Hits above this height (near the torso capsule top at 7.0) can strike the head */
+    headMinY: 5.0,
+    /** Half-width of the head hit box */
+    headHalfWidth: 0.9,
+    /** Hits below this height land on the legs (leg capsule top at 1.0) */
+    hipY: 1.0,
+    /** Lateral offset beyond which upper-body hits land on an arm (60% of torso radius) */
+    armMinX: 0.9,
+    /** Where damage goes once a limb zone is destroyed */
+    transfer: {
+      leftArm: 'torso',
+      rightArm: 'torso',
+      leftLeg: 'torso',
+      rightLeg: 'torso',
+    },
+  },
+
+  /** Mobility caps applied once leg zones are destroyed (multipliers on config values) */
+  LEG_LOSS: {
+    /** One leg destroyed - mech limps */
+    oneLeg: { speedMultiplier: 0.5, turnRateMultiplier: 0.6 },
+    /** Both legs destroyed - mech can barely drag itself */
+    bothLegs: { speedMultiplier: 0.15, turnRateMultiplier: 0.3 },
+  },
 } as const;
 
 /**
@@ -61,11 +92,39 @@ export const MechConfigs: Record<string, MechConfig> = {
       leftLeg: 100,
       rightLeg: 100,
     },
+    baseStructure: {
+      head: 40,
+      torso: 60,
+      leftArm: 50,
+      rightArm: 50,
+      leftLeg: 60,
+      rightLeg: 60,
+    },
     hardpoints: [
-      { slot: 1, position: { x: -2.4, y: 0, z: 1 }, weaponType: 'laser' },
-      { slot: 2, position: { x: 2.4, y: 0, z: 1 }, weaponType: 'autocannon' },
-      { slot: 3, position: { x: -1.5, y: 1.5, z: 1 }, weaponType: 'ppc' },
-      { slot: 4, position: { x: 1.5, y: 1.5, z: 1 }, weaponType: 'missile' },
+      {
+        slot: 1,
+        position: { x: -2.4, y: 0, z: 1 },
+        weaponType: 'laser',
+        zone: 'leftArm',
+      },
+      {
+        slot: 2,
+        position: { x: 2.4, y: 0, z: 1 },
+        weaponType: 'autocannon',
+        zone: 'rightArm',
+      },
+      {
+        slot: 3,
+        position: { x: -1.5, y: 1.5, z: 1 },
+        weaponType: 'ppc',
+        zone: 'torso',
+      },
+      {
+        slot: 4,
+        position: { x: 1.5, y: 1.5, z: 1 },
+        weaponType: 'missile',
+        zone: 'torso',
+      },
     ],
   },
 
@@ -85,11 +144,39 @@ export const MechConfigs: Record<string, MechConfig> = {
       leftLeg: 85,
       rightLeg: 85,
     },
+    baseStructure: {
+      head: 30,
+      torso: 50,
+      leftArm: 35,
+      rightArm: 35,
+      leftLeg: 45,
+      rightLeg: 45,
+    },
     hardpoints: [
-      { slot: 1, position: { x: -2.0, y: 0, z: 1 }, weaponType: 'laser' },
-      { slot: 2, position: { x: 2.0, y: 0, z: 1 }, weaponType: 'laser' },
-      { slot: 3, position: { x: -1.8, y: 1.2, z: 1 }, weaponType: 'missile' },
-      { slot: 4, position: { x: 1.8, y: 1.2, z: 1 }, weaponType: 'missile' },
+      {
+        slot: 1,
+        position: { x: -2.0, y: 0, z: 1 },
+        weaponType: 'laser',
+        zone: 'leftArm',
+      },
+      {
+        slot: 2,
+        position: { x: 2.0, y: 0, z: 1 },
+        weaponType: 'laser',
+        zone: 'rightArm',
+      },
+      {
+        slot: 3,
+        position: { x: -1.8, y: 1.2, z: 1 },
+        weaponType: 'missile',
+        zone: 'torso',
+      },
+      {
+        slot: 4,
+        position: { x: 1.8, y: 1.2, z: 1 },
+        weaponType: 'missile',
+        zone: 'torso',
+      },
     ],
   },
 
@@ -109,9 +196,27 @@ export const MechConfigs: Record<string, MechConfig> = {
       leftLeg: 40,
       rightLeg: 40,
     },
+    baseStructure: {
+      head: 15,
+      torso: 30,
+      leftArm: 15,
+      rightArm: 15,
+      leftLeg: 20,
+      rightLeg: 20,
+    },
     hardpoints: [
-      { slot: 1, position: { x: 1.5, y: 0, z: 1 }, weaponType: 'autocannon' },
-      { slot: 2, position: { x: -1.5, y: 0, z: 1 }, weaponType: 'laser' },
+      {
+        slot: 1,
+        position: { x: 1.5, y: 0, z: 1 },
+        weaponType: 'autocannon',
+        zone: 'rightArm',
+      },
+      {
+        slot: 2,
+        position: { x: -1.5, y: 0, z: 1 },
+        weaponType: 'laser',
+        zone: 'leftArm',
+      },
     ],
   },
 };
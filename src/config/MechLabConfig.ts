@@ -0,0 +1,44 @@
+import type { ArmorZones } from '../types';
+
+/**
+ * Mech lab configuration - single source of truth for loadout rules:
+ * zone slots, armor limits and heat sinks. Weapon tonnage and slots come
+ * from WEAPON_CATALOG. A chassis' tonnage budget is what its stock
+ * loadout weighs.
+ */
+export const MECH_LAB_CONFIG = {
+  /** Weapon slots available in each zone */
+  ZONE_SLOTS: {
+    head: 1,
+    torso: 6,
+    leftArm: 4,
+    rightArm: 4,
+    leftLeg: 0,
+    rightLeg: 0,
+  } as Record<keyof ArmorZones, number>,
+
+  ARMOR: {
+    /** Armor points per ton */
+    pointsPerTon: 50,
+    /** Points added or removed per click */
+    step: 10,
+    /** Zone maximum as a multiple of the stock value */
+    maxMultiplier: 1.5,
+  },
+
+  HEAT_SINKS: {
+    /** Tons per extra heat sink */
+    tons: 1,
+    /** Heat dissipation added per extra heat sink (per second) */
+    dissipation: 0.5,
+    /** Most extra heat sinks a variant can mount */
+    max: 8,
+  },
+
+  /** localStorage key for saved variants */
+  storageKey: 'urf-wars-mech-variants',
+  /** Prefix marking variant IDs apart from stock chassis IDs */
+  idPrefix: 'variant-',
+  /** Most variants that can be saved */
+  maxVariants: 12,
+} as const;
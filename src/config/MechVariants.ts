@@ -0,0 +1,247 @@
+import type {
+  ArmorZones,
+  HardpointConfig,
+  MechConfig,
+  WeaponType,
+} from '../types';
+import { MechConfigs, getMechById } from './MechConfigs';
+import { MECH_LAB_CONFIG } from './MechLabConfig';
+import { getWeaponEntry, isWeaponType } from './WeaponCatalog';
+
+/**
+ * A custom loadout built in the mech lab on top of a stock chassis
+ */
+export interface MechVariant {
+  /** Unique ID (MECH_LAB_CONFIG.idPrefix + timestamp) */
+  id: string;
+  /** Player-chosen name */
+  name: string;
+  /** Stock chassis ID from MechConfigs */
+  chassisId: string;
+  /** Weapon mounted in each hardpoint, keyed by slot */
+  weapons: Record<number, WeaponType>;
+  /** Armor points per zone */
+  armor: ArmorZones;
+  /** Heat sinks added on top of the chassis' own */
+  heatSinks: number;
+}
+
+/**
+ * Tonnage, slot use and validity of a variant's loadout
+ */
+export interface LoadoutSummary {
+  tonnage: number;
+  maxTonnage: number;
+  /** Weapon slots used and available per zone */
+  zoneSlots: Record<keyof ArmorZones, { used: number; max: number }>;
+  heatDissipation: number;
+  /** Rule violations; empty when the variant can be saved */
+  errors: string[];
+}
+
+const ARMOR_ZONES: Array<keyof ArmorZones> = [
+  'head',
+  'torso',
+  'leftArm',
+  'rightArm',
+  'leftLeg',
+  'rightLeg',
+];
+
+/**
+ * Whether an ID names a saved variant rather than a stock chassis
+ */
+export function isVariantId(id: string): boolean {
+  return id.startsWith(MECH_LAB_CONFIG.idPrefix);
+}
+
+/**
+ * New variant matching a chassis' stock loadout
+ */
+export function createVariant(chassisId: string, name: string): MechVariant {
+  const chassis = getMechById(chassisId);
+  return {
+    id: `${MECH_LAB_CONFIG.idPrefix}${Date.now().toString(36)}`,
+    name,
+    chassisId: MechConfigs[chassisId] ? chassisId : 'ATLAS',
+    weapons: Object.fromEntries(
+      chassis.hardpoints.map((hp) => [hp.slot, hp.weaponType])
+    ),
+    armor: { ...chassis.baseArmor },
+    heatSinks: 0,
+  };
+}
+
+/**
+ * Tonnage of a loadout: weapons, armor and extra heat sinks
+ */
+function getTonnage(
+  weapons: WeaponType[],
+  armor: ArmorZones,
+  heatSinks: number
+): number {
+  const { ARMOR, HEAT_SINKS } = MECH_LAB_CONFIG;
+  const weaponTons = weapons.reduce(
+    (sum, w) => sum + getWeaponEntry(w).tonnage,
+    0
+  );
+  const armorPoints = ARMOR_ZONES.reduce((sum, zone) => sum + armor[zone], 0);
+  return (
+    weaponTons + armorPoints / ARMOR.pointsPerTon + heatSinks * HEAT_SINKS.tons
+  );
+}
+
+/**
+ * Highest armor a zone can carry on a chassis
+ */
+export function getMaxArmor(chassisId: string, zone: keyof ArmorZones): number {
+  return Math.round(
+    getMechById(chassisId).baseArmor[zone] * MECH_LAB_CONFIG.ARMOR.maxMultiplier
+  );
+}
+
+/**
+ * Check a variant against the tonnage, slot, armor and heat sink rules
+ */
+export function getLoadoutSummary(variant: MechVariant): LoadoutSummary {
+  const chassis = getMechById(variant.chassisId);
+  const { ZONE_SLOTS, HEAT_SINKS } = MECH_LAB_CONFIG;
+  const errors: string[] = [];
+
+  // Stored variants may name weapons since removed from the catalog;
+  // those slots are weighed as their stock weapon
+  const unknown = Object.values(variant.weapons).filter(
+    (weapon) => !isWeaponType(weapon)
+  );
+  if (unknown.length > 0) {
+    errors.push(`Unknown weapon: ${unknown.join(', ')}`);
+  }
+  const weaponAt = (hp: HardpointConfig): WeaponType => {
+    const weapon = variant.weapons[hp.slot];
+    return isWeaponType(weapon) ? weapon : hp.weaponType;
+  };
+
+  const maxTonnage = getTonnage(
+    chassis.hardpoints.map((hp) => hp.weaponType),
+    chassis.baseArmor,
+    0
+  );
+  const tonnage = getTonnage(
+    chassis.hardpoints.map(weaponAt),
+    variant.armor,
+    variant.heatSinks
+  );
+  if (tonnage > maxTonnage + 1e-6) {
+    errors.push(`Overweight by ${(tonnage - maxTonnage).toFixed(1)} tons`);
+  }
+
+  const zoneSlots = {} as LoadoutSummary['zoneSlots'];
+  for (const zone of ARMOR_ZONES) {
+    zoneSlots[zone] = { used: 0, max: ZONE_SLOTS[zone] };
+  }
+  for (const hp of chassis.hardpoints) {
+    zoneSlots[hp.zone].used += getWeaponEntry(weaponAt(hp)).slots;
+  }
+  for (const zone of ARMOR_ZONES) {
+    const { used, max } = zoneSlots[zone];
+    if (used > max) {
+      errors.push(`${zone}: ${used}/${max} weapon slots`);
+    }
+    const armor = variant.armor[zone];
+    if (armor < 0 || armor > getMaxArmor(variant.chassisId, zone)) {
+      errors.push(`${zone}: armor out of range`);
+    }
+  }
+
+  if (variant.heatSinks < 0 || variant.heatSinks > HEAT_SINKS.max) {
+    errors.push(`Heat sinks must be 0-${HEAT_SINKS.max}`);
+  }
+  if (variant.name.trim().length === 0) {
+    errors.push('Variant needs a name');
+  } else if (!/^[\w .'-]+$/.test(variant.name)) {
+    errors.push("Name may only use letters, numbers, spaces and . ' - _");
+  }
+
+  return {
+    tonnage,
+    maxTonnage,
+    zoneSlots,
+    heatDissipation:
+      chassis.heatDissipation + variant.heatSinks * HEAT_SINKS.dissipation,
+    errors,
+  };
+}
+
+/**
+ * Mech config for a variant: its chassis with the custom loadout applied
+ */
+export function buildVariantConfig(variant: MechVariant): MechConfig {
+  const chassis = getMechById(variant.chassisId);
+  return {
+    ...chassis,
+    variantName: variant.name,
+    heatDissipation:
+      chassis.heatDissipation +
+      variant.heatSinks * MECH_LAB_CONFIG.HEAT_SINKS.dissipation,
+    baseArmor: { ...variant.armor },
+    hardpoints: chassis.hardpoints.map((hp) => ({
+      ...hp,
+      weaponType: variant.weapons[hp.slot] ?? hp.weaponType,
+    })),
+  };
+}
+
+/**
+ * Saved variants; entries that no longer fit a known chassis are skipped
+ */
+export function loadMechVariants(): MechVariant[] {
+  try {
+    const stored = localStorage.getItem(MECH_LAB_CONFIG.storageKey);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored) as MechVariant[];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (variant) =>
+        typeof variant?.id === 'string' &&
+        isVariantId(variant.id) &&
+        Object.hasOwn(MechConfigs, variant.chassisId) &&
+        getLoadoutSummary(variant).errors.length === 0
+    );
+  } catch (error) {
+    console.warn('Failed to load mech variants:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the saved variants
+ */
+export function saveMechVariants(variants: MechVariant[]): void {
+  try {
+    localStorage.setItem(MECH_LAB_CONFIG.storageKey, JSON.stringify(variants));
+  } catch (error) {
+    console.warn('Failed to save mech variants:', error);
+  }
+}
+
+/**
+ * Stock chassis ID behind a mech ID (variants resolve to their chassis)
+ */
+export function getChassisId(mechId: string): string {
+  if (!isVariantId(mechId)) return mechId;
+  return (
+    loadMechVariants().find((variant) => variant.id === mechId)?.chassisId ??
+    'ATLAS'
+  );
+}
+
+/**
+ * Mech config for a stock chassis ID or a saved variant ID
+ */
+export function resolveMechConfig(mechId: string): MechConfig {
+  if (!isVariantId(mechId)) return getMechById(mechId);
+
+  const variant = loadMechVariants().find((v) => v.id === mechId);
+  return variant ? buildVariantConfig(variant) : getMechById('ATLAS');
+}
@@ -0,0 +1,38 @@
+/**
+ * Navigation configuration - single source of truth for the AI walkable grid
+ * and pathfinding settings.
+ */
+export const NAVIGATION_CONFIG = {
+  /** Size of one grid cell (meters) */
+  CELL_SIZE: 4,
+
+  /** Clearance kept around static obstacles so a mech body fits (meters) */
+  AGENT_RADIUS: 3,
+
+  /** Radius around each mech marked as temporarily blocked (meters) */
+  MECH_BLOCK_RADIUS: 4,
+
+  /** A* gives up after expanding this many cells */
+  MAX_SEARCH_NODES: 20000,
+
+  /** Path following */
+  FOLLOW: {
+    /** Seconds between path refreshes toward a moving goal */
+    repathInterval: 1.5,
+    /** Goal movement that forces an immediate repath (meters) */
+    goalShift: 10,
+    /** Distance at which a path waypoint counts as reached (meters) */
+    waypointRadius: 5,
+  },
+
+  /** Debug overlay (toggle with N) */
+  DEBUG: {
+    toggleKey: 'KeyN',
+    /** Overlay height above the ground */
+    height: 0.05,
+    opacity: 0.35,
+    walkableColor: [40, 200, 80],
+    blockedColor: [220, 50, 50],
+    dynamicColor: [240, 180, 40],
+  },
+} as const;
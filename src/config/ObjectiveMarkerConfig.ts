@@ -0,0 +1,51 @@
+/**
+ * Objective marker configuration - single source of truth for reach zones,
+ * protect rings, collectible pickups and their HUD waypoints.
+ */
+export const OBJECTIVE_MARKER_CONFIG = {
+  /** Reach objectives: beacon column over a ground ring */
+  REACH: {
+    /** Zone radius when the objective doesn't set one (meters) */
+    defaultRadius: 15,
+    /** Height of the light column (meters) */
+    beaconHeight: 60,
+    color: 0x00ff88,
+    opacity: 0.25,
+  },
+
+  /** Protect objectives: ring that follows each protected entity */
+  PROTECT: {
+    ringRadius: 8,
+    /** Ring height above the entity's origin */
+    ringHeight: 0.3,
+    color: 0x44aaff,
+    opacity: 0.6,
+  },
+
+  /** Collect objectives: hovering pickups */
+  COLLECT: {
+    /** Pickup radius when the objective doesn't set one (meters) */
+    defaultRadius: 6,
+    /** Hover height above the terrain (meters) */
+    hoverHeight: 2.5,
+    /** Spin speed in radians per second */
+    spinSpeed: 1.5,
+    /** Bob amplitude (meters) and speed (radians per second) */
+    bobHeight: 0.5,
+    bobSpeed: 2.5,
+    color: 0xffcc00,
+  },
+
+  /** HUD waypoint settings */
+  WAYPOINT: {
+    /** Height above the marker the waypoint points at (meters) */
+    heightOffset: 6,
+    /** Off-screen waypoints are pinned this far inside the edge (0-1 of half-screen) */
+    edgeInset: 0.9,
+    colors: {
+      reach: '#00ff88',
+      protect: '#44aaff',
+      collect: '#ffcc00',
+    },
+  },
+} as const;
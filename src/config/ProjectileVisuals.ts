@@ -4,30 +4,73 @@ import * as THREE from 'three';
  * Projectile visual configuration - single source of truth for projectile materials and mesh creation.
  */
 
+/** Mesh families projectiles are drawn with */
+export type ProjectileMeshKind = 'slug' | 'plasma' | 'missile';
+
+/**
+ * How a projectile weapon's shots look (declared per WEAPON_CATALOG entry)
+ */
+export interface ProjectileVisual {
+  mesh: ProjectileMeshKind;
+  /** Slug color, plasma core color or missile body color */
+  color: number;
+  /** Plasma outer glow color */
+  glowColor?: number;
+  /** Plasma sparkle color */
+  sparkleColor?: number;
+  /** Uniform mesh scale */
+  scale: number;
+}
+
+/**
+ * How a beam weapon's beam looks (declared per WEAPON_CATALOG entry)
+ */
+export interface BeamVisual {
+  /** Outer glow color */
+  color: number;
+  /** Multiplier on the PROJECTILE_VISUALS.LASER radii */
+  width: number;
+}
+
+/**
+ * Shared materials for one projectile visual
+ */
+export interface ProjectileMaterials {
+  body: THREE.MeshBasicMaterial;
+  sparkle?: THREE.PointsMaterial;
+  flame?: THREE.MeshBasicMaterial;
+}
+
 // ============ Shared Materials ============
 
 /** Create autocannon projectile material */
-export function createAutocannonMaterial(): THREE.MeshBasicMaterial {
+export function createAutocannonMaterial(
+  color: number = 0xff0000
+): THREE.MeshBasicMaterial {
   return new THREE.MeshBasicMaterial({
-    color: 0xff0000,
+    color,
     transparent: true,
     opacity: 0.9,
   });
 }
 
 /** Create PPC core material */
-export function createPPCCoreMaterial(): THREE.MeshBasicMaterial {
+export function createPPCCoreMaterial(
+  color: number = 0x00aaff
+): THREE.MeshBasicMaterial {
   return new THREE.MeshBasicMaterial({
-    color: 0x00aaff,
+    color,
     transparent: true,
     opacity: 0.9,
   });
 }
 
 /** Create PPC sparkle material */
-export function createPPCSparkleMaterial(): THREE.PointsMaterial {
+export function createPPCSparkleMaterial(
+  color: number = 0x88ffff
+): THREE.PointsMaterial {
   return new THREE.PointsMaterial({
-    color: 0x88ffff,
+    color,
     size: 0.15,
     transparent: true,
     opacity: 0.8,
@@ -36,9 +79,11 @@ export function createPPCSparkleMaterial(): THREE.PointsMaterial {
 }
 
 /** Create PPC glow material */
-export function createPPCGlowMaterial(): THREE.MeshBasicMaterial {
+export function createPPCGlowMaterial(
+  color: number = 0x0066ff
+): THREE.MeshBasicMaterial {
   return new THREE.MeshBasicMaterial({
-    color: 0x0066ff,
+    color,
     transparent: true,
     opacity: 0.3,
     blending: THREE.AdditiveBlending,
@@ -46,9 +91,11 @@ export function createPPCGlowMaterial(): THREE.MeshBasicMaterial {
 }
 
 /** Create missile body material */
-export function createMissileMaterial(): THREE.MeshBasicMaterial {
+export function createMissileMaterial(
+  color: number = 0xffffff
+): THREE.MeshBasicMaterial {
   return new THREE.MeshBasicMaterial({
-    color: 0xffffff,
+    color,
   });
 }
 
@@ -110,10 +157,12 @@ export function createAutocannonMesh(
  * Create PPC projectile mesh (group with core, glow, and sparkles)
  * @param coreMaterial - Optional core material
  * @param sparkleMaterial - Optional sparkle material
+ * @param glowColor - Optional outer glow color
  */
 export function createPPCMesh(
   coreMaterial?: THREE.MeshBasicMaterial,
-  sparkleMaterial?: THREE.PointsMaterial
+  sparkleMaterial?: THREE.PointsMaterial,
+  glowColor?: number
 ): THREE.Group {
   const group = new THREE.Group();
 
@@ -127,7 +176,7 @@ export function createPPCMesh(
 
   // Outer glow
   const glowGeometry = new THREE.SphereGeometry(0.4, 8, 8);
-  const glow = new THREE.Mesh(glowGeometry, createPPCGlowMaterial());
+  const glow = new THREE.Mesh(glowGeometry, createPPCGlowMaterial(glowColor));
   group.add(glow);
 
   // Sparkles
@@ -198,6 +247,51 @@ export function createMissileMesh(
   return group;
 }
 
+/**
+ * Create the shared materials for a projectile visual
+ */
+export function createProjectileMaterials(
+  visual: ProjectileVisual
+): ProjectileMaterials {
+  switch (visual.mesh) {
+    case 'plasma':
+      return {
+        body: createPPCCoreMaterial(visual.color),
+        sparkle: createPPCSparkleMaterial(visual.sparkleColor),
+      };
+    case 'missile':
+      return {
+        body: createMissileMaterial(visual.color),
+        flame: createFlameMaterial(),
+      };
+    default:
+      return { body: createAutocannonMaterial(visual.color) };
+  }
+}
+
+/**
+ * Create the mesh for a projectile visual
+ * @param materials - Optional shared materials, creates new ones if not provided
+ */
+export function createProjectileMesh(
+  visual: ProjectileVisual,
+  materials: ProjectileMaterials = createProjectileMaterials(visual)
+): THREE.Object3D {
+  let mesh: THREE.Object3D;
+  switch (visual.mesh) {
+    case 'plasma':
+      mesh = createPPCMesh(materials.body, materials.sparkle, visual.glowColor);
+      break;
+    case 'missile':
+      mesh = createMissileMesh(materials.body, materials.flame);
+      break;
+    default:
+      mesh = createAutocannonMesh(materials.body);
+  }
+  mesh.scale.setScalar(visual.scale);
+  return mesh;
+}
+
 // ============ Projectile Visual Constants ============
 
 export const PROJECTILE_VISUALS = {
@@ -208,22 +302,50 @@ export const PROJECTILE_VISUALS = {
     lifetime: 0.15,
   },
 
-  /** Muzzle flash settings */
+  /** Muzzle flash presets (referenced by WEAPON_CATALOG entries) */
   MUZZLE_FLASH: {
     autocannon: {
+      coreColor: 0xffffcc,
+      glowColor: 0xffdd44,
+      glowOpacity: 0.6,
       coreRadius: 0.4,
       glowRadius: 0.8,
       lifetime: 0.08,
     },
     laser: {
+      coreColor: 0xff6644,
+      glowColor: 0xff2200,
+      glowOpacity: 0.5,
       coreRadius: 0.4,
       glowRadius: 0.8,
       lifetime: 0.1,
     },
     ppc: {
+      coreColor: 0xaaffff,
+      glowColor: 0x0088ff,
+      glowOpacity: 0.6,
       coreRadius: 0.5,
       glowRadius: 1.0,
       lifetime: 0.12,
     },
+    flamer: {
+      coreColor: 0xffcc66,
+      glowColor: 0xff4400,
+      glowOpacity: 0.7,
+      coreRadius: 0.5,
+      glowRadius: 1.2,
+      lifetime: 0.15,
+    },
+    gauss: {
+      coreColor: 0xeeeeff,
+      glowColor: 0x6688ff,
+      glowOpacity: 0.5,
+      coreRadius: 0.6,
+      glowRadius: 1.4,
+      lifetime: 0.1,
+    },
   },
 } as const;
+
+/** Muzzle flash preset name */
+export type MuzzleFlashPreset = keyof typeof PROJECTILE_VISUALS.MUZZLE_FLASH;
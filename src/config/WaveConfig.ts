@@ -0,0 +1,12 @@
+/**
+ * Wave spawner configuration - single source of truth for wave pacing
+ * and spawn placement. Per-wave content lives in MissionConfig.waves.
+ */
+export const WAVE_CONFIG = {
+  /** Seconds before the next wave once the current one is cleared early */
+  clearedDelay: 5,
+  /** Spread around a spawn point when several entities share it (meters) */
+  spawnSpread: 8,
+  /** Chassis for mech waves that don't name one */
+  defaultMechId: 'URBANMECH',
+} as const;
@@ -0,0 +1,521 @@
+import type { WeaponStats, WeaponType } from '../types';
+import type {
+  BeamVisual,
+  MuzzleFlashPreset,
+  ProjectileVisual,
+} from './ProjectileVisuals';
+
+/**
+ * How a weapon delivers damage: a hitscan beam or a physical projectile
+ * entity moved by ProjectileSystem
+ */
+export type WeaponBehavior = 'beam' | 'projectile';
+
+/** Synth voices WeaponSynth can play */
+export type WeaponVoice =
+  | 'laser'
+  | 'autocannon'
+  | 'ppc'
+  | 'missile'
+  | 'flamer'
+  | 'gauss';
+
+/**
+ * Firing sound of a weapon: a synth voice tuned by pitch and volume
+ */
+export interface WeaponSound {
+  voice: WeaponVoice;
+  /** Frequency multiplier (1 = voice default, lower = heavier) */
+  pitch: number;
+  /** Volume multiplier */
+  volume: number;
+}
+
+/**
+ * Lock-on homing for missile weapons. Without a lock (or once it is lost)
+ * missiles fly dumb-fire in a straight line.
+ */
+export interface MissileGuidance {
+  /** Seconds the target must stay on screen and in line of sight to lock */
+  lockTime: number;
+  /** Distance a missile flies before it arms; earlier hits do no damage */
+  armingRange: number;
+  /** Fastest a missile can turn (radians per second) */
+  turnRate: number;
+  /** Launch pitch above the aim line for an arcing flight (radians) */
+  loftAngle: number;
+}
+
+/**
+ * Several projectiles launched by one trigger pull
+ */
+export interface WeaponSalvo {
+  /** Projectiles per salvo; each uses one round of ammo */
+  count: number;
+  /** Half-angle of the launch cone (radians) */
+  spread: number;
+}
+
+/**
+ * Projectile physics: gravity drop, firing cone with recoil bloom from
+ * sustained fire, and splash damage on impact. Omitted fields are 0.
+ */
+export interface WeaponBallistics {
+  /** Downward acceleration on the projectile (m/s²) */
+  gravity?: number;
+  /** Half-angle of the firing cone at rest (radians) */
+  spread?: number;
+  /** Cone half-angle added by each shot (radians) */
+  bloomPerShot?: number;
+  /** Most bloom sustained fire can build (radians) */
+  maxBloom?: number;
+  /** Bloom recovered per second (radians) */
+  bloomRecovery?: number;
+  /** Splash radius on impact (meters); damage falls off to 0 at the edge */
+  splashRadius?: number;
+}
+
+/**
+ * One weapon in the catalog
+ */
+export interface WeaponCatalogEntry {
+  /** Display name */
+  name: string;
+  /** Abbreviation for the HUD weapon grid */
+  shortName: string;
+  stats: WeaponStats;
+  behavior: WeaponBehavior;
+  /** Fires a cluster per trigger pull (single shot if omitted) */
+  salvo?: WeaponSalvo;
+  /** Homes on a locked target (dumb-fire if omitted) */
+  guidance?: MissileGuidance;
+  /** Drop, spread and splash (flat, exact and single-target if omitted) */
+  ballistics?: WeaponBallistics;
+  /**
+   * Seconds a beam stays on, tracking the aim point; its damage and heat
+   * are spread over this time (instant if omitted)
+   */
+  beamDuration?: number;
+  visuals: {
+    /** Required for beam weapons */
+    beam?: BeamVisual;
+    /** Required for projectile weapons */
+    projectile?: ProjectileVisual;
+    /** Flash at the muzzle when fired (none if omitted) */
+    muzzleFlash?: MuzzleFlashPreset;
+  };
+  sound: WeaponSound;
+  /** Impact sound severity (0-1) when a shot hits */
+  impactSeverity: number;
+  /** Mech lab tonnage */
+  tonnage: number;
+  /** Mech lab critical slots taken in the mounting zone */
+  slots: number;
+  /** Market price in C-bills */
+  price: number;
+}
+
+/**
+ * Weapon catalog - single source of truth for every weapon: stats, firing
+ * behavior, visuals, sound, mech lab weight and market price. Adding a
+ * weapon means adding an entry here; its key becomes a WeaponType.
+ *
+ * The original IDs ('laser', 'ppc', 'missile', 'autocannon') are kept so
+ * existing maps, missions, variants and saves stay valid.
+ */
+export const WEAPON_CATALOG = {
+  // ============ Energy ============
+
+  'small-laser': {
+    name: 'Small Laser',
+    shortName: 'S LASER',
+    stats: {
+      damage: 8,
+      heatGenerated: 4,
+      cooldown: 0.3,
+      projectileSpeed: 0, // Instant hitscan
+      range: 250,
+    },
+    behavior: 'beam',
+    beamDuration: 0.5,
+    visuals: {
+      beam: { color: 0xff2200, width: 0.6 },
+      muzzleFlash: 'laser',
+    },
+    sound: { voice: 'laser', pitch: 1.3, volume: 0.7 },
+    impactSeverity: 0.3,
+    tonnage: 0.5,
+    slots: 1,
+    price: 8000,
+  },
+  laser: {
+    name: 'Medium Laser',
+    shortName: 'M LASER',
+    stats: {
+      damage: 15,
+      heatGenerated: 8,
+      cooldown: 0.5,
+      projectileSpeed: 0, // Instant hitscan
+      range: 400,
+    },
+    behavior: 'beam',
+    beamDuration: 0.75,
+    visuals: {
+      beam: { color: 0xff2200, width: 1 },
+      muzzleFlash: 'laser',
+    },
+    sound: { voice: 'laser', pitch: 1, volume: 1 },
+    impactSeverity: 0.4,
+    tonnage: 1,
+    slots: 1,
+    price: 15000,
+  },
+  'large-laser': {
+    name: 'Large Laser',
+    shortName: 'L LASER',
+    stats: {
+      damage: 28,
+      heatGenerated: 16,
+      cooldown: 1.2,
+      projectileSpeed: 0, // Instant hitscan
+      range: 550,
+    },
+    behavior: 'beam',
+    beamDuration: 1,
+    visuals: {
+      beam: { color: 0xff0044, width: 1.5 },
+      muzzleFlash: 'laser',
+    },
+    sound: { voice: 'laser', pitch: 0.75, volume: 1.2 },
+    impactSeverity: 0.6,
+    tonnage: 5,
+    slots: 2,
+    price: 45000,
+  },
+  ppc: {
+    name: 'PPC',
+    shortName: 'PPC',
+    stats: {
+      damage: 35,
+      heatGenerated: 20,
+      cooldown: 2.0,
+      projectileSpeed: 300,
+      range: 500,
+    },
+    behavior: 'projectile',
+    ballistics: { splashRadius: 2 },
+    visuals: {
+      projectile: {
+        mesh: 'plasma',
+        color: 0x00aaff,
+        glowColor: 0x0066ff,
+        sparkleColor: 0x88ffff,
+        scale: 1,
+      },
+      muzzleFlash: 'ppc',
+    },
+    sound: { voice: 'ppc', pitch: 1, volume: 1 },
+    impactSeverity: 0.9,
+    tonnage: 7,
+    slots: 3,
+    price: 60000,
+  },
+  flamer: {
+    name: 'Flamer',
+    shortName: 'FLAMER',
+    stats: {
+      damage: 5,
+      heatGenerated: 3,
+      cooldown: 0.15,
+      projectileSpeed: 60,
+      range: 90,
+    },
+    behavior: 'projectile',
+    visuals: {
+      projectile: {
+        mesh: 'plasma',
+        color: 0xff6600,
+        glowColor: 0xff2200,
+        sparkleColor: 0xffcc44,
+        scale: 1.4,
+      },
+      muzzleFlash: 'flamer',
+    },
+    sound: { voice: 'flamer', pitch: 1, volume: 0.8 },
+    impactSeverity: 0.3,
+    tonnage: 1,
+    slots: 1,
+    price: 7500,
+  },
+
+  // ============ Ballistic ============
+
+  'machine-gun': {
+    name: 'Machine Gun',
+    shortName: 'MG',
+    stats: {
+      damage: 3,
+      heatGenerated: 0,
+      cooldown: 0.06,
+      projectileSpeed: 450,
+      range: 200,
+      ammo: 1000,
+    },
+    behavior: 'projectile',
+    ballistics: {
+      gravity: 4,
+      spread: 0.015,
+      bloomPerShot: 0.004,
+      maxBloom: 0.05,
+      bloomRecovery: 0.08,
+    },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xffcc00, scale: 0.5 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 1.6, volume: 0.6 },
+    impactSeverity: 0.2,
+    tonnage: 0.5,
+    slots: 1,
+    price: 5000,
+  },
+  ac2: {
+    name: 'AC/2',
+    shortName: 'AC/2',
+    stats: {
+      damage: 6,
+      heatGenerated: 1,
+      cooldown: 0.4,
+      projectileSpeed: 500,
+      range: 600,
+      ammo: 150,
+    },
+    behavior: 'projectile',
+    ballistics: { gravity: 3, spread: 0.003 },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xff0000, scale: 0.6 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 1.3, volume: 0.7 },
+    impactSeverity: 0.3,
+    tonnage: 6,
+    slots: 1,
+    price: 35000,
+  },
+  ac5: {
+    name: 'AC/5',
+    shortName: 'AC/5',
+    stats: {
+      damage: 12,
+      heatGenerated: 1,
+      cooldown: 0.7,
+      projectileSpeed: 450,
+      range: 500,
+      ammo: 80,
+    },
+    behavior: 'projectile',
+    ballistics: { gravity: 5, spread: 0.004 },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xff0000, scale: 0.8 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 1.1, volume: 0.85 },
+    impactSeverity: 0.45,
+    tonnage: 8,
+    slots: 2,
+    price: 50000,
+  },
+  ac10: {
+    name: 'AC/10',
+    shortName: 'AC/10',
+    stats: {
+      damage: 25,
+      heatGenerated: 3,
+      cooldown: 1.2,
+      projectileSpeed: 400,
+      range: 400,
+      ammo: 40,
+    },
+    behavior: 'projectile',
+    ballistics: { gravity: 8, spread: 0.005, splashRadius: 3 },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xff2200, scale: 1.2 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 0.9, volume: 1 },
+    impactSeverity: 0.7,
+    tonnage: 10,
+    slots: 3,
+    price: 80000,
+  },
+  ac20: {
+    name: 'AC/20',
+    shortName: 'AC/20',
+    stats: {
+      damage: 45,
+      heatGenerated: 6,
+      cooldown: 2.0,
+      projectileSpeed: 350,
+      range: 280,
+      ammo: 20,
+    },
+    behavior: 'projectile',
+    ballistics: { gravity: 12, spread: 0.006, splashRadius: 6 },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xff4400, scale: 1.8 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 0.7, volume: 1.3 },
+    impactSeverity: 1,
+    tonnage: 14,
+    slots: 4,
+    price: 110000,
+  },
+  autocannon: {
+    name: 'Rotary Autocannon',
+    shortName: 'RAC',
+    stats: {
+      damage: 20,
+      heatGenerated: 0,
+      cooldown: 0.1,
+      projectileSpeed: 400,
+      range: 350,
+      ammo: 500,
+    },
+    behavior: 'projectile',
+    ballistics: {
+      gravity: 6,
+      spread: 0.01,
+      bloomPerShot: 0.003,
+      maxBloom: 0.04,
+      bloomRecovery: 0.06,
+    },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xff0000, scale: 1 },
+      muzzleFlash: 'autocannon',
+    },
+    sound: { voice: 'autocannon', pitch: 1, volume: 1 },
+    impactSeverity: 0.5,
+    tonnage: 8,
+    slots: 3,
+    price: 70000,
+  },
+  gauss: {
+    name: 'Gauss Rifle',
+    shortName: 'GAUSS',
+    stats: {
+      damage: 50,
+      heatGenerated: 1,
+      cooldown: 3.0,
+      projectileSpeed: 900,
+      range: 700,
+      ammo: 16,
+    },
+    behavior: 'projectile',
+    ballistics: { gravity: 1.5 },
+    visuals: {
+      projectile: { mesh: 'slug', color: 0xaaccff, scale: 1.3 },
+      muzzleFlash: 'gauss',
+    },
+    sound: { voice: 'gauss', pitch: 1, volume: 1 },
+    impactSeverity: 1,
+    tonnage: 12,
+    slots: 4,
+    price: 150000,
+  },
+
+  // ============ Missile ============
+
+  srm: {
+    name: 'SRM Launcher',
+    shortName: 'SRM',
+    stats: {
+      damage: 6,
+      heatGenerated: 3,
+      cooldown: 1.0,
+      projectileSpeed: 150,
+      range: 270,
+      ammo: 48,
+    },
+    behavior: 'projectile',
+    salvo: { count: 4, spread: 0.04 },
+    ballistics: { splashRadius: 3 },
+    visuals: {
+      projectile: { mesh: 'missile', color: 0xffffff, scale: 0.8 },
+    },
+    sound: { voice: 'missile', pitch: 1.2, volume: 0.9 },
+    impactSeverity: 0.6,
+    tonnage: 1.5,
+    slots: 1,
+    price: 20000,
+  },
+  lrm: {
+    name: 'LRM Launcher',
+    shortName: 'LRM',
+    stats: {
+      damage: 4,
+      heatGenerated: 2,
+      cooldown: 2.0,
+      projectileSpeed: 90,
+      range: 800,
+      ammo: 60,
+    },
+    behavior: 'projectile',
+    salvo: { count: 5, spread: 0.06 },
+    guidance: {
+      lockTime: 1.5,
+      armingRange: 60,
+      turnRate: 1.6,
+      loftAngle: 0.5,
+    },
+    ballistics: { splashRadius: 4 },
+    visuals: {
+      projectile: { mesh: 'missile', color: 0xdddddd, scale: 0.9 },
+    },
+    sound: { voice: 'missile', pitch: 0.85, volume: 1 },
+    impactSeverity: 0.5,
+    tonnage: 5,
+    slots: 2,
+    price: 40000,
+  },
+  missile: {
+    name: 'Missile Rack',
+    shortName: 'MISSILE',
+    stats: {
+      damage: 8,
+      heatGenerated: 0,
+      cooldown: 0,
+      projectileSpeed: 100,
+      range: 600,
+      ammo: 16,
+      semiAuto: true,
+    },
+    behavior: 'projectile',
+    ballistics: { splashRadius: 3 },
+    visuals: {
+      projectile: { mesh: 'missile', color: 0xffffff, scale: 1 },
+    },
+    sound: { voice: 'missile', pitch: 1, volume: 1 },
+    impactSeverity: 0.7,
+    tonnage: 2,
+    slots: 2,
+    price: 25000,
+  },
+} satisfies Record<string, WeaponCatalogEntry>;
+
+/** Every weapon ID in catalog order */
+export const WEAPON_TYPES = Object.keys(WEAPON_CATALOG) as WeaponType[];
+
+/**
+ * Catalog entry for a weapon
+ */
+export function getWeaponEntry(type: WeaponType): WeaponCatalogEntry {
+  return WEAPON_CATALOG[type];
+}
+
+/**
+ * Check that a stored value names a catalog weapon
+ */
+export function isWeaponType(value: unknown): value is WeaponType {
+  return typeof value === 'string' && Object.hasOwn(WEAPON_CATALOG, value);
+}
@@ -0,0 +1,97 @@
+import type { HardpointConfig, WeaponGroup } from '../types';
+
+/**
+ * Weapon group configuration - single source of truth for group count,
+ * chain-fire timing and where group assignments are stored.
+ */
+export const WEAPON_GROUP_CONFIG = {
+  /** Groups per mech (selected with Shift+1-4) */
+  count: 4,
+  /** Seconds between shots while a chain-fire group is held */
+  chainFireInterval: 0.25,
+  /** localStorage key for group assignments, keyed by mech ID */
+  storageKey: 'urf-wars-weapon-groups',
+} as const;
+
+/**
+ * Starting groups for a mech: every weapon chain-fires in group 1
+ */
+export function createDefaultWeaponGroups(
+  hardpoints: HardpointConfig[]
+): WeaponGroup[] {
+  return Array.from({ length: WEAPON_GROUP_CONFIG.count }, (_, index) => ({
+    slots: index === 0 ? hardpoints.map((hp) => hp.slot) : [],
+    chainFire: index === 0,
+  }));
+}
+
+/**
+ * Exactly WEAPON_GROUP_CONFIG.count groups holding only slots the mech has
+ */
+function normalizeWeaponGroups(
+  stored: unknown,
+  hardpoints: HardpointConfig[]
+): WeaponGroup[] {
+  const groups = Array.isArray(stored) ? stored : [];
+  const slots = hardpoints.map((hp) => hp.slot);
+
+  return Array.from({ length: WEAPON_GROUP_CONFIG.count }, (_, index) => {
+    const group = groups[index] as Partial<WeaponGroup> | undefined;
+    return {
+      slots: Array.isArray(group?.slots)
+        ? slots.filter((slot) => group.slots!.includes(slot))
+        : [],
+      chainFire: group?.chainFire === true,
+    };
+  });
+}
+
+function loadStore(): Record<string, unknown> {
+  try {
+    const stored = localStorage.getItem(WEAPON_GROUP_CONFIG.storageKey);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch (error) {
+    console.warn('Failed to load weapon groups:', error);
+    return {};
+  }
+}
+
+function saveStore(store: Record<string, unknown>): void {
+  try {
+    localStorage.setItem(WEAPON_GROUP_CONFIG.storageKey, JSON.stringify(store));
+  } catch (error) {
+    console.warn('Failed to save weapon groups:', error);
+  }
+}
+
+/**
+ * Saved groups for a stock chassis or variant ID (defaults if none saved)
+ */
+export function loadWeaponGroups(
+  mechId: string,
+  hardpoints: HardpointConfig[]
+): WeaponGroup[] {
+  const stored = loadStore()[mechId];
+  return stored === undefined
+    ? createDefaultWeaponGroups(hardpoints)
+    : normalizeWeaponGroups(stored, hardpoints);
+}
+
+/**
+ * Save the groups for a stock chassis or variant ID
+ */
+export function saveWeaponGroups(mechId: string, groups: WeaponGroup[]): void {
+  saveStore({ ...loadStore(), [mechId]: groups });
+}
+
+/**
+ * Forget a mech's groups (e.g. when its variant is deleted)
+ */
+export function deleteWeaponGroups(mechId: string): void {
+  const store = loadStore();
+  delete store[mechId];
+  saveStore(store);
+}
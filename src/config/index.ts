@@ -3,7 +3,67 @@ export { MechConfigs, MECH_CONSTANTS } from './MechConfigs';
 export { PHYSICS_CONFIG } from './PhysicsConfig';
 export { CAMERA_CONFIG } from './CameraConfig';
 export { CONTROLS_CONFIG } from './ControlsConfig';
-export { HEAT_CONFIG } from './HeatConfig';
+export {
+  HEAT_CONFIG,
+  getAmbientDissipationMultiplier,
+  getHeatMobilityMultiplier,
+} from './HeatConfig';
+export type { HeatStage } from './HeatConfig';
+export { DAMAGE_CONFIG } from './DamageConfig';
+export { AI_CONFIG } from './AIConfig';
+export { NAVIGATION_CONFIG } from './NavigationConfig';
+export { FACTION_CONFIG, getFactionRelation } from './FactionConfig';
+export { OBJECTIVE_MARKER_CONFIG } from './ObjectiveMarkerConfig';
+export { WAVE_CONFIG } from './WaveConfig';
+export { COMMS_CONFIG } from './CommsConfig';
+export {
+  WEAPON_CATALOG,
+  WEAPON_TYPES,
+  getWeaponEntry,
+  isWeaponType,
+} from './WeaponCatalog';
+export type {
+  WeaponBehavior,
+  WeaponVoice,
+  WeaponSound,
+  WeaponCatalogEntry,
+} from './WeaponCatalog';
+export { MECH_LAB_CONFIG } from './MechLabConfig';
+export {
+  WEAPON_GROUP_CONFIG,
+  createDefaultWeaponGroups,
+  loadWeaponGroups,
+  saveWeaponGroups,
+  deleteWeaponGroups,
+} from './WeaponGroups';
+export {
+  isVariantId,
+  createVariant,
+  getMaxArmor,
+  getLoadoutSummary,
+  buildVariantConfig,
+  loadMechVariants,
+  saveMechVariants,
+  getChassisId,
+  resolveMechConfig,
+} from './MechVariants';
+export type { MechVariant, LoadoutSummary } from './MechVariants';
+export {
+  ECONOMY_CONFIG,
+  formatCBills,
+  calculateMissionPayout,
+  calculateRepairCost,
+  getMechCondition,
+  getNonStockWeapons,
+} from './EconomyConfig';
+export type {
+  KillType,
+  MechDamageState,
+  PayoutLine,
+  MissionPayout,
+  RepairEstimate,
+} from './EconomyConfig';
+export type { AIProfile } from './AIConfig';
 export { ANIMATION_CONFIG } from './AnimationConfig';
 export { GAME_CONFIG } from './GameConfig';
 export { RENDERING_CONFIG } from './RenderingConfig';
@@ -24,11 +84,15 @@ export type {
   MapPosition,
   MapTerrain,
   MapEnvironment,
+  MapEnvironmentChange,
   MapLighting,
   PlayerSpawn,
   TargetSpawn,
   TurretSpawn,
+  EnemyMechSpawn,
   ObstacleConfig,
+  HeatRegionType,
+  HeatRegionConfig,
 } from './maps';
 
 // Export projectile visuals
@@ -45,5 +109,14 @@ export {
   createAutocannonMesh,
   createPPCMesh,
   createMissileMesh,
+  createProjectileMaterials,
+  createProjectileMesh,
   PROJECTILE_VISUALS,
 } from './ProjectileVisuals';
+export type {
+  ProjectileMeshKind,
+  ProjectileVisual,
+  BeamVisual,
+  ProjectileMaterials,
+  MuzzleFlashPreset,
+} from './ProjectileVisuals';
@@ -18,10 +18,17 @@ export const COMBAT_ZONE: MapConfig = {
     showDebugMarkers: false,
   },
 
+  // Slag spill on the enemy flank, coolant pool near the player's approach
+  heatRegions: [
+    { type: 'lava', position: { x: -110, y: 0, z: -100 }, radius: 18 },
+    { type: 'water', position: { x: 100, y: 0, z: 110 }, radius: 14 },
+  ],
+
   environment: {
     skyColor: 0x8b5a2b, // Warm orange-brown dusk sky
     fogColor: 0x6b4a2b,
     fogDensity: 0.0015, // Light atmospheric fog
+    ambientTemperature: 35, // Hot industrial air; heat sinks struggle
     lighting: {
       // Bright dusk lighting - visible but moody
       ambientColor: 0xffeedd,
@@ -107,6 +114,17 @@ export const COMBAT_ZONE: MapConfig = {
     },
   ],
 
+  enemyMechs: [
+    {
+      position: { x: 0, y: 5, z: -40 },
+      mechId: 'URBANMECH',
+      patrol: [
+        { x: -50, y: 0, z: -30 },
+        { x: 50, y: 0, z: -30 },
+      ],
+    },
+  ],
+
   obstacles: [
     // Industrial buildings - player side cover
     {
@@ -1,4 +1,5 @@
-import type { WeaponType } from '../../types';
+import type { FactionId, WeaponType } from '../../types';
+import type { AIProfile } from '../AIConfig';
 
 /**
  * 3D position for map objects
@@ -35,10 +36,19 @@ export interface MapEnvironment {
   fogColor?: number;
   /** Fog density (0-1) */
   fogDensity?: number;
+  /** Ambient temperature in °C; heat sinks work better when cold (default HEAT_CONFIG.AMBIENT.referenceTemperature) */
+  ambientTemperature?: number;
   /** Lighting configuration */
   lighting: MapLighting;
 }
 
+/**
+ * Partial environment update; lighting fields can change individually
+ */
+export type MapEnvironmentChange = Partial<Omit<MapEnvironment, 'lighting'>> & {
+  lighting?: Partial<MapLighting>;
+};
+
 /**
  * Terrain configuration
  */
@@ -57,6 +67,26 @@ export interface MapTerrain {
   showDebugMarkers: boolean;
 }
 
+/**
+ * Terrain region types that affect mech heat
+ */
+export type HeatRegionType = 'water' | 'lava';
+
+/**
+ * Circular terrain region (water pool, lava field) that cools or heats
+ * mechs standing in it
+ */
+export interface HeatRegionConfig {
+  /** Region type (look and default heat rate) */
+  type: HeatRegionType;
+  /** Center position (y ignored) */
+  position: MapPosition;
+  /** Radius in meters */
+  radius: number;
+  /** Heat per second while inside; negative cools (default HEAT_CONFIG.TERRAIN_REGION_HEAT) */
+  heatPerSecond?: number;
+}
+
 /**
  * Player spawn configuration
  */
@@ -91,6 +121,28 @@ export interface TurretSpawn {
   weaponType?: WeaponType;
   /** Optional health override */
   health?: number;
+  /** Minimum seconds between shots */
+  fireInterval?: number;
+  /** Aim spread cone half-angle (radians) */
+  spread?: number;
+  /** Side the turret fights for (default enemy) */
+  faction?: FactionId;
+}
+
+/**
+ * AI-piloted enemy mech spawn configuration
+ */
+export interface EnemyMechSpawn {
+  /** Position (y is height offset above terrain) */
+  position: MapPosition;
+  /** Chassis ID from MechConfigs */
+  mechId: string;
+  /** Patrol waypoints (y ignored); defaults to a loop around the spawn */
+  patrol?: MapPosition[];
+  /** Per-pilot AI overrides (applied on top of MapConfig.ai) */
+  ai?: Partial<AIProfile>;
+  /** Side the pilot fights for (default enemy) */
+  faction?: FactionId;
 }
 
 /**
@@ -123,6 +175,9 @@ export interface MapConfig {
   /** Terrain settings */
   terrain: MapTerrain;
 
+  /** Terrain regions that cool or heat mechs standing in them */
+  heatRegions?: HeatRegionConfig[];
+
   /** Environment/atmosphere */
   environment: MapEnvironment;
 
@@ -135,6 +190,12 @@ export interface MapConfig {
   /** Turret spawns */
   turrets: TurretSpawn[];
 
+  /** AI-piloted enemy mech spawns */
+  enemyMechs?: EnemyMechSpawn[];
+
+  /** AI overrides applied to every enemy mech on this map */
+  ai?: Partial<AIProfile>;
+
   /** Static obstacles */
   obstacles: ObstacleConfig[];
 }
@@ -4,11 +4,15 @@ export type {
   MapPosition,
   MapTerrain,
   MapEnvironment,
+  MapEnvironmentChange,
   MapLighting,
   PlayerSpawn,
   TargetSpawn,
   TurretSpawn,
+  EnemyMechSpawn,
   ObstacleConfig,
+  HeatRegionType,
+  HeatRegionConfig,
 } from './MapConfig';
 export { LIGHTING_PRESETS } from './MapConfig';
 
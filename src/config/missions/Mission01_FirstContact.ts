@@ -79,6 +79,7 @@ export const MISSION_01_FIRST_CONTACT: MissionConfig = {
     'Your first exercise is simple: destroy the three target drones in the training yard.',
     'Use WASD to move your mech. A and D turn your legs, while the mouse aims your torso.',
     'Press the left mouse button to fire your primary weapon. Destroy all targets to complete the mission.',
+    'Supply caches have been left beside the cover walls. Walk over them to recover them for a bonus.',
     'Good luck, pilot. Show us what you can do.',
   ],
 
@@ -90,6 +91,18 @@ export const MISSION_01_FIRST_CONTACT: MissionConfig = {
       required: true,
       showProgress: true,
     },
+    {
+      id: 'bonus-caches',
+      type: 'collect',
+      description: 'Recover supply caches',
+      required: false,
+      // One cache beside each cover wall
+      pickups: [
+        { x: -50, y: 0, z: 85 },
+        { x: 50, y: 0, z: 85 },
+      ],
+      showProgress: true,
+    },
   ],
 
   victoryCondition: 'destroy_all',
@@ -98,5 +111,15 @@ export const MISSION_01_FIRST_CONTACT: MissionConfig = {
   // No time limit for tutorial
   showTimer: false,
 
+  // Recovering the caches opens a direct route to the turret line
+  outcomes: [
+    {
+      id: 'caches-recovered',
+      label: 'Supplies recovered',
+      requiredObjectives: ['bonus-caches'],
+    },
+    { id: 'area-cleared', label: 'Area cleared' },
+  ],
+
   recommendedMechs: ['ATLAS', 'URBANMECH'],
 };
@@ -120,5 +120,7 @@ export const MISSION_02_TARGET_PRACTICE: MissionConfig = {
   parTime: 60,
   showTimer: true,
 
+  prerequisites: [{ mission: 1 }],
+
   recommendedMechs: ['MADCAT', 'ATLAS'],
 };
@@ -197,6 +197,9 @@ export const MISSION_03_TURRET_GAUNTLET: MissionConfig = {
   defeatCondition: 'player_destroyed',
   showTimer: true,
 
+  // Reached through training, or straight from First Contact with its supplies
+  prerequisites: [{ mission: 2 }, { mission: 1, outcome: 'caches-recovered' }],
+
   // Unlock the MADCAT after this mission
   unlocksMech: 'MADCAT',
   recommendedMechs: ['ATLAS'],
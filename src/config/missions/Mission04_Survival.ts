@@ -32,55 +32,9 @@ export const MISSION_04_SURVIVAL: MissionConfig = {
     facing: 0,
   },
 
-  // Wave targets - spawned around the perimeter
-  // Note: In a full implementation, these would spawn in waves via ObjectiveSystem
-  targets: [
-    // Wave 1 - Light targets
-    { position: { x: -80, y: 6, z: -80 }, health: 60 },
-    { position: { x: 80, y: 6, z: -80 }, health: 60 },
-    { position: { x: -80, y: 6, z: 80 }, health: 60 },
-    { position: { x: 80, y: 6, z: 80 }, health: 60 },
-
-    // Wave 2 - Medium targets (closer)
-    { position: { x: 0, y: 6, z: -60 }, health: 100 },
-    { position: { x: 60, y: 6, z: 0 }, health: 100 },
-    { position: { x: 0, y: 6, z: 60 }, health: 100 },
-    { position: { x: -60, y: 6, z: 0 }, health: 100 },
-
-    // Wave 3 - Heavy targets
-    { position: { x: -40, y: 6, z: -40 }, health: 150 },
-    { position: { x: 40, y: 6, z: -40 }, health: 150 },
-    { position: { x: 40, y: 6, z: 40 }, health: 150 },
-    { position: { x: -40, y: 6, z: 40 }, health: 150 },
-  ],
-
-  turrets: [
-    // Perimeter turrets that activate over time
-    {
-      position: { x: -100, y: 0, z: 0 },
-      detectionRange: 120,
-      weaponType: 'autocannon',
-      health: 80,
-    },
-    {
-      position: { x: 100, y: 0, z: 0 },
-      detectionRange: 120,
-      weaponType: 'autocannon',
-      health: 80,
-    },
-    {
-      position: { x: 0, y: 0, z: -100 },
-      detectionRange: 120,
-      weaponType: 'laser',
-      health: 80,
-    },
-    {
-      position: { x: 0, y: 0, z: 100 },
-      detectionRange: 120,
-      weaponType: 'laser',
-      health: 80,
-    },
-  ],
+  // Enemies arrive in waves (see waves below)
+  targets: [],
+  turrets: [],
 
   obstacles: [
     // Central defensive position
@@ -173,6 +127,73 @@ export const MISSION_04_SURVIVAL: MissionConfig = {
     'Use the central defensive position and manage your resources. Survive at all costs.',
   ],
 
+  waves: [
+    // Wave 1 - Light targets at the corners
+    {
+      delay: 3,
+      archetype: 'target',
+      count: 4,
+      health: 60,
+      spawnPoints: [
+        { x: -80, y: 6, z: -80 },
+        { x: 80, y: 6, z: -80 },
+        { x: -80, y: 6, z: 80 },
+        { x: 80, y: 6, z: 80 },
+      ],
+    },
+    // Wave 2 - Autocannon turrets on the flanks
+    {
+      delay: 30,
+      archetype: 'turret',
+      count: 2,
+      weaponType: 'autocannon',
+      health: 80,
+      spawnPoints: [
+        { x: -100, y: 0, z: 0 },
+        { x: 100, y: 0, z: 0 },
+      ],
+    },
+    // Wave 3 - Light mechs closing from north and south
+    {
+      delay: 30,
+      archetype: 'mech',
+      mechId: 'URBANMECH',
+      count: 2,
+      ai: { detectionRange: 250 },
+      spawnPoints: [
+        { x: 0, y: 15, z: -110 },
+        { x: 0, y: 15, z: 110 },
+      ],
+    },
+    // Wave 4 - Laser turrets, tougher and faster firing
+    {
+      delay: 35,
+      archetype: 'turret',
+      count: 2,
+      weaponType: 'laser',
+      health: 80,
+      scaling: { health: 1.25, fireRate: 1.2 },
+      spawnPoints: [
+        { x: 0, y: 0, z: -100 },
+        { x: 0, y: 0, z: 100 },
+      ],
+    },
+    // Wave 5 - Heavy mechs from every side
+    {
+      delay: 35,
+      archetype: 'mech',
+      mechId: 'MADCAT',
+      count: 3,
+      ai: { detectionRange: 250, flankChance: 0.4 },
+      scaling: { health: 1.2 },
+      spawnPoints: [
+        { x: -110, y: 15, z: 0 },
+        { x: 110, y: 15, z: 0 },
+        { x: 0, y: 15, z: -110 },
+      ],
+    },
+  ],
+
   objectives: [
     {
       id: 'survive',
@@ -195,6 +216,8 @@ export const MISSION_04_SURVIVAL: MissionConfig = {
   timeLimit: 180,
   showTimer: true,
 
+  prerequisites: [{ mission: 3 }],
+
   difficulty: {
     enemyAccuracy: 0.9,
     enemyDamage: 0.9,
@@ -150,6 +150,23 @@ export const MISSION_05_FINAL_ASSAULT: MissionConfig = {
     },
   ],
 
+  enemyMechs: [
+    {
+      position: { x: -60, y: 5, z: -60 },
+      mechId: 'MADCAT',
+    },
+    {
+      position: { x: 0, y: 5, z: -120 },
+      mechId: 'ATLAS',
+      ai: { flankChance: 0, retreatArmor: 0 },
+    },
+  ],
+
+  ai: {
+    detectionRange: 180,
+    flankChance: 0.35,
+  },
+
   obstacles: [
     // Approach cover
     {
@@ -292,7 +309,7 @@ export const MISSION_05_FINAL_ASSAULT: MissionConfig = {
     {
       id: 'destroy-generators',
       type: 'destroy',
-      description: 'Destroy power generators (0/2)',
+      description: 'Destroy power generators',
       required: false,
       targetIds: ['target-2', 'target-3'],
       targetCount: 2,
@@ -301,7 +318,7 @@ export const MISSION_05_FINAL_ASSAULT: MissionConfig = {
     {
       id: 'destroy-comms',
       type: 'destroy',
-      description: 'Destroy comm towers (0/2)',
+      description: 'Destroy comm towers',
       required: false,
       targetIds: ['target-4', 'target-5'],
       targetCount: 2,
@@ -316,10 +333,109 @@ export const MISSION_05_FINAL_ASSAULT: MissionConfig = {
     },
   ],
 
+  // Scripted events: radio calls, a power cut and HQ reinforcements
+  triggers: [
+    {
+      id: 'outer-ring',
+      conditions: [
+        { type: 'zone_entered', position: { x: 0, y: 0, z: 130 }, radius: 70 },
+      ],
+      actions: [
+        {
+          type: 'radio_message',
+          message: {
+            speaker: 'COMMAND',
+            text: 'You are entering the outer defense ring. Expect heavy turret fire.',
+          },
+        },
+      ],
+    },
+    {
+      id: 'power-down',
+      conditions: [
+        { type: 'objective_completed', objectiveId: 'destroy-generators' },
+      ],
+      actions: [
+        {
+          type: 'radio_message',
+          message: {
+            speaker: 'COMMAND',
+            text: 'Base power is down. Their floodlights are out - use the dark.',
+          },
+        },
+        {
+          type: 'change_lighting',
+          environment: {
+            skyColor: 0x1a1008,
+            fogColor: 0x120a05,
+            lighting: { ambientIntensity: 0.7, directionalIntensity: 1.0 },
+          },
+        },
+      ],
+    },
+    {
+      id: 'hq-reinforcements',
+      conditions: [{ type: 'health_below', entityId: 'target-1', percent: 50 }],
+      actions: [
+        {
+          type: 'radio_message',
+          message: {
+            speaker: 'COMMAND',
+            text: 'The HQ is calling for help. Hostile mechs inbound on both flanks!',
+            priority: 'high',
+          },
+        },
+        {
+          type: 'spawn_group',
+          group: {
+            archetype: 'mech',
+            mechId: 'URBANMECH',
+            count: 2,
+            spawnPoints: [
+              { x: -150, y: 5, z: -160 },
+              { x: 150, y: 5, z: -160 },
+            ],
+          },
+        },
+        {
+          type: 'add_objective',
+          objective: {
+            id: 'destroy-reinforcements',
+            type: 'destroy',
+            description: 'Destroy the HQ reinforcements',
+            required: false,
+            targetIds: [
+              'enemy-mech-hq-reinforcements-1',
+              'enemy-mech-hq-reinforcements-2',
+            ],
+            showProgress: true,
+          },
+        },
+      ],
+    },
+    {
+      id: 'comms-down',
+      conditions: [
+        { type: 'objective_completed', objectiveId: 'destroy-comms' },
+      ],
+      actions: [
+        {
+          type: 'radio_message',
+          message: {
+            speaker: 'COMMAND',
+            text: 'Comm towers are down. They are cut off from the rest of their forces.',
+          },
+        },
+      ],
+    },
+  ],
+
   victoryCondition: 'destroy_targets',
   defeatCondition: 'player_destroyed',
   showTimer: true,
 
+  prerequisites: [{ mission: 4 }],
+
   difficulty: {
     enemyAccuracy: 1.1,
     enemyDamage: 1.1,
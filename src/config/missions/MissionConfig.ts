@@ -1,4 +1,11 @@
-import type { MapConfig, MapPosition } from '../maps/MapConfig';
+import type {
+  MapConfig,
+  MapEnvironmentChange,
+  MapPosition,
+} from '../maps/MapConfig';
+import type { FactionId, WeaponType } from '../../types';
+import type { AIProfile } from '../AIConfig';
+import { getFactionRelation } from '../FactionConfig';
 
 /**
  * Types of victory conditions for missions
@@ -18,7 +25,7 @@ export type DefeatCondition =
   | 'player_destroyed' // Player mech destroyed
   | 'time_limit' // Time runs out
   | 'objective_failed' // A required objective failed
-  | 'custom'; // Custom condition
+  | 'custom'; // Custom condition (fail_mission trigger)
 
 /**
  * Types of mission objectives
@@ -56,8 +63,10 @@ export interface ObjectiveConfig {
   targetIds?: string[];
   /** Target position (for reach objectives) */
   position?: MapPosition;
-  /** Radius for position-based objectives */
+  /** Radius for position-based objectives (reach zone, pickup range) */
   radius?: number;
+  /** Pickup locations (for collect objectives) */
+  pickups?: MapPosition[];
   /** Duration in seconds (for survive/protect) */
   duration?: number;
   /** Count required (for destroy X of Y) */
@@ -66,6 +75,140 @@ export interface ObjectiveConfig {
   showProgress?: boolean;
 }
 
+/**
+ * Entity archetypes a wave can spawn
+ */
+export type WaveArchetype = 'turret' | 'target' | 'mech';
+
+/**
+ * Per-wave strength scaling, applied on top of difficulty
+ */
+export interface WaveScaling {
+  /** Health multiplier (turret/target health, mech armor) */
+  health?: number;
+  /** Turret fire rate multiplier */
+  fireRate?: number;
+}
+
+/**
+ * A group of entities spawned together (by a wave or a trigger)
+ */
+export interface SpawnGroupConfig {
+  /** What to spawn */
+  archetype: WaveArchetype;
+  /** Spawn points (y is height offset above terrain); entities cycle through them */
+  spawnPoints: MapPosition[];
+  /** Number of entities to spawn */
+  count: number;
+  /** Chassis ID from MechConfigs (mech waves) */
+  mechId?: string;
+  /** Weapon type (turret waves) */
+  weaponType?: WeaponType;
+  /** Base health before scaling (turret and target waves) */
+  health?: number;
+  /** AI overrides on top of the mission's AI (mech waves) */
+  ai?: Partial<AIProfile>;
+  /** Strength scaling for this group */
+  scaling?: WaveScaling;
+}
+
+/**
+ * Configuration for a single enemy wave
+ */
+export interface WaveConfig extends SpawnGroupConfig {
+  /** Seconds after the previous wave started (first wave: after mission start) */
+  delay: number;
+}
+
+/**
+ * Comms queue priority; higher priorities jump the queue and critical
+ * messages cut off whatever is playing
+ */
+export type CommsPriority = 'low' | 'normal' | 'high' | 'critical';
+
+/**
+ * A radio message shown to the player mid-mission
+ */
+export interface RadioMessageConfig {
+  /** Speaker name (e.g. "COMMAND") */
+  speaker: string;
+  /** Message text */
+  text: string;
+  /** Portrait glyph (defaults to the speaker's in COMMS_CONFIG) */
+  portrait?: string;
+  /** Queue priority (default: normal) */
+  priority?: CommsPriority;
+  /** Seconds on screen (default: from priority and text length) */
+  duration?: number;
+}
+
+/**
+ * Conditions a mission trigger waits for
+ */
+export type TriggerCondition =
+  /** Mission time passed (or time since another trigger fired) */
+  | { type: 'timer'; seconds: number; since?: string }
+  /** An entity was destroyed */
+  | { type: 'entity_destroyed'; entityId: string }
+  /** The player is inside a zone */
+  | { type: 'zone_entered'; position: MapPosition; radius: number }
+  /** An objective was completed */
+  | { type: 'objective_completed'; objectiveId: string }
+  /** An entity's total armor/structure fell below a percentage (0-100) */
+  | { type: 'health_below'; entityId: string; percent: number };
+
+/**
+ * Actions a mission trigger performs when it fires
+ */
+export type TriggerAction =
+  /**
+   * Spawn a group of entities. IDs are `<archetype>-<triggerId>-<n>`
+   * (target-, turret-, enemy-mech-) so objectives and triggers can name them.
+   */
+  | { type: 'spawn_group'; group: SpawnGroupConfig }
+  /** Send a radio message */
+  | { type: 'radio_message'; message: RadioMessageConfig }
+  /** Add a new objective (destroy, destroy_all, reach, protect, survive) */
+  | { type: 'add_objective'; objective: ObjectiveConfig }
+  /** End the mission in defeat */
+  | { type: 'fail_mission'; reason?: string }
+  /** Change sky, fog and lighting */
+  | { type: 'change_lighting'; environment: MapEnvironmentChange };
+
+/**
+ * A scripted mission event: once every condition holds, the actions run (once)
+ */
+export interface MissionTrigger {
+  /** Unique identifier (used by timer `since` and spawned entity IDs) */
+  id: string;
+  /** All conditions must hold at the same time */
+  conditions: TriggerCondition[];
+  /** Actions to run in order */
+  actions: TriggerAction[];
+}
+
+/**
+ * A campaign mission that opens this one once completed
+ */
+export interface MissionPrerequisite {
+  /** Mission number that must be completed */
+  mission: number;
+  /** Outcome that mission must have ended with (any when omitted) */
+  outcome?: string;
+}
+
+/**
+ * A way a mission can end, decided by the objectives completed on victory
+ */
+export interface MissionOutcome {
+  /** Unique identifier within the mission (stored as the branch taken) */
+  id: string;
+  /** Short label shown on the campaign map and in the debriefing */
+  label: string;
+  /** Objective IDs that must all be completed (none = always matches) */
+  requiredObjectives?: string[];
+}
+
 /**
  * Mission difficulty settings
  */
@@ -80,10 +223,23 @@ export interface MissionDifficulty {
   enemyHealth: number;
 }
 
+/**
+ * Player-selectable difficulty levels
+ */
+export type DifficultyLevel = 'easy' | 'normal' | 'hard' | 'veteran';
+
+/** Difficulty levels in menu order */
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = [
+  'easy',
+  'normal',
+  'hard',
+  'veteran',
+];
+
 /**
  * Default difficulty presets
  */
-export const DIFFICULTY_PRESETS: Record<string, MissionDifficulty> = {
+export const DIFFICULTY_PRESETS: Record<DifficultyLevel, MissionDifficulty> = {
   easy: {
     enemyAccuracy: 0.6,
     enemyDamage: 0.7,
@@ -110,13 +266,83 @@ export const DIFFICULTY_PRESETS: Record<string, MissionDifficulty> = {
   },
 };
 
+/**
+ * Check whether a value (e.g. from mode settings or storage) is a difficulty level
+ */
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+  return DIFFICULTY_LEVELS.includes(value as DifficultyLevel);
+}
+
+/**
+ * Combine a difficulty preset with a mission's overrides.
+ * Overrides are tuned against normal, so they scale the preset.
+ */
+export function resolveDifficulty(
+  level: DifficultyLevel,
+  overrides: Partial<MissionDifficulty> = {}
+): MissionDifficulty {
+  const preset = DIFFICULTY_PRESETS[level];
+  return {
+    enemyAccuracy: preset.enemyAccuracy * (overrides.enemyAccuracy ?? 1),
+    enemyDamage: preset.enemyDamage * (overrides.enemyDamage ?? 1),
+    playerDamage: preset.playerDamage * (overrides.playerDamage ?? 1),
+    enemyHealth: preset.enemyHealth * (overrides.enemyHealth ?? 1),
+  };
+}
+
+/**
+ * Damage multiplier for an attacker of the given faction.
+ * The player's side deals playerDamage, anyone hostile to the player
+ * deals enemyDamage, everyone else is unscaled.
+ */
+export function getDamageMultiplier(
+  difficulty: MissionDifficulty,
+  attackerFaction: FactionId
+): number {
+  if (attackerFaction === 'player') return difficulty.playerDamage;
+  if (getFactionRelation(attackerFaction, 'player') === 'hostile') {
+    return difficulty.enemyDamage;
+  }
+  return 1;
+}
+
+/**
+ * Outcome a victorious mission ended with: the first whose required
+ * objectives were all completed (undefined for missions without outcomes)
+ */
+export function resolveMissionOutcome(
+  mission: MissionConfig,
+  completedObjectives: string[]
+): string | undefined {
+  return mission.outcomes?.find((outcome) =>
+    (outcome.requiredObjectives ?? []).every((id) =>
+      completedObjectives.includes(id)
+    )
+  )?.id;
+}
+
+/**
+ * Whether a prerequisite holds given completed missions and branches taken
+ */
+export function isPrerequisiteMet(
+  prerequisite: MissionPrerequisite,
+  completedMissions: number[],
+  branchesTaken: Record<number, string>
+): boolean {
+  if (!completedMissions.includes(prerequisite.mission)) return false;
+  return (
+    prerequisite.outcome === undefined ||
+    branchesTaken[prerequisite.mission] === prerequisite.outcome
+  );
+}
+
 /**
  * Complete mission configuration extending MapConfig
  */
 export interface MissionConfig extends MapConfig {
   // ========== Campaign Metadata ==========
 
-  /** Mission number in campaign sequence (1-based) */
+  /** Mission number, its node ID in the campaign graph (1-based) */
   missionNumber: number;
 
   /** Mission title displayed in UI */
@@ -130,6 +356,16 @@ export interface MissionConfig extends MapConfig {
   /** List of mission objectives */
   objectives: ObjectiveConfig[];
 
+  // ========== Waves ==========
+
+  /** Enemy waves spawned during the mission, in order (optional) */
+  waves?: WaveConfig[];
+
+  // ========== Scripting ==========
+
+  /** Scripted events evaluated by ObjectiveSystem (optional) */
+  triggers?: MissionTrigger[];
+
   // ========== Victory/Defeat Conditions ==========
 
   /** Primary victory condition */
@@ -144,8 +380,19 @@ export interface MissionConfig extends MapConfig {
   /** Par time for bonus (optional) */
   parTime?: number;
 
+  // ========== Campaign Graph ==========
+
+  /** Missions that open this one; any one suffices (none = campaign start) */
+  prerequisites?: MissionPrerequisite[];
+
+  /** Ways this mission can end, most specific first (optional) */
+  outcomes?: MissionOutcome[];
+
   // ========== Rewards/Progression ==========
 
+  /** C-bills paid on completion (defaults to ECONOMY_CONFIG.missionReward) */
+  reward?: number;
+
   /** Mech ID unlocked on completion */
   unlocksMech?: string;
 
@@ -179,6 +426,8 @@ export interface ObjectiveState {
   targetProgress: number;
   /** Time remaining for timed objectives */
   timeRemaining?: number;
+  /** Mission time (seconds) the objective became active; 0 unless added by a trigger */
+  startTime?: number;
 }
 
 /**
@@ -247,3 +496,61 @@ export function createDestroyTargetsObjective(
     showProgress: true,
   };
 }
+
+/**
+ * Helper to create a reach zone objective
+ */
+export function createReachObjective(
+  position: MapPosition,
+  radius?: number,
+  id: string = 'reach',
+  description: string = 'Reach the nav point'
+): ObjectiveConfig {
+  return {
+    id,
+    type: 'reach',
+    description,
+    required: true,
+    position,
+    radius,
+  };
+}
+
+/**
+ * Helper to create a protect objective (fails if any target is destroyed)
+ */
+export function createProtectObjective(
+  targetIds: string[],
+  duration?: number,
+  id: string = 'protect',
+  description: string = 'Protect the convoy'
+): ObjectiveConfig {
+  return {
+    id,
+    type: 'protect',
+    description,
+    required: true,
+    targetIds,
+    duration,
+    showProgress: true,
+  };
+}
+
+/**
+ * Helper to create a collect objective from pickup locations
+ */
+export function createCollectObjective(
+  pickups: MapPosition[],
+  id: string = 'collect',
+  description: string = 'Recover the supply caches'
+): ObjectiveConfig {
+  return {
+    id,
+    type: 'collect',
+    description,
+    required: true,
+    pickups,
+    targetCount: pickups.length,
+    showProgress: true,
+  };
+}
@@ -5,6 +5,18 @@ export type {
   ObjectiveState,
   MissionState,
   MissionDifficulty,
+  DifficultyLevel,
+  WaveConfig,
+  WaveArchetype,
+  WaveScaling,
+  SpawnGroupConfig,
+  RadioMessageConfig,
+  MissionPrerequisite,
+  MissionOutcome,
+  CommsPriority,
+  MissionTrigger,
+  TriggerCondition,
+  TriggerAction,
   VictoryCondition,
   DefeatCondition,
   ObjectiveType,
@@ -13,9 +25,18 @@ export type {
 
 export {
   DIFFICULTY_PRESETS,
+  DIFFICULTY_LEVELS,
+  isDifficultyLevel,
+  resolveDifficulty,
+  getDamageMultiplier,
+  resolveMissionOutcome,
+  isPrerequisiteMet,
   createDestroyAllObjective,
   createSurviveObjective,
   createDestroyTargetsObjective,
+  createReachObjective,
+  createProtectObjective,
+  createCollectObjective,
 } from './MissionConfig';
 
 // Individual mission configurations
@@ -29,7 +50,8 @@ import { MISSION_04_SURVIVAL } from './Mission04_Survival';
 import { MISSION_05_FINAL_ASSAULT } from './Mission05_FinalAssault';
 
 /**
- * Registry of all campaign missions, keyed by mission number
+ * Registry of all campaign missions, keyed by mission number.
+ * Missions link into a graph through their prerequisites and outcomes.
  */
 export const MISSION_REGISTRY: Record<number, MissionConfig> = {
   1: MISSION_01_FIRST_CONTACT,
@@ -68,3 +90,55 @@ export function getTotalMissions(): number {
 export function isValidMission(num: number): boolean {
   return num in MISSION_REGISTRY;
 }
+
+/**
+ * Missions opened by finishing a mission with the given outcome
+ */
+export function getMissionsUnlockedBy(
+  missionNumber: number,
+  outcome?: string
+): MissionConfig[] {
+  return getMissionNumbers()
+    .map((num) => MISSION_REGISTRY[num])
+    .filter((mission) =>
+      (mission.prerequisites ?? []).some(
+        (prerequisite) =>
+          prerequisite.mission === missionNumber &&
+          (prerequisite.outcome === undefined ||
+            prerequisite.outcome === outcome)
+      )
+    );
+}
+
+/**
+ * Campaign graph laid out in columns: each mission sits one column right of
+ * its furthest prerequisite, ordered by mission number within a column
+ */
+export function getCampaignColumns(): number[][] {
+  const depths = new Map<number, number>();
+  const getDepth = (num: number, visiting: Set<number>): number => {
+    const known = depths.get(num);
+    if (known !== undefined) return known;
+
+    // Guard against prerequisite cycles in mission data
+    visiting.add(num);
+    let depth = 0;
+    for (const prerequisite of MISSION_REGISTRY[num]?.prerequisites ?? []) {
+      if (visiting.has(prerequisite.mission)) continue;
+      if (!isValidMission(prerequisite.mission)) continue;
+      depth = Math.max(depth, getDepth(prerequisite.mission, visiting) + 1);
+    }
+    visiting.delete(num);
+
+    depths.set(num, depth);
+    return depth;
+  };
+
+  const columns: number[][] = [];
+  for (const num of getMissionNumbers()) {
+    const depth = getDepth(num, new Set());
+    if (!columns[depth]) columns[depth] = [];
+    columns[depth].push(num);
+  }
+  return columns.filter((column) => column !== undefined);
+}
@@ -5,6 +5,7 @@ import { PhysicsWorld, initPhysics } from '../physics/PhysicsWorld';
 import { HUD } from '../rendering/HUD';
 import { PostProcessing } from '../rendering/PostProcessing';
 import { PauseMenu } from '../rendering/PauseMenu';
+import type { WeaponGroupSource } from '../rendering/PauseMenu';
 import { SoundManager } from '../audio/SoundManager';
 
 // Import systems
@@ -17,25 +18,46 @@ import {
   HeatSystem,
   WeaponSystem,
   ProjectileSystem,
+  DamageSystem,
+  MechDestructionSystem,
   RenderSystem,
   CameraSystem,
   MechAnimationSystem,
   AudioSystem,
   MapSystem,
+  NavigationSystem,
   TurretAISystem,
+  AIMechSystem,
   TargetingSystem,
+  ObjectiveSystem,
+  ObjectiveMarkerSystem,
+  PickupSystem,
+  WaveSpawnerSystem,
+  CommsSystem,
 } from '../systems';
 
 // Import archetypes and config
 import { createMech } from '../archetypes/createMech';
 import { createTarget } from '../archetypes/createTarget';
 import { createTurret } from '../archetypes/createTurret';
+import { createEnemyMech } from '../archetypes/createEnemyMech';
+import { createPickup } from '../archetypes/createPickup';
 import { getMechById } from '../config/MechConfigs';
+import { resolveMechConfig } from '../config/MechVariants';
+import { loadWeaponGroups, saveWeaponGroups } from '../config/WeaponGroups';
 import { GAME_CONFIG } from '../config/GameConfig';
 import { CAMERA_CONFIG } from '../config/CameraConfig';
 import { RENDERING_CONFIG } from '../config/RenderingConfig';
+import { AI_CONFIG } from '../config/AIConfig';
+import { getFactionRelation } from '../config/FactionConfig';
 import { getMapById } from '../config/maps';
 import type { MapConfig } from '../config/maps';
+import { resolveDifficulty } from '../config/missions';
+import type {
+  DifficultyLevel,
+  MissionConfig,
+  MissionDifficulty,
+} from '../config/missions';
 
 // Import components for HUD access
 import { HeatComponent } from '../components/HeatComponent';
@@ -43,9 +65,11 @@ import { PhysicsComponent } from '../components/PhysicsComponent';
 import { MechComponent } from '../components/MechComponent';
 import { WeaponComponent } from '../components/WeaponComponent';
 import { HealthComponent } from '../components/HealthComponent';
+import { CriticalComponent } from '../components/CriticalComponent';
 import { TargetingComponent } from '../components/TargetingComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import type { Entity } from './Entity';
+import type { FactionRelation } from '../types';
 
 export class Game {
   private container: HTMLElement;
@@ -72,10 +96,20 @@ export class Game {
   private cameraSystem!: CameraSystem;
   private renderSystem!: RenderSystem;
   private mapSystem!: MapSystem;
+  private objectiveSystem: ObjectiveSystem | null = null;
+  private objectiveMarkerSystem: ObjectiveMarkerSystem | null = null;
+  private waveSpawnerSystem: WaveSpawnerSystem | null = null;
+  private commsSystem!: CommsSystem;
 
   // Map configuration
   private mapConfig!: MapConfig;
 
+  // Campaign mission (objectives, time limit), null for free play
+  private mission: MissionConfig | null;
+
+  // Difficulty scaling (damage, enemy health, turret accuracy)
+  private difficulty: MissionDifficulty;
+
   // Mech selection
   private mechId: string;
 
@@ -84,10 +118,18 @@ export class Game {
   private isRunning: boolean = false;
   private audioInitialized: boolean = false;
 
-  constructor(container: HTMLElement, mapId: string, mechId: string = 'ATLAS') {
+  constructor(
+    container: HTMLElement,
+    mapId: string,
+    mechId: string = 'ATLAS',
+    mission?: MissionConfig,
+    difficulty: DifficultyLevel = 'normal'
+  ) {
     this.container = container;
-    // Load map config from provided ID
-    this.mapConfig = getMapById(mapId);
+    // Missions carry their own map layout; otherwise load it by ID
+    this.mission = mission ?? null;
+    this.mapConfig = mission ?? getMapById(mapId);
+    this.difficulty = resolveDifficulty(difficulty, mission?.difficulty);
     // Store mech selection
     this.mechId = mechId;
   }
@@ -110,30 +152,53 @@ export class Game {
     // Create ECS world
     this.world = new World();
 
+    // Create map system with loaded config (AI needs its navigation grid)
+    this.mapSystem = new MapSystem(
+      this.scene,
+      this.physicsWorld,
+      this.mapConfig
+    );
+    this.mapSystem.setLights(this.ambientLight, this.directionalLight);
+
     // Register systems in correct order
     // 1. Input capture
     this.world.addSystem(new InputSystem(this.inputManager));
-    // 2. Movement (tank controls, direct velocity)
+    // 2. AI pilots (write input snapshots for enemy mechs)
+    this.world.addSystem(
+      new AIMechSystem(this.physicsWorld, this.mapSystem.getNavGrid())
+    );
+    // 3. Movement (tank controls, direct velocity)
     this.world.addSystem(new MovementSystem(this.physicsWorld));
-    // 3. Torso/head rotation (mouse/keyboard)
+    // 4. Torso/head rotation (mouse/keyboard)
     this.world.addSystem(new TorsoControlSystem());
-    // 4. Weapon input handling
+    // 5. Weapon input handling
     this.world.addSystem(new WeaponControlSystem());
-    // 5. Targeting system (enemy detection, target cycling)
-    this.world.addSystem(new TargetingSystem(this.camera));
-    // 6. Physics simulation
+    // 6. Targeting system (enemy detection, target cycling)
+    this.world.addSystem(new TargetingSystem(this.camera, this.physicsWorld));
+    // 7. Physics simulation
     this.world.addSystem(new PhysicsSystem(this.physicsWorld));
-    // 6. Heat management
-    this.world.addSystem(new HeatSystem());
-    // 7. Weapon firing logic (with camera for reticle aiming)
+    // 8. Heat management (map temperature and heat regions)
+    this.world.addSystem(new HeatSystem(this.mapSystem));
+    // 9. Weapon firing logic (with camera for reticle aiming)
     this.world.addSystem(
-      new WeaponSystem(this.scene, this.camera, this.physicsWorld)
+      new WeaponSystem(
+        this.scene,
+        this.camera,
+        this.physicsWorld,
+        this.difficulty
+      )
     );
-    // 8. Projectile updates (with physics for collision detection)
+    // 10. Projectile updates (with physics for collision detection)
     this.world.addSystem(new ProjectileSystem(this.scene, this.physicsWorld));
-    // 9. Turret AI (detection, tracking, firing)
-    this.world.addSystem(new TurretAISystem());
-    // 10. Mech animations
+    // 11. Damage resolution (hit zones, destruction events)
+    this.world.addSystem(new DamageSystem());
+    // 12. Mech destruction (collapse, explosion, death camera hand-off)
+    this.world.addSystem(new MechDestructionSystem(this.scene));
+    // 13. Turret AI (detection, tracking, firing)
+    this.world.addSystem(
+      new TurretAISystem(this.physicsWorld, this.difficulty.enemyAccuracy)
+    );
+    // 14. Mech animations
     this.world.addSystem(new MechAnimationSystem());
 
     this.renderSystem = new RenderSystem(this.scene);
@@ -143,19 +208,48 @@ export class Game {
     this.world.addSystem(this.cameraSystem);
 
     this.world.addSystem(new AudioSystem(this.soundManager));
+    // Radio channel: mission messages, objective updates, heat/damage alerts
+    this.commsSystem = new CommsSystem(this.mission);
+    this.world.addSystem(this.commsSystem);
 
-    // Create map system with loaded config
-    this.mapSystem = new MapSystem(
-      this.scene,
-      this.physicsWorld,
-      this.mapConfig
-    );
+    // Map system builds the environment and navigation grid on first update
     this.world.addSystem(this.mapSystem);
+    // Navigation grid upkeep (mech blocking, debug overlay)
+    this.world.addSystem(
+      new NavigationSystem(this.scene, this.mapSystem.getNavGrid())
+    );
+
+    // Mission objectives, victory and defeat (campaign only)
+    if (this.mission) {
+      this.objectiveSystem = new ObjectiveSystem();
+      this.world.addSystem(this.objectiveSystem);
+      // Collectible pickups for collect objectives
+      this.world.addSystem(new PickupSystem());
+      // Objective world markers and HUD waypoints
+      this.objectiveMarkerSystem = new ObjectiveMarkerSystem(
+        this.scene,
+        this.camera,
+        this.mapSystem
+      );
+      this.world.addSystem(this.objectiveMarkerSystem);
+      // Enemy waves and trigger spawn groups
+      if (this.mission.waves?.length || this.mission.triggers?.length) {
+        this.waveSpawnerSystem = new WaveSpawnerSystem(
+          this.physicsWorld,
+          this.mapSystem,
+          this.mission,
+          this.difficulty
+        );
+        this.world.addSystem(this.waveSpawnerSystem);
+      }
+    }
 
     // Log loaded map and mech
-    const mechConfig = getMechById(this.mechId);
+    const mechConfig = resolveMechConfig(this.mechId);
     console.log(`Loaded map: ${this.mapConfig.name} (${this.mapConfig.id})`);
-    console.log(`Deploying mech: ${mechConfig.name}`);
+    console.log(
+      `Deploying mech: ${mechConfig.variantName ?? mechConfig.name} (${mechConfig.name})`
+    );
 
     // Spawn player at map-defined position
     const playerSpawn = this.mapConfig.playerSpawn;
@@ -176,15 +270,29 @@ export class Game {
       ),
       true
     );
+    const playerWeapons = this.playerEntity.getComponent(WeaponComponent);
+    if (playerWeapons) {
+      playerWeapons.groups = loadWeaponGroups(
+        this.mechId,
+        mechConfig.hardpoints
+      );
+    }
     this.world.addEntity(this.playerEntity);
 
     // Spawn entities defined in map config
     this.spawnMapTargets();
     this.spawnMapTurrets();
+    this.spawnMapEnemyMechs();
+    this.spawnMissionPickups();
 
     // Setup HUD with entity reference wrapper
     this.hud = new HUD(this.container, this.createMechInterface());
 
+    // Start objective tracking once every mission entity exists
+    if (this.mission && this.objectiveSystem) {
+      this.objectiveSystem.startMission(this.mission);
+    }
+
     // Setup post processing
     this.postProcessing = new PostProcessing(
       this.renderer,
@@ -198,19 +306,53 @@ export class Game {
       this.postProcessing,
       (paused) => {
         this.isPaused = paused;
-      }
+      },
+      this.createWeaponGroupSource()
     );
 
     // Handle window resize
     window.addEventListener('resize', this.onResize.bind(this));
   }
 
+  /**
+   * Player weapon groups for the pause menu; edits apply immediately and
+   * are saved for the deployed mech
+   */
+  private createWeaponGroupSource(): WeaponGroupSource {
+    const weapons = this.playerEntity.getComponent(WeaponComponent);
+    const mechId = this.mechId;
+
+    return {
+      getWeapons: () =>
+        (weapons?.weapons ?? []).map((w) => ({
+          slot: w.slot,
+          type: w.config.type,
+        })),
+      getGroups: () => weapons?.groups ?? [],
+      setGroups: (groups) => {
+        if (!weapons) return;
+        weapons.groups = groups;
+        // An emptied group can't stay selected
+        if (
+          weapons.selectedGroup &&
+          !weapons.getSelectedGroup()?.slots.length
+        ) {
+          weapons.selectGroup(0);
+        }
+        saveWeaponGroups(mechId, groups);
+      },
+    };
+  }
+
   /**
    * Create an interface compatible with the existing HUD
    */
   private createMechInterface() {
     const entity = this.playerEntity;
     const cameraSystem = this.cameraSystem;
+    const objectiveSystem = this.objectiveSystem;
+    const objectiveMarkerSystem = this.objectiveMarkerSystem;
+    const mission = this.mission;
 
     return {
       getHeatSystem: () => {
@@ -219,6 +361,8 @@ export class Game {
           getCurrentHeat: () => heat?.current ?? 0,
           getMaxHeat: () => heat?.max ?? 100,
           isOverheated: () => heat?.isOverheated ?? false,
+          getStage: () => heat?.stage ?? 'normal',
+          isOverrideEngaged: () => heat?.overrideEngaged ?? false,
         };
       },
       getSpeed: () => {
@@ -243,12 +387,20 @@ export class Game {
         const weapons = entity.getComponent(WeaponComponent);
         return {
           getSelectedSlot: () => weapons?.selectedSlot ?? 1,
+          getSelectedGroup: () => {
+            const group = weapons?.getSelectedGroup();
+            return group
+              ? { group: weapons!.selectedGroup, chainFire: group.chainFire }
+              : null;
+          },
           getWeapons: () =>
             (weapons?.weapons ?? []).map((w) => ({
               slot: w.slot,
               config: { type: w.config.type },
               cooldownRemaining: w.cooldownRemaining,
               ammo: w.ammo,
+              destroyed: w.destroyed,
+              groups: weapons!.getGroupsForSlot(w.slot),
             })),
         };
       },
@@ -272,6 +424,21 @@ export class Game {
           rightLeg: Math.round((armor.rightLeg / baseArmor.rightLeg) * 100),
         };
       },
+      getStructureStatus: () => {
+        const health = entity.getComponent(HealthComponent);
+        return {
+          head: health?.getStructurePercentage('head') ?? 0,
+          torso: health?.getStructurePercentage('torso') ?? 0,
+          leftArm: health?.getStructurePercentage('leftArm') ?? 0,
+          rightArm: health?.getStructurePercentage('rightArm') ?? 0,
+          leftLeg: health?.getStructurePercentage('leftLeg') ?? 0,
+          rightLeg: health?.getStructurePercentage('rightLeg') ?? 0,
+        };
+      },
+      getCriticalHits: () => {
+        const critical = entity.getComponent(CriticalComponent);
+        return critical?.log ?? [];
+      },
       getCameraController: () => ({
         isFirstPerson: () => cameraSystem.isFirstPerson(),
       }),
@@ -286,6 +453,7 @@ export class Game {
               distance: number;
               isLocked: boolean;
               healthPercent: number;
+              relation: FactionRelation;
             }> = [];
             for (const [
               targetId,
@@ -297,13 +465,31 @@ export class Game {
                 distance: pos.distance,
                 isLocked: targetId === targeting.lockedTargetId,
                 healthPercent: pos.healthPercent,
+                relation: pos.relation,
               });
             }
             return targets;
           },
           hasLockedTarget: () => targeting?.hasLockedTarget() ?? false,
+          getMissileLock: () =>
+            targeting && targeting.missileLockTime > 0
+              ? {
+                  progress:
+                    targeting.missileLockProgress / targeting.missileLockTime,
+                  locked: targeting.hasMissileLock(),
+                }
+              : null,
         };
       },
+      getMissionTimer: () => {
+        const state = objectiveSystem?.getMissionState();
+        if (!mission?.showTimer || !state) return null;
+        return {
+          elapsed: state.elapsedTime,
+          timeLimit: mission.timeLimit,
+        };
+      },
+      getWaypoints: () => objectiveMarkerSystem?.getWaypoints() ?? [],
     };
   }
 
@@ -397,6 +583,10 @@ export class Game {
 
   stop(): void {
     this.isRunning = false;
+    // Disposes every system and the HUD, unsubscribing their listeners so
+    // a finished game no longer reacts to events from the next one
+    this.world.dispose();
+    this.hud.dispose();
   }
 
   private gameLoop(): void {
@@ -484,10 +674,11 @@ export class Game {
         : playerPos;
 
       // Only include health in config if explicitly set
-      const config =
-        targetConfig.health !== undefined
-          ? { health: targetConfig.health }
-          : {};
+      const config: Parameters<typeof createTarget>[3] = {
+        healthMultiplier: this.difficulty.enemyHealth,
+      };
+      if (targetConfig.health !== undefined)
+        config.health = targetConfig.health;
 
       const target = createTarget(
         `target-${index + 1}`,
@@ -524,6 +715,15 @@ export class Game {
         config.weaponType = turretConfig.weaponType;
       if (turretConfig.health !== undefined)
         config.health = turretConfig.health;
+      if (turretConfig.fireInterval !== undefined)
+        config.fireInterval = turretConfig.fireInterval;
+      if (turretConfig.spread !== undefined)
+        config.spread = turretConfig.spread;
+      if (turretConfig.faction !== undefined)
+        config.faction = turretConfig.faction;
+      // Only enemy turrets get tougher (or weaker) with difficulty
+      if (getFactionRelation(config.faction ?? 'enemy', 'player') === 'hostile')
+        config.healthMultiplier = this.difficulty.enemyHealth;
 
       const turret = createTurret(
         `turret-${index + 1}`,
@@ -539,6 +739,75 @@ export class Game {
     });
   }
 
+  /**
+   * Spawn AI-piloted enemy mechs defined in the map configuration
+   */
+  private spawnMapEnemyMechs(): void {
+    const { enemyMechs = [], ai } = this.mapConfig;
+
+    enemyMechs.forEach((spawn, index) => {
+      const terrainHeight = this.mapSystem.getHeightAt(
+        spawn.position.x,
+        spawn.position.z
+      );
+
+      // Map-wide overrides first, then per-pilot overrides
+      const profile = { ...AI_CONFIG.DEFAULT_PROFILE, ...ai, ...spawn.ai };
+
+      const patrolRoute = (spawn.patrol ?? []).map(
+        (point) =>
+          new THREE.Vector3(
+            point.x,
+            this.mapSystem.getHeightAt(point.x, point.z),
+            point.z
+          )
+      );
+
+      const enemy = createEnemyMech(
+        `enemy-mech-${index + 1}`,
+        getMechById(spawn.mechId),
+        this.physicsWorld,
+        new THREE.Vector3(
+          spawn.position.x,
+          terrainHeight + spawn.position.y,
+          spawn.position.z
+        ),
+        profile,
+        patrolRoute,
+        spawn.faction
+      );
+      // Only enemy mechs get tougher (or weaker) with difficulty
+      if (getFactionRelation(spawn.faction ?? 'enemy', 'player') === 'hostile')
+        enemy.getComponent(HealthComponent)!.scale(this.difficulty.enemyHealth);
+      this.world.addEntity(enemy);
+    });
+  }
+
+  /**
+   * Spawn pickups for the mission's collect objectives
+   */
+  private spawnMissionPickups(): void {
+    if (!this.mission) return;
+
+    for (const objective of this.mission.objectives) {
+      if (objective.type !== 'collect') continue;
+
+      (objective.pickups ?? []).forEach((point, index) => {
+        const pickup = createPickup(
+          `pickup-${objective.id}-${index + 1}`,
+          new THREE.Vector3(
+            point.x,
+            this.mapSystem.getHeightAt(point.x, point.z) + point.y,
+            point.z
+          ),
+          objective.id,
+          objective.radius
+        );
+        this.world.addEntity(pickup);
+      });
+    }
+  }
+
   /**
    * Get the ECS world
    */
@@ -11,6 +11,8 @@ export class InputManager {
   private mouseDeltaY: number = 0;
   private mouseButtons: Map<number, boolean> = new Map();
   private weaponSlot: number = CONTROLS_CONFIG.WEAPON_SLOTS.min;
+  private weaponGroup: number = 0;
+  private shutdownOverride: boolean = false;
   private isLocked: boolean = false;
 
   // For network - stores the last snapshot
@@ -59,9 +61,20 @@ export class InputManager {
   private onKeyDown(event: KeyboardEvent): void {
     this.keys.set(event.code, true);
 
-    // Weapon slot selection
+    // Weapon slot selection; Shift selects a weapon group instead
     if (event.code >= 'Digit1' && event.code <= 'Digit4') {
-      this.weaponSlot = parseInt(event.code.replace('Digit', ''));
+      const number = parseInt(event.code.replace('Digit', ''));
+      if (event.shiftKey) {
+        this.weaponGroup = number;
+      } else {
+        this.weaponSlot = number;
+        this.weaponGroup = 0;
+      }
+    }
+
+    // Shutdown override toggles on each press
+    if (event.code === 'KeyO' && !event.repeat) {
+      this.shutdownOverride = !this.shutdownOverride;
     }
   }
 
@@ -94,6 +107,7 @@ export class InputManager {
 
     // Cycle weapon slots using config
     const { min: minSlot, max: maxSlot } = CONTROLS_CONFIG.WEAPON_SLOTS;
+    this.weaponGroup = 0;
 
     if (event.deltaY < 0) {
       // Scroll up - next weapon
@@ -139,6 +153,8 @@ export class InputManager {
       // Actions (Space or Left Click to fire)
       fire: this.mouseButtons.get(0) || this.keys.get('Space') || false,
       altFire: this.mouseButtons.get(2) || false,
+      alphaStrike: this.keys.get('KeyF') || false,
+      shutdownOverride: this.shutdownOverride,
       // Targeting: Q/E
       targetPrevious: this.keys.get('KeyQ') || false,
       targetNext: this.keys.get('KeyE') || false,
@@ -148,6 +164,7 @@ export class InputManager {
       mouseDeltaX: this.mouseDeltaX,
       mouseDeltaY: this.mouseDeltaY,
       weaponSlot: this.weaponSlot,
+      weaponGroup: this.weaponGroup,
     };
 
     // Reset mouse delta after capturing
@@ -1,5 +1,6 @@
 import { initPhysics } from './physics/PhysicsWorld';
 import { MainMenuScreen } from './rendering/MainMenuScreen';
+import { MechLabScreen } from './rendering/MechLabScreen';
 import { GameModeManager, InstantActionMode, CampaignMode } from './modes';
 import type { GameModeType } from './modes';
 
@@ -58,10 +59,19 @@ function showMainMenu(
   modeManager: GameModeManager,
   preselectedMode?: GameModeType | null
 ): void {
-  const mainMenu = new MainMenuScreen(container, async (mode) => {
-    mainMenu.dispose();
-    await startGameMode(container, modeManager, mode);
-  });
+  const mainMenu = new MainMenuScreen(
+    container,
+    async (mode) => {
+      mainMenu.dispose();
+      await startGameMode(container, modeManager, mode);
+    },
+    () => {
+      mainMenu.dispose();
+      new MechLabScreen(container, () => {
+        showMainMenu(container, modeManager);
+      });
+    }
+  );
 
   // Set up return to menu callback
   modeManager.setCallbacks({
@@ -110,10 +120,16 @@ async function startGameMode(
         break;
     }
 
+    // Optional ?difficulty= override; modes fall back to normal
+    const difficulty = new URLSearchParams(window.location.search).get(
+      'difficulty'
+    );
+
     await modeManager.startMode(gameMode, {
       container,
       mapId: '',
       mechId: '',
+      settings: { difficulty },
     });
 
     if (loading) {
@@ -1,10 +1,33 @@
 import { Game } from '../core/Game';
 import { EventBus } from '../core/EventBus';
-import type { GameMode, GameResult } from './GameMode';
+import type { GameMode, GameModeConfig, GameResult } from './GameMode';
 import type { GameModeManager } from './GameModeManager';
-import type { MissionConfig } from '../config/missions/MissionConfig';
-import { getMissionByNumber, getMissionNumbers } from '../config/missions';
+import type {
+  DifficultyLevel,
+  MissionConfig,
+} from '../config/missions/MissionConfig';
+import {
+  getMissionsUnlockedBy,
+  isDifficultyLevel,
+  resolveMissionOutcome,
+} from '../config/missions';
+import {
+  ECONOMY_CONFIG,
+  calculateMissionPayout,
+} from '../config/EconomyConfig';
+import type {
+  KillType,
+  MechDamageState,
+  MissionPayout,
+} from '../config/EconomyConfig';
+import type { Entity } from '../core/Entity';
+import { HealthComponent } from '../components/HealthComponent';
+import { MechComponent } from '../components/MechComponent';
+import { TurretComponent } from '../components/TurretComponent';
+import { WeaponComponent } from '../components/WeaponComponent';
+import type { ArmorZones, WeaponType } from '../types';
 import { CampaignScreen } from '../rendering/CampaignScreen';
+import { MechBayScreen } from '../rendering/MechBayScreen';
 import { BriefingScreen } from '../rendering/BriefingScreen';
 import { DebriefingScreen } from '../rendering/DebriefingScreen';
 
@@ -22,23 +45,32 @@ export class CampaignMode implements GameMode {
   private startTime: number = 0;
   private currentMission: MissionConfig | null = null;
   private selectedMechId: string = 'ATLAS';
+  private difficulty: DifficultyLevel = 'normal';
 
   // UI Screens
   private campaignScreen: CampaignScreen | null = null;
   private briefingScreen: BriefingScreen | null = null;
   private debriefingScreen: DebriefingScreen | null = null;
+  private mechBayScreen: MechBayScreen | null = null;
 
   // Track game stats for debriefing
   private enemiesDestroyed: number = 0;
   private damageDealt: number = 0;
   private damageTaken: number = 0;
+  private objectivesCompleted: string[] = [];
+  private kills: Record<KillType, number> = { mech: 0, turret: 0, target: 0 };
+  private salvage: WeaponType[] = [];
 
   constructor(container: HTMLElement, modeManager: GameModeManager) {
     this.container = container;
     this.modeManager = modeManager;
   }
 
-  async init(): Promise<void> {
+  async init(config: GameModeConfig): Promise<void> {
+    const difficulty = config.settings?.difficulty;
+    if (isDifficultyLevel(difficulty)) {
+      this.difficulty = difficulty;
+    }
     this.setupEventListeners();
   }
 
@@ -85,7 +117,21 @@ export class CampaignMode implements GameMode {
       this.container,
       this.modeManager,
       (mission) => this.showBriefing(mission),
-      () => this.returnToMainMenu()
+      () => this.returnToMainMenu(),
+      () => this.showMechBay()
+    );
+  }
+
+  /**
+   * Show the mech bay for repairs and purchases
+   */
+  private showMechBay(): void {
+    this.cleanupScreens();
+
+    this.mechBayScreen = new MechBayScreen(
+      this.container,
+      this.modeManager,
+      () => this.showCampaignScreen()
     );
   }
 
@@ -102,24 +148,32 @@ export class CampaignMode implements GameMode {
       this.container,
       mission,
       this.modeManager,
-      (mechId) => this.launchMission(mechId),
+      this.difficulty,
+      (mechId, difficulty) => this.launchMission(mechId, difficulty),
       () => this.showCampaignScreen()
     );
   }
 
   /**
-   * Launch the mission with selected mech
+   * Launch the mission with selected mech and difficulty
    */
-  private async launchMission(mechId: string): Promise<void> {
+  private async launchMission(
+    mechId: string,
+    difficulty: DifficultyLevel
+  ): Promise<void> {
     if (!this.currentMission) return;
 
     this.selectedMechId = mechId;
+    this.difficulty = difficulty;
     this.cleanupBriefingScreen();
 
     // Reset stats
     this.enemiesDestroyed = 0;
     this.damageDealt = 0;
     this.damageTaken = 0;
+    this.objectivesCompleted = [];
+    this.kills = { mech: 0, turret: 0, target: 0 };
+    this.salvage = [];
 
     // Show loading indicator
     const loading = document.getElementById('loading');
@@ -130,9 +184,21 @@ export class CampaignMode implements GameMode {
 
     try {
       // Create and start the game
-      this.game = new Game(this.container, this.currentMission.id, mechId);
+      this.game = new Game(
+        this.container,
+        this.currentMission.id,
+        mechId,
+        this.currentMission,
+        difficulty
+      );
       await this.game.init();
 
+      // Damage carried over from earlier missions
+      const damage = this.modeManager.getMechDamage(mechId);
+      if (damage) {
+        this.applyMechDamage(this.game.getPlayer(), damage);
+      }
+
       if (loading) {
         loading.style.display = 'none';
       }
@@ -180,23 +246,24 @@ export class CampaignMode implements GameMode {
       return;
     }
 
-    // Get next mission
-    const missionNumbers = getMissionNumbers();
-    const currentIndex = missionNumbers.indexOf(
-      this.currentMission.missionNumber
+    // Missions the branch just taken opened, not yet played
+    const missionNumber = this.currentMission.missionNumber;
+    const nextMissions = getMissionsUnlockedBy(
+      missionNumber,
+      this.modeManager.getBranchTaken(missionNumber)
+    ).filter(
+      (mission) =>
+        this.modeManager.isMissionUnlocked(mission.missionNumber) &&
+        !this.modeManager.isMissionCompleted(mission.missionNumber)
     );
-    const nextMissionNum = missionNumbers[currentIndex + 1];
-
-    if (nextMissionNum) {
-      const nextMission = getMissionByNumber(nextMissionNum);
-      if (nextMission && this.modeManager.isMissionUnlocked(nextMissionNum)) {
-        // Go directly to next mission briefing
-        this.showBriefing(nextMission);
-        return;
-      }
+
+    if (nextMissions.length === 1) {
+      // Go directly to next mission briefing
+      this.showBriefing(nextMissions[0]);
+      return;
     }
 
-    // No next mission or not unlocked, return to campaign screen
+    // No next mission, or a choice of routes: pick on the campaign map
     this.showCampaignScreen();
   }
 
@@ -232,8 +299,33 @@ export class CampaignMode implements GameMode {
       this.modeManager.unlockMap(this.currentMission.unlocksMap);
     }
 
-    // Record completion
-    this.modeManager.completeMission(missionNumber, timePlayed);
+    // Record completion and the branch the completed objectives chose
+    const outcome = resolveMissionOutcome(
+      this.currentMission,
+      this.objectivesCompleted
+    );
+    if (outcome !== undefined) {
+      result.customData = { outcome };
+    }
+    this.modeManager.completeMission(
+      missionNumber,
+      timePlayed,
+      this.difficulty,
+      outcome
+    );
+
+    // Get paid, then bring the mech's damage home
+    const payout = calculateMissionPayout(
+      this.currentMission,
+      this.difficulty,
+      timePlayed,
+      this.objectivesCompleted,
+      this.kills,
+      this.salvage
+    );
+    this.modeManager.applyMissionPayout(payout);
+    this.recordPlayerDamage();
+    result.customData = { ...result.customData, payout };
 
     // Show debriefing
     this.showDebriefing(result);
@@ -246,20 +338,54 @@ export class CampaignMode implements GameMode {
     result.victory = false;
     result.customData = { defeatReason: reason };
 
+    // Destroyed mechs are recovered and rebuilt at the player's expense;
+    // otherwise the mech comes home with its damage
+    this.recordPlayerDamage();
+    if (reason === 'player_destroyed') {
+      const charged = this.modeManager.recoverMech(this.selectedMechId);
+      const payout: MissionPayout = {
+        lines: [{ label: 'Mech recovery', amount: -charged }],
+        total: -charged,
+        salvage: [],
+      };
+      result.customData.payout = payout;
+    }
+
     // Show debriefing
     this.showDebriefing(result);
   };
 
-  private handleEntityDestroyed = (): void => {
-    this.enemiesDestroyed++;
+  private handleEntityDestroyed = (
+    entityId: string,
+    _hitPoint: unknown,
+    killerId: string | null
+  ): void => {
+    if (killerId && killerId === this.getPlayerId()) {
+      this.enemiesDestroyed++;
+
+      const entity = this.game?.getWorld().getEntity(entityId);
+      if (entity) {
+        this.recordKill(entity);
+      }
+    }
   };
 
-  private handleDamageDealt = (amount: number): void => {
-    this.damageDealt += amount;
+  private handleDamageDealt = (amount: number, sourceId: string): void => {
+    if (sourceId === this.getPlayerId()) {
+      this.damageDealt += amount;
+    }
   };
 
-  private handleDamageTaken = (amount: number): void => {
-    this.damageTaken += amount;
+  private handleDamageTaken = (amount: number, targetId: string): void => {
+    if (targetId === this.getPlayerId()) {
+      this.damageTaken += amount;
+    }
+  };
+
+  private handleObjectiveComplete = (objectiveId: string): void => {
+    if (!this.objectivesCompleted.includes(objectiveId)) {
+      this.objectivesCompleted.push(objectiveId);
+    }
   };
 
   private setupEventListeners(): void {
@@ -268,6 +394,7 @@ export class CampaignMode implements GameMode {
     EventBus.on('entity:destroyed', this.handleEntityDestroyed);
     EventBus.on('damage:dealt', this.handleDamageDealt);
     EventBus.on('damage:taken', this.handleDamageTaken);
+    EventBus.on('objective:complete', this.handleObjectiveComplete);
   }
 
   private removeEventListeners(): void {
@@ -276,6 +403,7 @@ export class CampaignMode implements GameMode {
     EventBus.off('entity:destroyed', this.handleEntityDestroyed);
     EventBus.off('damage:dealt', this.handleDamageDealt);
     EventBus.off('damage:taken', this.handleDamageTaken);
+    EventBus.off('objective:complete', this.handleObjectiveComplete);
   }
 
   // ========== Cleanup Methods ==========
@@ -284,6 +412,7 @@ export class CampaignMode implements GameMode {
     this.cleanupCampaignScreen();
     this.cleanupBriefingScreen();
     this.cleanupDebriefingScreen();
+    this.cleanupMechBayScreen();
   }
 
   private cleanupCampaignScreen(): void {
@@ -307,8 +436,99 @@ export class CampaignMode implements GameMode {
     }
   }
 
+  private cleanupMechBayScreen(): void {
+    if (this.mechBayScreen) {
+      this.mechBayScreen.dispose();
+      this.mechBayScreen = null;
+    }
+  }
+
   // ========== Helper Methods ==========
 
+  /**
+   * Id of the player's mech in the running mission, if any
+   */
+  private getPlayerId(): string | null {
+    return this.game?.getPlayer().id ?? null;
+  }
+
+  /**
+   * Count a player kill for bounties and roll salvage from enemy mechs
+   */
+  private recordKill(entity: Entity): void {
+    if (entity.hasComponent(MechComponent)) {
+      this.kills.mech++;
+      const weapons = entity.getComponent(WeaponComponent)?.weapons ?? [];
+      for (const weapon of weapons) {
+        if (!weapon.destroyed && Math.random() < ECONOMY_CONFIG.salvageChance) {
+          this.salvage.push(weapon.config.type);
+        }
+      }
+    } else if (entity.hasComponent(TurretComponent)) {
+      this.kills.turret++;
+    } else {
+      this.kills.target++;
+    }
+  }
+
+  /**
+   * Store the player mech's armor, structure and lost weapons for the next mission
+   */
+  private recordPlayerDamage(): void {
+    const player = this.game?.getPlayer();
+    const health = player?.getComponent(HealthComponent);
+    if (!player || !health) return;
+
+    const destroyedWeapons = (
+      player.getComponent(WeaponComponent)?.weapons ?? []
+    )
+      .filter((weapon) => weapon.destroyed)
+      .map((weapon) => weapon.slot);
+
+    const zones = Object.keys(health.baseArmor) as (keyof ArmorZones)[];
+    const isDamaged =
+      destroyedWeapons.length > 0 ||
+      zones.some(
+        (zone) =>
+          health.armor[zone] < health.baseArmor[zone] ||
+          health.structure[zone] < health.baseStructure[zone]
+      );
+
+    this.modeManager.setMechDamage(
+      this.selectedMechId,
+      isDamaged
+        ? {
+            armor: { ...health.armor },
+            structure: { ...health.structure },
+            destroyedWeapons,
+          }
+        : null
+    );
+  }
+
+  /**
+   * Put carried-over damage back on a freshly spawned player mech
+   */
+  private applyMechDamage(player: Entity, damage: MechDamageState): void {
+    const health = player.getComponent(HealthComponent);
+    const weapons = player.getComponent(WeaponComponent);
+    if (!health) return;
+
+    for (const zone of Object.keys(health.baseArmor) as (keyof ArmorZones)[]) {
+      health.armor[zone] = Math.min(damage.armor[zone], health.baseArmor[zone]);
+      health.structure[zone] = Math.min(
+        damage.structure[zone],
+        health.baseStructure[zone]
+      );
+      if (health.isZoneDestroyed(zone)) {
+        weapons?.destroyZone(zone);
+      }
+    }
+    for (const slot of damage.destroyedWeapons) {
+      weapons?.destroyWeapon(slot);
+    }
+  }
+
   private createResult(): GameResult {
     const timePlayed =
       this.startTime > 0 ? (Date.now() - this.startTime) / 1000 : 0;
@@ -319,7 +539,7 @@ export class CampaignMode implements GameMode {
       enemiesDestroyed: this.enemiesDestroyed,
       damageDealt: this.damageDealt,
       damageTaken: this.damageTaken,
-      objectivesCompleted: [],
+      objectivesCompleted: [...this.objectivesCompleted],
     };
   }
 }
@@ -0,0 +1,274 @@
+import { ECONOMY_CONFIG, formatCBills } from '../config/EconomyConfig';
+import type { MechDamageState } from '../config/EconomyConfig';
+import { DIFFICULTY_PRESETS, getMissionByNumber } from '../config/missions';
+import { isWeaponType } from '../config/WeaponCatalog';
+import type { ArmorZones } from '../types';
+import type { CampaignProgress } from './GameModeManager';
+
+/**
+ * Current save schema version. Bump it when CampaignProgress gains fields
+ * and add a migration from the previous version below.
+ */
+export const CAMPAIGN_SAVE_VERSION = 3;
+
+/** Most save slots kept at once */
+export const MAX_SAVE_SLOTS = 8;
+
+/** Marks exported files so arbitrary JSON isn't imported as a save */
+const EXPORT_FORMAT = 'urf-wars-campaign-save';
+
+/**
+ * A named campaign save slot
+ */
+export interface CampaignSave {
+  id: string;
+  name: string;
+  /** Schema version the progress was written with */
+  version: number;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+  /** Last write time (ms since epoch) */
+  updatedAt: number;
+  progress: CampaignProgress;
+}
+
+type StoredProgress = Record<string, unknown>;
+
+/**
+ * Upgrades from each version to the next. Saves written before versioning
+ * (the single-slot format) are version 1.
+ */
+const MIGRATIONS: Record<number, (progress: StoredProgress) => StoredProgress> =
+  {
+    // 1 -> 2: best-time difficulties and campaign branches
+    1: (progress) => ({
+      bestTimeDifficulties: {},
+      branchesTaken: {},
+      ...progress,
+    }),
+    // 2 -> 3: economy (C-bills, spare weapons, persistent damage)
+    2: (progress) => ({
+      cBills: ECONOMY_CONFIG.startingCBills,
+      weaponInventory: {},
+      mechDamage: {},
+      ...progress,
+    }),
+  };
+
+const ZONES: Array<keyof ArmorZones> = [
+  'head',
+  'torso',
+  'leftArm',
+  'rightArm',
+  'leftLeg',
+  'rightLeg',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isArrayOf(value: unknown, check: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.every(check);
+}
+
+function isRecordOf(
+  value: unknown,
+  check: (item: unknown) => boolean
+): boolean {
+  return isRecord(value) && Object.values(value).every(check);
+}
+
+function isZoneValues(value: unknown): value is ArmorZones {
+  return isRecord(value) && ZONES.every((zone) => isFiniteNumber(value[zone]));
+}
+
+function isMechDamageState(value: unknown): value is MechDamageState {
+  return (
+    isRecord(value) &&
+    isZoneValues(value.armor) &&
+    isZoneValues(value.structure) &&
+    isArrayOf(value.destroyedWeapons, isFiniteNumber)
+  );
+}
+
+/**
+ * Shape check for each progress field read from storage or a shared file.
+ * Every CampaignProgress field needs one.
+ */
+const PROGRESS_VALIDATORS: Record<
+  keyof CampaignProgress,
+  (value: unknown) => boolean
+> = {
+  completedMissions: (value) => isArrayOf(value, isFiniteNumber),
+  unlockedMechs: (value) => isArrayOf(value, isString),
+  unlockedMaps: (value) => isArrayOf(value, isString),
+  bestTimes: (value) => isRecordOf(value, isFiniteNumber),
+  bestTimeDifficulties: (value) =>
+    isRecordOf(
+      value,
+      (level) => isString(level) && Object.hasOwn(DIFFICULTY_PRESETS, level)
+    ),
+  branchesTaken: (value) => isRecordOf(value, isString),
+  lastMission: isFiniteNumber,
+  cBills: isFiniteNumber,
+  weaponInventory: (value) =>
+    isRecord(value) &&
+    Object.entries(value).every(
+      ([type, count]) =>
+        isWeaponType(type) && isFiniteNumber(count) && count >= 0
+    ),
+  mechDamage: (value) => isRecordOf(value, isMechDamageState),
+};
+
+/**
+ * Progress for a new campaign
+ */
+export function createDefaultProgress(): CampaignProgress {
+  return {
+    completedMissions: [],
+    unlockedMechs: ['ATLAS'], // Default mech always available
+    unlockedMaps: ['debug-arena', 'training-ground'], // Default maps
+    bestTimes: {},
+    bestTimeDifficulties: {},
+    branchesTaken: {},
+    lastMission: 0,
+    cBills: ECONOMY_CONFIG.startingCBills,
+    weaponInventory: {},
+    mechDamage: {},
+  };
+}
+
+/**
+ * Bring stored progress up to the current schema version.
+ * Throws if the save is too new or any field has the wrong shape.
+ */
+export function migrateProgress(
+  progress: StoredProgress,
+  fromVersion: number
+): CampaignProgress {
+  if (fromVersion > CAMPAIGN_SAVE_VERSION) {
+    throw new Error(
+      `Save version ${fromVersion} is newer than this build supports (${CAMPAIGN_SAVE_VERSION})`
+    );
+  }
+
+  let migrated = { ...progress };
+  for (let version = fromVersion; version < CAMPAIGN_SAVE_VERSION; version++) {
+    migrated = MIGRATIONS[version]?.(migrated) ?? migrated;
+  }
+
+  // Defaults cover anything a migration doesn't; unknown fields are dropped
+  const result: StoredProgress = { ...createDefaultProgress() };
+  const fields = Object.keys(PROGRESS_VALIDATORS) as (keyof CampaignProgress)[];
+  for (const field of fields) {
+    if (migrated[field] === undefined) continue;
+    if (!PROGRESS_VALIDATORS[field](migrated[field])) {
+      throw new Error(`Save has an invalid ${field} field`);
+    }
+    result[field] = migrated[field];
+  }
+  return result as unknown as CampaignProgress;
+}
+
+function createSaveId(): string {
+  return `save-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * New save slot at the current schema version
+ */
+export function createSave(
+  name: string,
+  progress: CampaignProgress = createDefaultProgress()
+): CampaignSave {
+  const now = Date.now();
+  return {
+    id: createSaveId(),
+    name,
+    version: CAMPAIGN_SAVE_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    progress,
+  };
+}
+
+/**
+ * Validate and migrate a save read from storage
+ */
+export function parseSave(data: unknown): CampaignSave {
+  const save = data as Partial<CampaignSave> | null;
+  if (
+    !save ||
+    typeof save !== 'object' ||
+    typeof save.id !== 'string' ||
+    !isRecord(save.progress)
+  ) {
+    throw new Error('Not a campaign save');
+  }
+
+  const version = typeof save.version === 'number' ? save.version : 1;
+  return {
+    id: save.id,
+    name: typeof save.name === 'string' ? save.name : 'Campaign',
+    version: CAMPAIGN_SAVE_VERSION,
+    createdAt: isFiniteNumber(save.createdAt) ? save.createdAt : Date.now(),
+    updatedAt: isFiniteNumber(save.updatedAt) ? save.updatedAt : Date.now(),
+    progress: migrateProgress(
+      save.progress as unknown as StoredProgress,
+      version
+    ),
+  };
+}
+
+/**
+ * Serialize a slot for sharing as a JSON file
+ */
+export function exportSave(save: CampaignSave): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, ...save }, null, 2);
+}
+
+/**
+ * Read an exported slot. The result gets a fresh ID so it never
+ * overwrites an existing slot.
+ */
+export function importSave(json: string): CampaignSave {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if ((data as { format?: unknown } | null)?.format !== EXPORT_FORMAT) {
+    throw new Error('File is not an exported campaign save');
+  }
+
+  const save = parseSave(data);
+  return { ...save, id: createSaveId(), updatedAt: Date.now() };
+}
+
+/**
+ * One-line mission summary for the slot list
+ */
+export function summarizeSave(save: CampaignSave): string {
+  const { completedMissions, lastMission, cBills } = save.progress;
+  const parts = [
+    `${completedMissions.length} mission${completedMissions.length === 1 ? '' : 's'} complete`,
+    formatCBills(cBills),
+  ];
+
+  const last = getMissionByNumber(lastMission);
+  if (last) {
+    parts.push(`Last: M${last.missionNumber} ${last.title}`);
+  }
+  return parts.join(' • ');
+}
@@ -35,7 +35,7 @@ export interface GameModeConfig {
   mechId: string;
   /** Mission number (for campaign) */
   missionNumber?: number;
-  /** Additional mode-specific settings */
+  /** Additional mode-specific settings (e.g. difficulty: DifficultyLevel) */
   settings?: Record<string, unknown>;
 }
 
@@ -50,7 +50,7 @@ export interface GameMode {
   /**
    * Initialize the mode (load assets, setup state)
    */
-  init(): Promise<void>;
+  init(config: GameModeConfig): Promise<void>;
 
   /**
    * Start the mode (show UI, begin gameplay)
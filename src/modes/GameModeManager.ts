@@ -1,4 +1,25 @@
 import { EventBus } from '../core/EventBus';
+import type { DifficultyLevel } from '../config/missions/MissionConfig';
+import { getMissionByNumber, isPrerequisiteMet } from '../config/missions';
+import { ECONOMY_CONFIG, calculateRepairCost } from '../config/EconomyConfig';
+import type {
+  MechDamageState,
+  MissionPayout,
+  RepairEstimate,
+} from '../config/EconomyConfig';
+import { resolveMechConfig } from '../config/MechVariants';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import {
+  MAX_SAVE_SLOTS,
+  createDefaultProgress,
+  createSave,
+  exportSave,
+  importSave,
+  migrateProgress,
+  parseSave,
+} from './CampaignSaves';
+import type { CampaignSave } from './CampaignSaves';
+import type { WeaponType } from '../types';
 import type {
   GameMode,
   GameModeConfig,
@@ -18,11 +39,33 @@ export interface CampaignProgress {
   unlockedMaps: string[];
   /** Best times per mission (in seconds) */
   bestTimes: Record<number, number>;
+  /** Difficulty each best time was set on */
+  bestTimeDifficulties: Record<number, DifficultyLevel>;
+  /** Outcome ID each completed mission last ended with (campaign branch) */
+  branchesTaken: Record<number, string>;
   /** Last played mission number */
   lastMission: number;
+  /** C-bill balance */
+  cBills: number;
+  /** Spare weapons owned (salvaged or bought) */
+  weaponInventory: Partial<Record<WeaponType, number>>;
+  /** Damage carried by owned mechs, keyed by mech or variant ID */
+  mechDamage: Record<string, MechDamageState>;
 }
 
-const CAMPAIGN_STORAGE_KEY = 'urf-wars-campaign-progress';
+/** Save slots and the active slot ID */
+const SAVE_SLOTS_STORAGE_KEY = 'urf-wars-campaign-saves';
+/** Single-slot progress from before save slots; imported once as a slot */
+const LEGACY_STORAGE_KEY = 'urf-wars-campaign-progress';
+
+/**
+ * Save slot store persisted to localStorage
+ */
+interface SaveSlotStore {
+  activeSlotId: string;
+  /** Saves as written; each is validated with parseSave on load */
+  slots: unknown[];
+}
 
 /**
  * Manages game mode lifecycle, transitions, and state persistence.
@@ -31,10 +74,14 @@ const CAMPAIGN_STORAGE_KEY = 'urf-wars-campaign-progress';
 export class GameModeManager {
   private currentMode: GameMode | null = null;
   private callbacks: GameModeCallbacks = {};
-  private campaignProgress: CampaignProgress;
+  private saveSlots: CampaignSave[] = [];
+  /** Stored slots this build can't read (e.g. from a newer build), written back untouched */
+  private unreadableSlots: unknown[] = [];
+  private activeSlotId: string = '';
+  private campaignProgress!: CampaignProgress;
 
   constructor() {
-    this.campaignProgress = this.loadCampaignProgress();
+    this.loadSaveSlots();
     this.setupEventListeners();
   }
 
@@ -48,7 +95,7 @@ export class GameModeManager {
   /**
    * Start a new game mode
    */
-  async startMode(mode: GameMode, _config: GameModeConfig): Promise<void> {
+  async startMode(mode: GameMode, config: GameModeConfig): Promise<void> {
     // End current mode if active
     if (this.currentMode) {
       this.endCurrentMode();
@@ -57,7 +104,7 @@ export class GameModeManager {
     this.currentMode = mode;
 
     try {
-      await mode.init();
+      await mode.init(config);
       mode.start();
       this.callbacks.onModeStart?.(mode);
       EventBus.emit('mode:started', mode.type);
@@ -117,17 +164,27 @@ export class GameModeManager {
   }
 
   /**
-   * Mark a mission as completed
+   * Mark a mission as completed, recording the outcome (branch) it ended with
    */
-  completeMission(missionNumber: number, time: number): void {
+  completeMission(
+    missionNumber: number,
+    time: number,
+    difficulty: DifficultyLevel = 'normal',
+    outcome?: string
+  ): void {
     if (!this.campaignProgress.completedMissions.includes(missionNumber)) {
       this.campaignProgress.completedMissions.push(missionNumber);
     }
 
+    if (outcome !== undefined) {
+      this.campaignProgress.branchesTaken[missionNumber] = outcome;
+    }
+
     // Update best time
     const currentBest = this.campaignProgress.bestTimes[missionNumber];
     if (!currentBest || time < currentBest) {
       this.campaignProgress.bestTimes[missionNumber] = time;
+      this.campaignProgress.bestTimeDifficulties[missionNumber] = difficulty;
     }
 
     this.campaignProgress.lastMission = missionNumber;
@@ -156,14 +213,129 @@ export class GameModeManager {
     }
   }
 
+  // ========== Campaign Economy ==========
+
+  /**
+   * Bank a mission payout: C-bills plus salvaged weapons
+   */
+  applyMissionPayout(payout: MissionPayout): void {
+    this.campaignProgress.cBills += payout.total;
+    for (const weaponType of payout.salvage) {
+      this.addSpareWeapon(weaponType);
+    }
+    this.saveCampaignProgress();
+    EventBus.emit('campaign:cbills-changed', this.campaignProgress.cBills);
+  }
+
+  /**
+   * Damage an owned mech carries, if any
+   */
+  getMechDamage(mechId: string): MechDamageState | undefined {
+    return this.campaignProgress.mechDamage[mechId];
+  }
+
+  /**
+   * Record the damage a mech came back with (null when undamaged)
+   */
+  setMechDamage(mechId: string, damage: MechDamageState | null): void {
+    if (damage) {
+      this.campaignProgress.mechDamage[mechId] = damage;
+    } else {
+      delete this.campaignProgress.mechDamage[mechId];
+    }
+    this.saveCampaignProgress();
+  }
+
+  /**
+   * Cost of fully repairing a mech (null when undamaged)
+   */
+  getRepairEstimate(mechId: string): RepairEstimate | null {
+    const damage = this.getMechDamage(mechId);
+    if (!damage) return null;
+    return calculateRepairCost(
+      damage,
+      resolveMechConfig(mechId),
+      this.campaignProgress.weaponInventory
+    );
+  }
+
+  /**
+   * Repair a mech if the balance covers it
+   */
+  repairMech(mechId: string): boolean {
+    const estimate = this.getRepairEstimate(mechId);
+    if (!estimate || estimate.total > this.campaignProgress.cBills) {
+      return false;
+    }
+    this.applyRepair(mechId, estimate, estimate.total);
+    return true;
+  }
+
+  /**
+   * Recover and rebuild a destroyed mech. The full repair is charged,
+   * but never more than the balance. Returns the amount charged.
+   */
+  recoverMech(mechId: string): number {
+    const estimate = this.getRepairEstimate(mechId);
+    if (!estimate) return 0;
+
+    const charged = Math.min(estimate.total, this.campaignProgress.cBills);
+    this.applyRepair(mechId, estimate, charged);
+    return charged;
+  }
+
+  /**
+   * Buy a spare weapon
+   */
+  buyWeapon(weaponType: WeaponType): boolean {
+    const price = getWeaponEntry(weaponType).price;
+    if (!this.spend(price)) return false;
+
+    this.addSpareWeapon(weaponType);
+    this.saveCampaignProgress();
+    return true;
+  }
+
+  /**
+   * Buy a chassis not yet unlocked by the campaign
+   */
+  buyChassis(mechId: string): boolean {
+    const price = ECONOMY_CONFIG.CHASSIS_PRICES[mechId];
+    if (
+      price === undefined ||
+      this.campaignProgress.unlockedMechs.includes(mechId) ||
+      !this.spend(price)
+    ) {
+      return false;
+    }
+
+    this.unlockMech(mechId);
+    return true;
+  }
+
   /**
-   * Check if a mission is unlocked
+   * Check if a mission is unlocked: campaign starts (no prerequisites) always
+   * are, others once any prerequisite holds. Completed missions stay unlocked.
    */
   isMissionUnlocked(missionNumber: number): boolean {
-    // Mission 1 is always unlocked
-    if (missionNumber === 1) return true;
-    // Other missions require previous mission to be completed
-    return this.campaignProgress.completedMissions.includes(missionNumber - 1);
+    const mission = getMissionByNumber(missionNumber);
+    if (!mission) return false;
+    if (this.isMissionCompleted(missionNumber)) return true;
+
+    const prerequisites = mission.prerequisites ?? [];
+    if (prerequisites.length === 0) return true;
+
+    const { completedMissions, branchesTaken } = this.campaignProgress;
+    return prerequisites.some((prerequisite) =>
+      isPrerequisiteMet(prerequisite, completedMissions, branchesTaken)
+    );
+  }
+
+  /**
+   * Outcome a completed mission last ended with, if it has outcomes
+   */
+  getBranchTaken(missionNumber: number): string | undefined {
+    return this.campaignProgress.branchesTaken[missionNumber];
   }
 
   /**
@@ -177,54 +349,222 @@ export class GameModeManager {
    * Reset campaign progress
    */
   resetCampaignProgress(): void {
-    this.campaignProgress = this.getDefaultProgress();
+    this.campaignProgress = createDefaultProgress();
     this.saveCampaignProgress();
     EventBus.emit('campaign:progress-reset');
   }
 
+  // ========== Save Slots ==========
+
+  /**
+   * All save slots, most recently played first
+   */
+  getSaveSlots(): CampaignSave[] {
+    return [...this.saveSlots].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * ID of the slot campaign progress is read from and written to
+   */
+  getActiveSlotId(): string {
+    return this.activeSlotId;
+  }
+
+  /**
+   * Start a new campaign in a new slot and make it active.
+   * Returns null when every slot is taken.
+   */
+  createSaveSlot(name: string): CampaignSave | null {
+    if (this.saveSlots.length >= MAX_SAVE_SLOTS) return null;
+
+    const save = createSave(name);
+    this.saveSlots.push(save);
+    this.activateSlot(save);
+    return save;
+  }
+
+  /**
+   * Continue the campaign in another slot
+   */
+  switchSaveSlot(slotId: string): boolean {
+    const save = this.saveSlots.find((slot) => slot.id === slotId);
+    if (!save) return false;
+
+    this.activateSlot(save);
+    return true;
+  }
+
+  /**
+   * Delete a slot. Deleting the active slot switches to the most recent
+   * remaining one (or a fresh campaign when none are left).
+   */
+  deleteSaveSlot(slotId: string): void {
+    this.saveSlots = this.saveSlots.filter((slot) => slot.id !== slotId);
+    if (slotId !== this.activeSlotId) {
+      this.writeSaveSlots();
+      return;
+    }
+
+    const next = this.getSaveSlots()[0] ?? createSave('Campaign 1');
+    if (!this.saveSlots.includes(next)) {
+      this.saveSlots.push(next);
+    }
+    this.activateSlot(next);
+  }
+
+  /**
+   * A slot as shareable JSON
+   */
+  exportSaveSlot(slotId: string): string | null {
+    const save = this.saveSlots.find((slot) => slot.id === slotId);
+    return save ? exportSave(save) : null;
+  }
+
+  /**
+   * Add an exported slot and make it active.
+   * Throws if the JSON isn't a save this build can read or slots are full.
+   */
+  importSaveSlot(json: string): CampaignSave {
+    if (this.saveSlots.length >= MAX_SAVE_SLOTS) {
+      throw new Error(`All ${MAX_SAVE_SLOTS} save slots are in use`);
+    }
+
+    const save = importSave(json);
+    this.saveSlots.push(save);
+    this.activateSlot(save);
+    return save;
+  }
+
   // ========== Private Methods ==========
 
   private setupEventListeners(): void {
-    // Listen for mission events
-    EventBus.on('mission:victory', (missionNumber: number, time: number) => {
-      this.completeMission(missionNumber, time);
-    });
-
+    // Mission completion is recorded by CampaignMode (it knows the difficulty)
     EventBus.on('game:return-to-menu', () => {
       this.returnToMenu();
     });
   }
 
-  private loadCampaignProgress(): CampaignProgress {
+  private spend(amount: number): boolean {
+    if (amount > this.campaignProgress.cBills) return false;
+
+    this.campaignProgress.cBills -= amount;
+    EventBus.emit('campaign:cbills-changed', this.campaignProgress.cBills);
+    return true;
+  }
+
+  private addSpareWeapon(weaponType: WeaponType): void {
+    const inventory = this.campaignProgress.weaponInventory;
+    inventory[weaponType] = (inventory[weaponType] ?? 0) + 1;
+  }
+
+  private applyRepair(
+    mechId: string,
+    estimate: RepairEstimate,
+    charged: number
+  ): void {
+    const inventory = this.campaignProgress.weaponInventory;
+    for (const weaponType of estimate.sparesUsed) {
+      inventory[weaponType] = Math.max(0, (inventory[weaponType] ?? 0) - 1);
+    }
+    this.campaignProgress.cBills -= charged;
+    delete this.campaignProgress.mechDamage[mechId];
+    this.saveCampaignProgress();
+    EventBus.emit('campaign:cbills-changed', this.campaignProgress.cBills);
+  }
+
+  private activateSlot(save: CampaignSave): void {
+    this.activeSlotId = save.id;
+    this.campaignProgress = save.progress;
+    this.writeSaveSlots();
+    EventBus.emit('campaign:slot-changed', save.id);
+  }
+
+  /**
+   * Load every slot, importing pre-slot progress as the first one.
+   * Slots that fail to parse or migrate are hidden with a warning but
+   * kept in storage.
+   */
+  private loadSaveSlots(): void {
+    let store: SaveSlotStore | null = null;
     try {
-      const stored = localStorage.getItem(CAMPAIGN_STORAGE_KEY);
+      const stored = localStorage.getItem(SAVE_SLOTS_STORAGE_KEY);
       if (stored) {
-        return JSON.parse(stored) as CampaignProgress;
+        store = JSON.parse(stored) as SaveSlotStore;
       }
     } catch (error) {
-      console.warn('Failed to load campaign progress:', error);
+      console.warn('Failed to load campaign saves:', error);
+    }
+
+    const storedSlots = Array.isArray(store?.slots) ? store.slots : [];
+    for (const slot of storedSlots) {
+      try {
+        this.saveSlots.push(parseSave(slot));
+      } catch (error) {
+        console.warn('Skipping unreadable campaign save:', error);
+        this.unreadableSlots.push(slot);
+      }
+    }
+
+    let importedLegacy = false;
+    if (this.saveSlots.length === 0) {
+      const legacy = this.loadLegacyProgress();
+      importedLegacy = legacy !== null;
+      this.saveSlots.push(
+        createSave('Campaign 1', legacy ?? createDefaultProgress())
+      );
+    }
+
+    const active =
+      this.saveSlots.find((slot) => slot.id === store?.activeSlotId) ??
+      this.getSaveSlots()[0];
+    this.activeSlotId = active.id;
+    this.campaignProgress = active.progress;
+
+    // Drop the old format only once its progress is safely in the new store
+    if (this.writeSaveSlots() && importedLegacy) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
     }
-    return this.getDefaultProgress();
   }
 
-  private saveCampaignProgress(): void {
+  /**
+   * Progress from the single-slot format, or null if there is none or it
+   * can't be read
+   */
+  private loadLegacyProgress(): CampaignProgress | null {
     try {
-      localStorage.setItem(
-        CAMPAIGN_STORAGE_KEY,
-        JSON.stringify(this.campaignProgress)
-      );
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (stored) {
+        return migrateProgress(JSON.parse(stored), 1);
+      }
     } catch (error) {
-      console.warn('Failed to save campaign progress:', error);
+      console.warn('Failed to load campaign progress:', error);
+    }
+    return null;
+  }
+
+  private saveCampaignProgress(): void {
+    const active = this.saveSlots.find((slot) => slot.id === this.activeSlotId);
+    if (active) {
+      active.progress = this.campaignProgress;
+      active.updatedAt = Date.now();
     }
+    this.writeSaveSlots();
   }
 
-  private getDefaultProgress(): CampaignProgress {
-    return {
-      completedMissions: [],
-      unlockedMechs: ['ATLAS'], // Default mech always available
-      unlockedMaps: ['debug-arena', 'training-ground'], // Default maps
-      bestTimes: {},
-      lastMission: 0,
+  /**
+   * Persist every slot; returns false if storage rejected the write
+   */
+  private writeSaveSlots(): boolean {
+    const store: SaveSlotStore = {
+      activeSlotId: this.activeSlotId,
+      slots: [...this.saveSlots, ...this.unreadableSlots],
     };
+    try {
+      localStorage.setItem(SAVE_SLOTS_STORAGE_KEY, JSON.stringify(store));
+      return true;
+    } catch (error) {
+      console.warn('Failed to save campaign progress:', error);
+      return false;
+    }
   }
 }
@@ -1,7 +1,9 @@
 import { Game } from '../core/Game';
 import { MapSelectScreen } from '../rendering/MapSelectScreen';
 import { MechSelectScreen } from '../rendering/MechSelectScreen';
-import type { GameMode, GameResult } from './GameMode';
+import type { GameMode, GameModeConfig, GameResult } from './GameMode';
+import { isDifficultyLevel } from '../config/missions';
+import type { DifficultyLevel } from '../config/missions';
 
 /**
  * Instant Action mode - quick battles with customizable settings.
@@ -15,6 +17,7 @@ export class InstantActionMode implements GameMode {
   private mapSelectScreen: MapSelectScreen | null = null;
   private mechSelectScreen: MechSelectScreen | null = null;
   private selectedMapId: string | null = null;
+  private difficulty: DifficultyLevel = 'normal';
   private active: boolean = false;
   private startTime: number = 0;
   private onComplete: ((result: GameResult | null) => void) | null = null;
@@ -27,8 +30,11 @@ export class InstantActionMode implements GameMode {
     this.onComplete = onComplete ?? null;
   }
 
-  async init(): Promise<void> {
-    // Nothing to pre-initialize for instant action
+  async init(config: GameModeConfig): Promise<void> {
+    const difficulty = config.settings?.difficulty;
+    if (isDifficultyLevel(difficulty)) {
+      this.difficulty = difficulty;
+    }
   }
 
   start(): void {
@@ -128,7 +134,13 @@ export class InstantActionMode implements GameMode {
     }
 
     // Create and start the game
-    this.game = new Game(this.container, mapId, mechId);
+    this.game = new Game(
+      this.container,
+      mapId,
+      mechId,
+      undefined,
+      this.difficulty
+    );
     await this.game.init();
     this.startTime = Date.now();
     this.game.start();
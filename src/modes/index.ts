@@ -11,6 +11,16 @@ export type {
 export { GameModeManager } from './GameModeManager';
 export type { CampaignProgress } from './GameModeManager';
 
+// Campaign save slots
+export {
+  CAMPAIGN_SAVE_VERSION,
+  MAX_SAVE_SLOTS,
+  createDefaultProgress,
+  migrateProgress,
+  summarizeSave,
+} from './CampaignSaves';
+export type { CampaignSave } from './CampaignSaves';
+
 // Mode implementations (will be added)
 export { InstantActionMode } from './InstantActionMode';
 export { CampaignMode } from './CampaignMode';
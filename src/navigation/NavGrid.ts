@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import type { ObstacleConfig } from '../config/maps/MapConfig';
+
+/**
+ * Walkable grid covering the square terrain, centered on the origin.
+ * Static cells come from map obstacles; dynamic cells are claimed by
+ * moving entities (mechs) and released when they move on.
+ */
+export class NavGrid {
+  readonly cellSize: number;
+  readonly cols: number;
+  readonly rows: number;
+
+  /** World X/Z of the grid's minimum corner */
+  readonly originX: number;
+  readonly originZ: number;
+
+  /** Clearance added around static obstacles */
+  private agentRadius: number;
+
+  /** 1 = blocked by a static obstacle */
+  private staticBlocked: Uint8Array;
+
+  /** Number of dynamic blockers covering each cell */
+  private dynamicCount: Uint16Array;
+
+  /** Cells claimed by each dynamic blocker */
+  private blockers: Map<string, number[]> = new Map();
+
+  /** Set once all map obstacles have been rasterized */
+  private built: boolean = false;
+
+  constructor(size: number, cellSize: number, agentRadius: number) {
+    this.cellSize = cellSize;
+    this.cols = Math.ceil(size / cellSize);
+    this.rows = this.cols;
+    this.originX = -size / 2;
+    this.originZ = -size / 2;
+    this.agentRadius = agentRadius;
+
+    this.staticBlocked = new Uint8Array(this.cols * this.rows);
+    this.dynamicCount = new Uint16Array(this.cols * this.rows);
+  }
+
+  /**
+   * Rasterize an obstacle footprint (with Y rotation) into static cells
+   */
+  addObstacle(config: ObstacleConfig): void {
+    const { position, size } = config;
+    const r = this.agentRadius;
+
+    if (config.type === 'cylinder') {
+      // size.x = radius
+      const radius = size.x + r;
+      this.forEachCellInBounds(
+        position.x,
+        position.z,
+        radius,
+        (index, x, z) => {
+          const dx = x - position.x;
+          const dz = z - position.z;
+          if (dx * dx + dz * dz <= radius * radius) {
+            this.staticBlocked[index] = 1;
+          }
+        }
+      );
+      return;
+    }
+
+    // Box/wall: test cell centers in the obstacle's local frame
+    const angle = ((config.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const halfX = size.x / 2 + r;
+    const halfZ = size.z / 2 + r;
+    const boundRadius = Math.sqrt(halfX * halfX + halfZ * halfZ);
+
+    this.forEachCellInBounds(
+      position.x,
+      position.z,
+      boundRadius,
+      (index, x, z) => {
+        const dx = x - position.x;
+        const dz = z - position.z;
+        // Inverse of the mesh's Y rotation
+        const localX = dx * cos - dz * sin;
+        const localZ = dx * sin + dz * cos;
+        if (Math.abs(localX) <= halfX && Math.abs(localZ) <= halfZ) {
+          this.staticBlocked[index] = 1;
+        }
+      }
+    );
+  }
+
+  /**
+   * Mark the grid as complete (all map obstacles added)
+   */
+  markBuilt(): void {
+    this.built = true;
+  }
+
+  isBuilt(): boolean {
+    return this.built;
+  }
+
+  /**
+   * Claim the cells around a position for a moving entity, releasing its old cells
+   */
+  setBlocker(id: string, x: number, z: number, radius: number): void {
+    this.clearBlocker(id);
+
+    const cells: number[] = [];
+    this.forEachCellInBounds(x, z, radius, (index, cx, cz) => {
+      const dx = cx - x;
+      const dz = cz - z;
+      if (dx * dx + dz * dz <= radius * radius) {
+        this.dynamicCount[index]++;
+        cells.push(index);
+      }
+    });
+    this.blockers.set(id, cells);
+  }
+
+  /**
+   * Release all cells claimed by an entity
+   */
+  clearBlocker(id: string): void {
+    const cells = this.blockers.get(id);
+    if (!cells) return;
+
+    for (const index of cells) {
+      this.dynamicCount[index]--;
+    }
+    this.blockers.delete(id);
+  }
+
+  /**
+   * Cell index for a world position, or -1 if outside the grid
+   */
+  cellIndexAt(x: number, z: number): number {
+    const col = Math.floor((x - this.originX) / this.cellSize);
+    const row = Math.floor((z - this.originZ) / this.cellSize);
+    if (!this.inBounds(col, row)) return -1;
+    return row * this.cols + col;
+  }
+
+  /**
+   * World-space center of a cell (y = 0)
+   */
+  cellCenter(index: number, out: THREE.Vector3): THREE.Vector3 {
+    const col = index % this.cols;
+    const row = Math.floor(index / this.cols);
+    return out.set(
+      this.originX + (col + 0.5) * this.cellSize,
+      0,
+      this.originZ + (row + 0.5) * this.cellSize
+    );
+  }
+
+  inBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.cols && row < this.rows;
+  }
+
+  isStaticBlocked(index: number): boolean {
+    return this.staticBlocked[index] === 1;
+  }
+
+  /**
+   * Whether a cell is claimed by any dynamic blocker other than ignoreId
+   */
+  isDynamicBlocked(index: number, ignoreId?: string): boolean {
+    const count = this.dynamicCount[index];
+    if (count === 0) return false;
+    if (ignoreId === undefined) return true;
+
+    // Own cells don't block us
+    const own = this.blockers.get(ignoreId);
+    return own?.includes(index) ? count > 1 : true;
+  }
+
+  /**
+   * Whether an agent may stand in a cell
+   */
+  isWalkable(index: number, ignoreId?: string): boolean {
+    if (index < 0) return false;
+    return (
+      !this.isStaticBlocked(index) && !this.isDynamicBlocked(index, ignoreId)
+    );
+  }
+
+  /**
+   * Whether a straight walk between two points crosses only walkable cells
+   */
+  hasClearLine(
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    ignoreId?: string
+  ): boolean {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+
+    // Sample at half-cell spacing so no cell is skipped
+    const steps = Math.max(1, Math.ceil(distance / (this.cellSize * 0.5)));
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      const index = this.cellIndexAt(from.x + dx * t, from.z + dz * t);
+      if (!this.isWalkable(index, ignoreId)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Closest walkable cell to a position (searching outward ring by ring), or -1
+   */
+  findNearestWalkable(x: number, z: number, ignoreId?: string): number {
+    const col = THREE.MathUtils.clamp(
+      Math.floor((x - this.originX) / this.cellSize),
+      0,
+      this.cols - 1
+    );
+    const row = THREE.MathUtils.clamp(
+      Math.floor((z - this.originZ) / this.cellSize),
+      0,
+      this.rows - 1
+    );
+
+    const maxRing = Math.max(this.cols, this.rows);
+    for (let ring = 0; ring < maxRing; ring++) {
+      for (let dr = -ring; dr <= ring; dr++) {
+        for (let dc = -ring; dc <= ring; dc++) {
+          // Only the ring's border
+          if (Math.abs(dr) !== ring && Math.abs(dc) !== ring) continue;
+          const c = col + dc;
+          const r = row + dr;
+          if (!this.inBounds(c, r)) continue;
+          const index = r * this.cols + c;
+          if (this.isWalkable(index, ignoreId)) return index;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Visit every in-grid cell whose center lies within a square around a point
+   */
+  private forEachCellInBounds(
+    x: number,
+    z: number,
+    radius: number,
+    visit: (index: number, cellX: number, cellZ: number) => void
+  ): void {
+    const minCol = Math.max(
+      0,
+      Math.floor((x - radius - this.originX) / this.cellSize)
+    );
+    const maxCol = Math.min(
+      this.cols - 1,
+      Math.floor((x + radius - this.originX) / this.cellSize)
+    );
+    const minRow = Math.max(
+      0,
+      Math.floor((z - radius - this.originZ) / this.cellSize)
+    );
+    const maxRow = Math.min(
+      this.rows - 1,
+      Math.floor((z + radius - this.originZ) / this.cellSize)
+    );
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        visit(
+          row * this.cols + col,
+          this.originX + (col + 0.5) * this.cellSize,
+          this.originZ + (row + 0.5) * this.cellSize
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import type { NavGrid } from './NavGrid';
+import { NAVIGATION_CONFIG } from '../config/NavigationConfig';
+
+const DIAGONAL_COST = Math.SQRT2;
+
+/** 8-connected neighbor offsets [dCol, dRow] */
+const NEIGHBORS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+/**
+ * Find a smoothed walkable path on the grid using A*.
+ * Returns waypoints after the start (y = 0), or null when the goal is unreachable.
+ * @param grid Navigation grid to search
+ * @param start World start position
+ * @param goal World goal position (snapped to the nearest walkable cell if blocked)
+ * @param ignoreId Entity whose own dynamic blocking is ignored (the walker)
+ */
+export function findPath(
+  grid: NavGrid,
+  start: THREE.Vector3,
+  goal: THREE.Vector3,
+  ignoreId?: string
+): THREE.Vector3[] | null {
+  let startIndex = grid.cellIndexAt(start.x, start.z);
+  if (startIndex < 0) {
+    startIndex = grid.findNearestWalkable(start.x, start.z, ignoreId);
+  }
+
+  const rawGoal = grid.cellIndexAt(goal.x, goal.z);
+  const goalReachable = grid.isWalkable(rawGoal, ignoreId);
+  const goalIndex = goalReachable
+    ? rawGoal
+    : grid.findNearestWalkable(goal.x, goal.z, ignoreId);
+
+  if (startIndex < 0 || goalIndex < 0) return null;
+
+  // Exact goal point when walkable, otherwise the substitute cell's center
+  const endPoint = goalReachable
+    ? new THREE.Vector3(goal.x, 0, goal.z)
+    : grid.cellCenter(goalIndex, new THREE.Vector3());
+
+  if (startIndex === goalIndex) return [endPoint];
+
+  const cells = searchCells(grid, startIndex, goalIndex, ignoreId);
+  if (!cells) return null;
+
+  const raw = cells.map((index) => grid.cellCenter(index, new THREE.Vector3()));
+  raw[raw.length - 1] = endPoint;
+
+  return smoothPath(
+    grid,
+    new THREE.Vector3(start.x, 0, start.z),
+    raw,
+    ignoreId
+  );
+}
+
+/**
+ * A* over grid cells. Returns cell indices after the start, ending at the goal.
+ */
+function searchCells(
+  grid: NavGrid,
+  startIndex: number,
+  goalIndex: number,
+  ignoreId?: string
+): number[] | null {
+  const { gScore, cameFrom, closed } = getScratch(grid.cols * grid.rows);
+  const open = new CellHeap();
+
+  const goalCol = goalIndex % grid.cols;
+  const goalRow = Math.floor(goalIndex / grid.cols);
+
+  gScore[startIndex] = 0;
+  open.push(startIndex, heuristic(startIndex, goalCol, goalRow, grid.cols));
+
+  let expanded = 0;
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) {
+      return reconstruct(cameFrom, startIndex, goalIndex);
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    if (++expanded > NAVIGATION_CONFIG.MAX_SEARCH_NODES) return null;
+
+    const col = current % grid.cols;
+    const row = Math.floor(current / grid.cols);
+
+    for (const [dc, dr] of NEIGHBORS) {
+      const nCol = col + dc;
+      const nRow = row + dr;
+      if (!grid.inBounds(nCol, nRow)) continue;
+
+      const neighbor = nRow * grid.cols + nCol;
+      if (closed[neighbor] || !grid.isWalkable(neighbor, ignoreId)) continue;
+
+      const diagonal = dc !== 0 && dr !== 0;
+      // No cutting corners past blocked cells
+      if (
+        diagonal &&
+        (!grid.isWalkable(row * grid.cols + nCol, ignoreId) ||
+          !grid.isWalkable(nRow * grid.cols + col, ignoreId))
+      ) {
+        continue;
+      }
+
+      const tentative = gScore[current] + (diagonal ? DIAGONAL_COST : 1);
+      if (tentative >= gScore[neighbor]) continue;
+
+      gScore[neighbor] = tentative;
+      cameFrom[neighbor] = current;
+      open.push(
+        neighbor,
+        tentative + heuristic(neighbor, goalCol, goalRow, grid.cols)
+      );
+    }
+  }
+
+  return null;
+}
+
+/** Search buffers reused between queries */
+let scratch: {
+  gScore: Float32Array;
+  cameFrom: Int32Array;
+  closed: Uint8Array;
+} | null = null;
+
+/**
+ * Reset (and grow if needed) the shared search buffers
+ */
+function getScratch(cellCount: number): NonNullable<typeof scratch> {
+  if (!scratch || scratch.gScore.length < cellCount) {
+    scratch = {
+      gScore: new Float32Array(cellCount),
+      cameFrom: new Int32Array(cellCount),
+      closed: new Uint8Array(cellCount),
+    };
+  }
+  scratch.gScore.fill(Infinity);
+  scratch.cameFrom.fill(-1);
+  scratch.closed.fill(0);
+  return scratch;
+}
+
+/**
+ * Octile distance in cells
+ */
+function heuristic(
+  index: number,
+  goalCol: number,
+  goalRow: number,
+  cols: number
+): number {
+  const dx = Math.abs((index % cols) - goalCol);
+  const dz = Math.abs(Math.floor(index / cols) - goalRow);
+  return Math.max(dx, dz) + (DIAGONAL_COST - 1) * Math.min(dx, dz);
+}
+
+function reconstruct(
+  cameFrom: Int32Array,
+  startIndex: number,
+  goalIndex: number
+): number[] {
+  const cells: number[] = [];
+  let current = goalIndex;
+  while (current !== startIndex && current !== -1) {
+    cells.push(current);
+    current = cameFrom[current];
+  }
+  return cells.reverse();
+}
+
+/**
+ * String-pull the path: skip waypoints that can be reached in a straight walkable line
+ */
+function smoothPath(
+  grid: NavGrid,
+  start: THREE.Vector3,
+  points: THREE.Vector3[],
+  ignoreId?: string
+): THREE.Vector3[] {
+  const smoothed: THREE.Vector3[] = [];
+  let anchor = start;
+  let i = 0;
+
+  while (i < points.length) {
+    let furthest = points.length - 1;
+    while (
+      furthest > i &&
+      !grid.hasClearLine(anchor, points[furthest], ignoreId)
+    ) {
+      furthest--;
+    }
+    smoothed.push(points[furthest]);
+    anchor = points[furthest];
+    i = furthest + 1;
+  }
+
+  return smoothed;
+}
+
+/**
+ * Binary min-heap of cell indices keyed by f-score
+ */
+class CellHeap {
+  private cells: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, score: number): void {
+    this.cells.push(cell);
+    this.scores.push(score);
+    this.siftUp(this.cells.length - 1);
+  }
+
+  pop(): number {
+    const top = this.cells[0];
+    const lastCell = this.cells.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.cells.length > 0) {
+      this.cells[0] = lastCell;
+      this.scores[0] = lastScore;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.scores[parent] <= this.scores[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.cells.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.scores[left] < this.scores[smallest]) {
+        smallest = left;
+      }
+      if (right < length && this.scores[right] < this.scores[smallest]) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.cells[a], this.cells[b]] = [this.cells[b], this.cells[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
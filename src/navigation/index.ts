@@ -0,0 +1,3 @@
+// Export navigation modules
+export { NavGrid } from './NavGrid';
+export { findPath } from './Pathfinder';
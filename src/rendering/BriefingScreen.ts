@@ -1,6 +1,13 @@
 import type { GameModeManager } from '../modes/GameModeManager';
-import type { MissionConfig } from '../config/missions/MissionConfig';
+import type {
+  DifficultyLevel,
+  MissionConfig,
+} from '../config/missions/MissionConfig';
+import { DIFFICULTY_LEVELS } from '../config/missions/MissionConfig';
 import { MechConfigs, getAvailableMechIds } from '../config/MechConfigs';
+import { buildVariantConfig, loadMechVariants } from '../config/MechVariants';
+import { getMechCondition, getNonStockWeapons } from '../config/EconomyConfig';
+import type { WeaponType } from '../types';
 import type { MechConfig } from '../types';
 
 /**
@@ -12,21 +19,24 @@ export class BriefingScreen {
   private screenElement: HTMLElement;
   private mission: MissionConfig;
   private modeManager: GameModeManager;
-  private onLaunch: (mechId: string) => void;
+  private onLaunch: (mechId: string, difficulty: DifficultyLevel) => void;
   private onBack: () => void;
 
   private selectedMechId: string | null = null;
+  private selectedDifficulty: DifficultyLevel;
 
   constructor(
     container: HTMLElement,
     mission: MissionConfig,
     modeManager: GameModeManager,
-    onLaunch: (mechId: string) => void,
+    difficulty: DifficultyLevel,
+    onLaunch: (mechId: string, difficulty: DifficultyLevel) => void,
     onBack: () => void
   ) {
     this.container = container;
     this.mission = mission;
     this.modeManager = modeManager;
+    this.selectedDifficulty = difficulty;
     this.onLaunch = onLaunch;
     this.onBack = onBack;
     this.screenElement = this.createScreen();
@@ -58,13 +68,50 @@ export class BriefingScreen {
     // Get available mechs (check unlocks from campaign progress)
     const progress = this.modeManager.getCampaignProgress();
     const allMechIds = getAvailableMechIds();
-    const mechCardsHtml = allMechIds
-      .map((id) => {
-        const isUnlocked =
-          progress.unlockedMechs.includes(id) || id === 'ATLAS';
-        return this.createMechCardHtml(id, MechConfigs[id], isUnlocked);
+    const isChassisUnlocked = (id: string): boolean =>
+      progress.unlockedMechs.includes(id) || id === 'ATLAS';
+    const stockCardsHtml = allMechIds
+      .map((id) =>
+        this.createMechCardHtml(
+          id,
+          MechConfigs[id],
+          isChassisUnlocked(id) ? null : 'LOCKED'
+        )
+      )
+      .join('');
+    // Mech lab variants need their chassis, plus spares for non-stock weapons
+    const variantCardsHtml = loadMechVariants()
+      .map((variant) => {
+        const config = buildVariantConfig(variant);
+        const needed = getNonStockWeapons(
+          config,
+          MechConfigs[variant.chassisId]
+        );
+        const hasParts = (Object.keys(needed) as WeaponType[]).every(
+          (type) => (progress.weaponInventory[type] ?? 0) >= (needed[type] ?? 0)
+        );
+
+        let lockedTag: string | null = null;
+        if (!isChassisUnlocked(variant.chassisId)) lockedTag = 'LOCKED';
+        else if (!hasParts) lockedTag = 'NEEDS PARTS';
+
+        return this.createMechCardHtml(
+          variant.id,
+          config,
+          lockedTag,
+          variant.chassisId
+        );
       })
       .join('');
+    const mechCardsHtml = stockCardsHtml + variantCardsHtml;
+
+    const difficultyHtml = DIFFICULTY_LEVELS.map(
+      (level) => `
+        <button class="difficulty-option ${level === this.selectedDifficulty ? 'selected' : ''}" data-difficulty="${level}">
+          ${level}
+        </button>
+      `
+    ).join('');
 
     const timeLimitHtml = this.mission.timeLimit
       ? `<div class="time-limit">
@@ -409,6 +456,13 @@ export class BriefingScreen {
           text-transform: uppercase;
         }
 
+        .mech-condition {
+          color: #ffaa00;
+          font-size: 10px;
+          letter-spacing: 1px;
+          margin-top: 4px;
+        }
+
         .mech-stats {
           display: flex;
           gap: 12px;
@@ -450,6 +504,44 @@ export class BriefingScreen {
           margin-left: auto;
         }
 
+        /* Difficulty selection */
+        .difficulty-section {
+          margin-top: 20px;
+        }
+
+        .difficulty-options {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: 8px;
+        }
+
+        .difficulty-option {
+          padding: 10px 4px;
+          background: #0a150a;
+          border: 2px solid #00ff8833;
+          border-radius: 6px;
+          color: #668866;
+          font-family: 'Courier New', monospace;
+          font-size: 12px;
+          font-weight: bold;
+          letter-spacing: 2px;
+          text-transform: uppercase;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .difficulty-option:hover {
+          border-color: #00ff8888;
+          color: #aaccaa;
+        }
+
+        .difficulty-option.selected {
+          border-color: #00ff88;
+          background: #00ff8815;
+          color: #00ff88;
+          box-shadow: 0 0 15px rgba(0, 255, 136, 0.2);
+        }
+
         /* Action buttons */
         .button-row {
           grid-column: 1 / -1;
@@ -547,6 +639,13 @@ export class BriefingScreen {
           <div class="mech-grid">
             ${mechCardsHtml}
           </div>
+
+          <div class="difficulty-section">
+            <h2 class="section-title">Difficulty</h2>
+            <div class="difficulty-options">
+              ${difficultyHtml}
+            </div>
+          </div>
         </div>
 
         <div class="button-row">
@@ -563,14 +662,16 @@ export class BriefingScreen {
   private createMechCardHtml(
     id: string,
     mech: MechConfig,
-    isUnlocked: boolean
+    lockedTag: string | null,
+    chassisId: string = id
   ): string {
+    const isUnlocked = lockedTag === null;
     const iconMap: Record<string, string> = {
       ATLAS: '⬡',
       MADCAT: '◇',
       URBANMECH: '○',
     };
-    const icon = iconMap[id] || '◈';
+    const icon = iconMap[chassisId] || '◈';
 
     // Determine mech class
     let mechClass = 'Light';
@@ -579,11 +680,17 @@ export class BriefingScreen {
     else if (mech.mass >= 40) mechClass = 'Medium';
 
     const totalArmor = Object.values(mech.baseArmor).reduce((a, b) => a + b, 0);
-    const isRecommended = this.mission.recommendedMechs?.includes(id);
+    const isRecommended = this.mission.recommendedMechs?.includes(chassisId);
+
+    // Damage carried over from earlier missions
+    const damage = this.modeManager.getMechDamage(id);
+    const conditionHtml = damage
+      ? `<div class="mech-condition">Condition ${Math.round(getMechCondition(damage, mech))}%</div>`
+      : '';
 
     let tagHtml = '';
     if (!isUnlocked) {
-      tagHtml = '<span class="locked-tag">LOCKED</span>';
+      tagHtml = `<span class="locked-tag">${lockedTag}</span>`;
     } else if (isRecommended) {
       tagHtml = '<span class="recommended-tag">RECOMMENDED</span>';
     }
@@ -592,8 +699,9 @@ export class BriefingScreen {
       <div class="mech-card ${!isUnlocked ? 'locked' : ''}" data-mech-id="${id}">
         <div class="mech-icon">${icon}</div>
         <div class="mech-details">
-          <div class="mech-name">${mech.name}</div>
-          <div class="mech-class">${mechClass} • ${mech.mass}t</div>
+          <div class="mech-name">${mech.variantName ?? mech.name}</div>
+          <div class="mech-class">${mech.variantName ? `${mech.name} • ` : ''}${mechClass} • ${mech.mass}t</div>
+          ${conditionHtml}
         </div>
         <div class="mech-stats">
           <div class="mech-stat">
@@ -638,6 +746,17 @@ export class BriefingScreen {
       });
     });
 
+    const difficultyOptions = screen.querySelectorAll('.difficulty-option');
+    difficultyOptions.forEach((option) => {
+      option.addEventListener('click', () => {
+        difficultyOptions.forEach((o) => o.classList.remove('selected'));
+        option.classList.add('selected');
+        this.selectedDifficulty = option.getAttribute(
+          'data-difficulty'
+        ) as DifficultyLevel;
+      });
+    });
+
     launchBtn.addEventListener('click', () => {
       if (this.selectedMechId) {
         this.launch();
@@ -670,7 +789,7 @@ export class BriefingScreen {
     this.screenElement.style.transform = 'scale(1.05)';
 
     setTimeout(() => {
-      this.onLaunch(this.selectedMechId!);
+      this.onLaunch(this.selectedMechId!, this.selectedDifficulty);
       this.dispose();
     }, 500);
   }
@@ -1,9 +1,25 @@
 import type { GameModeManager } from '../modes/GameModeManager';
-import type { MissionConfig } from '../config/missions/MissionConfig';
-import { MISSION_REGISTRY, getMissionNumbers } from '../config/missions';
+import type {
+  DifficultyLevel,
+  MissionConfig,
+} from '../config/missions/MissionConfig';
+import {
+  MISSION_REGISTRY,
+  getMissionNumbers,
+  getCampaignColumns,
+  isPrerequisiteMet,
+} from '../config/missions';
+import { formatCBills } from '../config/EconomyConfig';
+import { MAX_SAVE_SLOTS, summarizeSave } from '../modes/CampaignSaves';
+
+/** Where a mission node sits on the campaign map (pixels) */
+interface NodePosition {
+  x: number;
+  y: number;
+}
 
 /**
- * Campaign screen showing mission list with progress.
+ * Campaign screen showing the mission graph as a node map with progress.
  * Allows player to select unlocked missions.
  */
 export class CampaignScreen {
@@ -12,17 +28,28 @@ export class CampaignScreen {
   private modeManager: GameModeManager;
   private onMissionSelect: (mission: MissionConfig) => void;
   private onBack: () => void;
+  private onMechBay: () => void;
+  /** Last save slot error (bad import, slots full) */
+  private slotError: string | null = null;
+
+  // Node map layout (pixels)
+  private readonly NODE_WIDTH = 230;
+  private readonly NODE_HEIGHT = 150;
+  private readonly COLUMN_GAP = 90;
+  private readonly ROW_GAP = 40;
 
   constructor(
     container: HTMLElement,
     modeManager: GameModeManager,
     onMissionSelect: (mission: MissionConfig) => void,
-    onBack: () => void
+    onBack: () => void,
+    onMechBay: () => void
   ) {
     this.container = container;
     this.modeManager = modeManager;
     this.onMissionSelect = onMissionSelect;
     this.onBack = onBack;
+    this.onMechBay = onMechBay;
     this.screenElement = this.createScreen();
     this.container.appendChild(this.screenElement);
   }
@@ -33,6 +60,7 @@ export class CampaignScreen {
 
     const missionNumbers = getMissionNumbers();
     const progress = this.modeManager.getCampaignProgress();
+    const positions = this.layoutNodes();
 
     const missionCardsHtml = missionNumbers
       .map((num) => {
@@ -40,18 +68,30 @@ export class CampaignScreen {
         const isCompleted = progress.completedMissions.includes(num);
         const isUnlocked = this.modeManager.isMissionUnlocked(num);
         const bestTime = progress.bestTimes[num];
+        const bestTimeDifficulty = progress.bestTimeDifficulties[num];
 
         return this.createMissionCardHtml(
           mission,
+          positions.get(num)!,
           isUnlocked,
           isCompleted,
-          bestTime
+          bestTime,
+          bestTimeDifficulty
         );
       })
       .join('');
 
+    const linksHtml = this.createLinksHtml(positions);
+    let mapWidth = 0;
+    let mapHeight = 0;
+    for (const { x, y } of positions.values()) {
+      mapWidth = Math.max(mapWidth, x + this.NODE_WIDTH);
+      mapHeight = Math.max(mapHeight, y + this.NODE_HEIGHT);
+    }
+
     const completedCount = progress.completedMissions.length;
     const totalMissions = missionNumbers.length;
+    const saveSlotsHtml = this.createSaveSlotsHtml();
 
     screen.innerHTML = `
       <style>
@@ -163,27 +203,85 @@ export class CampaignScreen {
           letter-spacing: 2px;
         }
 
-        .mission-list {
-          display: flex;
-          flex-direction: column;
-          gap: 16px;
+        .cbills-text {
+          color: #ffcc00;
+          font-size: 14px;
+          margin-top: 10px;
+          letter-spacing: 2px;
+        }
+
+        .campaign-map-scroll {
+          overflow-x: auto;
+          padding-bottom: 10px;
+        }
+
+        .campaign-map {
+          position: relative;
+          margin: 0 auto;
+        }
+
+        .campaign-links {
+          position: absolute;
+          inset: 0;
+          overflow: visible;
+          pointer-events: none;
+        }
+
+        .campaign-link {
+          fill: none;
+          stroke: #00ff8822;
+          stroke-width: 2;
+        }
+
+        .campaign-link.conditional {
+          stroke-dasharray: 6 5;
+        }
+
+        .campaign-link.open {
+          stroke: #00ff8888;
+        }
+
+        .campaign-link.taken {
+          stroke: #00ff88;
+          filter: drop-shadow(0 0 4px rgba(0, 255, 136, 0.6));
+        }
+
+        .campaign-link-label {
+          fill: #668866;
+          font-family: 'Courier New', monospace;
+          font-size: 10px;
+          letter-spacing: 1px;
+          text-anchor: middle;
+          text-transform: uppercase;
+        }
+
+        .campaign-link-label.open {
+          fill: #ffaa00;
         }
 
         .mission-card {
+          position: absolute;
+          box-sizing: border-box;
           background: linear-gradient(145deg, #0a1a0a 0%, #0d2818 100%);
           border: 2px solid #00ff8844;
           border-radius: 12px;
-          padding: 20px 24px;
+          padding: 14px 16px;
           cursor: pointer;
           transition: all 0.3s ease;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .mission-card-header {
           display: flex;
           align-items: center;
-          gap: 20px;
+          gap: 12px;
         }
 
         .mission-card:hover:not(.locked) {
           border-color: #00ff88;
-          transform: translateX(8px);
+          transform: translateY(-4px);
           box-shadow: 
             0 0 20px rgba(0, 255, 136, 0.2),
             inset 0 0 30px rgba(0, 255, 136, 0.05);
@@ -199,15 +297,15 @@ export class CampaignScreen {
         }
 
         .mission-number {
-          width: 50px;
-          height: 50px;
+          width: 40px;
+          height: 40px;
           display: flex;
           align-items: center;
           justify-content: center;
           border: 2px solid #00ff8844;
           border-radius: 8px;
           color: #00ff88;
-          font-size: 24px;
+          font-size: 20px;
           font-weight: bold;
           flex-shrink: 0;
         }
@@ -222,16 +320,11 @@ export class CampaignScreen {
           border-color: #44664444;
         }
 
-        .mission-info {
-          flex: 1;
-        }
-
         .mission-title {
           color: #00ff88;
-          font-size: 18px;
+          font-size: 15px;
           font-weight: bold;
           letter-spacing: 2px;
-          margin-bottom: 6px;
         }
 
         .mission-card.locked .mission-title {
@@ -240,7 +333,7 @@ export class CampaignScreen {
 
         .mission-desc {
           color: #88aa88;
-          font-size: 12px;
+          font-size: 11px;
           letter-spacing: 1px;
         }
 
@@ -249,8 +342,11 @@ export class CampaignScreen {
         }
 
         .mission-status {
-          text-align: right;
-          min-width: 100px;
+          margin-top: auto;
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
         }
 
         .status-badge {
@@ -284,10 +380,126 @@ export class CampaignScreen {
         .best-time {
           color: #668866;
           font-size: 11px;
-          margin-top: 6px;
           letter-spacing: 1px;
         }
 
+        .mission-branch {
+          color: #ffaa00;
+          font-size: 10px;
+          letter-spacing: 1px;
+          text-transform: uppercase;
+        }
+
+        .best-difficulty {
+          color: #ffaa00;
+          text-transform: uppercase;
+        }
+
+        .save-slots {
+          max-width: 900px;
+          margin: 30px auto 0;
+          background: linear-gradient(145deg, #0a1a0a 0%, #0d2818 100%);
+          border: 2px solid #00ff8833;
+          border-radius: 12px;
+          padding: 20px;
+        }
+
+        .save-slots-title {
+          color: #00ff88;
+          font-size: 14px;
+          letter-spacing: 3px;
+          text-transform: uppercase;
+          margin-bottom: 14px;
+          padding-bottom: 8px;
+          border-bottom: 1px solid #00ff8833;
+        }
+
+        .save-slot {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 10px 0;
+          border-bottom: 1px solid #00ff8811;
+        }
+
+        .save-slot-name {
+          color: #00ff88;
+          font-size: 14px;
+          font-weight: bold;
+        }
+
+        .save-slot-active {
+          color: #ffaa00;
+          font-size: 10px;
+          letter-spacing: 2px;
+          margin-left: 8px;
+        }
+
+        .save-slot-info {
+          color: #88aa88;
+          font-size: 11px;
+          letter-spacing: 1px;
+          margin-top: 4px;
+        }
+
+        .save-slot-actions, .save-slot-new {
+          display: flex;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        .save-slot-new {
+          margin-top: 14px;
+        }
+
+        .slot-button {
+          background: transparent;
+          border: 1px solid #00ff8844;
+          border-radius: 6px;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+          font-size: 11px;
+          letter-spacing: 1px;
+          padding: 6px 10px;
+          cursor: pointer;
+          text-transform: uppercase;
+        }
+
+        .slot-button:hover {
+          border-color: #00ff88;
+          background: #00ff8811;
+        }
+
+        .slot-button:disabled {
+          opacity: 0.4;
+          pointer-events: none;
+        }
+
+        .slot-name-input {
+          flex: 1;
+          min-width: 160px;
+          padding: 6px 10px;
+          background: #030808;
+          border: 1px solid #00ff8844;
+          border-radius: 6px;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+        }
+
+        .save-slot-error {
+          color: #ff6644;
+          font-size: 12px;
+          margin-top: 10px;
+        }
+
+        .campaign-buttons {
+          display: flex;
+          gap: 16px;
+          justify-content: center;
+          flex-wrap: wrap;
+        }
+
         .back-button {
           margin-top: 30px;
           padding: 14px 40px;
@@ -334,18 +546,6 @@ export class CampaignScreen {
             font-size: 28px;
             letter-spacing: 4px;
           }
-          .mission-card {
-            padding: 16px 18px;
-            gap: 14px;
-          }
-          .mission-number {
-            width: 42px;
-            height: 42px;
-            font-size: 20px;
-          }
-          .mission-title {
-            font-size: 16px;
-          }
         }
 
         @media (max-width: 600px) {
@@ -366,34 +566,6 @@ export class CampaignScreen {
             font-size: 11px;
             letter-spacing: 2px;
           }
-          .mission-card {
-            padding: 14px;
-            gap: 12px;
-            flex-wrap: wrap;
-          }
-          .mission-number {
-            width: 36px;
-            height: 36px;
-            font-size: 18px;
-          }
-          .mission-info {
-            flex: 1;
-            min-width: 0;
-          }
-          .mission-title {
-            font-size: 14px;
-            letter-spacing: 1px;
-          }
-          .mission-desc {
-            font-size: 11px;
-          }
-          .mission-status {
-            width: 100%;
-            text-align: left;
-            margin-top: 8px;
-            padding-top: 8px;
-            border-top: 1px solid #00ff8822;
-          }
           .back-button {
             width: 100%;
             padding: 12px 20px;
@@ -427,13 +599,22 @@ export class CampaignScreen {
             <div class="progress-bar" style="width: ${(completedCount / totalMissions) * 100}%"></div>
           </div>
           <div class="progress-text">${completedCount} / ${totalMissions} Missions Complete</div>
+          <div class="cbills-text">Funds: ${formatCBills(progress.cBills)}</div>
         </div>
 
-        <div class="mission-list">
-          ${missionCardsHtml}
+        <div class="campaign-map-scroll">
+          <div class="campaign-map" style="width: ${mapWidth}px; height: ${mapHeight}px">
+            <svg class="campaign-links" width="${mapWidth}" height="${mapHeight}">${linksHtml}</svg>
+            ${missionCardsHtml}
+          </div>
         </div>
 
-        <button class="back-button" id="back-btn">Return to Menu</button>
+        ${saveSlotsHtml}
+
+        <div class="campaign-buttons">
+          <button class="back-button" id="mech-bay-btn">Mech Bay</button>
+          <button class="back-button" id="back-btn">Return to Menu</button>
+        </div>
       </div>
     `;
 
@@ -441,11 +622,82 @@ export class CampaignScreen {
     return screen;
   }
 
+  /**
+   * Pixel position of every mission node: one column per graph depth,
+   * shorter columns centered against the tallest
+   */
+  private layoutNodes(): Map<number, NodePosition> {
+    const columns = getCampaignColumns();
+    const rowHeight = this.NODE_HEIGHT + this.ROW_GAP;
+    const maxRows = Math.max(...columns.map((column) => column.length));
+
+    const positions = new Map<number, NodePosition>();
+    columns.forEach((column, col) => {
+      const offset = ((maxRows - column.length) * rowHeight) / 2;
+      column.forEach((num, row) => {
+        positions.set(num, {
+          x: col * (this.NODE_WIDTH + this.COLUMN_GAP),
+          y: offset + row * rowHeight,
+        });
+      });
+    });
+    return positions;
+  }
+
+  /**
+   * SVG curves from each prerequisite to the mission it opens. Links that
+   * need a specific outcome are dashed and labelled; met links light up,
+   * and the route actually flown is highlighted.
+   */
+  private createLinksHtml(positions: Map<number, NodePosition>): string {
+    const progress = this.modeManager.getCampaignProgress();
+
+    return getMissionNumbers()
+      .flatMap((num) => {
+        const to = positions.get(num)!;
+        return (MISSION_REGISTRY[num].prerequisites ?? []).map(
+          (prerequisite) => {
+            const from = positions.get(prerequisite.mission);
+            if (!from) return '';
+
+            const x1 = from.x + this.NODE_WIDTH;
+            const y1 = from.y + this.NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + this.NODE_HEIGHT / 2;
+            const bend = (x2 - x1) / 2;
+
+            const isOpen = isPrerequisiteMet(
+              prerequisite,
+              progress.completedMissions,
+              progress.branchesTaken
+            );
+            const isTaken = isOpen && progress.completedMissions.includes(num);
+            const classes = ['campaign-link'];
+            if (prerequisite.outcome) classes.push('conditional');
+            if (isOpen) classes.push('open');
+            if (isTaken) classes.push('taken');
+
+            const path = `<path class="${classes.join(' ')}" d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}" />`;
+            if (!prerequisite.outcome) return path;
+
+            const outcome = MISSION_REGISTRY[
+              prerequisite.mission
+            ]?.outcomes?.find((o) => o.id === prerequisite.outcome);
+            const label = outcome?.label ?? prerequisite.outcome;
+            return `${path}<text class="campaign-link-label ${isOpen ? 'open' : ''}" x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 8}">${label}</text>`;
+          }
+        );
+      })
+      .join('');
+  }
+
   private createMissionCardHtml(
     mission: MissionConfig,
+    position: NodePosition,
     isUnlocked: boolean,
     isCompleted: boolean,
-    bestTime?: number
+    bestTime?: number,
+    bestTimeDifficulty?: DifficultyLevel
   ): string {
     let statusClass = 'locked';
     let statusText = 'LOCKED';
@@ -459,17 +711,28 @@ export class CampaignScreen {
     }
 
     const cardClass = isCompleted ? 'completed' : isUnlocked ? '' : 'locked';
+    const difficultyHtml = bestTimeDifficulty
+      ? ` <span class="best-difficulty">${bestTimeDifficulty}</span>`
+      : '';
     const timeHtml = bestTime
-      ? `<div class="best-time">Best: ${this.formatTime(bestTime)}</div>`
+      ? `<div class="best-time">Best: ${this.formatTime(bestTime)}${difficultyHtml}</div>`
       : '';
+    const branchId = this.modeManager.getBranchTaken(mission.missionNumber);
+    const branch = mission.outcomes?.find((o) => o.id === branchId);
+    const branchHtml =
+      isCompleted && branch
+        ? `<div class="mission-branch">↳ ${branch.label}</div>`
+        : '';
 
     return `
-      <div class="mission-card ${cardClass}" data-mission="${mission.missionNumber}" ${!isUnlocked ? 'disabled' : ''}>
-        <div class="mission-number">${mission.missionNumber}</div>
-        <div class="mission-info">
+      <div class="mission-card ${cardClass}" data-mission="${mission.missionNumber}" ${!isUnlocked ? 'disabled' : ''}
+        style="left: ${position.x}px; top: ${position.y}px; width: ${this.NODE_WIDTH}px; height: ${this.NODE_HEIGHT}px">
+        <div class="mission-card-header">
+          <div class="mission-number">${mission.missionNumber}</div>
           <div class="mission-title">${mission.title}</div>
-          <div class="mission-desc">${mission.description}</div>
         </div>
+        <div class="mission-desc">${mission.description}</div>
+        ${branchHtml}
         <div class="mission-status">
           <span class="status-badge ${statusClass}">${statusText}</span>
           ${timeHtml}
@@ -478,6 +741,149 @@ export class CampaignScreen {
     `;
   }
 
+  /**
+   * Save slot list with load/export/delete, plus new campaign and import
+   */
+  private createSaveSlotsHtml(): string {
+    const slots = this.modeManager.getSaveSlots();
+    const activeId = this.modeManager.getActiveSlotId();
+    const isFull = slots.length >= MAX_SAVE_SLOTS;
+
+    const slotsHtml = slots
+      .map((save) => {
+        const isActive = save.id === activeId;
+        return `
+          <div class="save-slot">
+            <div>
+              <div class="save-slot-name">${this.escapeHtml(save.name)}${isActive ? '<span class="save-slot-active">ACTIVE</span>' : ''}</div>
+              <div class="save-slot-info">${new Date(save.updatedAt).toLocaleString()} • ${summarizeSave(save)}</div>
+            </div>
+            <div class="save-slot-actions">
+              ${isActive ? '' : `<button class="slot-button" data-slot-action="load" data-slot="${save.id}">Load</button>`}
+              <button class="slot-button" data-slot-action="export" data-slot="${save.id}">Export</button>
+              <button class="slot-button" data-slot-action="delete" data-slot="${save.id}">Delete</button>
+            </div>
+          </div>
+        `;
+      })
+      .join('');
+
+    return `
+      <div class="save-slots">
+        <div class="save-slots-title">Save Slots (${slots.length}/${MAX_SAVE_SLOTS})</div>
+        ${slotsHtml}
+        <div class="save-slot-new">
+          <input class="slot-name-input" type="text" maxlength="32" placeholder="New campaign name" />
+          <button class="slot-button" data-slot-action="new" ${isFull ? 'disabled' : ''}>New Campaign</button>
+          <button class="slot-button" data-slot-action="import" ${isFull ? 'disabled' : ''}>Import</button>
+          <input class="slot-import-input" type="file" accept=".json,application/json" hidden />
+        </div>
+        ${this.slotError ? `<div class="save-slot-error">${this.escapeHtml(this.slotError)}</div>` : ''}
+      </div>
+    `;
+  }
+
+  private handleSlotAction(action: string, slotId: string): void {
+    this.slotError = null;
+
+    switch (action) {
+      case 'load':
+        this.modeManager.switchSaveSlot(slotId);
+        break;
+
+      case 'export':
+        this.downloadSlot(slotId);
+        return;
+
+      case 'delete': {
+        const save = this.modeManager
+          .getSaveSlots()
+          .find((slot) => slot.id === slotId);
+        if (!save || !window.confirm(`Delete save "${save.name}"?`)) return;
+        this.modeManager.deleteSaveSlot(slotId);
+        break;
+      }
+
+      case 'new': {
+        const input = this.screenElement.querySelector(
+          '.slot-name-input'
+        ) as HTMLInputElement | null;
+        const name =
+          input?.value.trim() ||
+          `Campaign ${this.modeManager.getSaveSlots().length + 1}`;
+        if (!this.modeManager.createSaveSlot(name)) {
+          this.slotError = `All ${MAX_SAVE_SLOTS} save slots are in use`;
+        }
+        break;
+      }
+
+      case 'import': {
+        const fileInput = this.screenElement.querySelector(
+          '.slot-import-input'
+        ) as HTMLInputElement | null;
+        fileInput?.click();
+        return;
+      }
+
+      default:
+        return;
+    }
+
+    this.refresh();
+  }
+
+  /**
+   * Download a slot as a JSON file
+   */
+  private downloadSlot(slotId: string): void {
+    const json = this.modeManager.exportSaveSlot(slotId);
+    const save = this.modeManager
+      .getSaveSlots()
+      .find((slot) => slot.id === slotId);
+    if (!json || !save) return;
+
+    const url = URL.createObjectURL(
+      new Blob([json], { type: 'application/json' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `urf-wars-${save.name.replace(/[^\w-]+/g, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private importSlotFile(file: File): void {
+    file
+      .text()
+      .then((json) => {
+        this.modeManager.importSaveSlot(json);
+        this.slotError = null;
+      })
+      .catch((error: unknown) => {
+        this.slotError = `Import failed: ${error instanceof Error ? error.message : String(error)}`;
+      })
+      .finally(() => {
+        this.refresh();
+      });
+  }
+
+  /**
+   * Rebuild the screen after the active slot changes
+   */
+  private refresh(): void {
+    const previous = this.screenElement;
+    this.screenElement = this.createScreen();
+    previous.replaceWith(this.screenElement);
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   private formatTime(seconds: number): string {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -487,6 +893,7 @@ export class CampaignScreen {
   private setupEventListeners(screen: HTMLElement): void {
     const missionCards = screen.querySelectorAll('.mission-card:not(.locked)');
     const backBtn = screen.querySelector('#back-btn');
+    const mechBayBtn = screen.querySelector('#mech-bay-btn');
 
     missionCards.forEach((card) => {
       card.addEventListener('click', () => {
@@ -505,6 +912,29 @@ export class CampaignScreen {
       this.goBack();
     });
 
+    mechBayBtn?.addEventListener('click', () => {
+      this.onMechBay();
+    });
+
+    screen.querySelectorAll('[data-slot-action]').forEach((button) => {
+      button.addEventListener('click', () => {
+        this.handleSlotAction(
+          button.getAttribute('data-slot-action') ?? '',
+          button.getAttribute('data-slot') ?? ''
+        );
+      });
+    });
+
+    const importInput = screen.querySelector(
+      '.slot-import-input'
+    ) as HTMLInputElement | null;
+    importInput?.addEventListener('change', () => {
+      const file = importInput.files?.[0];
+      if (file) {
+        this.importSlotFile(file);
+      }
+    });
+
     // Keyboard support
     window.addEventListener('keydown', this.handleKeyDown);
   }
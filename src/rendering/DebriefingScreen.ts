@@ -1,5 +1,9 @@
 import type { MissionConfig } from '../config/missions/MissionConfig';
 import type { GameResult } from '../modes/GameMode';
+import { getMissionsUnlockedBy } from '../config/missions';
+import { formatCBills } from '../config/EconomyConfig';
+import type { MissionPayout } from '../config/EconomyConfig';
+import { getWeaponEntry } from '../config/WeaponCatalog';
 
 /**
  * Post-mission debriefing screen showing results and stats.
@@ -50,8 +54,8 @@ export class DebriefingScreen {
     // Build objectives summary
     const objectivesHtml = this.mission.objectives
       .map((obj) => {
-        // For now, assume all required objectives are complete if victory
-        const isComplete = isVictory && obj.required;
+        const isComplete =
+          this.result.objectivesCompleted?.includes(obj.id) ?? false;
         const statusIcon = isComplete ? '✓' : '✕';
         const statusClass = isComplete ? 'complete' : 'incomplete';
 
@@ -75,6 +79,19 @@ export class DebriefingScreen {
       if (this.mission.unlocksMap) {
         unlocks.push(`Map Unlocked: ${this.mission.unlocksMap}`);
       }
+
+      // Campaign branch taken and the missions it opens
+      const outcomeId = this.result.customData?.outcome as string | undefined;
+      const outcome = this.mission.outcomes?.find((o) => o.id === outcomeId);
+      if (outcome) {
+        unlocks.push(`Route: ${outcome.label}`);
+      }
+      for (const next of getMissionsUnlockedBy(
+        this.mission.missionNumber,
+        outcomeId
+      )) {
+        unlocks.push(`Mission ${next.missionNumber}: ${next.title}`);
+      }
       if (unlocks.length > 0) {
         unlocksHtml = `
           <div class="unlocks-section">
@@ -85,6 +102,38 @@ export class DebriefingScreen {
       }
     }
 
+    // C-bills earned or charged, plus salvage
+    let payoutHtml = '';
+    const payout = this.result.customData?.payout as MissionPayout | undefined;
+    if (payout) {
+      const linesHtml = payout.lines
+        .map(
+          (line) => `
+            <div class="payout-line">
+              <span>${line.label}</span>
+              <span class="${line.amount < 0 ? 'charge' : ''}">${formatCBills(line.amount)}</span>
+            </div>
+          `
+        )
+        .join('');
+      const salvageHtml =
+        payout.salvage.length > 0
+          ? `<div class="payout-salvage">Salvage: ${payout.salvage.map((w) => getWeaponEntry(w).name).join(', ')}</div>`
+          : '';
+
+      payoutHtml = `
+        <div class="payout-panel">
+          <h3 class="section-title">Payout</h3>
+          ${linesHtml}
+          <div class="payout-line total">
+            <span>Total</span>
+            <span class="${payout.total < 0 ? 'charge' : ''}">${formatCBills(payout.total)}</span>
+          </div>
+          ${salvageHtml}
+        </div>
+      `;
+    }
+
     screen.innerHTML = `
       <style>
         #debriefing-screen {
@@ -298,6 +347,41 @@ export class DebriefingScreen {
           letter-spacing: 1px;
         }
 
+        .payout-panel {
+          background: linear-gradient(145deg, #0a1a0a 0%, #0d2818 100%);
+          border: 1px solid #00ff8833;
+          border-radius: 12px;
+          padding: 20px;
+          margin-bottom: 24px;
+        }
+
+        .payout-line {
+          display: flex;
+          justify-content: space-between;
+          color: #ccddcc;
+          font-size: 13px;
+          padding: 4px 0;
+        }
+
+        .payout-line.total {
+          border-top: 1px solid #00ff8833;
+          margin-top: 6px;
+          padding-top: 10px;
+          color: #ffcc00;
+          font-weight: bold;
+        }
+
+        .payout-line .charge {
+          color: #ff6644;
+        }
+
+        .payout-salvage {
+          color: #88aa88;
+          font-size: 12px;
+          margin-top: 10px;
+          letter-spacing: 1px;
+        }
+
         .unlocks-section {
           background: linear-gradient(145deg, #1a2a0a 0%, #203015 100%);
           border: 1px solid #ffcc0044;
@@ -424,7 +508,7 @@ export class DebriefingScreen {
             font-size: 20px;
             letter-spacing: 3px;
           }
-          .stats-panel, .objectives-panel, .unlocks-section {
+          .stats-panel, .objectives-panel, .payout-panel, .unlocks-section {
             padding: 16px;
           }
           .stat-value {
@@ -495,6 +579,8 @@ export class DebriefingScreen {
           ${objectivesHtml}
         </div>
 
+        ${payoutHtml}
+
         ${unlocksHtml}
 
         <div class="button-row">
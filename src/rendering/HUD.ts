@@ -1,19 +1,47 @@
 import { HEAT_CONFIG } from '../config/HeatConfig';
+import type { HeatStage } from '../config/HeatConfig';
+import { FACTION_CONFIG } from '../config/FactionConfig';
+import { OBJECTIVE_MARKER_CONFIG } from '../config/ObjectiveMarkerConfig';
+import { COMMS_CONFIG } from '../config/CommsConfig';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import { EventBus } from '../core/EventBus';
+import type { FactionRelation, WeaponType } from '../types';
+import type { ObjectiveState } from '../config/missions/MissionConfig';
+import type { CommsMessage } from '../systems/CommsSystem';
 
 // Interface for the mech data provider (works with both Mech class and ECS entity wrapper)
 interface HeatSystemInterface {
   getCurrentHeat(): number;
   getMaxHeat(): number;
   isOverheated(): boolean;
+  getStage(): HeatStage;
+  isOverrideEngaged(): boolean;
+}
+
+/** Warning banner for each heat stage (null hides the banner) */
+const HEAT_STAGE_WARNINGS: Record<HeatStage, string | null> = {
+  normal: null,
+  warning: 'HEAT WARNING',
+  cookoff: 'AMMO COOK-OFF RISK',
+  shutdown: 'EMERGENCY SHUTDOWN - O TO OVERRIDE',
+  override: 'SHUTDOWN OVERRIDE',
+};
+
+interface SelectedGroupInfo {
+  group: number; // 1-based group number
+  chainFire: boolean;
 }
 
 interface WeaponSystemInterface {
   getSelectedSlot(): number;
+  getSelectedGroup?(): SelectedGroupInfo | null; // null fires the selected slot alone
   getWeapons(): Array<{
     slot: number;
-    config: { type: string };
+    config: { type: WeaponType };
     cooldownRemaining: number;
     ammo?: number;
+    destroyed?: boolean;
+    groups?: number[]; // Weapon groups the weapon belongs to
   }>;
 }
 
@@ -36,11 +64,31 @@ interface TargetInfo {
   distance: number;
   isLocked: boolean;
   healthPercent: number;
+  relation?: FactionRelation;
+}
+
+interface MissileLockInfo {
+  progress: number; // 0-1 toward a missile lock
+  locked: boolean;
 }
 
 interface TargetingInterface {
   getTargets(): TargetInfo[];
   hasLockedTarget(): boolean;
+  getMissileLock?(): MissileLockInfo | null; // null without guided weapons
+}
+
+interface MissionTimerInfo {
+  elapsed: number; // Seconds since mission start
+  timeLimit?: number; // Counts down when set
+}
+
+interface WaypointInfo {
+  x: number; // Screen X (0-1)
+  y: number; // Screen Y (0-1)
+  distance: number;
+  kind: keyof typeof OBJECTIVE_MARKER_CONFIG.WAYPOINT.colors;
+  onScreen: boolean; // Off-screen waypoints are pinned to the edge
 }
 
 interface MechDataProvider {
@@ -51,8 +99,12 @@ interface MechDataProvider {
   getLegHeading(): number; // Returns leg heading in radians
   getWeaponSystem(): WeaponSystemInterface;
   getArmorStatus(): ArmorStatus;
+  getStructureStatus?(): ArmorStatus;
+  getCriticalHits?(): string[];
   getCameraController?(): CameraControllerInterface;
   getTargeting?(): TargetingInterface;
+  getMissionTimer?(): MissionTimerInfo | null;
+  getWaypoints?(): WaypointInfo[];
 }
 
 export class HUD {
@@ -66,7 +118,10 @@ export class HUD {
   private speedValue!: HTMLElement;
   private armorZones!: NodeListOf<Element>;
   private weaponSlots!: HTMLElement;
+  private fireModeLabel!: HTMLElement;
   private warningText!: HTMLElement;
+  private critLog!: HTMLElement;
+  private lastCritLogText: string = '';
 
   // Targeting canvas for drawing indicators
   private targetingCanvas!: HTMLCanvasElement;
@@ -87,8 +142,32 @@ export class HUD {
   // Torso alignment indicator
   private torsoIndicator!: HTMLElement;
 
+  // Mission objectives and timer
+  private objectivePanel!: HTMLElement;
+  private objectiveList!: HTMLElement;
+  private missionTimer!: HTMLElement;
+  private objectives: Map<string, ObjectiveState> = new Map();
+  private objectivesDirty: boolean = false;
+  private lastTimerText: string = '';
+  private waveCounter!: HTMLElement;
+  private wave: { number: number; total: number; cleared: boolean } | null =
+    null;
+  private waveDirty: boolean = false;
+
+  // Comms channel
+  private commsPanel!: HTMLElement;
+  private commsPortrait!: HTMLElement;
+  private commsSpeaker!: HTMLElement;
+  private commsText!: HTMLElement;
+  private commsQueue!: HTMLElement;
+  private comms: { current: CommsMessage | null; queue: CommsMessage[] } = {
+    current: null,
+    queue: [],
+  };
+  private commsDirty: boolean = false;
+
   private isVisible: boolean = true;
-  private lastHeatWarningState: boolean = false;
+  private lastHeatStage: HeatStage = 'normal';
 
   constructor(container: HTMLElement, mechData: MechDataProvider) {
     this.container = container;
@@ -97,14 +176,58 @@ export class HUD {
     this.container.appendChild(this.hudElement);
 
     // Setup visibility toggle
-    window.addEventListener('keydown', (e) => {
-      if (e.code === 'Tab') {
-        e.preventDefault();
-        this.toggleVisibility();
-      }
-    });
+    window.addEventListener('keydown', this.onKeyDown);
+
+    EventBus.on('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.on('objective:updated', this.onObjectiveUpdated);
+    EventBus.on('objective:added', this.onObjectiveAdded);
+    EventBus.on('wave:started', this.onWaveStarted);
+    EventBus.on('wave:cleared', this.onWaveCleared);
+    EventBus.on('comms:updated', this.onCommsUpdated);
   }
 
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code === 'Tab') {
+      e.preventDefault();
+      this.toggleVisibility();
+    }
+  };
+
+  private onObjectivesInitialized = (states: ObjectiveState[]): void => {
+    this.objectives = new Map(states.map((state) => [state.config.id, state]));
+    this.objectivesDirty = true;
+  };
+
+  private onObjectiveUpdated = (id: string, state: ObjectiveState): void => {
+    this.objectives.set(id, state);
+    this.objectivesDirty = true;
+  };
+
+  private onObjectiveAdded = (state: ObjectiveState): void => {
+    this.objectives.set(state.config.id, state);
+    this.objectivesDirty = true;
+  };
+
+  private onWaveStarted = (waveNumber: number, totalWaves: number): void => {
+    this.wave = { number: waveNumber, total: totalWaves, cleared: false };
+    this.waveDirty = true;
+  };
+
+  private onWaveCleared = (waveNumber: number): void => {
+    // An older wave finishing doesn't change the counter
+    if (this.wave?.number !== waveNumber) return;
+    this.wave.cleared = true;
+    this.waveDirty = true;
+  };
+
+  private onCommsUpdated = (
+    current: CommsMessage | null,
+    queue: CommsMessage[]
+  ): void => {
+    this.comms = { current, queue };
+    this.commsDirty = true;
+  };
+
   private createHUD(): HTMLElement {
     const hud = document.createElement('div');
     hud.id = 'hud';
@@ -345,6 +468,18 @@ export class HUD {
           background: rgba(255, 68, 0, 0.12);
           animation: criticalPulse 0.7s ease-in-out infinite;
         }
+        .armor-zone.structure {
+          border-color: #ff4400;
+          border-style: dashed;
+          color: #ff8844;
+          background: rgba(255, 68, 0, 0.18);
+        }
+        .armor-zone.destroyed {
+          border-color: #552211;
+          color: #662211;
+          background: rgba(40, 10, 5, 0.6);
+          text-decoration: line-through;
+        }
 
         @keyframes criticalPulse {
           0%, 100% { opacity: 1; }
@@ -419,12 +554,50 @@ export class HUD {
           opacity: 0.35;
         }
 
+        .weapon-slot.destroyed {
+          border-color: #552211;
+          background: rgba(40, 10, 5, 0.6);
+          opacity: 0.5;
+        }
+
+        .weapon-slot.destroyed .weapon-name {
+          color: #662211;
+          text-decoration: line-through;
+        }
+
         .weapon-key {
           color: #4a6a5a;
           font-size: 8px;
           margin-bottom: 1px;
         }
         
+        .weapon-groups {
+          display: flex;
+          justify-content: center;
+          gap: 2px;
+          min-height: 9px;
+          margin-bottom: 1px;
+        }
+
+        .weapon-group {
+          color: #4a6a5a;
+          font-size: 7px;
+          border: 1px solid #2a352a;
+          border-radius: 2px;
+          padding: 0 2px;
+          line-height: 8px;
+        }
+
+        .weapon-group.active {
+          color: #00ff88;
+          border-color: #00ff88;
+        }
+
+        .fire-mode {
+          color: #00ff88;
+          margin-left: 6px;
+        }
+
         .weapon-name {
           color: #00ff88;
           font-size: 10px;
@@ -472,6 +645,12 @@ export class HUD {
           font-size: 9px;
         }
 
+        .weapon-lost {
+          color: #ff4400;
+          font-size: 8px;
+          font-weight: bold;
+        }
+
         /* ========== RADAR (Top Right) ========== */
         .radar-panel {
           position: absolute;
@@ -793,6 +972,163 @@ export class HUD {
           50% { opacity: 0.5; }
         }
 
+        /* ========== OBJECTIVES (Top Left) ========== */
+        .objective-panel {
+          position: absolute;
+          top: 45px;
+          left: 45px;
+          min-width: 200px;
+          max-width: 280px;
+          padding: 8px 10px;
+          background: linear-gradient(135deg, rgba(12, 18, 14, 0.85) 0%, rgba(8, 12, 10, 0.9) 100%);
+          border: 1px solid #2a352a;
+          border-radius: 3px;
+          display: none;
+        }
+
+        .mission-timer {
+          color: #00ff88;
+          font-size: 16px;
+          font-weight: bold;
+          letter-spacing: 2px;
+          margin-bottom: 6px;
+          display: none;
+        }
+
+        .mission-timer.warning {
+          color: #ff4400;
+          animation: warningFlash 0.8s ease-in-out infinite;
+        }
+
+        .wave-counter {
+          color: #ffaa00;
+          font-size: 11px;
+          font-weight: bold;
+          letter-spacing: 2px;
+          margin-bottom: 6px;
+          display: none;
+        }
+
+        .wave-counter.cleared {
+          color: #00ff88;
+        }
+
+        .objective-entry {
+          display: flex;
+          gap: 6px;
+          font-size: 10px;
+          letter-spacing: 1px;
+          color: #88aa88;
+          padding: 2px 0;
+        }
+
+        .objective-entry.completed {
+          color: #00ff88;
+        }
+
+        .objective-entry.failed {
+          color: #ff4400;
+          text-decoration: line-through;
+        }
+
+        .objective-entry.bonus .objective-desc {
+          opacity: 0.75;
+        }
+
+        .objective-progress {
+          margin-left: auto;
+          color: #aaccaa;
+        }
+
+        /* ========== COMMS CHANNEL (Top Center) ========== */
+        .comms-panel {
+          position: absolute;
+          top: 95px;
+          left: 50%;
+          transform: translateX(-50%);
+          width: 420px;
+          display: none;
+          gap: 10px;
+          padding: 8px 10px;
+          background: linear-gradient(135deg, rgba(12, 18, 14, 0.88) 0%, rgba(8, 12, 10, 0.92) 100%);
+          border: 1px solid #2a352a;
+          border-left: 3px solid #3a5a4a;
+          border-radius: 3px;
+        }
+
+        .comms-panel.high {
+          border-left-color: #ffaa00;
+        }
+
+        .comms-panel.critical {
+          border-color: #ff4400;
+          border-left-color: #ff4400;
+          animation: warningFlash 0.5s ease-in-out 3;
+        }
+
+        .comms-portrait {
+          width: 36px;
+          height: 36px;
+          flex-shrink: 0;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          font-size: 22px;
+          border: 1px solid currentColor;
+          border-radius: 3px;
+          background: rgba(0, 12, 6, 0.6);
+        }
+
+        .comms-body {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .comms-speaker {
+          font-size: 9px;
+          font-weight: bold;
+          letter-spacing: 2px;
+          margin-bottom: 3px;
+        }
+
+        .comms-text {
+          color: #ccddcc;
+          font-size: 11px;
+          line-height: 1.35;
+        }
+
+        .comms-queue {
+          color: #3a5a4a;
+          font-size: 9px;
+          letter-spacing: 1px;
+          margin-top: 4px;
+        }
+
+        /* ========== CRITICAL HIT LOG ========== */
+        .crit-log {
+          position: absolute;
+          bottom: 110px;
+          left: 20px;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          font-size: 10px;
+          font-weight: bold;
+          letter-spacing: 1px;
+        }
+
+        .crit-entry {
+          color: #ff8844;
+          padding: 2px 6px;
+          background: rgba(40, 10, 5, 0.6);
+          border-left: 2px solid #ff4400;
+        }
+
+        .crit-entry:last-child {
+          color: #ff4400;
+          animation: warningFlash 0.4s ease-in-out 3;
+        }
+
         /* ========== SCANLINES ========== */
         .scanlines {
           position: absolute;
@@ -831,6 +1167,7 @@ export class HUD {
           .weapon-slot { max-width: 85px; padding: 4px 5px; }
           .cockpit-frame { border-width: 20px; }
           .compass-bar { width: 220px; top: 32px; }
+          .comms-panel { width: 320px; top: 80px; }
           .compass-heading { font-size: 10px; bottom: -16px; }
           .torso-section { width: 60px; }
           .torso-alignment { width: 45px; height: 45px; }
@@ -856,6 +1193,7 @@ export class HUD {
           .cockpit-frame { border-width: 14px; }
           .cockpit-corner { width: 45px; height: 45px; }
           .compass-bar { display: none; }
+          .comms-panel { width: 240px; top: 20px; }
           .torso-section { width: 50px; }
           .torso-alignment { width: 38px; height: 38px; }
           .alignment-ring { width: 30px; height: 30px; }
@@ -971,13 +1309,33 @@ export class HUD {
       
         <!-- Weapons -->
         <div class="panel-section weapons-section">
-          <div class="panel-label">Weapons</div>
+          <div class="panel-label">Weapons<span class="fire-mode" id="fire-mode"></span></div>
           <div class="weapons-grid" id="weapon-slots"></div>
         </div>
       </div>
       
       <!-- Warning Overlay -->
       <div class="warning-overlay" id="warning-text">WARNING</div>
+
+      <!-- Mission Objectives -->
+      <div class="objective-panel" id="objective-panel">
+        <div class="mission-timer" id="mission-timer">00:00</div>
+        <div class="wave-counter" id="wave-counter"></div>
+        <div id="objective-list"></div>
+      </div>
+
+      <!-- Comms Channel -->
+      <div class="comms-panel" id="comms-panel">
+        <div class="comms-portrait" id="comms-portrait"></div>
+        <div class="comms-body">
+          <div class="comms-speaker" id="comms-speaker"></div>
+          <div class="comms-text" id="comms-text"></div>
+          <div class="comms-queue" id="comms-queue"></div>
+        </div>
+      </div>
+
+      <!-- Critical Hit Log -->
+      <div class="crit-log" id="crit-log"></div>
       
       <!-- Scanlines -->
       <div class="scanlines"></div>
@@ -999,7 +1357,9 @@ export class HUD {
       this.speedValue = this.hudElement.querySelector('#speed-value')!;
       this.armorZones = this.hudElement.querySelectorAll('.armor-zone');
       this.weaponSlots = this.hudElement.querySelector('#weapon-slots')!;
+      this.fireModeLabel = this.hudElement.querySelector('#fire-mode')!;
       this.warningText = this.hudElement.querySelector('#warning-text')!;
+      this.critLog = this.hudElement.querySelector('#crit-log')!;
       this.targetingCanvas = this.hudElement.querySelector(
         '#targeting-canvas'
       )! as HTMLCanvasElement;
@@ -1011,6 +1371,15 @@ export class HUD {
       this.compassHeading = this.hudElement.querySelector('.compass-heading')!;
       this.compassStrip = this.hudElement.querySelector('#compass-strip')!;
       this.torsoIndicator = this.hudElement.querySelector('#torso-indicator')!;
+      this.objectivePanel = this.hudElement.querySelector('#objective-panel')!;
+      this.objectiveList = this.hudElement.querySelector('#objective-list')!;
+      this.missionTimer = this.hudElement.querySelector('#mission-timer')!;
+      this.waveCounter = this.hudElement.querySelector('#wave-counter')!;
+      this.commsPanel = this.hudElement.querySelector('#comms-panel')!;
+      this.commsPortrait = this.hudElement.querySelector('#comms-portrait')!;
+      this.commsSpeaker = this.hudElement.querySelector('#comms-speaker')!;
+      this.commsText = this.hudElement.querySelector('#comms-text')!;
+      this.commsQueue = this.hudElement.querySelector('#comms-queue')!;
       this.initCompassStrip();
       this.resizeTargetingCanvas();
       this.resizeRadarCanvas();
@@ -1021,13 +1390,11 @@ export class HUD {
     const heatPercent =
       (heatSystem.getCurrentHeat() / heatSystem.getMaxHeat()) * 100;
     this.heatFill.style.width = `${heatPercent}%`;
-    this.heatValue.textContent = `${Math.round(heatPercent)}%`;
-
-    // Heat warning states
-    const isOverheated = heatSystem.isOverheated();
-    const isWarning = heatPercent >= HEAT_CONFIG.WARNING_THRESHOLD * 100;
+    this.heatValue.textContent = heatSystem.isOverrideEngaged()
+      ? `${Math.round(heatPercent)}% OVR`
+      : `${Math.round(heatPercent)}%`;
 
-    if (heatPercent > 70) {
+    if (heatPercent > HEAT_CONFIG.WARNING_THRESHOLD * 100) {
       this.heatFill.classList.add('warning');
       this.heatValue.classList.add('warning');
     } else {
@@ -1035,15 +1402,17 @@ export class HUD {
       this.heatValue.classList.remove('warning');
     }
 
-    // Handle heat warning display
-    if (isOverheated && !this.lastHeatWarningState) {
-      this.showWarning('EMERGENCY SHUTDOWN');
-    } else if (isWarning && !isOverheated && !this.lastHeatWarningState) {
-      this.showWarning('HEAT WARNING');
-    } else if (!isWarning && !isOverheated && this.lastHeatWarningState) {
-      this.hideWarning();
+    // Show the warning for the current heat stage
+    const heatStage = heatSystem.getStage();
+    if (heatStage !== this.lastHeatStage) {
+      const warning = HEAT_STAGE_WARNINGS[heatStage];
+      if (warning) {
+        this.showWarning(warning);
+      } else {
+        this.hideWarning();
+      }
+      this.lastHeatStage = heatStage;
     }
-    this.lastHeatWarningState = isWarning || isOverheated;
 
     // Update speed
     const speed = Math.round(this.mechData.getSpeed() * 3.6);
@@ -1052,12 +1421,18 @@ export class HUD {
     // Update armor
     this.updateArmorDisplay();
 
+    // Update critical hits
+    this.updateCritLog();
+
     // Update weapons
     this.updateWeaponDisplay();
 
     // Update targeting indicators
     this.updateTargetingDisplay();
 
+    // Update objective waypoints (same canvas, drawn over targets)
+    this.updateWaypoints();
+
     // Update radar
     this.updateRadar();
 
@@ -1066,18 +1441,149 @@ export class HUD {
 
     // Update torso alignment indicator
     this.updateTorsoAlignment();
+
+    // Update mission objectives and timer
+    this.updateObjectives();
+    this.updateMissionTimer();
+    this.updateWaveCounter();
+
+    // Update comms channel
+    this.updateComms();
+  }
+
+  private updateComms(): void {
+    if (!this.commsDirty) return;
+    this.commsDirty = false;
+
+    const { current, queue } = this.comms;
+    if (!current) {
+      this.commsPanel.style.display = 'none';
+      return;
+    }
+
+    const speaker =
+      COMMS_CONFIG.SPEAKERS[current.speaker] ?? COMMS_CONFIG.DEFAULT_SPEAKER;
+    this.commsPanel.className = `comms-panel ${current.priority}`;
+    this.commsPanel.style.display = 'flex';
+    this.commsPortrait.textContent = current.portrait;
+    this.commsPortrait.style.color = speaker.color;
+    this.commsSpeaker.textContent = current.speaker;
+    this.commsSpeaker.style.color = speaker.color;
+    this.commsText.textContent = current.text;
+    this.commsQueue.textContent =
+      queue.length > 0
+        ? `${queue.map((message) => message.portrait).join(' ')} +${queue.length} QUEUED`
+        : '';
+  }
+
+  private updateWaveCounter(): void {
+    if (!this.waveDirty || !this.wave) return;
+    this.waveDirty = false;
+
+    const { number, total, cleared } = this.wave;
+    this.waveCounter.textContent = `WAVE ${number}/${total}${cleared ? ' CLEARED' : ''}`;
+    this.waveCounter.classList.toggle('cleared', cleared);
+    this.waveCounter.style.display = 'block';
+    this.objectivePanel.style.display = 'block';
+  }
+
+  private updateObjectives(): void {
+    if (!this.objectivesDirty) return;
+    this.objectivesDirty = false;
+
+    this.objectivePanel.style.display =
+      this.objectives.size > 0 ? 'block' : 'none';
+
+    this.objectiveList.innerHTML = Array.from(this.objectives.values())
+      .map((state) => {
+        const { config, status } = state;
+        const classes = ['objective-entry', status];
+        if (!config.required) classes.push('bonus');
+
+        const icon =
+          status === 'completed' ? '■' : status === 'failed' ? '✕' : '□';
+        const progress =
+          config.type === 'protect'
+            ? `<span class="objective-progress">${state.progress}%${state.timeRemaining !== undefined && status === 'in_progress' ? ` ${this.formatTime(state.timeRemaining)}` : ''}</span>`
+            : config.showProgress
+              ? `<span class="objective-progress">${Math.min(state.progress, state.targetProgress)}/${state.targetProgress}</span>`
+              : state.timeRemaining !== undefined && status !== 'completed'
+                ? `<span class="objective-progress">${this.formatTime(state.timeRemaining)}</span>`
+                : '';
+
+        return `<div class="${classes.join(' ')}"><span>${icon}</span><span class="objective-desc">${config.description}${config.required ? '' : ' (BONUS)'}</span>${progress}</div>`;
+      })
+      .join('');
+  }
+
+  private updateMissionTimer(): void {
+    const timer = this.mechData.getMissionTimer?.() ?? null;
+    if (!timer) {
+      this.missionTimer.style.display = 'none';
+      return;
+    }
+
+    // Count down against the limit when there is one
+    const seconds =
+      timer.timeLimit !== undefined
+        ? Math.max(0, timer.timeLimit - timer.elapsed)
+        : timer.elapsed;
+    const text = this.formatTime(seconds);
+
+    this.missionTimer.style.display = 'block';
+    this.objectivePanel.style.display = 'block';
+    if (text === this.lastTimerText) return;
+    this.lastTimerText = text;
+
+    this.missionTimer.textContent = text;
+    this.missionTimer.classList.toggle(
+      'warning',
+      timer.timeLimit !== undefined && seconds <= 30
+    );
+  }
+
+  /**
+   * Format seconds as MM:SS
+   */
+  private formatTime(seconds: number): string {
+    const whole = Math.ceil(seconds);
+    const minutes = Math.floor(whole / 60);
+    const secs = whole % 60;
+    return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   }
 
   private updateArmorDisplay(): void {
     const armor = this.mechData.getArmorStatus();
+    const structure = this.mechData.getStructureStatus?.();
 
     this.armorZones.forEach((zone) => {
       const zoneName = zone.getAttribute('data-zone') as keyof ArmorStatus;
       if (!zoneName) return;
 
       const percent = armor[zoneName];
+      const structurePercent = structure?.[zoneName] ?? 0;
+
+      zone.classList.remove(
+        'ok',
+        'damaged',
+        'critical',
+        'structure',
+        'destroyed'
+      );
+
+      if (percent <= 0 && structurePercent > 0) {
+        // Armor stripped - show remaining internal structure
+        zone.classList.add('structure');
+        zone.textContent = `S${Math.round(structurePercent)}`;
+        return;
+      }
 
-      zone.classList.remove('ok', 'damaged', 'critical');
+      if (percent <= 0) {
+        // Zone is gone - mark it instead of showing 0
+        zone.classList.add('destroyed');
+        zone.textContent = 'X';
+        return;
+      }
 
       if (percent > 50) {
         zone.classList.add('ok');
@@ -1091,27 +1597,52 @@ export class HUD {
     });
   }
 
+  private updateCritLog(): void {
+    if (!this.mechData.getCriticalHits) return;
+
+    const entries = this.mechData.getCriticalHits();
+    const text = entries.join('|');
+    if (text === this.lastCritLogText) return;
+    this.lastCritLogText = text;
+
+    this.critLog.innerHTML = entries
+      .map((entry) => `<div class="crit-entry">CRIT: ${entry}</div>`)
+      .join('');
+  }
+
   private updateWeaponDisplay(): void {
     const weaponSystem = this.mechData.getWeaponSystem();
     const weapons = weaponSystem.getWeapons();
     const selectedSlot = weaponSystem.getSelectedSlot();
+    const selectedGroup = weaponSystem.getSelectedGroup?.() ?? null;
+
+    this.fireModeLabel.textContent = selectedGroup
+      ? `G${selectedGroup.group}${selectedGroup.chainFire ? ' CHAIN' : ''}`
+      : '';
 
     let html = '';
     for (const weapon of weapons) {
-      const isSelected = weapon.slot === selectedSlot;
+      const groups = weapon.groups ?? [];
+      const isSelected = selectedGroup
+        ? groups.includes(selectedGroup.group)
+        : weapon.slot === selectedSlot;
       const isOnCooldown = weapon.cooldownRemaining > 0;
       const hasAmmo = weapon.ammo !== undefined;
       const isEmpty = hasAmmo && weapon.ammo! <= 0;
       const isLowAmmo = hasAmmo && weapon.ammo! <= 5 && weapon.ammo! > 0;
+      const isDestroyed = weapon.destroyed ?? false;
 
       const classes = ['weapon-slot'];
       if (isSelected) classes.push('selected');
-      if (isOnCooldown) classes.push('cooldown');
+      if (isDestroyed) classes.push('destroyed');
+      else if (isOnCooldown) classes.push('cooldown');
       if (isEmpty) classes.push('empty');
 
       // Status display
       let statusHtml = '';
-      if (isEmpty) {
+      if (isDestroyed) {
+        statusHtml = '<span class="weapon-lost">LOST</span>';
+      } else if (isEmpty) {
         statusHtml = '<span class="weapon-ammo empty">EMPTY</span>';
       } else if (isOnCooldown) {
         statusHtml = `<span class="weapon-cooldown">${weapon.cooldownRemaining.toFixed(1)}s</span>`;
@@ -1125,7 +1656,8 @@ export class HUD {
       html += `
         <div class="${classes.join(' ')}">
           <div class="weapon-key">[${weapon.slot}]</div>
-          <div class="weapon-name">${weapon.config.type}</div>
+          <div class="weapon-groups">${groups.map((group) => `<span class="weapon-group ${group === selectedGroup?.group ? 'active' : ''}">${group}</span>`).join('')}</div>
+          <div class="weapon-name">${getWeaponEntry(weapon.config.type).shortName}</div>
           <div class="weapon-status">${statusHtml}</div>
         </div>
       `;
@@ -1175,26 +1707,29 @@ export class HUD {
       const radarX = center + (dirX / len) * distanceFactor * radius;
       const radarY = center + (dirY / len) * distanceFactor * radius;
 
+      // Blip color follows allegiance
+      const color = FACTION_CONFIG.HUD_COLORS[target.relation ?? 'hostile'];
+
       // Draw target blip
       if (target.isLocked) {
-        // Locked target - red pulsing
-        ctx.fillStyle = '#ff4444';
-        ctx.shadowColor = '#ff4444';
+        // Locked target - larger blip with ring
+        ctx.fillStyle = color;
+        ctx.shadowColor = color;
         ctx.shadowBlur = 6;
         ctx.beginPath();
         ctx.arc(radarX, radarY, 4, 0, Math.PI * 2);
         ctx.fill();
 
         // Draw lock indicator
-        ctx.strokeStyle = '#ff4444';
+        ctx.strokeStyle = color;
         ctx.lineWidth = 1;
         ctx.beginPath();
         ctx.arc(radarX, radarY, 7, 0, Math.PI * 2);
         ctx.stroke();
       } else {
-        // Detected target - green
-        ctx.fillStyle = '#00ff88';
-        ctx.shadowColor = '#00ff88';
+        // Detected target
+        ctx.fillStyle = color;
+        ctx.shadowColor = color;
         ctx.shadowBlur = 4;
         ctx.beginPath();
         ctx.arc(radarX, radarY, 3, 0, Math.PI * 2);
@@ -1388,6 +1923,7 @@ export class HUD {
     for (const target of targets) {
       const screenX = target.x * width;
       const screenY = target.y * height;
+      const color = FACTION_CONFIG.HUD_COLORS[target.relation ?? 'hostile'];
 
       if (target.isLocked) {
         this.drawLockedTarget(
@@ -1395,25 +1931,119 @@ export class HUD {
           screenX,
           screenY,
           target.distance,
-          target.healthPercent
+          target.healthPercent,
+          color
         );
       } else {
-        this.drawDetectedTarget(ctx, screenX, screenY, target.distance);
+        this.drawDetectedTarget(ctx, screenX, screenY, target.distance, color);
       }
     }
+
+    const missileLock = targeting.getMissileLock?.();
+    if (missileLock && missileLock.progress > 0) {
+      this.drawMissileLock(ctx, width / 2, height / 2, missileLock);
+    }
+  }
+
+  /**
+   * Lock-acquisition arc around the reticle, closing into a ring on lock
+   */
+  private drawMissileLock(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    lock: MissileLockInfo
+  ): void {
+    const color = lock.locked ? '#ff3333' : '#ffaa00';
+    const radius = 34;
+
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 3;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = 8;
+
+    ctx.beginPath();
+    ctx.arc(
+      x,
+      y,
+      radius,
+      -Math.PI / 2,
+      -Math.PI / 2 + Math.PI * 2 * Math.min(1, lock.progress)
+    );
+    ctx.stroke();
+
+    ctx.font = 'bold 11px "Courier New", monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(lock.locked ? 'LOCK' : 'LOCKING', x, y + radius + 16);
+
+    ctx.shadowBlur = 0;
+  }
+
+  private updateWaypoints(): void {
+    if (!this.targetingCtx || !this.mechData.getWaypoints) return;
+
+    const ctx = this.targetingCtx;
+    const width = this.targetingCanvas.width;
+    const height = this.targetingCanvas.height;
+
+    for (const waypoint of this.mechData.getWaypoints()) {
+      const x = waypoint.x * width;
+      const y = waypoint.y * height;
+      const color = OBJECTIVE_MARKER_CONFIG.WAYPOINT.colors[waypoint.kind];
+
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 8;
+
+      if (waypoint.onScreen) {
+        // Diamond
+        const size = 9;
+        ctx.beginPath();
+        ctx.moveTo(x, y - size);
+        ctx.lineTo(x + size, y);
+        ctx.lineTo(x, y + size);
+        ctx.lineTo(x - size, y);
+        ctx.closePath();
+        ctx.stroke();
+      } else {
+        // Arrow pointing from screen center toward the waypoint
+        const angle = Math.atan2(y - height / 2, x - width / 2);
+        const size = 10;
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(angle);
+        ctx.beginPath();
+        ctx.moveTo(size, 0);
+        ctx.lineTo(-size * 0.6, -size * 0.7);
+        ctx.lineTo(-size * 0.6, size * 0.7);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+      }
+
+      ctx.font = '10px "Courier New", monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${Math.round(waypoint.distance)}m`, x, y + 22);
+
+      ctx.shadowBlur = 0;
+    }
   }
 
   private drawDetectedTarget(
     ctx: CanvasRenderingContext2D,
     x: number,
     y: number,
-    distance: number
+    distance: number,
+    color: string
   ): void {
     const size = Math.max(30, 60 - distance * 0.2);
 
-    ctx.strokeStyle = '#00ff88';
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
-    ctx.shadowColor = '#00ff88';
+    ctx.shadowColor = color;
     ctx.shadowBlur = 8;
 
     const cornerLength = size * 0.3;
@@ -1446,7 +2076,7 @@ export class HUD {
 
     // Draw distance
     ctx.font = '10px "Courier New", monospace';
-    ctx.fillStyle = '#00ff88';
+    ctx.fillStyle = color;
     ctx.textAlign = 'center';
     ctx.fillText(`${Math.round(distance)}m`, x, y + halfSize + 15);
 
@@ -1458,18 +2088,19 @@ export class HUD {
     x: number,
     y: number,
     distance: number,
-    healthPercent: number
+    healthPercent: number,
+    color: string
   ): void {
     const size = Math.max(40, 70 - distance * 0.2);
 
-    ctx.strokeStyle = '#ff4444';
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
-    ctx.shadowColor = '#ff4444';
+    ctx.shadowColor = color;
     ctx.shadowBlur = 10;
 
     const halfSize = size / 2;
 
-    // Draw full red square
+    // Draw full square
     ctx.strokeRect(x - halfSize, y - halfSize, size, size);
 
     // Draw diamond inside
@@ -1483,7 +2114,7 @@ export class HUD {
     ctx.stroke();
 
     // Draw center dot
-    ctx.fillStyle = '#ff4444';
+    ctx.fillStyle = color;
     ctx.beginPath();
     ctx.arc(x, y, 3, 0, Math.PI * 2);
     ctx.fill();
@@ -1505,7 +2136,7 @@ export class HUD {
     );
 
     // Health bar border
-    ctx.strokeStyle = '#ff4444';
+    ctx.strokeStyle = color;
     ctx.lineWidth = 1;
     ctx.strokeRect(
       healthBarX - 1,
@@ -1543,20 +2174,27 @@ export class HUD {
     ctx.fillText(`${Math.round(healthPercent)}%`, x, healthBarY - 3);
 
     // Draw "LOCKED" text above health bar
-    ctx.shadowColor = '#ff4444';
+    ctx.shadowColor = color;
     ctx.shadowBlur = 8;
     ctx.font = 'bold 10px "Courier New", monospace';
-    ctx.fillStyle = '#ff4444';
+    ctx.fillStyle = color;
     ctx.fillText('LOCKED', x, healthBarY - 14);
 
     // Draw distance below target
     ctx.shadowBlur = 0;
     ctx.font = '10px "Courier New", monospace';
-    ctx.fillStyle = '#ff4444';
+    ctx.fillStyle = color;
     ctx.fillText(`${Math.round(distance)}m`, x, y + halfSize + 15);
   }
 
   dispose(): void {
-    this.container.removeChild(this.hudElement);
+    window.removeEventListener('keydown', this.onKeyDown);
+    EventBus.off('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.off('objective:updated', this.onObjectiveUpdated);
+    EventBus.off('objective:added', this.onObjectiveAdded);
+    EventBus.off('wave:started', this.onWaveStarted);
+    EventBus.off('wave:cleared', this.onWaveCleared);
+    EventBus.off('comms:updated', this.onCommsUpdated);
+    this.hudElement.remove();
   }
 }
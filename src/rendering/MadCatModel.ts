@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { MECH_CONSTANTS } from '../config/MechConfigs';
 import { ANIMATION_CONFIG } from '../config/AnimationConfig';
+import { applyLimp } from './MechLimp';
 
 /**
  * Mad Cat (Timber Wolf) mech model
@@ -20,6 +21,8 @@ export class MadCatModel {
   public rightFootTarget: THREE.Vector3 = new THREE.Vector3();
 
   private armPitch: number = 0;
+  private limpSide: 'left' | 'right' | null = null;
+  private collapseBaseQuat: THREE.Quaternion | null = null;
   private materials: Map<string, THREE.MeshStandardMaterial> = new Map();
 
   constructor() {
@@ -434,6 +437,14 @@ export class MadCatModel {
       this.armPitch + -legSwing * WALK.armCounterSwing;
     this.rightArmGroup.rotation.x =
       this.armPitch + legSwing * WALK.armCounterSwing;
+
+    if (this.limpSide) {
+      applyLimp(this, this.limpSide, walkCycle, Math.min(clampedSpeed, 1));
+    }
+  }
+
+  setLimp(side: 'left' | 'right' | null): void {
+    this.limpSide = side;
   }
 
   resetPose(): void {
@@ -445,6 +456,35 @@ export class MadCatModel {
     this.rightArmGroup.rotation.x = this.armPitch;
   }
 
+  /**
+   * Pose the wreck partway through its collapse (0 = standing, 1 = fallen).
+   * Torso slump is applied on top of the torso's yaw at the moment of death.
+   */
+  setCollapse(progress: number): void {
+    const { COLLAPSE, TORSO_BASE_Y } = ANIMATION_CONFIG;
+
+    if (!this.collapseBaseQuat) {
+      this.collapseBaseQuat = this.torsoGroup.quaternion.clone();
+    }
+
+    this.leftLegGroup.rotation.set(0, 0, -COLLAPSE.legSplay * progress);
+    this.rightLegGroup.rotation.set(0, 0, COLLAPSE.legSplay * progress);
+
+    this.torsoGroup.position.y = TORSO_BASE_Y - COLLAPSE.torsoDrop * progress;
+    this.torsoGroup.quaternion
+      .copy(this.collapseBaseQuat)
+      .multiply(
+        new THREE.Quaternion().setFromAxisAngle(
+          new THREE.Vector3(1, 0, 0),
+          COLLAPSE.torsoPitch * progress
+        )
+      );
+
+    this.leftArmGroup.rotation.x = COLLAPSE.armDroop * progress;
+    this.rightArmGroup.rotation.x = COLLAPSE.armDroop * progress;
+    this.headGroup.rotation.x = COLLAPSE.headSlump * progress;
+  }
+
   getWeaponPosition(slot: number): THREE.Vector3 {
     const worldPos = new THREE.Vector3();
     const localOffset = new THREE.Vector3();
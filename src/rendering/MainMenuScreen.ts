@@ -8,13 +8,16 @@ export class MainMenuScreen {
   private container: HTMLElement;
   private screenElement: HTMLElement;
   private onModeSelect: (mode: GameModeType) => void;
+  private onMechLab: (() => void) | null;
 
   constructor(
     container: HTMLElement,
-    onModeSelect: (mode: GameModeType) => void
+    onModeSelect: (mode: GameModeType) => void,
+    onMechLab?: () => void
   ) {
     this.container = container;
     this.onModeSelect = onModeSelect;
+    this.onMechLab = onMechLab ?? null;
     this.screenElement = this.createScreen();
     this.container.appendChild(this.screenElement);
   }
@@ -381,6 +384,16 @@ export class MainMenuScreen {
             </div>
           </button>
 
+          <button class="menu-button ${this.onMechLab ? '' : 'disabled'}" data-screen="mech-lab">
+            <div class="menu-button-inner">
+              <span class="menu-button-icon">⚙</span>
+              <div class="menu-button-text">
+                <div class="menu-button-title">Mech Lab</div>
+                <div class="menu-button-desc">Build custom mech variants</div>
+              </div>
+            </div>
+          </button>
+
           <div class="menu-divider"></div>
 
           <button class="menu-button disabled" data-mode="multiplayer">
@@ -410,6 +423,8 @@ export class MainMenuScreen {
         const mode = button.getAttribute('data-mode') as GameModeType;
         if (mode) {
           this.selectMode(mode);
+        } else if (button.getAttribute('data-screen') === 'mech-lab') {
+          this.openMechLab();
         }
       });
     });
@@ -428,9 +443,27 @@ export class MainMenuScreen {
       case 'Digit2':
         this.selectMode('instant-action');
         break;
+      case 'Digit3':
+        this.openMechLab();
+        break;
     }
   };
 
+  private openMechLab(): void {
+    const onMechLab = this.onMechLab;
+    if (!onMechLab) return;
+
+    this.screenElement.style.transition =
+      'opacity 0.4s ease, transform 0.4s ease';
+    this.screenElement.style.opacity = '0';
+    this.screenElement.style.transform = 'scale(1.05)';
+
+    setTimeout(() => {
+      onMechLab();
+      this.hide();
+    }, 400);
+  }
+
   private selectMode(mode: GameModeType): void {
     // Add selection animation
     this.screenElement.style.transition =
@@ -1,4 +1,5 @@
 import { MAP_REGISTRY, getAvailableMapIds } from '../config/maps';
+import { HEAT_CONFIG } from '../config/HeatConfig';
 import type { MapConfig } from '../config/maps';
 
 /**
@@ -382,6 +383,9 @@ export class MapSelectScreen {
 
     const targetCount = map.targets.length;
     const turretCount = map.turrets.length;
+    const temperature =
+      map.environment.ambientTemperature ??
+      HEAT_CONFIG.AMBIENT.referenceTemperature;
 
     const iconMap: Record<string, string> = {
       'debug-arena': '⊕',
@@ -416,6 +420,10 @@ export class MapSelectScreen {
               <div class="map-stat-value">${map.terrain.size}m</div>
               <div class="map-stat-label">Size</div>
             </div>
+            <div class="map-stat">
+              <div class="map-stat-value">${temperature}°C</div>
+              <div class="map-stat-label">Ambient</div>
+            </div>
           </div>
         </div>
       </div>
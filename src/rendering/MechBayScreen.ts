@@ -0,0 +1,362 @@
+import type { GameModeManager } from '../modes/GameModeManager';
+import { MechConfigs } from '../config/MechConfigs';
+import { loadMechVariants, resolveMechConfig } from '../config/MechVariants';
+import {
+  ECONOMY_CONFIG,
+  formatCBills,
+  getMechCondition,
+} from '../config/EconomyConfig';
+import { WEAPON_TYPES, getWeaponEntry } from '../config/WeaponCatalog';
+import type { WeaponType } from '../types';
+
+/**
+ * Campaign mech bay: repair damaged mechs, buy spare weapons and new chassis.
+ * Spare weapons replace destroyed ones during repairs and let mech lab
+ * variants field non-stock weapons in the campaign.
+ */
+export class MechBayScreen {
+  private container: HTMLElement;
+  private screenElement: HTMLElement;
+  private modeManager: GameModeManager;
+  private onBack: () => void;
+
+  constructor(
+    container: HTMLElement,
+    modeManager: GameModeManager,
+    onBack: () => void
+  ) {
+    this.container = container;
+    this.modeManager = modeManager;
+    this.onBack = onBack;
+    this.screenElement = this.createScreen();
+    this.container.appendChild(this.screenElement);
+    this.render();
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'mech-bay-screen';
+
+    screen.innerHTML = `
+      <style>
+        #mech-bay-screen {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: linear-gradient(135deg, #030808 0%, #0a1612 50%, #0d1a14 100%);
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          z-index: 2000;
+          font-family: 'Courier New', monospace;
+          overflow-y: auto;
+          padding: 30px 20px;
+          box-sizing: border-box;
+        }
+
+        .bay-header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+
+        .bay-title {
+          color: #00ff88;
+          font-size: 40px;
+          font-weight: bold;
+          letter-spacing: 8px;
+          margin: 0;
+          text-shadow: 0 0 20px rgba(0, 255, 136, 0.5);
+        }
+
+        .bay-funds {
+          color: #ffcc00;
+          font-size: 16px;
+          letter-spacing: 2px;
+          margin-top: 10px;
+        }
+
+        .bay-content {
+          width: 100%;
+          max-width: 1100px;
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+          gap: 24px;
+        }
+
+        .bay-panel {
+          background: linear-gradient(145deg, #0a1a0a 0%, #0d2818 100%);
+          border: 2px solid #00ff8833;
+          border-radius: 12px;
+          padding: 20px;
+        }
+
+        .section-title {
+          color: #00ff88;
+          font-size: 14px;
+          letter-spacing: 3px;
+          text-transform: uppercase;
+          margin-bottom: 14px;
+          padding-bottom: 8px;
+          border-bottom: 1px solid #00ff8833;
+        }
+
+        .bay-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 8px 0;
+          color: #aaccaa;
+          font-size: 13px;
+        }
+
+        .bay-row-name {
+          color: #00ff88;
+          font-weight: bold;
+        }
+
+        .bay-row-detail {
+          color: #88aa88;
+          font-size: 11px;
+          letter-spacing: 1px;
+        }
+
+        .bay-row-detail.damaged {
+          color: #ffaa00;
+        }
+
+        .bay-button {
+          background: transparent;
+          border: 1px solid #00ff8844;
+          border-radius: 6px;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+          font-size: 11px;
+          letter-spacing: 1px;
+          padding: 8px 12px;
+          cursor: pointer;
+          white-space: nowrap;
+          transition: all 0.2s ease;
+        }
+
+        .bay-button:hover {
+          border-color: #00ff88;
+          background: #00ff8811;
+        }
+
+        .bay-button:disabled {
+          opacity: 0.4;
+          pointer-events: none;
+        }
+
+        .empty-note {
+          color: #668866;
+          font-size: 12px;
+        }
+
+        .back-button {
+          margin-top: 30px;
+          padding: 14px 40px;
+          background: transparent;
+          border: 2px solid #00ff8866;
+          border-radius: 8px;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+          font-size: 14px;
+          font-weight: bold;
+          letter-spacing: 3px;
+          cursor: pointer;
+          transition: all 0.3s ease;
+          text-transform: uppercase;
+        }
+
+        .back-button:hover {
+          border-color: #00ff88;
+          background: #00ff8811;
+        }
+      </style>
+
+      <div class="bay-header">
+        <h1 class="bay-title">MECH BAY</h1>
+        <div class="bay-funds"></div>
+      </div>
+
+      <div class="bay-content"></div>
+
+      <button class="back-button" data-action="back">Campaign</button>
+    `;
+
+    this.setupEventListeners(screen);
+    return screen;
+  }
+
+  /**
+   * Rebuild funds and panels from current campaign progress
+   */
+  private render(): void {
+    const progress = this.modeManager.getCampaignProgress();
+
+    const funds = this.screenElement.querySelector('.bay-funds');
+    if (funds) {
+      funds.textContent = `Funds: ${formatCBills(progress.cBills)}`;
+    }
+
+    const content = this.screenElement.querySelector('.bay-content');
+    if (!content) return;
+
+    content.innerHTML = `
+      <div class="bay-panel">
+        <div class="section-title">Repairs</div>
+        ${this.createRepairsHtml(progress.cBills)}
+      </div>
+      <div class="bay-panel">
+        <div class="section-title">Weapons Market</div>
+        ${this.createWeaponsHtml(progress.cBills, progress.weaponInventory)}
+      </div>
+      <div class="bay-panel">
+        <div class="section-title">Chassis Market</div>
+        ${this.createChassisHtml(progress.cBills, progress.unlockedMechs)}
+      </div>
+    `;
+  }
+
+  /**
+   * Owned mechs (stock chassis and their variants) with condition and repair
+   */
+  private createRepairsHtml(cBills: number): string {
+    const progress = this.modeManager.getCampaignProgress();
+    const owned = [
+      ...progress.unlockedMechs.filter((id) => id in MechConfigs),
+      ...loadMechVariants()
+        .filter((variant) => progress.unlockedMechs.includes(variant.chassisId))
+        .map((variant) => variant.id),
+    ];
+
+    return owned
+      .map((mechId) => {
+        const config = resolveMechConfig(mechId);
+        const damage = this.modeManager.getMechDamage(mechId);
+        const estimate = this.modeManager.getRepairEstimate(mechId);
+
+        const condition = damage
+          ? `Condition ${Math.round(getMechCondition(damage, config))}%` +
+            (damage.destroyedWeapons.length > 0
+              ? ` • ${damage.destroyedWeapons.length} weapon(s) lost`
+              : '')
+          : 'Fully operational';
+        const button = estimate
+          ? `<button class="bay-button" data-action="repair" data-mech="${mechId}" ${estimate.total > cBills ? 'disabled' : ''}>Repair ${formatCBills(estimate.total)}</button>`
+          : '';
+
+        return `
+          <div class="bay-row">
+            <div>
+              <div class="bay-row-name">${config.variantName ?? config.name}</div>
+              <div class="bay-row-detail ${damage ? 'damaged' : ''}">${condition}</div>
+            </div>
+            ${button}
+          </div>
+        `;
+      })
+      .join('');
+  }
+
+  private createWeaponsHtml(
+    cBills: number,
+    inventory: Partial<Record<WeaponType, number>>
+  ): string {
+    return WEAPON_TYPES.map((weaponType) => {
+      const { name, tonnage, price } = getWeaponEntry(weaponType);
+      return `
+          <div class="bay-row">
+            <div>
+              <div class="bay-row-name">${name}</div>
+              <div class="bay-row-detail">${tonnage}t • Spares owned: ${inventory[weaponType] ?? 0}</div>
+            </div>
+            <button class="bay-button" data-action="buy-weapon" data-weapon="${weaponType}" ${price > cBills ? 'disabled' : ''}>Buy ${formatCBills(price)}</button>
+          </div>
+        `;
+    }).join('');
+  }
+
+  private createChassisHtml(cBills: number, unlockedMechs: string[]): string {
+    const forSale = Object.entries(ECONOMY_CONFIG.CHASSIS_PRICES).filter(
+      ([mechId]) => mechId in MechConfigs && !unlockedMechs.includes(mechId)
+    );
+    if (forSale.length === 0) {
+      return '<div class="empty-note">Every chassis on the market is already in your bay.</div>';
+    }
+
+    return forSale
+      .map(([mechId, price]) => {
+        const mech = MechConfigs[mechId];
+        return `
+          <div class="bay-row">
+            <div>
+              <div class="bay-row-name">${mech.name}</div>
+              <div class="bay-row-detail">${mech.mass} tons • ${mech.hardpoints.length} hardpoints</div>
+            </div>
+            <button class="bay-button" data-action="buy-chassis" data-mech="${mechId}" ${price > cBills ? 'disabled' : ''}>Buy ${formatCBills(price)}</button>
+          </div>
+        `;
+      })
+      .join('');
+  }
+
+  private setupEventListeners(screen: HTMLElement): void {
+    screen.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest(
+        '[data-action]'
+      ) as HTMLElement | null;
+      if (!target) return;
+
+      switch (target.getAttribute('data-action')) {
+        case 'back':
+          this.goBack();
+          return;
+        case 'repair':
+          this.modeManager.repairMech(target.getAttribute('data-mech') ?? '');
+          break;
+        case 'buy-weapon':
+          this.modeManager.buyWeapon(
+            target.getAttribute('data-weapon') as WeaponType
+          );
+          break;
+        case 'buy-chassis':
+          this.modeManager.buyChassis(target.getAttribute('data-mech') ?? '');
+          break;
+        default:
+          return;
+      }
+      this.render();
+    });
+
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (!this.screenElement.parentElement) return;
+
+    if (e.code === 'Escape') {
+      this.goBack();
+    }
+  };
+
+  private goBack(): void {
+    this.screenElement.style.transition = 'opacity 0.3s ease';
+    this.screenElement.style.opacity = '0';
+
+    setTimeout(() => {
+      this.onBack();
+    }, 300);
+  }
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    if (this.screenElement.parentElement) {
+      this.container.removeChild(this.screenElement);
+    }
+  }
+}
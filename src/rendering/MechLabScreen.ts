@@ -0,0 +1,736 @@
+import { MechConfigs, getAvailableMechIds } from '../config/MechConfigs';
+import { MECH_LAB_CONFIG } from '../config/MechLabConfig';
+import { WEAPON_TYPES, getWeaponEntry } from '../config/WeaponCatalog';
+import {
+  createVariant,
+  getLoadoutSummary,
+  getMaxArmor,
+  loadMechVariants,
+  saveMechVariants,
+} from '../config/MechVariants';
+import type { MechVariant } from '../config/MechVariants';
+import {
+  createDefaultWeaponGroups,
+  deleteWeaponGroups,
+  loadWeaponGroups,
+  saveWeaponGroups,
+} from '../config/WeaponGroups';
+import { WeaponGroupEditor } from './WeaponGroupEditor';
+import type { ArmorZones, WeaponGroup, WeaponType } from '../types';
+
+const ARMOR_ZONES: Array<keyof ArmorZones> = [
+  'head',
+  'torso',
+  'leftArm',
+  'rightArm',
+  'leftLeg',
+  'rightLeg',
+];
+
+const ZONE_LABELS: Record<keyof ArmorZones, string> = {
+  head: 'Head',
+  torso: 'Torso',
+  leftArm: 'Left Arm',
+  rightArm: 'Right Arm',
+  leftLeg: 'Left Leg',
+  rightLeg: 'Right Leg',
+};
+
+/**
+ * Mech lab screen for building custom variants of the stock chassis.
+ * Swaps hardpoint weapons, redistributes armor and fits heat sinks within
+ * the tonnage and slot rules in MECH_LAB_CONFIG and WEAPON_CATALOG, then
+ * saves the variant along with its weapon groups.
+ */
+export class MechLabScreen {
+  private container: HTMLElement;
+  private screenElement: HTMLElement;
+  private onBack: () => void;
+
+  private variants: MechVariant[];
+  /** Variant being edited (a copy until saved) */
+  private editing: MechVariant | null = null;
+  /** Weapon groups of the variant being edited */
+  private editingGroups: WeaponGroup[] = [];
+  private groupEditor = new WeaponGroupEditor((groups) => {
+    this.editingGroups = groups;
+  });
+
+  constructor(container: HTMLElement, onBack: () => void) {
+    this.container = container;
+    this.onBack = onBack;
+    this.variants = loadMechVariants();
+    this.screenElement = this.createScreen();
+    this.container.appendChild(this.screenElement);
+    this.render();
+  }
+
+  private createScreen(): HTMLElement {
+    const screen = document.createElement('div');
+    screen.id = 'mech-lab-screen';
+
+    screen.innerHTML = `
+      <style>
+        #mech-lab-screen {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: linear-gradient(135deg, #030808 0%, #0a1612 50%, #0d1a14 100%);
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          z-index: 2000;
+          font-family: 'Courier New', monospace;
+          overflow-y: auto;
+          padding: 30px 20px;
+          box-sizing: border-box;
+        }
+
+        #mech-lab-screen::before {
+          content: '';
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 200%;
+          height: 200%;
+          background-image:
+            linear-gradient(rgba(0, 255, 136, 0.02) 1px, transparent 1px),
+            linear-gradient(90deg, rgba(0, 255, 136, 0.02) 1px, transparent 1px);
+          background-size: 40px 40px;
+          pointer-events: none;
+        }
+
+        .lab-header {
+          position: relative;
+          z-index: 2;
+          text-align: center;
+          margin-bottom: 30px;
+        }
+
+        .lab-title {
+          color: #00ff88;
+          font-size: 40px;
+          font-weight: bold;
+          letter-spacing: 8px;
+          margin: 0;
+          text-shadow: 0 0 20px rgba(0, 255, 136, 0.5);
+        }
+
+        .lab-subtitle {
+          color: #668866;
+          font-size: 12px;
+          letter-spacing: 4px;
+          margin-top: 8px;
+          text-transform: uppercase;
+        }
+
+        .lab-content {
+          position: relative;
+          z-index: 2;
+          width: 100%;
+          max-width: 1100px;
+          display: grid;
+          grid-template-columns: 300px 1fr;
+          gap: 30px;
+        }
+
+        @media (max-width: 900px) {
+          .lab-content {
+            grid-template-columns: 1fr;
+          }
+        }
+
+        .lab-panel {
+          background: linear-gradient(145deg, #0a1a0a 0%, #0d2818 100%);
+          border: 2px solid #00ff8833;
+          border-radius: 12px;
+          padding: 20px;
+        }
+
+        .section-title {
+          color: #00ff88;
+          font-size: 14px;
+          letter-spacing: 3px;
+          text-transform: uppercase;
+          margin-bottom: 14px;
+          padding-bottom: 8px;
+          border-bottom: 1px solid #00ff8833;
+        }
+
+        .variant-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 10px 12px;
+          margin-bottom: 8px;
+          border: 1px solid #00ff8822;
+          border-radius: 6px;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .variant-row:hover, .variant-row.selected {
+          border-color: #00ff88;
+          background: #00ff8811;
+        }
+
+        .variant-name {
+          color: #00ff88;
+          font-size: 14px;
+          font-weight: bold;
+        }
+
+        .variant-chassis {
+          color: #88aa88;
+          font-size: 11px;
+          text-transform: uppercase;
+          letter-spacing: 1px;
+        }
+
+        .empty-note {
+          color: #668866;
+          font-size: 12px;
+          margin-bottom: 16px;
+        }
+
+        .chassis-buttons {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .lab-button, .option-button, .step-button {
+          background: transparent;
+          border: 1px solid #00ff8844;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+
+        .lab-button {
+          padding: 10px 14px;
+          border-radius: 6px;
+          font-size: 12px;
+          letter-spacing: 2px;
+          text-transform: uppercase;
+        }
+
+        .lab-button:hover, .option-button:hover, .step-button:hover {
+          border-color: #00ff88;
+          background: #00ff8811;
+        }
+
+        .lab-button:disabled {
+          opacity: 0.4;
+          pointer-events: none;
+        }
+
+        .lab-button.danger {
+          border-color: #ff664466;
+          color: #ff6644;
+        }
+
+        .name-input {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 10px 12px;
+          margin-bottom: 20px;
+          background: #030808;
+          border: 1px solid #00ff8844;
+          border-radius: 6px;
+          color: #00ff88;
+          font-family: 'Courier New', monospace;
+          font-size: 16px;
+          letter-spacing: 2px;
+        }
+
+        .editor-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 6px 0;
+          color: #aaccaa;
+          font-size: 13px;
+        }
+
+        .editor-label {
+          min-width: 130px;
+        }
+
+        .editor-section {
+          margin-bottom: 22px;
+        }
+
+        .weapon-options {
+          display: flex;
+          gap: 6px;
+          flex-wrap: wrap;
+        }
+
+        .option-button {
+          padding: 5px 10px;
+          border-radius: 4px;
+          font-size: 11px;
+          text-transform: uppercase;
+        }
+
+        .option-button.selected {
+          background: #00ff8833;
+          border-color: #00ff88;
+        }
+
+        .stepper {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+        }
+
+        .step-button {
+          width: 28px;
+          height: 28px;
+          border-radius: 4px;
+          font-size: 16px;
+        }
+
+        .step-value {
+          min-width: 80px;
+          text-align: center;
+          color: #00ff88;
+        }
+
+        .lab-summary {
+          border-top: 1px solid #00ff8833;
+          padding-top: 14px;
+          margin-bottom: 16px;
+        }
+
+        .summary-value.over {
+          color: #ff6644;
+        }
+
+        .summary-errors {
+          color: #ff6644;
+          font-size: 12px;
+          margin-top: 8px;
+          line-height: 1.6;
+        }
+
+        .editor-actions {
+          display: flex;
+          gap: 12px;
+        }
+
+        .back-button {
+          position: relative;
+          z-index: 2;
+          margin-top: 30px;
+          padding: 14px 40px;
+          border-radius: 8px;
+          background: transparent;
+          border: 2px solid #88888866;
+          color: #888888;
+          font-family: 'Courier New', monospace;
+          font-size: 16px;
+          font-weight: bold;
+          letter-spacing: 3px;
+          cursor: pointer;
+          text-transform: uppercase;
+          transition: all 0.3s ease;
+        }
+
+        .back-button:hover {
+          border-color: #888888;
+          background: #88888811;
+        }
+      </style>
+
+      <div class="lab-header">
+        <h1 class="lab-title">MECH LAB</h1>
+        <div class="lab-subtitle">Customize weapons, weapon groups, armor and heat sinks</div>
+      </div>
+
+      <div class="lab-content"></div>
+
+      <button class="back-button" data-action="back">Back</button>
+    `;
+
+    this.setupEventListeners(screen);
+    return screen;
+  }
+
+  /**
+   * Rebuild the variant list and editor from current state
+   */
+  private render(): void {
+    const content = this.screenElement.querySelector('.lab-content');
+    if (!content) return;
+
+    content.innerHTML = `
+      <div class="lab-panel">
+        <div class="section-title">Saved Variants</div>
+        ${this.createVariantListHtml()}
+        <div class="section-title">New Variant</div>
+        <div class="chassis-buttons">
+          ${getAvailableMechIds()
+            .map(
+              (id) =>
+                `<button class="lab-button" data-action="new" data-chassis="${id}">${MechConfigs[id].name}</button>`
+            )
+            .join('')}
+        </div>
+      </div>
+      <div class="lab-panel">
+        ${this.editing ? this.createEditorHtml(this.editing) : '<div class="empty-note">Select a variant or start a new one from a stock chassis.</div>'}
+      </div>
+    `;
+
+    const groupsMount = content.querySelector('.weapon-groups-mount');
+    if (this.editing && groupsMount) {
+      const variant = this.editing;
+      this.groupEditor.setData(
+        MechConfigs[variant.chassisId].hardpoints.map((hp) => ({
+          slot: hp.slot,
+          type: variant.weapons[hp.slot] ?? hp.weaponType,
+        })),
+        this.editingGroups
+      );
+      groupsMount.appendChild(this.groupEditor.element);
+    }
+  }
+
+  private createVariantListHtml(): string {
+    if (this.variants.length === 0) {
+      return '<div class="empty-note">No variants saved yet.</div>';
+    }
+
+    return this.variants
+      .map(
+        (variant) => `
+          <div class="variant-row ${variant.id === this.editing?.id ? 'selected' : ''}" data-action="edit" data-id="${variant.id}">
+            <div>
+              <div class="variant-name">${this.escapeHtml(variant.name)}</div>
+              <div class="variant-chassis">${MechConfigs[variant.chassisId].name}</div>
+            </div>
+          </div>
+        `
+      )
+      .join('');
+  }
+
+  private createEditorHtml(variant: MechVariant): string {
+    const chassis = MechConfigs[variant.chassisId];
+    const isSaved = this.variants.some((v) => v.id === variant.id);
+
+    const hardpointsHtml = chassis.hardpoints
+      .map(
+        (hp) => `
+          <div class="editor-row">
+            <span class="editor-label">Slot ${hp.slot} • ${ZONE_LABELS[hp.zone]}</span>
+            <div class="weapon-options">
+              ${WEAPON_TYPES.map((type) => {
+                const { name, tonnage, slots } = getWeaponEntry(type);
+                return `<button class="option-button ${variant.weapons[hp.slot] === type ? 'selected' : ''}" data-action="weapon" data-slot="${hp.slot}" data-weapon="${type}">${name} (${tonnage}t/${slots})</button>`;
+              }).join('')}
+            </div>
+          </div>
+        `
+      )
+      .join('');
+
+    const armorHtml = ARMOR_ZONES.map(
+      (zone) => `
+        <div class="editor-row">
+          <span class="editor-label">${ZONE_LABELS[zone]}</span>
+          <div class="stepper">
+            <button class="step-button" data-action="armor" data-zone="${zone}" data-delta="-1">−</button>
+            <span class="step-value">${variant.armor[zone]} / ${getMaxArmor(variant.chassisId, zone)}</span>
+            <button class="step-button" data-action="armor" data-zone="${zone}" data-delta="1">+</button>
+          </div>
+        </div>
+      `
+    ).join('');
+
+    return `
+      <div class="section-title">${chassis.name} Variant</div>
+      <input class="name-input" type="text" maxlength="24" value="${this.escapeHtml(variant.name)}" />
+
+      <div class="editor-section">
+        <div class="section-title">Hardpoints</div>
+        ${hardpointsHtml}
+      </div>
+
+      <div class="editor-section">
+        <div class="section-title">Weapon Groups</div>
+        <div class="weapon-groups-mount"></div>
+      </div>
+
+      <div class="editor-section">
+        <div class="section-title">Armor</div>
+        ${armorHtml}
+      </div>
+
+      <div class="editor-section">
+        <div class="section-title">Heat Sinks</div>
+        <div class="editor-row">
+          <span class="editor-label">Extra heat sinks</span>
+          <div class="stepper">
+            <button class="step-button" data-action="heatsink" data-delta="-1">−</button>
+            <span class="step-value">${variant.heatSinks} / ${MECH_LAB_CONFIG.HEAT_SINKS.max}</span>
+            <button class="step-button" data-action="heatsink" data-delta="1">+</button>
+          </div>
+        </div>
+      </div>
+
+      <div class="lab-summary">${this.createSummaryHtml(variant)}</div>
+
+      <div class="editor-actions">
+        <button class="lab-button" data-action="save">Save</button>
+        ${isSaved ? '<button class="lab-button danger" data-action="delete">Delete</button>' : ''}
+      </div>
+    `;
+  }
+
+  private createSummaryHtml(variant: MechVariant): string {
+    const summary = getLoadoutSummary(variant);
+    const overweight = summary.tonnage > summary.maxTonnage + 1e-6;
+
+    const slotsHtml = ARMOR_ZONES.filter(
+      (zone) => summary.zoneSlots[zone].max > 0
+    )
+      .map((zone) => {
+        const { used, max } = summary.zoneSlots[zone];
+        return `${ZONE_LABELS[zone]} ${used}/${max}`;
+      })
+      .join(' • ');
+
+    const errors = this.isLabFull(variant)
+      ? [
+          ...summary.errors,
+          `Mech lab holds at most ${MECH_LAB_CONFIG.maxVariants} variants; delete one to save`,
+        ]
+      : summary.errors;
+    const errorsHtml = errors.length
+      ? `<div class="summary-errors">${errors.map((error) => this.escapeHtml(error)).join('<br>')}</div>`
+      : '';
+
+    return `
+      <div class="editor-row">
+        <span>Tonnage</span>
+        <span class="summary-value ${overweight ? 'over' : ''}">${summary.tonnage.toFixed(1)} / ${summary.maxTonnage.toFixed(1)} t</span>
+      </div>
+      <div class="editor-row">
+        <span>Heat dissipation</span>
+        <span class="summary-value">${summary.heatDissipation.toFixed(1)} / s</span>
+      </div>
+      <div class="editor-row">
+        <span>Weapon slots</span>
+        <span class="summary-value">${slotsHtml}</span>
+      </div>
+      ${errorsHtml}
+    `;
+  }
+
+  /**
+   * Refresh just the summary and save button (keeps the name input focused)
+   */
+  private renderSummary(): void {
+    if (!this.editing) return;
+
+    const summaryEl = this.screenElement.querySelector('.lab-summary');
+    if (summaryEl) {
+      summaryEl.innerHTML = this.createSummaryHtml(this.editing);
+    }
+    this.updateSaveButton();
+  }
+
+  private updateSaveButton(): void {
+    const saveBtn = this.screenElement.querySelector(
+      '[data-action="save"]'
+    ) as HTMLButtonElement | null;
+    if (saveBtn && this.editing) {
+      saveBtn.disabled =
+        getLoadoutSummary(this.editing).errors.length > 0 ||
+        this.isLabFull(this.editing);
+    }
+  }
+
+  /**
+   * True when a new (unsaved) variant has no free lab slot
+   */
+  private isLabFull(variant: MechVariant): boolean {
+    return (
+      !this.variants.some((v) => v.id === variant.id) &&
+      this.variants.length >= MECH_LAB_CONFIG.maxVariants
+    );
+  }
+
+  private setupEventListeners(screen: HTMLElement): void {
+    screen.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest(
+        '[data-action]'
+      ) as HTMLElement | null;
+      if (target) {
+        this.handleAction(target);
+      }
+    });
+
+    screen.addEventListener('input', (e) => {
+      const input = e.target as HTMLInputElement;
+      if (this.editing && input.classList.contains('name-input')) {
+        this.editing.name = input.value;
+        this.renderSummary();
+      }
+    });
+
+    window.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  private handleAction(target: HTMLElement): void {
+    const action = target.getAttribute('data-action');
+    const variant = this.editing;
+
+    switch (action) {
+      case 'back':
+        this.goBack();
+        return;
+
+      case 'new': {
+        const chassisId = target.getAttribute('data-chassis') ?? 'ATLAS';
+        this.editing = createVariant(
+          chassisId,
+          `${MechConfigs[chassisId].name} Custom`
+        );
+        this.editingGroups = createDefaultWeaponGroups(
+          MechConfigs[this.editing.chassisId].hardpoints
+        );
+        break;
+      }
+
+      case 'edit': {
+        const saved = this.variants.find(
+          (v) => v.id === target.getAttribute('data-id')
+        );
+        if (!saved) return;
+        this.editing = structuredClone(saved);
+        this.editingGroups = loadWeaponGroups(
+          saved.id,
+          MechConfigs[saved.chassisId].hardpoints
+        );
+        break;
+      }
+
+      case 'weapon': {
+        if (!variant) return;
+        const slot = Number(target.getAttribute('data-slot'));
+        variant.weapons[slot] = target.getAttribute(
+          'data-weapon'
+        ) as WeaponType;
+        break;
+      }
+
+      case 'armor': {
+        if (!variant) return;
+        const zone = target.getAttribute('data-zone') as keyof ArmorZones;
+        const delta =
+          Number(target.getAttribute('data-delta')) *
+          MECH_LAB_CONFIG.ARMOR.step;
+        variant.armor[zone] = Math.max(
+          0,
+          Math.min(
+            getMaxArmor(variant.chassisId, zone),
+            variant.armor[zone] + delta
+          )
+        );
+        break;
+      }
+
+      case 'heatsink': {
+        if (!variant) return;
+        const delta = Number(target.getAttribute('data-delta'));
+        variant.heatSinks = Math.max(
+          0,
+          Math.min(MECH_LAB_CONFIG.HEAT_SINKS.max, variant.heatSinks + delta)
+        );
+        break;
+      }
+
+      case 'save':
+        this.saveVariant();
+        break;
+
+      case 'delete':
+        if (!variant) return;
+        this.variants = this.variants.filter((v) => v.id !== variant.id);
+        saveMechVariants(this.variants);
+        deleteWeaponGroups(variant.id);
+        this.editing = null;
+        break;
+
+      default:
+        return;
+    }
+
+    this.render();
+    this.updateSaveButton();
+  }
+
+  private saveVariant(): void {
+    const variant = this.editing;
+    if (
+      !variant ||
+      getLoadoutSummary(variant).errors.length > 0 ||
+      this.isLabFull(variant)
+    ) {
+      return;
+    }
+
+    variant.name = variant.name.trim();
+    const index = this.variants.findIndex((v) => v.id === variant.id);
+    if (index !== -1) {
+      this.variants[index] = structuredClone(variant);
+    } else {
+      this.variants.push(structuredClone(variant));
+    }
+    saveMechVariants(this.variants);
+    saveWeaponGroups(variant.id, this.editingGroups);
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (!this.screenElement.parentElement) return;
+
+    if (e.code === 'Escape') {
+      this.goBack();
+    }
+  };
+
+  private goBack(): void {
+    this.screenElement.style.transition =
+      'opacity 0.3s ease, transform 0.3s ease';
+    this.screenElement.style.opacity = '0';
+    this.screenElement.style.transform = 'translateX(50px)';
+
+    setTimeout(() => {
+      this.onBack();
+      this.dispose();
+    }, 300);
+  }
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    if (this.screenElement.parentElement) {
+      this.container.removeChild(this.screenElement);
+    }
+  }
+}
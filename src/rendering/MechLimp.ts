@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { ANIMATION_CONFIG } from '../config/AnimationConfig';
+
+/**
+ * Parts of a mech model the limp animation moves
+ */
+export interface LimpingModel {
+  torsoGroup: THREE.Group;
+  leftLegGroup: THREE.Group;
+  rightLegGroup: THREE.Group;
+}
+
+/**
+ * Overlay a limp on a model's current walk pose - the destroyed leg drags
+ * stiffly and the torso dips and leans onto it while it carries weight.
+ * Call after the walk pose is set; the dip and lean add to its bob and sway.
+ */
+export function applyLimp(
+  model: LimpingModel,
+  side: 'left' | 'right',
+  walkCycle: number,
+  speedScale: number
+): void {
+  const { LIMP } = ANIMATION_CONFIG;
+  const isLeft = side === 'left';
+
+  const damagedLeg = isLeft ? model.leftLegGroup : model.rightLegGroup;
+  damagedLeg.rotation.x *= LIMP.damagedLegSwing;
+
+  // Weight is on the damaged leg during the back half of its swing
+  const load = Math.max(0, isLeft ? -Math.sin(walkCycle) : Math.sin(walkCycle));
+  model.torsoGroup.position.y -= load * LIMP.dipAmount * speedScale;
+
+  // Positive Z roll drops the model's left side
+  const leanSign = isLeft ? 1 : -1;
+  model.torsoGroup.rotation.z +=
+    leanSign * (LIMP.leanAngle + load * LIMP.hitchAngle) * speedScale;
+}
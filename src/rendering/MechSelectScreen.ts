@@ -1,4 +1,5 @@
 import { MechConfigs, getAvailableMechIds } from '../config/MechConfigs';
+import { buildVariantConfig, loadMechVariants } from '../config/MechVariants';
 import type { MechConfig } from '../types';
 
 /**
@@ -32,9 +33,20 @@ export class MechSelectScreen {
     screen.id = 'mech-select-screen';
 
     const mechIds = getAvailableMechIds();
-    const mechCardsHtml = mechIds
+    const stockCardsHtml = mechIds
       .map((id) => this.createMechCardHtml(id, MechConfigs[id]))
       .join('');
+    // Mech lab variants follow the stock chassis
+    const variantCardsHtml = loadMechVariants()
+      .map((variant) =>
+        this.createMechCardHtml(
+          variant.id,
+          buildVariantConfig(variant),
+          variant.chassisId
+        )
+      )
+      .join('');
+    const mechCardsHtml = stockCardsHtml + variantCardsHtml;
 
     screen.innerHTML = `
       <style>
@@ -433,13 +445,17 @@ export class MechSelectScreen {
     return screen;
   }
 
-  private createMechCardHtml(id: string, mech: MechConfig): string {
+  private createMechCardHtml(
+    id: string,
+    mech: MechConfig,
+    chassisId: string = id
+  ): string {
     const iconMap: Record<string, string> = {
       ATLAS: '⬡',
       MADCAT: '◇',
       URBANMECH: '○',
     };
-    const icon = iconMap[id] || '◈';
+    const icon = iconMap[chassisId] || '◈';
 
     const totalArmor = Object.values(mech.baseArmor).reduce((a, b) => a + b, 0);
 
@@ -461,8 +477,8 @@ export class MechSelectScreen {
           </div>
         </div>
         <div class="mech-info">
-          <div class="mech-name">${mech.name}</div>
-          <div class="mech-class">${mechClass} • ${mech.mass} Tons</div>
+          <div class="mech-name">${mech.variantName ?? mech.name}</div>
+          <div class="mech-class">${mech.variantName ? `${mech.name} • ` : ''}${mechClass} • ${mech.mass} Tons</div>
           <div class="mech-stats">
             <div class="mech-stat">
               <div class="mech-stat-value">${mech.maxSpeed}</div>
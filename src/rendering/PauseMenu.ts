@@ -1,7 +1,20 @@
 import type { PostProcessing } from './PostProcessing';
+import { WeaponGroupEditor } from './WeaponGroupEditor';
+import type { GroupableWeapon } from './WeaponGroupEditor';
+import type { WeaponGroup } from '../types';
 
 /**
- * Pause menu that allows toggling post-processing effects.
+ * The player mech's weapon groups, edited from the pause menu
+ */
+export interface WeaponGroupSource {
+  getWeapons(): GroupableWeapon[];
+  getGroups(): WeaponGroup[];
+  setGroups(groups: WeaponGroup[]): void;
+}
+
+/**
+ * Pause menu that allows toggling post-processing effects and assigning
+ * weapon groups.
  */
 export class PauseMenu {
   private container: HTMLElement;
@@ -9,15 +22,19 @@ export class PauseMenu {
   private postProcessing: PostProcessing;
   private isPaused: boolean = false;
   private onPauseChange?: (paused: boolean) => void;
+  private weaponGroups?: WeaponGroupSource;
+  private groupEditor?: WeaponGroupEditor;
 
   constructor(
     container: HTMLElement,
     postProcessing: PostProcessing,
-    onPauseChange?: (paused: boolean) => void
+    onPauseChange?: (paused: boolean) => void,
+    weaponGroups?: WeaponGroupSource
   ) {
     this.container = container;
     this.postProcessing = postProcessing;
     this.onPauseChange = onPauseChange;
+    this.weaponGroups = weaponGroups;
     this.menuElement = this.createMenu();
     this.container.appendChild(this.menuElement);
 
@@ -36,9 +53,15 @@ export class PauseMenu {
     this.menuElement.style.display = this.isPaused ? 'flex' : 'none';
     this.onPauseChange?.(this.isPaused);
 
-    // Update toggle states when opening menu
+    // Update toggle states and weapon groups when opening menu
     if (this.isPaused) {
       this.updateToggleStates();
+      if (this.weaponGroups) {
+        this.groupEditor?.setData(
+          this.weaponGroups.getWeapons(),
+          this.weaponGroups.getGroups()
+        );
+      }
     }
 
     // Release pointer lock when pausing
@@ -187,6 +210,13 @@ export class PauseMenu {
           box-shadow: 0 0 4px #00ff88;
         }
 
+        .group-hint {
+          color: #668866;
+          font-size: 11px;
+          letter-spacing: 1px;
+          margin-top: 10px;
+        }
+
         .menu-footer {
           text-align: center;
           margin-top: 30px;
@@ -270,6 +300,11 @@ export class PauseMenu {
           </div>
         </div>
 
+        <div class="menu-section" id="weapon-groups-section">
+          <div class="section-title">WEAPON GROUPS</div>
+          <div class="group-hint">Shift+1-4 selects a group • F fires an alpha strike</div>
+        </div>
+
         <div class="menu-footer">
           <span class="resume-hint">Press <kbd>P</kbd> to resume</span>
         </div>
@@ -278,6 +313,7 @@ export class PauseMenu {
 
     // Setup toggle event listeners
     this.setupToggleListeners(menu);
+    this.setupWeaponGroups(menu);
 
     return menu;
   }
@@ -311,6 +347,20 @@ export class PauseMenu {
     });
   }
 
+  private setupWeaponGroups(menu: HTMLElement): void {
+    const section = menu.querySelector('#weapon-groups-section');
+    const source = this.weaponGroups;
+    if (!section || !source) {
+      section?.remove();
+      return;
+    }
+
+    this.groupEditor = new WeaponGroupEditor((groups) =>
+      source.setGroups(groups)
+    );
+    section.insertBefore(this.groupEditor.element, section.lastElementChild);
+  }
+
   getIsPaused(): boolean {
     return this.isPaused;
   }
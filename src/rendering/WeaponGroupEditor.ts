@@ -0,0 +1,129 @@
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import type { WeaponGroup, WeaponType } from '../types';
+
+/**
+ * A weapon listed in the group editor
+ */
+export interface GroupableWeapon {
+  slot: number;
+  type: WeaponType;
+}
+
+/**
+ * Weapon group assignment grid shared by the pause menu and mech lab:
+ * one row per weapon with a checkbox per group, plus a chain-fire toggle
+ * per group. Reports every edit through onChange.
+ */
+export class WeaponGroupEditor {
+  readonly element: HTMLElement;
+  private weapons: GroupableWeapon[] = [];
+  private groups: WeaponGroup[] = [];
+  private onChange: (groups: WeaponGroup[]) => void;
+
+  constructor(onChange: (groups: WeaponGroup[]) => void) {
+    this.onChange = onChange;
+    this.element = document.createElement('div');
+    this.element.className = 'weapon-group-editor';
+    this.element.addEventListener('change', this.handleChange);
+  }
+
+  /**
+   * Show a mech's weapons and its current groups
+   */
+  setData(weapons: GroupableWeapon[], groups: WeaponGroup[]): void {
+    this.weapons = weapons;
+    this.groups = structuredClone(groups);
+    this.render();
+  }
+
+  private render(): void {
+    const headers = this.groups
+      .map((_, index) => `<th>G${index + 1}</th>`)
+      .join('');
+
+    const rows = this.weapons
+      .map(
+        (weapon) => `
+          <tr>
+            <td class="wg-weapon">[${weapon.slot}] ${getWeaponEntry(weapon.type).name}</td>
+            ${this.groups
+              .map(
+                (group, index) =>
+                  `<td><input type="checkbox" data-group="${index}" data-slot="${weapon.slot}" ${group.slots.includes(weapon.slot) ? 'checked' : ''}></td>`
+              )
+              .join('')}
+          </tr>
+        `
+      )
+      .join('');
+
+    const chainRow = this.groups
+      .map(
+        (group, index) =>
+          `<td><input type="checkbox" data-group="${index}" data-chain ${group.chainFire ? 'checked' : ''}></td>`
+      )
+      .join('');
+
+    this.element.innerHTML = `
+      <style>
+        .weapon-group-editor table {
+          width: 100%;
+          border-collapse: collapse;
+          font-family: 'Courier New', monospace;
+          font-size: 12px;
+        }
+
+        .weapon-group-editor th {
+          color: #00cc66;
+          font-weight: normal;
+          letter-spacing: 1px;
+          padding: 4px 6px;
+        }
+
+        .weapon-group-editor td {
+          text-align: center;
+          padding: 4px 6px;
+          border-bottom: 1px solid #00ff8822;
+        }
+
+        .weapon-group-editor .wg-weapon {
+          color: #88ffaa;
+          text-align: left;
+          white-space: nowrap;
+        }
+
+        .weapon-group-editor .wg-chain td {
+          border-bottom: none;
+          color: #668866;
+        }
+
+        .weapon-group-editor input {
+          accent-color: #00ff88;
+          cursor: pointer;
+        }
+      </style>
+      <table>
+        <tr><th></th>${headers}</tr>
+        ${rows}
+        <tr class="wg-chain"><td class="wg-weapon">Chain fire</td>${chainRow}</tr>
+      </table>
+    `;
+  }
+
+  private handleChange = (e: Event): void => {
+    const input = e.target as HTMLInputElement;
+    const group = this.groups[Number(input.getAttribute('data-group'))];
+    if (!group) return;
+
+    if (input.hasAttribute('data-chain')) {
+      group.chainFire = input.checked;
+    } else {
+      const slot = Number(input.getAttribute('data-slot'));
+      group.slots = input.checked
+        ? [...group.slots, slot].sort((a, b) => a - b)
+        : group.slots.filter((s) => s !== slot);
+    }
+
+    this.onChange(structuredClone(this.groups));
+  };
+}
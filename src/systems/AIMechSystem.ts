@@ -0,0 +1,547 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { AIControllerComponent } from '../components/AIControllerComponent';
+import type { AIBehavior } from '../components/AIControllerComponent';
+import { InputComponent } from '../components/InputComponent';
+import { MechComponent } from '../components/MechComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import { HeatComponent } from '../components/HeatComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { WeaponComponent } from '../components/WeaponComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import type { Weapon } from '../components/WeaponComponent';
+import type { PhysicsWorld } from '../physics/PhysicsWorld';
+import type { NavGrid } from '../navigation/NavGrid';
+import { findPath } from '../navigation/Pathfinder';
+import type { InputSnapshot } from '../types';
+import { AI_CONFIG } from '../config/AIConfig';
+import { CONTROLS_CONFIG } from '../config/ControlsConfig';
+import { MECH_CONSTANTS } from '../config/MechConfigs';
+import { NAVIGATION_CONFIG } from '../config/NavigationConfig';
+
+/**
+ * AIMechSystem pilots non-player mechs by building InputSnapshots.
+ * Snapshots flow through MovementSystem, TorsoControlSystem and
+ * WeaponControlSystem exactly like player input.
+ *
+ * Behavior is chosen by a priority selector, re-evaluated every decisionInterval:
+ * 1. Retreat - overheated or badly damaged
+ * 2. Flank - random chance while engaging, lasts flankDuration
+ * 3. Engage - hold the preferred range band and fire
+ * 4. Patrol - no target, walk the patrol route
+ *
+ * Movement goals are reached by following A* paths over the map's NavGrid.
+ */
+export class AIMechSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [
+    AIControllerComponent,
+    InputComponent,
+    MechComponent,
+    TransformComponent,
+  ];
+
+  private physicsWorld: PhysicsWorld;
+  private navGrid: NavGrid;
+
+  // Reusable vectors to avoid per-frame allocations
+  private readonly _forward = new THREE.Vector3();
+  private readonly _toTarget = new THREE.Vector3();
+  private readonly _goal = new THREE.Vector3();
+  private readonly _aimPoint = new THREE.Vector3();
+  private readonly _eyePos = new THREE.Vector3();
+  private readonly _losDirection = new THREE.Vector3();
+
+  constructor(physicsWorld: PhysicsWorld, navGrid: NavGrid) {
+    super();
+    this.physicsWorld = physicsWorld;
+    this.navGrid = navGrid;
+  }
+
+  update(dt: number): void {
+    for (const entity of this.getEntities()) {
+      const ai = entity.getComponent(AIControllerComponent)!;
+      const input = entity.getComponent(InputComponent)!;
+      const mech = entity.getComponent(MechComponent)!;
+      const transform = entity.getComponent(TransformComponent)!;
+
+      const snapshot = this.resetSnapshot(ai.snapshot);
+
+      // Dead pilots send no input
+      if (!input.enabled) {
+        input.lastInput = snapshot;
+        continue;
+      }
+
+      const target = this.updateTarget(entity, ai, transform);
+
+      // Re-evaluate behavior on a fixed cadence
+      ai.decisionTimer -= dt;
+      ai.flankTimer = Math.max(0, ai.flankTimer - dt);
+      ai.repathTimer -= dt;
+      if (ai.decisionTimer <= 0) {
+        ai.decisionTimer = ai.profile.decisionInterval;
+        ai.behavior = this.selectBehavior(entity, ai, target);
+      } else if (!target) {
+        ai.behavior = 'patrol';
+      }
+
+      if (target) {
+        const targetTransform = target.getComponent(TransformComponent)!;
+        this.runCombat(entity, ai, transform, targetTransform, snapshot);
+        this.aimTorso(mech, transform, this._aimPoint, snapshot, dt);
+        this.handleWeapons(entity, ai, input, transform, target, snapshot);
+      } else {
+        this.runPatrol(entity, ai, transform, snapshot);
+        // Keep the torso lined up with the legs while patrolling
+        this._aimPoint.copy(transform.position).add(this.getForward(transform));
+        this.aimTorso(mech, transform, this._aimPoint, snapshot, dt);
+      }
+
+      input.lastInput = snapshot;
+    }
+  }
+
+  /**
+   * Keep the current target while it stays hostile, alive and within the
+   * lose range; otherwise acquire the nearest hostile in detection range
+   */
+  private updateTarget(
+    entity: Entity,
+    ai: AIControllerComponent,
+    transform: TransformComponent
+  ): Entity | null {
+    const { detectionRange } = ai.profile;
+
+    const current = ai.targetId ? this.world.getEntity(ai.targetId) : null;
+    if (
+      current &&
+      this.isValidTarget(entity, current) &&
+      this.distanceTo(transform, current) <=
+        detectionRange * AI_CONFIG.LOSE_TARGET_MULTIPLIER
+    ) {
+      return current;
+    }
+
+    let best: Entity | null = null;
+    let bestDistance = detectionRange;
+
+    const candidates = this.world.getEntitiesWithComponents(
+      FactionComponent,
+      TransformComponent
+    );
+    for (const candidate of candidates) {
+      if (!this.isValidTarget(entity, candidate)) continue;
+
+      const distance = this.distanceTo(transform, candidate);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = candidate;
+      }
+    }
+
+    ai.targetId = best?.id ?? null;
+    return best;
+  }
+
+  private isValidTarget(entity: Entity, candidate: Entity): boolean {
+    if (!FactionComponent.isHostile(entity, candidate)) return false;
+    return !candidate.getComponent(HealthComponent)?.isDestroyed();
+  }
+
+  private distanceTo(transform: TransformComponent, other: Entity): number {
+    const otherTransform = other.getComponent(TransformComponent);
+    return otherTransform
+      ? transform.position.distanceTo(otherTransform.position)
+      : Infinity;
+  }
+
+  /**
+   * Priority selector for the current behavior
+   */
+  private selectBehavior(
+    entity: Entity,
+    ai: AIControllerComponent,
+    target: Entity | null
+  ): AIBehavior {
+    if (!target) return 'patrol';
+
+    const { profile } = ai;
+
+    // Retreat: overheated (with hysteresis) or badly damaged
+    const heat = entity.getComponent(HeatComponent);
+    const heatFraction = heat ? heat.current / heat.max : 0;
+    const isCooling =
+      ai.behavior === 'retreat' && heatFraction > profile.resumeHeat;
+    const health = entity.getComponent(HealthComponent);
+    const armorFraction = health ? health.getTotalArmorPercentage() / 100 : 1;
+
+    if (
+      heatFraction >= profile.retreatHeat ||
+      isCooling ||
+      armorFraction <= profile.retreatArmor
+    ) {
+      return 'retreat';
+    }
+
+    // Flank: finish the current run, or start a new one by chance
+    if (ai.behavior === 'flank' && ai.flankTimer > 0) return 'flank';
+    if (Math.random() < profile.flankChance) {
+      ai.flankSide = Math.random() < 0.5 ? -1 : 1;
+      ai.flankTimer = profile.flankDuration;
+      return 'flank';
+    }
+
+    return 'engage';
+  }
+
+  /**
+   * Steer legs for the combat behaviors and set the torso aim point
+   */
+  private runCombat(
+    entity: Entity,
+    ai: AIControllerComponent,
+    transform: TransformComponent,
+    targetTransform: TransformComponent,
+    snapshot: InputSnapshot
+  ): void {
+    const { profile } = ai;
+
+    // Aim at the target's torso
+    this._aimPoint.copy(targetTransform.position);
+    this._aimPoint.y += MECH_CONSTANTS.COLLISION.torso.offsetY;
+
+    this._toTarget.copy(targetTransform.position).sub(transform.position);
+    this._toTarget.y = 0;
+    const distance = this._toTarget.length();
+
+    switch (ai.behavior) {
+      case 'retreat':
+        // Back away while still facing the threat
+        if (distance < profile.retreatDistance) {
+          this.steerToward(transform, targetTransform.position, snapshot);
+          snapshot.forward = false;
+          snapshot.backward = true;
+        }
+        break;
+
+      case 'flank': {
+        // Swing around to a point beside the target
+        this._goal
+          .set(-this._toTarget.z, 0, this._toTarget.x)
+          .normalize()
+          .multiplyScalar(profile.flankDistance * ai.flankSide)
+          .add(targetTransform.position);
+
+        if (
+          this.horizontalDistance(transform.position, this._goal) <
+          AI_CONFIG.STEERING.arrivalRadius
+        ) {
+          ai.flankTimer = 0;
+          ai.behavior = 'engage';
+        } else {
+          this.navigateTo(entity, ai, transform, this._goal, snapshot);
+        }
+        break;
+      }
+
+      case 'engage':
+      default:
+        // Path in until within range, then hold facing the target
+        if (distance > profile.engageRangeMax) {
+          this.navigateTo(
+            entity,
+            ai,
+            transform,
+            targetTransform.position,
+            snapshot
+          );
+          break;
+        }
+        this.steerToward(transform, targetTransform.position, snapshot);
+        snapshot.forward = false;
+        snapshot.backward = distance < profile.engageRangeMin;
+        break;
+    }
+  }
+
+  /**
+   * Walk the patrol route
+   */
+  private runPatrol(
+    entity: Entity,
+    ai: AIControllerComponent,
+    transform: TransformComponent,
+    snapshot: InputSnapshot
+  ): void {
+    if (ai.patrolRoute.length === 0) return;
+
+    const waypoint = ai.patrolRoute[ai.waypointIndex];
+    if (
+      this.horizontalDistance(transform.position, waypoint) <
+      AI_CONFIG.STEERING.arrivalRadius
+    ) {
+      ai.waypointIndex = (ai.waypointIndex + 1) % ai.patrolRoute.length;
+      return;
+    }
+
+    this.navigateTo(entity, ai, transform, waypoint, snapshot);
+  }
+
+  /**
+   * Follow a grid path toward a goal, replanning when the goal moves or the
+   * path goes stale. Falls back to walking straight at the goal.
+   */
+  private navigateTo(
+    entity: Entity,
+    ai: AIControllerComponent,
+    transform: TransformComponent,
+    goal: THREE.Vector3,
+    snapshot: InputSnapshot
+  ): void {
+    if (!this.navGrid.isBuilt()) {
+      this.steerToward(transform, goal, snapshot);
+      return;
+    }
+
+    const { repathInterval, goalShift, waypointRadius } =
+      NAVIGATION_CONFIG.FOLLOW;
+
+    if (
+      ai.repathTimer <= 0 ||
+      !ai.pathGoal ||
+      this.horizontalDistance(ai.pathGoal, goal) > goalShift
+    ) {
+      ai.path =
+        findPath(this.navGrid, transform.position, goal, entity.id) ?? [];
+      ai.pathIndex = 0;
+      ai.pathGoal = (ai.pathGoal ?? new THREE.Vector3()).copy(goal);
+      ai.repathTimer = repathInterval;
+    }
+
+    // Skip waypoints already reached (keep the last one as the final approach)
+    while (
+      ai.pathIndex < ai.path.length - 1 &&
+      this.horizontalDistance(transform.position, ai.path[ai.pathIndex]) <
+        waypointRadius
+    ) {
+      ai.pathIndex++;
+    }
+
+    const next = ai.path[ai.pathIndex] ?? goal;
+    this.steerToward(transform, next, snapshot);
+  }
+
+  /**
+   * Turn the legs toward a point and walk forward once roughly facing it
+   */
+  private steerToward(
+    transform: TransformComponent,
+    goal: THREE.Vector3,
+    snapshot: InputSnapshot
+  ): void {
+    const { turnTolerance, driveAngle } = AI_CONFIG.STEERING;
+    const forward = this.getForward(transform);
+    const currentYaw = this.yawOf(forward.x, forward.z);
+    const desiredYaw = this.yawOf(
+      goal.x - transform.position.x,
+      goal.z - transform.position.z
+    );
+    const error = this.normalizeAngle(desiredYaw - currentYaw);
+
+    // MovementSystem: turnLeft increases yaw, turnRight decreases it
+    snapshot.turnLeft = error > turnTolerance;
+    snapshot.turnRight = error < -turnTolerance;
+    snapshot.forward = Math.abs(error) < driveAngle;
+  }
+
+  /**
+   * Rotate torso and head toward an aim point via mouse deltas,
+   * limited to the keyboard turn speed so the AI turns like a pilot would
+   */
+  private aimTorso(
+    mech: MechComponent,
+    transform: TransformComponent,
+    aimPoint: THREE.Vector3,
+    snapshot: InputSnapshot,
+    dt: number
+  ): void {
+    const dx = aimPoint.x - transform.position.x;
+    const dz = aimPoint.z - transform.position.z;
+    const yawError = this.normalizeAngle(this.yawOf(dx, dz) - mech.torsoYaw);
+
+    // rotateTorso scales the delta by torsoTurnRate
+    const maxYawDelta = CONTROLS_CONFIG.KEYBOARD_TORSO_SPEED * dt;
+    const yawDelta = THREE.MathUtils.clamp(
+      yawError / mech.config.torsoTurnRate,
+      -maxYawDelta,
+      maxYawDelta
+    );
+
+    const eyeHeight =
+      transform.position.y + MECH_CONSTANTS.COLLISION.torso.offsetY;
+    const desiredPitch = Math.atan2(
+      aimPoint.y - eyeHeight,
+      Math.sqrt(dx * dx + dz * dz)
+    );
+    const maxPitchDelta = CONTROLS_CONFIG.KEYBOARD_PITCH_SPEED * dt;
+    const pitchDelta = THREE.MathUtils.clamp(
+      desiredPitch - mech.headPitch,
+      -maxPitchDelta,
+      maxPitchDelta
+    );
+
+    // TorsoControlSystem negates mouse deltas
+    snapshot.mouseDeltaX = -yawDelta / CONTROLS_CONFIG.MOUSE_SENSITIVITY;
+    snapshot.mouseDeltaY = -pitchDelta / CONTROLS_CONFIG.MOUSE_SENSITIVITY;
+  }
+
+  /**
+   * Pick a weapon and pull the trigger when aimed with a clear line of fire
+   */
+  private handleWeapons(
+    entity: Entity,
+    ai: AIControllerComponent,
+    input: InputComponent,
+    transform: TransformComponent,
+    target: Entity,
+    snapshot: InputSnapshot
+  ): void {
+    const weapons = entity.getComponent(WeaponComponent);
+    const mech = entity.getComponent(MechComponent)!;
+    if (!weapons) return;
+
+    // Torso must be on target
+    const dx = this._aimPoint.x - transform.position.x;
+    const dz = this._aimPoint.z - transform.position.z;
+    const aimError = Math.abs(
+      this.normalizeAngle(this.yawOf(dx, dz) - mech.torsoYaw)
+    );
+    if (aimError > ai.profile.fireTolerance) return;
+
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    const weapon = this.chooseWeapon(entity, weapons, ai, distance);
+    if (!weapon) return;
+
+    if (!this.hasLineOfSight(transform, target)) return;
+
+    snapshot.weaponSlot = weapon.slot;
+
+    // Semi-auto weapons need a fresh trigger press each shot
+    snapshot.fire = weapon.config.semiAuto ? !input.wasFiring : true;
+  }
+
+  /**
+   * Heat-aware weapon choice: best damage that stays under the heat ceiling,
+   * with heat-heavy weapons penalized as the mech warms up
+   */
+  private chooseWeapon(
+    entity: Entity,
+    weapons: WeaponComponent,
+    ai: AIControllerComponent,
+    distance: number
+  ): Weapon | undefined {
+    const heat = entity.getComponent(HeatComponent);
+    const heatFraction = heat ? heat.current / heat.max : 0;
+
+    let best: Weapon | undefined;
+    let bestScore = -Infinity;
+
+    for (const weapon of weapons.weapons) {
+      if (!weapons.canFire(weapon.slot)) continue;
+      if (distance > weapon.config.range) continue;
+
+      if (heat) {
+        const { heatGenerated } = weapon.config;
+        if (!heat.canAddHeat(heatGenerated)) continue;
+        if (
+          (heat.current + heatGenerated) / heat.max >
+          ai.profile.maxFiringHeat
+        )
+          continue;
+      }
+
+      const score =
+        weapon.config.damage -
+        weapon.config.heatGenerated *
+          heatFraction *
+          AI_CONFIG.WEAPON_HEAT_PENALTY;
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = weapon;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Check that the first thing along the line of fire is the target
+   */
+  private hasLineOfSight(
+    transform: TransformComponent,
+    target: Entity
+  ): boolean {
+    const { torso } = MECH_CONSTANTS.COLLISION;
+
+    this._losDirection.copy(this._aimPoint).sub(transform.position);
+    this._losDirection.y -= torso.offsetY;
+    const distance = this._losDirection.length();
+    if (distance <= 0) return true;
+    this._losDirection.divideScalar(distance);
+
+    // Start outside our own collider
+    const clearance = torso.radius + 0.5;
+    this._eyePos
+      .copy(transform.position)
+      .setY(transform.position.y + torso.offsetY)
+      .addScaledVector(this._losDirection, clearance);
+
+    const hit = this.physicsWorld.castRay(
+      this._eyePos,
+      this._losDirection,
+      distance
+    );
+
+    return !hit || hit.entityId === target.id;
+  }
+
+  /**
+   * Clear the snapshot for this tick
+   */
+  private resetSnapshot(snapshot: InputSnapshot): InputSnapshot {
+    Object.assign(snapshot, InputComponent.createEmptySnapshot());
+    return snapshot;
+  }
+
+  /**
+   * Leg forward direction (mech faces -Z in body space)
+   */
+  private getForward(transform: TransformComponent): THREE.Vector3 {
+    return this._forward.set(0, 0, -1).applyEuler(transform.rotation);
+  }
+
+  /**
+   * Yaw that faces a horizontal direction, matching the -Z forward convention
+   */
+  private yawOf(x: number, z: number): number {
+    return Math.atan2(-x, -z);
+  }
+
+  private horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  /**
+   * Normalize angle to -PI to PI range
+   */
+  private normalizeAngle(angle: number): number {
+    while (angle > Math.PI) angle -= Math.PI * 2;
+    while (angle < -Math.PI) angle += Math.PI * 2;
+    return angle;
+  }
+}
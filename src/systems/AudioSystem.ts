@@ -1,17 +1,24 @@
 import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
 import { EventBus } from '../core/EventBus';
+import { MechComponent } from '../components/MechComponent';
 import type { SoundManager } from '../audio/SoundManager';
 import type { WeaponType } from '../types';
+import type { CommsMessage } from './CommsSystem';
+import { COMMS_CONFIG } from '../config/CommsConfig';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import type { HeatStage } from '../config/HeatConfig';
 
 /**
  * Audio system handles all game audio via events.
- * It doesn't query entities directly, instead it listens to events from other systems.
+ * It doesn't query entities directly, instead it listens to events from other systems
+ * (the one lookup tells mechs apart so their destruction explodes only once).
  */
 export class AudioSystem extends System {
   readonly requiredComponents: ComponentClass[] = []; // Event-driven, no entity queries
 
   private soundManager: SoundManager;
+  private subscriptions: [string, Parameters<typeof EventBus.on>[1]][] = [];
 
   constructor(soundManager: SoundManager) {
     super();
@@ -22,44 +29,85 @@ export class AudioSystem extends System {
     this.setupEventListeners();
   }
 
+  /**
+   * Subscribe to an event and remember it so dispose() can unsubscribe
+   */
+  private listen(
+    event: string,
+    callback: Parameters<typeof EventBus.on>[1]
+  ): void {
+    EventBus.on(event, callback);
+    this.subscriptions.push([event, callback]);
+  }
+
   private setupEventListeners(): void {
     // Weapon sounds
-    EventBus.on('weapon:fired', (type: WeaponType) => {
+    this.listen('weapon:fired', (type: WeaponType) => {
       this.playWeaponSound(type);
     });
 
-    EventBus.on('weapon:selected', () => {
+    this.listen('weapon:selected', () => {
       this.soundManager.playWeaponSwitch();
     });
 
+    this.listen('weapon:group_selected', () => {
+      this.soundManager.playWeaponSwitch();
+    });
+
+    // Missile lock tone
+    this.listen('targeting:missile-lock', () => {
+      this.soundManager.playMissileLock();
+    });
+
     // Heat sounds
-    EventBus.on('heat:warning', (_entityId: string, level: number) => {
+    this.listen('heat:warning', (_entityId: string, level: number) => {
       this.soundManager.playHeatWarning(level);
     });
 
-    EventBus.on('heat:overheat', () => {
+    this.listen('heat:overheat', () => {
+      this.soundManager.playReactorShutdown();
       this.soundManager.playOverheatAlarm();
     });
 
+    this.listen('heat:cooldown', () => {
+      this.soundManager.playReactorRestart();
+    });
+
+    this.listen('heat:stage', (_entityId: string, stage: HeatStage) => {
+      if (stage === 'cookoff') {
+        this.soundManager.playCookoffWarning();
+      } else if (stage === 'override') {
+        this.soundManager.playOverrideAlarm();
+      }
+    });
+
+    this.listen('heat:override_damage', () => {
+      this.soundManager.playOverrideAlarm();
+    });
+
+    this.listen('heat:ammo_explosion', () => {
+      this.soundManager.playExplosion();
+    });
+
     // Mech movement sounds
-    EventBus.on(
+    this.listen(
       'mech:footstep',
       (_entityId: string, intensity: number, isLeft: boolean) => {
         this.soundManager.playFootstep(intensity, isLeft);
       }
     );
 
-    EventBus.on('mech:servo', (_entityId: string, speed: number) => {
+    this.listen('mech:servo', (_entityId: string, speed: number) => {
       this.soundManager.playServoWhine(speed);
     });
 
     // Damage sounds
-    EventBus.on('damage:impact', (_entityId: string, severity: number) => {
+    this.listen('damage:impact', (_entityId: string, severity: number) => {
       this.soundManager.playDamageImpact(severity);
     });
 
     // Projectile hit sounds
-    EventBus.on(
+    this.listen(
       'projectile:hit',
       (weaponType: WeaponType, _hitPoint: unknown, _targetId: string) => {
         this.playImpactSound(weaponType);
@@ -67,7 +115,7 @@ export class AudioSystem extends System {
     );
 
     // Entity damaged sound
-    EventBus.on(
+    this.listen(
       'entity:damaged',
       (
         _targetId: string,
@@ -82,44 +130,33 @@ export class AudioSystem extends System {
     );
 
     // Entity destroyed sound
-    EventBus.on('entity:destroyed', (_targetId: string, _hitPoint: unknown) => {
+    this.listen('entity:destroyed', (targetId: string, _hitPoint: unknown) => {
+      // Mechs explode later, on mech:exploded
+      if (this.world.getEntity(targetId)?.hasComponent(MechComponent)) return;
+      this.soundManager.playExplosion();
+    });
+
+    // Radio chirp opening each comms message
+    this.listen('comms:message', (message: CommsMessage) => {
+      this.soundManager.playRadioChirp(
+        COMMS_CONFIG.CHIRP_VOLUME[message.priority]
+      );
+    });
+
+    // Mech reactor explosion at the end of the collapse
+    this.listen('mech:exploded', (_entityId: string, _position: unknown) => {
       this.soundManager.playExplosion();
     });
   }
 
   private playImpactSound(weaponType: WeaponType): void {
-    // Different impact sounds based on weapon type
-    switch (weaponType) {
-      case 'ppc':
-        this.soundManager.playDamageImpact(0.9);
-        break;
-      case 'autocannon':
-        this.soundManager.playDamageImpact(0.5);
-        break;
-      case 'missile':
-        this.soundManager.playDamageImpact(0.7);
-        break;
-      case 'laser':
-        this.soundManager.playDamageImpact(0.4);
-        break;
-    }
+    this.soundManager.playDamageImpact(
+      getWeaponEntry(weaponType).impactSeverity
+    );
   }
 
   private playWeaponSound(type: WeaponType): void {
-    switch (type) {
-      case 'laser':
-        this.soundManager.playLaser();
-        break;
-      case 'autocannon':
-        this.soundManager.playAutocannon();
-        break;
-      case 'ppc':
-        this.soundManager.playPPC();
-        break;
-      case 'missile':
-        this.soundManager.playMissile();
-        break;
-    }
+    this.soundManager.playWeapon(getWeaponEntry(type).sound);
   }
 
   update(_dt: number): void {
@@ -127,7 +164,10 @@ export class AudioSystem extends System {
   }
 
   dispose(): void {
-    // Clear event listeners
-    EventBus.clear();
+    // Only this system's listeners; other owners keep theirs
+    for (const [event, callback] of this.subscriptions) {
+      EventBus.off(event, callback);
+    }
+    this.subscriptions = [];
   }
 }
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
+import { EventBus } from '../core/EventBus';
 import { InputComponent } from '../components/InputComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import { MechComponent } from '../components/MechComponent';
@@ -11,6 +12,7 @@ import { CAMERA_CONFIG } from '../config/CameraConfig';
 
 /**
  * Camera system handles first-person and third-person camera views.
+ * When the player's mech is destroyed it switches to an orbiting death camera.
  */
 export class CameraSystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -24,6 +26,10 @@ export class CameraSystem extends System {
   private isTransitioning: boolean = false;
   private transitionProgress: number = 0;
 
+  // Death camera orbit around the player's wreck
+  private deathCameraActive: boolean = false;
+  private deathOrbitYaw: number = 0;
+
   // Smoothed camera values
   private currentPosition: THREE.Vector3 = new THREE.Vector3();
   private currentTarget: THREE.Vector3 = new THREE.Vector3();
@@ -40,6 +46,8 @@ export class CameraSystem extends System {
   private readonly _idealOffset = new THREE.Vector3();
   private readonly _interpPosition = new THREE.Vector3();
   private readonly _interpTarget = new THREE.Vector3();
+  private readonly _deathPos = new THREE.Vector3();
+  private readonly _deathTarget = new THREE.Vector3();
 
   constructor(camera: THREE.PerspectiveCamera) {
     super();
@@ -48,15 +56,26 @@ export class CameraSystem extends System {
 
   init(): void {
     // Setup key listener for view toggle
-    window.addEventListener('keydown', (e) => {
-      if (e.code === 'KeyV') {
-        this.toggleMode();
-      }
-    });
+    window.addEventListener('keydown', this.onKeyDown);
+
+    EventBus.on('mech:destroyed', this.onMechDestroyed);
   }
 
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code === 'KeyV') {
+      this.toggleMode();
+    }
+  };
+
+  private onMechDestroyed = (entityId: string): void => {
+    const entity = this.world.getEntity(entityId);
+    if (entity?.getComponent(InputComponent)?.isLocalPlayer) {
+      this.startDeathCamera(entity.getComponent(MechComponent)!.torsoYaw);
+    }
+  };
+
   toggleMode(): void {
-    if (this.isTransitioning) return;
+    if (this.isTransitioning || this.deathCameraActive) return;
 
     this.isTransitioning = true;
     this.transitionProgress = 0;
@@ -76,6 +95,23 @@ export class CameraSystem extends System {
     return this.currentMode;
   }
 
+  /**
+   * Take over from the cockpit/chase views and orbit the player's wreck
+   */
+  private startDeathCamera(torsoYaw: number): void {
+    this.deathCameraActive = true;
+    this.isTransitioning = false;
+    // Start from behind the torso so the switch is continuous in third-person
+    this.deathOrbitYaw = torsoYaw;
+
+    this.camera.fov = CAMERA_CONFIG.THIRD_PERSON.fov;
+    this.camera.updateProjectionMatrix();
+  }
+
+  isDeathCameraActive(): boolean {
+    return this.deathCameraActive;
+  }
+
   update(dt: number): void {
     // Store previous positions for interpolation
     this.previousPosition.copy(this.currentPosition);
@@ -101,6 +137,11 @@ export class CameraSystem extends System {
     const mech = player.getComponent(MechComponent)!;
     const render = player.getComponent(RenderComponent);
 
+    if (this.deathCameraActive) {
+      this.updateDeathCamera(transform, dt);
+      return;
+    }
+
     // Calculate camera positions for both modes (using cached vectors)
     this.getFirstPersonPosition(transform, mech, render, this._firstPersonPos);
     this.getFirstPersonTarget(
@@ -235,6 +276,26 @@ export class CameraSystem extends System {
     out.z -= Math.cos(torsoWorldYaw) * Math.cos(mech.headPitch) * lookDistance;
   }
 
+  /**
+   * Slow orbit around the wreck, eased in from the current camera position
+   */
+  private updateDeathCamera(transform: TransformComponent, dt: number): void {
+    const { distance, height, lookAtHeight, orbitSpeed } = CAMERA_CONFIG.DEATH;
+
+    this.deathOrbitYaw += orbitSpeed * dt;
+
+    this._deathPos.set(
+      transform.position.x + Math.sin(this.deathOrbitYaw) * distance,
+      transform.position.y + height,
+      transform.position.z + Math.cos(this.deathOrbitYaw) * distance
+    );
+    this._deathTarget.copy(transform.position);
+    this._deathTarget.y += lookAtHeight;
+
+    this.currentPosition.lerp(this._deathPos, CAMERA_CONFIG.SMOOTHING.position);
+    this.currentTarget.lerp(this._deathTarget, CAMERA_CONFIG.SMOOTHING.target);
+  }
+
   /**
    * Interpolate camera position for smooth rendering
    */
@@ -262,4 +323,9 @@ export class CameraSystem extends System {
   isFirstPerson(): boolean {
     return this.currentMode === 'first-person';
   }
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    EventBus.off('mech:destroyed', this.onMechDestroyed);
+  }
 }
@@ -0,0 +1,374 @@
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import { EventBus } from '../core/EventBus';
+import { InputComponent } from '../components/InputComponent';
+import { COMMS_CONFIG } from '../config/CommsConfig';
+import type { HeatStage } from '../config/HeatConfig';
+import type {
+  CommsPriority,
+  MissionConfig,
+  ObjectiveState,
+  RadioMessageConfig,
+} from '../config/missions/MissionConfig';
+
+/** A queued comms message with every default resolved */
+export type CommsMessage = Required<RadioMessageConfig>;
+
+const PRIORITY_RANK: Record<CommsPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  critical: 3,
+};
+
+/** Human-readable defeat reasons for the final transmission */
+const DEFEAT_MESSAGES: Record<string, string> = {
+  player_destroyed: 'We lost your signal, MechWarrior. Mission failed.',
+  objective_failed: 'A critical objective was lost. Pull out, mission failed.',
+  time_limit: 'Out of time. Mission failed.',
+};
+
+/**
+ * Comms system runs the in-mission radio channel.
+ * - Queues messages from mission triggers (radio:message), objective events
+ *   and the player's heat/damage alerts
+ * - Plays one message at a time for its duration, highest priority first;
+ *   critical messages cut in immediately
+ * - Emits comms:message (message) when a message starts and
+ *   comms:updated (current, queue) whenever the channel changes
+ */
+export class CommsSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [];
+
+  private current: CommsMessage | null = null;
+  private remaining: number = 0;
+  private queue: CommsMessage[] = [];
+
+  /** Objective states by ID, for descriptions and warning thresholds */
+  private objectives: Map<string, ObjectiveState> = new Map();
+  /** Objective warnings already given (one per objective) */
+  private warnedObjectives: Set<string> = new Set();
+  /** Seconds left before each automatic alert may repeat */
+  private alertCooldowns: Map<string, number> = new Map();
+
+  private mission: MissionConfig | null;
+  /** Seconds since objectives started (null outside missions) */
+  private missionTime: number | null = null;
+  private timeWarningGiven: boolean = false;
+
+  constructor(mission: MissionConfig | null) {
+    super();
+    this.mission = mission;
+  }
+
+  init(): void {
+    EventBus.on('radio:message', this.onRadioMessage);
+    EventBus.on('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.on('objective:added', this.onObjectiveAdded);
+    EventBus.on('objective:updated', this.onObjectiveUpdated);
+    EventBus.on('objective:complete', this.onObjectiveComplete);
+    EventBus.on('objective:failed', this.onObjectiveFailed);
+    EventBus.on('mission:defeat', this.onMissionDefeat);
+    EventBus.on('heat:warning', this.onHeatWarning);
+    EventBus.on('heat:overheat', this.onOverheat);
+    EventBus.on('heat:stage', this.onHeatStage);
+    EventBus.on('heat:ammo_explosion', this.onAmmoExplosion);
+    EventBus.on('entity:zone_destroyed', this.onZoneDestroyed);
+    EventBus.on('weapon:destroyed', this.onWeaponDestroyed);
+  }
+
+  update(dt: number): void {
+    for (const [key, seconds] of this.alertCooldowns) {
+      if (seconds <= dt) {
+        this.alertCooldowns.delete(key);
+      } else {
+        this.alertCooldowns.set(key, seconds - dt);
+      }
+    }
+
+    if (this.missionTime !== null) {
+      this.missionTime += dt;
+      this.checkTimeLimit();
+    }
+
+    if (!this.current) return;
+    this.remaining -= dt;
+    if (this.remaining > 0) return;
+
+    const next = this.queue.shift();
+    if (next) {
+      this.play(next);
+    } else {
+      this.current = null;
+      this.emitUpdated();
+    }
+  }
+
+  /**
+   * Add a message to the channel, resolving portrait, priority and duration
+   */
+  send(message: RadioMessageConfig): void {
+    const priority = message.priority ?? 'normal';
+    const speaker =
+      COMMS_CONFIG.SPEAKERS[message.speaker] ?? COMMS_CONFIG.DEFAULT_SPEAKER;
+    const resolved: CommsMessage = {
+      speaker: message.speaker,
+      text: message.text,
+      portrait: message.portrait ?? speaker.portrait,
+      priority,
+      duration:
+        message.duration ??
+        COMMS_CONFIG.DURATION[priority] +
+          message.text.length * COMMS_CONFIG.readingTimePerChar,
+    };
+
+    if (!this.current) {
+      this.play(resolved);
+      return;
+    }
+
+    // Critical messages cut in; whatever was playing is dropped
+    if (
+      priority === 'critical' &&
+      PRIORITY_RANK[this.current.priority] < PRIORITY_RANK.critical
+    ) {
+      this.play(resolved);
+      return;
+    }
+
+    // Insert behind every message of equal or higher priority
+    const index = this.queue.findIndex(
+      (queued) => PRIORITY_RANK[queued.priority] < PRIORITY_RANK[priority]
+    );
+    if (index === -1) {
+      this.queue.push(resolved);
+    } else {
+      this.queue.splice(index, 0, resolved);
+    }
+
+    // Full queue sheds its lowest-priority (last) message
+    if (this.queue.length > COMMS_CONFIG.maxQueue) {
+      this.queue.pop();
+    }
+    this.emitUpdated();
+  }
+
+  private play(message: CommsMessage): void {
+    this.current = message;
+    this.remaining = message.duration;
+    EventBus.emit('comms:message', message);
+    this.emitUpdated();
+  }
+
+  private emitUpdated(): void {
+    EventBus.emit('comms:updated', this.current, [...this.queue]);
+  }
+
+  /**
+   * Send an automatic alert unless the same one went out recently
+   */
+  private alert(
+    key: string,
+    speaker: string,
+    text: string,
+    priority: CommsPriority
+  ): void {
+    if (this.alertCooldowns.has(key)) return;
+    this.alertCooldowns.set(key, COMMS_CONFIG.alertCooldown);
+    this.send({ speaker, text, priority });
+  }
+
+  /**
+   * Warn once when a mission time limit (that isn't a survive goal) runs low
+   */
+  private checkTimeLimit(): void {
+    const timeLimit = this.mission?.timeLimit;
+    if (!timeLimit || this.timeWarningGiven || this.missionTime === null) {
+      return;
+    }
+    if (this.mission?.victoryCondition === 'survive_time') return;
+
+    const secondsLeft = timeLimit - this.missionTime;
+    if (secondsLeft > COMMS_CONFIG.ALERTS.timeRemaining) return;
+
+    this.timeWarningGiven = true;
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: `${Math.ceil(secondsLeft)} seconds left. Complete the mission or it's over.`,
+      priority: 'high',
+    });
+  }
+
+  private isLocalPlayer(entityId: string): boolean {
+    return (
+      this.world.getEntity(entityId)?.getComponent(InputComponent)
+        ?.isLocalPlayer ?? false
+    );
+  }
+
+  private onRadioMessage = (message: RadioMessageConfig): void => {
+    this.send(message);
+  };
+
+  private onObjectivesInitialized = (states: ObjectiveState[]): void => {
+    this.objectives = new Map(states.map((state) => [state.config.id, state]));
+    this.warnedObjectives.clear();
+    this.missionTime = 0;
+    this.timeWarningGiven = false;
+  };
+
+  private onObjectiveAdded = (state: ObjectiveState): void => {
+    this.objectives.set(state.config.id, state);
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: `New objective: ${state.config.description}.`,
+    });
+  };
+
+  /**
+   * Warn once when a protected asset's integrity runs low
+   */
+  private onObjectiveUpdated = (id: string, state: ObjectiveState): void => {
+    this.objectives.set(id, state);
+    if (state.status === 'completed' || state.status === 'failed') return;
+    if (this.warnedObjectives.has(id)) return;
+
+    if (state.config.type !== 'protect') return;
+    if (state.progress >= COMMS_CONFIG.ALERTS.protectIntegrity) return;
+
+    this.warnedObjectives.add(id);
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: `${state.config.description}: integrity at ${state.progress}%. Defend them!`,
+      priority: state.config.required ? 'high' : 'normal',
+    });
+  };
+
+  private onObjectiveComplete = (id: string): void => {
+    const description = this.objectives.get(id)?.config.description;
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: description
+        ? `Objective complete: ${description}.`
+        : 'Objective complete.',
+    });
+  };
+
+  private onObjectiveFailed = (id: string): void => {
+    const state = this.objectives.get(id);
+    // Required failures end the mission; mission:defeat reports those
+    if (!state || state.config.required) return;
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: `Bonus objective lost: ${state.config.description}.`,
+    });
+  };
+
+  private onMissionDefeat = (reason: string): void => {
+    this.send({
+      speaker: COMMS_CONFIG.ALERTS.commandSpeaker,
+      text: DEFEAT_MESSAGES[reason] ?? 'Mission failed. Pull out.',
+      priority: 'critical',
+    });
+  };
+
+  private onHeatWarning = (entityId: string): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    this.alert(
+      'heat:warning',
+      COMMS_CONFIG.ALERTS.systemSpeaker,
+      'Warning: heat level critical.',
+      'high'
+    );
+  };
+
+  private onOverheat = (entityId: string): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    this.alert(
+      'heat:overheat',
+      COMMS_CONFIG.ALERTS.systemSpeaker,
+      'Reactor shutdown. Heat sinks engaged.',
+      'critical'
+    );
+  };
+
+  private onHeatStage = (entityId: string, stage: HeatStage): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    if (stage === 'cookoff') {
+      this.alert(
+        'heat:cookoff',
+        COMMS_CONFIG.ALERTS.systemSpeaker,
+        'Warning: ammunition cook-off risk.',
+        'high'
+      );
+    } else if (stage === 'override') {
+      this.alert(
+        'heat:override',
+        COMMS_CONFIG.ALERTS.systemSpeaker,
+        'Shutdown override engaged. Internal damage imminent.',
+        'critical'
+      );
+    }
+  };
+
+  private onAmmoExplosion = (
+    entityId: string,
+    _slot: number,
+    zone: string
+  ): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    this.alert(
+      'heat:ammo_explosion',
+      COMMS_CONFIG.ALERTS.systemSpeaker,
+      `Ammunition explosion, ${this.formatZone(zone).toLowerCase()}.`,
+      'critical'
+    );
+  };
+
+  private onZoneDestroyed = (entityId: string, zone: string): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    this.alert(
+      `zone:${zone}`,
+      COMMS_CONFIG.ALERTS.systemSpeaker,
+      `${this.formatZone(zone)} destroyed.`,
+      'high'
+    );
+  };
+
+  private onWeaponDestroyed = (entityId: string): void => {
+    if (!this.isLocalPlayer(entityId)) return;
+    this.alert(
+      'weapon:destroyed',
+      COMMS_CONFIG.ALERTS.systemSpeaker,
+      'Weapon destroyed.',
+      'normal'
+    );
+  };
+
+  /**
+   * "leftArm" -> "Left arm"
+   */
+  private formatZone(zone: string): string {
+    const words = zone.replace(/([A-Z])/g, ' $1').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  dispose(): void {
+    EventBus.off('radio:message', this.onRadioMessage);
+    EventBus.off('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.off('objective:added', this.onObjectiveAdded);
+    EventBus.off('objective:updated', this.onObjectiveUpdated);
+    EventBus.off('objective:complete', this.onObjectiveComplete);
+    EventBus.off('objective:failed', this.onObjectiveFailed);
+    EventBus.off('mission:defeat', this.onMissionDefeat);
+    EventBus.off('heat:warning', this.onHeatWarning);
+    EventBus.off('heat:overheat', this.onOverheat);
+    EventBus.off('heat:stage', this.onHeatStage);
+    EventBus.off('heat:ammo_explosion', this.onAmmoExplosion);
+    EventBus.off('entity:zone_destroyed', this.onZoneDestroyed);
+    EventBus.off('weapon:destroyed', this.onWeaponDestroyed);
+    this.queue = [];
+    this.current = null;
+    this.missionTime = null;
+  }
+}
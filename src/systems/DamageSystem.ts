@@ -0,0 +1,411 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { HealthComponent } from '../components/HealthComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import { MechComponent } from '../components/MechComponent';
+import { WeaponComponent } from '../components/WeaponComponent';
+import { HeatComponent } from '../components/HeatComponent';
+import { CriticalComponent } from '../components/CriticalComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import type { CriticalSlot } from '../components/CriticalComponent';
+import type { DamageResult } from '../components/HealthComponent';
+import { EventBus } from '../core/EventBus';
+import { MECH_CONSTANTS } from '../config/MechConfigs';
+import { DAMAGE_CONFIG } from '../config/DamageConfig';
+import { FACTION_CONFIG } from '../config/FactionConfig';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import type { ArmorZones } from '../types';
+
+/**
+ * Damage system applies weapon hits to HealthComponents.
+ * - Listens for damage:request events from ProjectileSystem/WeaponSystem
+ * - Listens for damage:internal events (e.g. heat) that bypass armor in a given zone
+ * - Scales hits between friendly factions by FACTION_CONFIG.FRIENDLY_FIRE_MULTIPLIER
+ * - Resolves the impact point to an armor zone using MECH_CONSTANTS.HIT_ZONES,
+ *   passing damage a destroyed limb can't absorb on to its transfer zone
+ * - Emits entity:damaged, entity:zone_destroyed and entity:destroyed (with killer)
+ * - Attributes hits with damage:taken / damage:dealt for mission stats
+ * - Rolls critical hits when damage reaches internal structure (entity:critical_hit)
+ * - Disables weapons mounted in destroyed zones (weapon:destroyed)
+ * - Leaves destroyed mechs in the world for MechDestructionSystem
+ */
+export class DamageSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [
+    HealthComponent,
+    TransformComponent,
+  ];
+
+  // Reusable objects to avoid per-hit allocations
+  private readonly _localHit = new THREE.Vector3();
+  private readonly _inverseRotation = new THREE.Quaternion();
+  private readonly _meshFlip = new THREE.Quaternion().setFromAxisAngle(
+    new THREE.Vector3(0, 1, 0),
+    MECH_CONSTANTS.MESH.rotationOffset.y
+  );
+  private readonly _yAxis = new THREE.Vector3(0, 1, 0);
+
+  init(): void {
+    EventBus.on('damage:request', this.onDamageRequest);
+    EventBus.on('damage:internal', this.onInternalDamage);
+  }
+
+  update(_dt: number): void {
+    // Event-driven, no per-frame work
+  }
+
+  private onDamageRequest = (
+    targetId: string,
+    amount: number,
+    hitPoint: THREE.Vector3,
+    sourceId?: string
+  ): void => {
+    this.applyDamage(targetId, amount, hitPoint, sourceId);
+  };
+
+  private onInternalDamage = (
+    targetId: string,
+    zone: keyof ArmorZones,
+    amount: number,
+    sourceId?: string
+  ): void => {
+    this.applyInternalDamage(targetId, zone, amount, sourceId);
+  };
+
+  /**
+   * Damage multiplier for a hit, reduced when shooter and target are friendly
+   */
+  private getFriendlyFireMultiplier(target: Entity, sourceId?: string): number {
+    if (!sourceId || sourceId === target.id) return 1;
+
+    const source = this.world.getEntity(sourceId);
+    if (!source) return 1;
+
+    return FactionComponent.relationBetween(source, target) === 'friendly'
+      ? FACTION_CONFIG.FRIENDLY_FIRE_MULTIPLIER
+      : 1;
+  }
+
+  /**
+   * Apply damage to the zone of the target that contains the hit point
+   */
+  private applyDamage(
+    targetId: string,
+    amount: number,
+    hitPoint: THREE.Vector3,
+    sourceId?: string
+  ): void {
+    const target = this.world.getEntity(targetId);
+    if (!target) return;
+
+    const health = target.getComponent(HealthComponent);
+    if (!health || health.isDestroyed()) return;
+
+    amount *= this.getFriendlyFireMultiplier(target, sourceId);
+    if (amount <= 0) return;
+
+    const zone = this.resolveHitZone(target, health, hitPoint);
+    this.damageZone(target, health, zone, amount, hitPoint, sourceId, false);
+  }
+
+  /**
+   * Apply damage directly to a zone's internal structure
+   */
+  private applyInternalDamage(
+    targetId: string,
+    zone: keyof ArmorZones,
+    amount: number,
+    sourceId?: string
+  ): void {
+    const target = this.world.getEntity(targetId);
+    if (!target) return;
+
+    const health = target.getComponent(HealthComponent);
+    const transform = target.getComponent(TransformComponent);
+    if (!health || !transform || health.isDestroyed() || amount <= 0) return;
+
+    // Destroyed zones pass the damage inward
+    const { transfer } = MECH_CONSTANTS.HIT_ZONES;
+    if (health.isZoneDestroyed(zone) && zone in transfer) {
+      zone = transfer[zone as keyof typeof transfer];
+    }
+
+    this.damageZone(
+      target,
+      health,
+      zone,
+      amount,
+      transform.position.clone(),
+      sourceId,
+      true
+    );
+  }
+
+  /**
+   * Damage a zone (through its armor, or straight to structure when
+   * internal), passing whatever it can't absorb inward to its transfer zone
+   */
+  private damageZone(
+    target: Entity,
+    health: HealthComponent,
+    zone: keyof ArmorZones,
+    amount: number,
+    hitPoint: THREE.Vector3,
+    sourceId: string | undefined,
+    internal: boolean
+  ): void {
+    const { transfer } = MECH_CONSTANTS.HIT_ZONES;
+
+    for (;;) {
+      const result = internal
+        ? health.takeInternalDamage(zone, amount)
+        : health.takeDamage(zone, amount);
+      const next =
+        result.overflow > 0 && zone in transfer
+          ? transfer[zone as keyof typeof transfer]
+          : undefined;
+
+      // Zones with nowhere to pass damage on are credited the whole hit
+      const taken = next ? amount - result.overflow : amount;
+      this.resolveDamage(
+        target,
+        health,
+        zone,
+        taken,
+        result,
+        hitPoint,
+        sourceId
+      );
+
+      if (!next || health.isDestroyed()) return;
+      zone = next;
+      amount = result.overflow;
+    }
+  }
+
+  /**
+   * Attribute damage already taken by a zone, then roll criticals and
+   * handle zone and entity destruction
+   */
+  private resolveDamage(
+    target: Entity,
+    health: HealthComponent,
+    zone: keyof ArmorZones,
+    amount: number,
+    result: DamageResult,
+    hitPoint: THREE.Vector3,
+    sourceId?: string
+  ): void {
+    const targetId = target.id;
+
+    if (sourceId && sourceId !== targetId) {
+      health.lastAttackerId = sourceId;
+      EventBus.emit('damage:dealt', amount, sourceId, targetId);
+    }
+
+    EventBus.emit('entity:damaged', targetId, amount, zone, hitPoint);
+    EventBus.emit('damage:taken', amount, targetId, sourceId);
+
+    const critical = target.getComponent(CriticalComponent);
+    if (critical && result.structureDamage > 0 && !result.zoneDestroyed) {
+      this.rollCritical(target, critical, zone, result.structureDamage);
+    }
+
+    const engineDestroyed =
+      (critical?.engineHits ?? 0) >= DAMAGE_CONFIG.ENGINE.maxHits;
+
+    if (health.isDestroyed() || engineDestroyed) {
+      health.destroy();
+      EventBus.emit(
+        'entity:destroyed',
+        targetId,
+        hitPoint,
+        health.lastAttackerId
+      );
+      // Mechs play out their destruction sequence before removal
+      if (!target.hasComponent(MechComponent)) {
+        this.world.removeEntity(targetId);
+      }
+    } else if (result.zoneDestroyed) {
+      // Zone was destroyed but entity survives
+      EventBus.emit('entity:zone_destroyed', targetId, zone, hitPoint);
+      this.destroyMountedWeapons(target, zone);
+      if (critical) {
+        this.destroyZoneComponents(target, critical, zone);
+      }
+    }
+  }
+
+  /**
+   * Knock out every weapon mounted in a destroyed zone
+   */
+  private destroyMountedWeapons(entity: Entity, zone: keyof ArmorZones): void {
+    const weapons = entity.getComponent(WeaponComponent);
+    if (!weapons) return;
+
+    for (const weapon of weapons.destroyZone(zone)) {
+      EventBus.emit('weapon:destroyed', entity.id, weapon.slot, zone);
+    }
+  }
+
+  /**
+   * Roll for a critical hit after structure damage and apply it
+   */
+  private rollCritical(
+    entity: Entity,
+    critical: CriticalComponent,
+    zone: keyof ArmorZones,
+    structureDamage: number
+  ): void {
+    const { base, perDamage, max } = DAMAGE_CONFIG.CRITICAL_CHANCE;
+    const chance = Math.min(max, base + structureDamage * perDamage);
+    if (Math.random() >= chance) return;
+
+    const slot = critical.pickIntactSlot(zone);
+    if (!slot) return;
+
+    const label = this.applyCritical(entity, critical, zone, slot);
+    critical.record(`${DAMAGE_CONFIG.ZONE_LABELS[zone]} ${label}`);
+
+    EventBus.emit(
+      'entity:critical_hit',
+      entity.id,
+      zone,
+      slot.kind,
+      slot.weaponSlot
+    );
+  }
+
+  /**
+   * Lose every remaining internal component in a destroyed zone
+   */
+  private destroyZoneComponents(
+    entity: Entity,
+    critical: CriticalComponent,
+    zone: keyof ArmorZones
+  ): void {
+    for (const slot of critical.slots[zone]) {
+      if (!slot.destroyed) {
+        this.applyCritical(entity, critical, zone, slot);
+      }
+    }
+    critical.record(`${DAMAGE_CONFIG.ZONE_LABELS[zone]} DESTROYED`);
+  }
+
+  /**
+   * Destroy a critical slot and apply its effect.
+   * Returns a short label for the HUD critical log.
+   */
+  private applyCritical(
+    entity: Entity,
+    critical: CriticalComponent,
+    zone: keyof ArmorZones,
+    slot: CriticalSlot
+  ): string {
+    slot.destroyed = true;
+
+    switch (slot.kind) {
+      case 'weapon': {
+        const weapons = entity.getComponent(WeaponComponent);
+        const weapon = weapons?.getWeapon(slot.weaponSlot!);
+        if (weapons?.destroyWeapon(slot.weaponSlot!)) {
+          EventBus.emit('weapon:destroyed', entity.id, slot.weaponSlot, zone);
+        }
+        const name = weapon
+          ? getWeaponEntry(weapon.config.type).name.toUpperCase()
+          : 'WEAPON';
+        return `${name} [${slot.weaponSlot}]`;
+      }
+
+      case 'heatSink': {
+        // Each heat sink carries an equal share of the mech's dissipation
+        const heat = entity.getComponent(HeatComponent);
+        const mech = entity.getComponent(MechComponent);
+        if (heat && mech && critical.heatSinkCount > 0) {
+          const perSink = mech.config.heatDissipation / critical.heatSinkCount;
+          heat.dissipationRate = Math.max(0, heat.dissipationRate - perSink);
+        }
+        return 'HEAT SINK';
+      }
+
+      case 'actuator': {
+        // Arm actuators slow the arm's weapons; leg actuators are read by MovementSystem
+        if (zone === 'leftArm' || zone === 'rightArm') {
+          const weapons = entity.getComponent(WeaponComponent);
+          for (const weapon of weapons?.weapons ?? []) {
+            if (weapon.zone === zone) {
+              weapon.config.cooldown *=
+                DAMAGE_CONFIG.ACTUATOR.armCooldownMultiplier;
+            }
+          }
+        }
+        return 'ACTUATOR';
+      }
+
+      case 'engine':
+        critical.engineHits++;
+        return `ENGINE ${critical.engineHits}/${DAMAGE_CONFIG.ENGINE.maxHits}`;
+    }
+  }
+
+  /**
+   * Resolve a world-space hit point to an armor zone.
+   * Non-mech entities (targets, turrets) only carry torso armor.
+   */
+  resolveHitZone(
+    entity: Entity,
+    health: HealthComponent,
+    hitPoint: THREE.Vector3
+  ): keyof ArmorZones {
+    const mech = entity.getComponent(MechComponent);
+    const transform = entity.getComponent(TransformComponent);
+    if (!mech || !transform) return 'torso';
+
+    const { HIT_ZONES } = MECH_CONSTANTS;
+    this._localHit.copy(hitPoint).sub(transform.position);
+    const localY = this._localHit.y;
+
+    let zone: keyof ArmorZones;
+
+    if (localY < HIT_ZONES.hipY) {
+      // Legs follow the leg (body) heading
+      this._inverseRotation
+        .setFromEuler(transform.rotation)
+        .multiply(this._meshFlip)
+        .invert();
+      this._localHit.applyQuaternion(this._inverseRotation);
+      zone = this._localHit.x < 0 ? 'leftLeg' : 'rightLeg';
+    } else {
+      // Upper body follows the torso heading (world yaw + mesh flip)
+      this._inverseRotation
+        .setFromAxisAngle(this._yAxis, mech.torsoYaw + Math.PI)
+        .invert();
+      this._localHit.applyQuaternion(this._inverseRotation);
+      const lateral = this._localHit.x;
+
+      if (
+        localY >= HIT_ZONES.headMinY &&
+        Math.abs(lateral) <= HIT_ZONES.headHalfWidth
+      ) {
+        zone = 'head';
+      } else if (Math.abs(lateral) >= HIT_ZONES.armMinX) {
+        zone = lateral < 0 ? 'leftArm' : 'rightArm';
+      } else {
+        zone = 'torso';
+      }
+    }
+
+    // Destroyed zones pass the damage inward
+    if (health.isZoneDestroyed(zone) && zone in HIT_ZONES.transfer) {
+      zone = HIT_ZONES.transfer[zone as keyof typeof HIT_ZONES.transfer];
+    }
+
+    return zone;
+  }
+
+  dispose(): void {
+    EventBus.off('damage:request', this.onDamageRequest);
+    EventBus.off('damage:internal', this.onInternalDamage);
+  }
+}
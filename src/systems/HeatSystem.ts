@@ -1,53 +1,204 @@
+import * as THREE from 'three';
 import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
 import { HeatComponent } from '../components/HeatComponent';
+import { CriticalComponent } from '../components/CriticalComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { InputComponent } from '../components/InputComponent';
+import { WeaponComponent } from '../components/WeaponComponent';
+import { TransformComponent } from '../components/TransformComponent';
 import { EventBus } from '../core/EventBus';
-import { HEAT_CONFIG } from '../config/HeatConfig';
+import {
+  HEAT_CONFIG,
+  getAmbientDissipationMultiplier,
+} from '../config/HeatConfig';
+import { DAMAGE_CONFIG } from '../config/DamageConfig';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import type { MapSystem } from './MapSystem';
 
 /**
  * Heat system manages heat dissipation and overheat states.
+ * - The map's ambient temperature scales dissipation (HEAT_CONFIG.AMBIENT)
+ * - Water and lava regions cool or heat mechs standing in them
+ * - Shuts the reactor down at the shutdown threshold (heat:overheat) and
+ *   restarts it once cooled or when the pilot engages the override (heat:cooldown)
+ * - With the override engaged, running past the threshold deals internal
+ *   torso damage (heat:override_damage, damage:internal)
+ * - Loaded ammo can cook off in the HEAT_CONFIG.AMMO_COOKOFF band
+ *   (heat:ammo_explosion, weapon:destroyed, damage:internal)
+ * - Reports stage changes (heat:stage) and the first step into the warning
+ *   range (heat:warning)
  */
 export class HeatSystem extends System {
   readonly requiredComponents: ComponentClass[] = [HeatComponent];
 
+  private mapSystem: MapSystem;
+
+  constructor(mapSystem: MapSystem) {
+    super();
+    this.mapSystem = mapSystem;
+  }
+
   update(dt: number): void {
+    // Read every tick: mission triggers can change the environment mid-game
+    const ambientMultiplier = getAmbientDissipationMultiplier(
+      this.mapSystem.getAmbientTemperature()
+    );
+
     for (const entity of this.getEntities()) {
       const heat = entity.getComponent(HeatComponent)!;
+      const critical = entity.getComponent(CriticalComponent);
 
-      // Dissipate heat
-      if (heat.current > 0) {
-        heat.current = Math.max(0, heat.current - heat.dissipationRate * dt);
+      // Wrecks no longer run a reactor
+      if (entity.getComponent(HealthComponent)?.isDestroyed()) continue;
+
+      // Engine criticals leak heat continuously
+      if (critical && critical.engineHits > 0) {
+        const engineHeat =
+          critical.engineHits * DAMAGE_CONFIG.ENGINE.heatPerHitPerSecond * dt;
+        heat.current = Math.min(heat.max, heat.current + engineHeat);
       }
 
-      // Check for recovery from overheat (using centralized config)
-      if (
-        heat.isOverheated &&
-        heat.current < heat.max * HEAT_CONFIG.RECOVERY_THRESHOLD
-      ) {
-        heat.isOverheated = false;
-        heat.warningTriggered = false;
-        EventBus.emit('heat:cooldown', entity.id);
+      // Water pools cool, lava fields heat
+      const transform = entity.getComponent(TransformComponent);
+      const region =
+        transform &&
+        this.mapSystem.getHeatRegionAt(
+          transform.position.x,
+          transform.position.z
+        );
+      if (region) {
+        const regionHeat =
+          region.heatPerSecond ?? HEAT_CONFIG.TERRAIN_REGION_HEAT[region.type];
+        heat.current = THREE.MathUtils.clamp(
+          heat.current + regionHeat * dt,
+          0,
+          heat.max
+        );
       }
 
-      // Check for warning threshold
-      if (heat.isWarning() && !heat.isOverheated) {
-        if (!heat.warningTriggered) {
-          heat.warningTriggered = true;
-          EventBus.emit(
-            'heat:warning',
-            entity.id,
-            heat.getHeatPercentage() / 100
-          );
+      // Dissipate heat (scaled by ambient temperature)
+      if (heat.current > 0) {
+        heat.current = Math.max(
+          0,
+          heat.current - heat.dissipationRate * ambientMultiplier * dt
+        );
+      }
+
+      heat.overrideEngaged =
+        entity.getComponent(InputComponent)?.lastInput?.shutdownOverride ??
+        false;
+
+      if (heat.isOverheated) {
+        // Restart once cooled, or right away on override
+        if (
+          heat.overrideEngaged ||
+          heat.current < heat.max * HEAT_CONFIG.RECOVERY_THRESHOLD
+        ) {
+          heat.isOverheated = false;
+          EventBus.emit('heat:cooldown', entity.id);
+        }
+      } else if (heat.current >= heat.shutdownThreshold) {
+        if (heat.overrideEngaged) {
+          this.applyOverrideDamage(entity, heat, dt);
+        } else {
+          heat.isOverheated = true;
+          EventBus.emit('heat:overheat', entity.id);
         }
-      } else {
-        heat.warningTriggered = false;
       }
 
-      // Check for overheat
-      if (heat.current >= heat.shutdownThreshold && !heat.isOverheated) {
-        heat.isOverheated = true;
-        EventBus.emit('heat:overheat', entity.id);
+      if (heat.current < heat.shutdownThreshold) {
+        heat.overrideDamageTimer = HEAT_CONFIG.OVERRIDE.damageInterval;
       }
+
+      this.rollAmmoCookoff(entity, heat, critical, dt);
+      this.updateStage(entity, heat);
+    }
+  }
+
+  /**
+   * Pulse internal torso damage while running past the shutdown threshold
+   */
+  private applyOverrideDamage(
+    entity: Entity,
+    heat: HeatComponent,
+    dt: number
+  ): void {
+    heat.overrideDamageTimer -= dt;
+    if (heat.overrideDamageTimer > 0) return;
+
+    heat.overrideDamageTimer = HEAT_CONFIG.OVERRIDE.damageInterval;
+    EventBus.emit('heat:override_damage', entity.id);
+    EventBus.emit(
+      'damage:internal',
+      entity.id,
+      'torso',
+      HEAT_CONFIG.OVERRIDE.damage
+    );
+  }
+
+  /**
+   * Give each loaded weapon a chance to explode, rising through the cook-off band
+   */
+  private rollAmmoCookoff(
+    entity: Entity,
+    heat: HeatComponent,
+    critical: CriticalComponent | undefined,
+    dt: number
+  ): void {
+    const { threshold, minChancePerSecond, maxChancePerSecond, damage } =
+      HEAT_CONFIG.AMMO_COOKOFF;
+    const heatLevel = heat.current / heat.max;
+    if (heatLevel < threshold) return;
+
+    const weapons = entity.getComponent(WeaponComponent);
+    if (!weapons) return;
+
+    const t = Math.min(
+      1,
+      (heatLevel - threshold) / (HEAT_CONFIG.SHUTDOWN_THRESHOLD - threshold)
+    );
+    const chance =
+      (minChancePerSecond + (maxChancePerSecond - minChancePerSecond) * t) * dt;
+
+    for (const weapon of weapons.weapons) {
+      if (weapon.destroyed || !weapon.ammo) continue;
+      if (Math.random() >= chance) continue;
+
+      weapon.ammo = 0;
+      weapons.destroyWeapon(weapon.slot);
+
+      const slot = critical?.slots[weapon.zone].find(
+        (s) => s.kind === 'weapon' && s.weaponSlot === weapon.slot
+      );
+      if (slot) slot.destroyed = true;
+      critical?.record(
+        `${DAMAGE_CONFIG.ZONE_LABELS[weapon.zone]} ${getWeaponEntry(weapon.config.type).name.toUpperCase()} AMMO EXPLOSION`
+      );
+
+      EventBus.emit('weapon:destroyed', entity.id, weapon.slot, weapon.zone);
+      EventBus.emit('heat:ammo_explosion', entity.id, weapon.slot, weapon.zone);
+      EventBus.emit('damage:internal', entity.id, weapon.zone, damage);
+
+      // The explosion may have finished the mech off
+      if (entity.getComponent(HealthComponent)?.isDestroyed()) return;
+    }
+  }
+
+  /**
+   * Report heat stage changes
+   */
+  private updateStage(entity: Entity, heat: HeatComponent): void {
+    const stage = heat.getStage();
+    if (stage === heat.stage) return;
+
+    const previous = heat.stage;
+    heat.stage = stage;
+    EventBus.emit('heat:stage', entity.id, stage, previous);
+
+    if (previous === 'normal' && stage !== 'shutdown') {
+      EventBus.emit('heat:warning', entity.id, heat.getHeatPercentage() / 100);
     }
   }
 }
@@ -11,6 +11,9 @@ export class InputSystem extends System {
 
   private inputManager: InputManager;
 
+  // Fed to disabled entities so they stop moving and firing
+  private readonly idleSnapshot = InputComponent.createEmptySnapshot();
+
   constructor(inputManager: InputManager) {
     super();
     this.inputManager = inputManager;
@@ -25,7 +28,7 @@ export class InputSystem extends System {
     for (const entity of this.getEntities()) {
       const input = entity.getComponent(InputComponent)!;
       if (input.isLocalPlayer) {
-        input.lastInput = snapshot;
+        input.lastInput = input.enabled ? snapshot : this.idleSnapshot;
       }
     }
   }
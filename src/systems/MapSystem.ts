@@ -2,11 +2,30 @@ import * as THREE from 'three';
 import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
-import type { MapConfig, ObstacleConfig } from '../config/maps/MapConfig';
+import { EventBus } from '../core/EventBus';
+import type {
+  HeatRegionConfig,
+  HeatRegionType,
+  MapConfig,
+  MapEnvironment,
+  MapEnvironmentChange,
+  ObstacleConfig,
+} from '../config/maps/MapConfig';
+import { NavGrid } from '../navigation/NavGrid';
+import { NAVIGATION_CONFIG } from '../config/NavigationConfig';
+import { HEAT_CONFIG } from '../config/HeatConfig';
+
+/** Surface color for each heat region type */
+const HEAT_REGION_COLORS: Record<HeatRegionType, number> = {
+  water: 0x2a6f97,
+  lava: 0xff4400,
+};
 
 /**
  * MapSystem creates and manages the game environment based on a MapConfig.
- * Handles terrain, obstacles, lighting updates, and physics colliders.
+ * Handles terrain, obstacles, heat regions, lighting updates, physics
+ * colliders, and the navigation grid used by AI pathfinding.
+ * HeatSystem reads the ambient temperature and heat regions from here.
  */
 export class MapSystem extends System {
   readonly requiredComponents: ComponentClass[] = [];
@@ -16,10 +35,18 @@ export class MapSystem extends System {
   private mapConfig: MapConfig;
   private initialized: boolean = false;
 
+  // Current environment (mission triggers can change it mid-game)
+  private environment: MapEnvironment;
+  private ambientLight: THREE.AmbientLight | null = null;
+  private directionalLight: THREE.DirectionalLight | null = null;
+
   // Track created objects for potential cleanup
   private createdMeshes: THREE.Object3D[] = [];
   private obstacleCount: number = 0;
 
+  // Walkable grid, filled in as obstacles are created
+  private navGrid: NavGrid;
+
   constructor(
     scene: THREE.Scene,
     physicsWorld: PhysicsWorld,
@@ -29,8 +56,43 @@ export class MapSystem extends System {
     this.scene = scene;
     this.physicsWorld = physicsWorld;
     this.mapConfig = mapConfig;
+    this.environment = {
+      ...mapConfig.environment,
+      lighting: { ...mapConfig.environment.lighting },
+    };
+    this.navGrid = new NavGrid(
+      mapConfig.terrain.size,
+      NAVIGATION_CONFIG.CELL_SIZE,
+      NAVIGATION_CONFIG.AGENT_RADIUS
+    );
+  }
+
+  init(): void {
+    EventBus.on('environment:change', this.onEnvironmentChange);
+  }
+
+  /**
+   * Hand over the scene lights so environment changes can retune them
+   */
+  setLights(
+    ambient: THREE.AmbientLight,
+    directional: THREE.DirectionalLight
+  ): void {
+    this.ambientLight = ambient;
+    this.directionalLight = directional;
   }
 
+  private onEnvironmentChange = (change: MapEnvironmentChange): void => {
+    this.environment = {
+      ...this.environment,
+      ...change,
+      lighting: { ...this.environment.lighting, ...change.lighting },
+    };
+    if (this.initialized) {
+      this.applyEnvironment();
+    }
+  };
+
   update(_dt: number): void {
     if (!this.initialized) {
       this.createMap();
@@ -44,6 +106,8 @@ export class MapSystem extends System {
   private createMap(): void {
     this.createTerrain();
     this.createObstacles();
+    this.createHeatRegions();
+    this.navGrid.markBuilt();
 
     if (this.mapConfig.terrain.showDebugMarkers) {
       this.createDebugMarkers();
@@ -130,6 +194,7 @@ export class MapSystem extends System {
    */
   private createObstacle(config: ObstacleConfig): void {
     const obstacleId = `obstacle-${this.obstacleCount++}`;
+    this.navGrid.addObstacle(config);
     let mesh: THREE.Mesh;
     let geometry: THREE.BufferGeometry;
 
@@ -221,10 +286,37 @@ export class MapSystem extends System {
   }
 
   /**
-   * Apply environment settings (sky, fog)
+   * Create flat surface patches for water pools and lava fields
+   */
+  private createHeatRegions(): void {
+    for (const region of this.mapConfig.heatRegions ?? []) {
+      const geometry = new THREE.CircleGeometry(region.radius, 48);
+      geometry.rotateX(-Math.PI / 2);
+
+      const color = HEAT_REGION_COLORS[region.type];
+      const material = new THREE.MeshStandardMaterial({
+        color,
+        emissive: region.type === 'lava' ? color : 0x000000,
+        emissiveIntensity: 0.6,
+        roughness: region.type === 'water' ? 0.2 : 0.9,
+        metalness: 0.0,
+        transparent: region.type === 'water',
+        opacity: region.type === 'water' ? 0.8 : 1,
+      });
+
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.position.set(region.position.x, 0.04, region.position.z);
+      mesh.receiveShadow = true;
+      this.scene.add(mesh);
+      this.createdMeshes.push(mesh);
+    }
+  }
+
+  /**
+   * Apply environment settings (sky, fog, lights)
    */
   private applyEnvironment(): void {
-    const { environment } = this.mapConfig;
+    const { environment } = this;
 
     // Sky color
     this.scene.background = new THREE.Color(environment.skyColor);
@@ -241,6 +333,22 @@ export class MapSystem extends System {
     } else {
       this.scene.fog = null;
     }
+
+    // Lights
+    const { lighting } = environment;
+    if (this.ambientLight) {
+      this.ambientLight.color.setHex(lighting.ambientColor);
+      this.ambientLight.intensity = lighting.ambientIntensity;
+    }
+    if (this.directionalLight) {
+      this.directionalLight.color.setHex(lighting.directionalColor);
+      this.directionalLight.intensity = lighting.directionalIntensity;
+      this.directionalLight.position.set(
+        lighting.sunPosition.x,
+        lighting.sunPosition.y,
+        lighting.sunPosition.z
+      );
+    }
   }
 
   /**
@@ -527,6 +635,34 @@ export class MapSystem extends System {
     return this.mapConfig;
   }
 
+  /**
+   * Get the navigation grid for pathfinding
+   */
+  getNavGrid(): NavGrid {
+    return this.navGrid;
+  }
+
+  /**
+   * Current ambient temperature in °C
+   */
+  getAmbientTemperature(): number {
+    return (
+      this.environment.ambientTemperature ??
+      HEAT_CONFIG.AMBIENT.referenceTemperature
+    );
+  }
+
+  /**
+   * Heat region containing a position, or undefined if none
+   */
+  getHeatRegionAt(x: number, z: number): HeatRegionConfig | undefined {
+    return this.mapConfig.heatRegions?.find((region) => {
+      const dx = x - region.position.x;
+      const dz = z - region.position.z;
+      return dx * dx + dz * dz <= region.radius * region.radius;
+    });
+  }
+
   /**
    * Get terrain height at a position (always 0 for flat terrain)
    */
@@ -541,4 +677,8 @@ export class MapSystem extends System {
   getSeed(): number {
     return 0;
   }
+
+  dispose(): void {
+    EventBus.off('environment:change', this.onEnvironmentChange);
+  }
 }
@@ -3,6 +3,7 @@ import type { ComponentClass } from '../core/Component';
 import { MechComponent } from '../components/MechComponent';
 import { PhysicsComponent } from '../components/PhysicsComponent';
 import { RenderComponent } from '../components/RenderComponent';
+import { HealthComponent } from '../components/HealthComponent';
 import { EventBus } from '../core/EventBus';
 import { ANIMATION_CONFIG } from '../config/AnimationConfig';
 
@@ -21,11 +22,24 @@ export class MechAnimationSystem extends System {
       const mech = entity.getComponent(MechComponent)!;
       const physics = entity.getComponent(PhysicsComponent)!;
       const render = entity.getComponent(RenderComponent)!;
+      const health = entity.getComponent(HealthComponent);
 
       // Check if render has an animatable model
       const model = render.model;
       if (!model?.animateWalk) continue;
 
+      // Wrecks are posed by MechDestructionSystem
+      if (health?.isDestroyed()) continue;
+
+      // Destroyed leg switches the walk cycle to a limp
+      if (health?.isZoneDestroyed('leftLeg')) {
+        model.setLimp?.('left');
+      } else if (health?.isZoneDestroyed('rightLeg')) {
+        model.setLimp?.('right');
+      } else {
+        model.setLimp?.(null);
+      }
+
       // Calculate normalized speed
       const speed = physics.getHorizontalSpeed() / mech.config.maxSpeed;
 
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { MechComponent } from '../components/MechComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import { InputComponent } from '../components/InputComponent';
+import { RenderComponent } from '../components/RenderComponent';
+import { EventBus } from '../core/EventBus';
+import { DAMAGE_CONFIG } from '../config/DamageConfig';
+
+/** Progress of a single mech's destruction sequence */
+interface WreckState {
+  elapsed: number;
+  exploded: boolean;
+  finished: boolean;
+  killerId: string | null;
+  isPlayer: boolean;
+}
+
+/** Active reactor explosion visual */
+interface Explosion {
+  mesh: THREE.Mesh;
+  light: THREE.PointLight;
+  elapsed: number;
+}
+
+/**
+ * MechDestructionSystem runs the death sequence once a mech's
+ * HealthComponent reports destroyed:
+ * - Emits mech:destroyed (with killer attribution) and disables the pilot's input
+ * - Collapses the model and detonates the reactor (mech:exploded)
+ * - Player: emits player:destroyed once the death camera has played (defeat)
+ * - AI: removes the wreck after DAMAGE_CONFIG.DESTRUCTION.wreckDuration
+ */
+export class MechDestructionSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [
+    MechComponent,
+    HealthComponent,
+    TransformComponent,
+  ];
+
+  private scene: THREE.Scene;
+  private wrecks: Map<string, WreckState> = new Map();
+  private explosions: Explosion[] = [];
+
+  constructor(scene: THREE.Scene) {
+    super();
+    this.scene = scene;
+  }
+
+  update(dt: number): void {
+    for (const entity of this.getEntities()) {
+      const health = entity.getComponent(HealthComponent)!;
+      if (!health.isDestroyed()) continue;
+
+      const wreck =
+        this.wrecks.get(entity.id) ?? this.beginDestruction(entity, health);
+      this.advanceWreck(entity, wreck, dt);
+    }
+
+    this.updateExplosions(dt);
+  }
+
+  onEntityRemoved(entity: Entity): void {
+    this.wrecks.delete(entity.id);
+  }
+
+  /**
+   * Start the sequence: attribute the kill and cut the pilot's controls
+   */
+  private beginDestruction(
+    entity: Entity,
+    health: HealthComponent
+  ): WreckState {
+    const input = entity.getComponent(InputComponent);
+    if (input) {
+      input.enabled = false;
+    }
+
+    const wreck: WreckState = {
+      elapsed: 0,
+      exploded: false,
+      finished: false,
+      killerId: health.lastAttackerId,
+      isPlayer: input?.isLocalPlayer ?? false,
+    };
+    this.wrecks.set(entity.id, wreck);
+
+    EventBus.emit('mech:destroyed', entity.id, wreck.killerId);
+
+    return wreck;
+  }
+
+  /**
+   * Collapse, explode, then hand off to defeat (player) or clean up (AI)
+   */
+  private advanceWreck(entity: Entity, wreck: WreckState, dt: number): void {
+    const {
+      collapseDuration,
+      explosionDelay,
+      deathCameraDuration,
+      wreckDuration,
+    } = DAMAGE_CONFIG.DESTRUCTION;
+
+    wreck.elapsed += dt;
+
+    // Ease-in collapse - the mech sags, then falls faster
+    const t = Math.min(1, wreck.elapsed / collapseDuration);
+    const render = entity.getComponent(RenderComponent);
+    render?.model?.setCollapse?.(t * t);
+
+    if (!wreck.exploded && wreck.elapsed >= explosionDelay) {
+      wreck.exploded = true;
+      const position = entity.getComponent(TransformComponent)!.position;
+      this.spawnExplosion(position);
+      EventBus.emit('mech:exploded', entity.id, position.clone());
+    }
+
+    if (wreck.finished) return;
+
+    if (wreck.isPlayer && wreck.elapsed >= deathCameraDuration) {
+      wreck.finished = true;
+      EventBus.emit('player:destroyed', entity.id, wreck.killerId);
+    } else if (!wreck.isPlayer && wreck.elapsed >= wreckDuration) {
+      wreck.finished = true;
+      this.world.removeEntity(entity.id);
+    }
+  }
+
+  /**
+   * Expanding fireball with a flash of light
+   */
+  private spawnExplosion(position: THREE.Vector3): void {
+    const { color, lightIntensity, offsetY } = DAMAGE_CONFIG.EXPLOSION;
+
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 12, 8),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: 1,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+      })
+    );
+    mesh.position.copy(position);
+    mesh.position.y += offsetY;
+
+    const light = new THREE.PointLight(color, lightIntensity, 60);
+    light.position.copy(mesh.position);
+
+    this.scene.add(mesh);
+    this.scene.add(light);
+    this.explosions.push({ mesh, light, elapsed: 0 });
+  }
+
+  private updateExplosions(dt: number): void {
+    const { radius, duration, lightIntensity } = DAMAGE_CONFIG.EXPLOSION;
+
+    for (let i = this.explosions.length - 1; i >= 0; i--) {
+      const explosion = this.explosions[i];
+      explosion.elapsed += dt;
+
+      const t = Math.min(1, explosion.elapsed / duration);
+      const fade = 1 - t;
+
+      explosion.mesh.scale.setScalar(1 + (radius - 1) * Math.sqrt(t));
+      (explosion.mesh.material as THREE.MeshBasicMaterial).opacity = fade;
+      explosion.light.intensity = lightIntensity * fade * fade;
+
+      if (t >= 1) {
+        this.disposeExplosion(explosion);
+        this.explosions.splice(i, 1);
+      }
+    }
+  }
+
+  private disposeExplosion(explosion: Explosion): void {
+    this.scene.remove(explosion.mesh);
+    this.scene.remove(explosion.light);
+    explosion.mesh.geometry.dispose();
+    (explosion.mesh.material as THREE.Material).dispose();
+  }
+
+  dispose(): void {
+    for (const explosion of this.explosions) {
+      this.disposeExplosion(explosion);
+    }
+    this.explosions = [];
+    this.wrecks.clear();
+  }
+}
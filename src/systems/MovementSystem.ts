@@ -5,8 +5,20 @@ import { InputComponent } from '../components/InputComponent';
 import { MechComponent } from '../components/MechComponent';
 import { PhysicsComponent } from '../components/PhysicsComponent';
 import { TransformComponent } from '../components/TransformComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { CriticalComponent } from '../components/CriticalComponent';
+import { HeatComponent } from '../components/HeatComponent';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
 import { PHYSICS_CONFIG } from '../config/PhysicsConfig';
+import { MECH_CONSTANTS } from '../config/MechConfigs';
+import { DAMAGE_CONFIG } from '../config/DamageConfig';
+import { getHeatMobilityMultiplier } from '../config/HeatConfig';
+
+/** Effective locomotion limits after damage penalties */
+interface MobilityLimits {
+  maxSpeed: number;
+  turnRate: number;
+}
 
 /**
  * Movement system handles mech locomotion with tank controls.
@@ -14,6 +26,10 @@ import { PHYSICS_CONFIG } from '../config/PhysicsConfig';
  * - A/D: Turn legs left/right
  * - Uses direct velocity control for responsive movement
  * - All config read from MechComponent.config (single source of truth)
+ * - Destroyed legs cap speed and turn rate (MECH_CONSTANTS.LEG_LOSS)
+ * - Leg actuator criticals reduce them further (DAMAGE_CONFIG.ACTUATOR)
+ * - Rising heat slows the mech (HEAT_CONFIG.MOVEMENT_PENALTY); a shut-down
+ *   reactor ignores input and coasts to a stop
  */
 export class MovementSystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -24,6 +40,7 @@ export class MovementSystem extends System {
   ];
 
   private physicsWorld: PhysicsWorld;
+  private readonly idleSnapshot = InputComponent.createEmptySnapshot();
 
   constructor(physicsWorld: PhysicsWorld) {
     super();
@@ -36,8 +53,12 @@ export class MovementSystem extends System {
       const mech = entity.getComponent(MechComponent)!;
       const physics = entity.getComponent(PhysicsComponent)!;
       const transform = entity.getComponent(TransformComponent)!;
+      const health = entity.getComponent(HealthComponent);
+      const critical = entity.getComponent(CriticalComponent);
+      const heat = entity.getComponent(HeatComponent);
 
       if (!input.lastInput) continue;
+      const snapshot = heat?.isOverheated ? this.idleSnapshot : input.lastInput;
 
       // Store previous transform for interpolation
       transform.storePrevious();
@@ -45,17 +66,65 @@ export class MovementSystem extends System {
       const body = this.physicsWorld.getBody(physics.bodyId);
       if (!body) continue;
 
+      const limits = this.getMobilityLimits(mech, health, critical, heat);
+
       // Handle turning (A/D keys rotate the physics body)
-      this.handleTurning(input.lastInput, mech, body, dt);
+      this.handleTurning(snapshot, limits, body, dt);
 
       // Handle forward/backward movement
-      this.handleMovement(input.lastInput, mech, physics, body, dt);
+      this.handleMovement(snapshot, limits, physics, body, dt);
     }
   }
 
+  /**
+   * Get speed and turn rate caps, reduced for destroyed legs, leg actuators and heat
+   */
+  private getMobilityLimits(
+    mech: MechComponent,
+    health: HealthComponent | undefined,
+    critical: CriticalComponent | undefined,
+    heat: HeatComponent | undefined
+  ): MobilityLimits {
+    let { maxSpeed, turnRate } = mech.config;
+
+    if (health) {
+      const legsLost =
+        (health.isZoneDestroyed('leftLeg') ? 1 : 0) +
+        (health.isZoneDestroyed('rightLeg') ? 1 : 0);
+      if (legsLost > 0) {
+        const { LEG_LOSS } = MECH_CONSTANTS;
+        const penalty = legsLost === 2 ? LEG_LOSS.bothLegs : LEG_LOSS.oneLeg;
+        maxSpeed *= penalty.speedMultiplier;
+        turnRate *= penalty.turnRateMultiplier;
+      }
+    }
+
+    if (critical) {
+      // Actuators in a destroyed leg are already covered by LEG_LOSS
+      let actuatorsLost = 0;
+      for (const leg of ['leftLeg', 'rightLeg'] as const) {
+        if (!health?.isZoneDestroyed(leg)) {
+          actuatorsLost += critical.countDestroyed(leg, 'actuator');
+        }
+      }
+      const { legSpeedMultiplier, legTurnRateMultiplier } =
+        DAMAGE_CONFIG.ACTUATOR;
+      maxSpeed *= Math.pow(legSpeedMultiplier, actuatorsLost);
+      turnRate *= Math.pow(legTurnRateMultiplier, actuatorsLost);
+    }
+
+    if (heat) {
+      const heatMultiplier = getHeatMobilityMultiplier(heat.current / heat.max);
+      maxSpeed *= heatMultiplier;
+      turnRate *= heatMultiplier;
+    }
+
+    return { maxSpeed, turnRate };
+  }
+
   private handleTurning(
     input: { turnLeft: boolean; turnRight: boolean },
-    mech: MechComponent,
+    limits: MobilityLimits,
     body: import('@dimforge/rapier3d').RigidBody,
     dt: number
   ): void {
@@ -66,8 +135,8 @@ export class MovementSystem extends System {
 
     if (turnInput === 0) return;
 
-    // Get turn rate from config (single source of truth)
-    const { turnRate } = mech.config;
+    // Turn rate from config, capped by leg damage
+    const { turnRate } = limits;
     const turnDelta = turnInput * turnRate * dt;
 
     // Get current rotation and apply turn
@@ -91,7 +160,7 @@ export class MovementSystem extends System {
 
   private handleMovement(
     input: { forward: boolean; backward: boolean },
-    mech: MechComponent,
+    limits: MobilityLimits,
     physics: PhysicsComponent,
     body: import('@dimforge/rapier3d').RigidBody,
     dt: number
@@ -101,8 +170,8 @@ export class MovementSystem extends System {
     if (input.forward) forwardInput += 1;
     if (input.backward) forwardInput -= 1;
 
-    // Get config from single source of truth
-    const { maxSpeed } = mech.config;
+    // Max speed from config, capped by leg damage
+    const { maxSpeed } = limits;
 
     // Get current velocity
     const currentVel = body.linvel();
@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { MechComponent } from '../components/MechComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import type { NavGrid } from '../navigation/NavGrid';
+import { NAVIGATION_CONFIG } from '../config/NavigationConfig';
+
+/**
+ * NavigationSystem keeps the navigation grid in sync with moving mechs:
+ * - Each mech claims the cells around it so other AI paths route around it
+ * - N toggles a debug overlay showing walkable, blocked and mech-occupied cells
+ */
+export class NavigationSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [
+    MechComponent,
+    TransformComponent,
+  ];
+
+  private scene: THREE.Scene;
+  private navGrid: NavGrid;
+
+  // Debug overlay
+  private overlay: THREE.Mesh | null = null;
+  private overlayTexture: THREE.DataTexture | null = null;
+  private overlayVisible: boolean = false;
+
+  constructor(scene: THREE.Scene, navGrid: NavGrid) {
+    super();
+    this.scene = scene;
+    this.navGrid = navGrid;
+  }
+
+  init(): void {
+    // Setup key listener for overlay toggle
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code === NAVIGATION_CONFIG.DEBUG.toggleKey) {
+      this.toggleOverlay();
+    }
+  };
+
+  update(_dt: number): void {
+    for (const entity of this.getEntities()) {
+      const transform = entity.getComponent(TransformComponent)!;
+      this.navGrid.setBlocker(
+        entity.id,
+        transform.position.x,
+        transform.position.z,
+        NAVIGATION_CONFIG.MECH_BLOCK_RADIUS
+      );
+    }
+
+    if (this.overlayVisible) {
+      this.refreshOverlay();
+    }
+  }
+
+  onEntityRemoved(entity: Entity): void {
+    this.navGrid.clearBlocker(entity.id);
+  }
+
+  /**
+   * Show or hide the navigation debug overlay
+   */
+  toggleOverlay(): void {
+    this.overlayVisible = !this.overlayVisible;
+
+    if (!this.overlay) {
+      this.createOverlay();
+    }
+    this.overlay!.visible = this.overlayVisible;
+
+    if (this.overlayVisible) {
+      this.refreshOverlay();
+    }
+  }
+
+  isOverlayVisible(): boolean {
+    return this.overlayVisible;
+  }
+
+  /**
+   * Ground-hugging plane textured with one pixel per grid cell
+   */
+  private createOverlay(): void {
+    const { cols, rows, cellSize, originX, originZ } = this.navGrid;
+    const width = cols * cellSize;
+    const depth = rows * cellSize;
+
+    const data = new Uint8Array(cols * rows * 4);
+    this.overlayTexture = new THREE.DataTexture(data, cols, rows);
+    this.overlayTexture.magFilter = THREE.NearestFilter;
+    this.overlayTexture.minFilter = THREE.NearestFilter;
+
+    const geometry = new THREE.PlaneGeometry(width, depth);
+    // Lay flat with texture rows running along +Z
+    geometry.rotateX(Math.PI / 2);
+
+    const material = new THREE.MeshBasicMaterial({
+      map: this.overlayTexture,
+      transparent: true,
+      opacity: NAVIGATION_CONFIG.DEBUG.opacity,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+
+    this.overlay = new THREE.Mesh(geometry, material);
+    this.overlay.position.set(
+      originX + width / 2,
+      NAVIGATION_CONFIG.DEBUG.height,
+      originZ + depth / 2
+    );
+    this.scene.add(this.overlay);
+  }
+
+  /**
+   * Repaint the overlay from the current grid state
+   */
+  private refreshOverlay(): void {
+    if (!this.overlayTexture) return;
+
+    const { walkableColor, blockedColor, dynamicColor } =
+      NAVIGATION_CONFIG.DEBUG;
+    const data = this.overlayTexture.image.data as Uint8Array;
+    const cellCount = this.navGrid.cols * this.navGrid.rows;
+
+    for (let i = 0; i < cellCount; i++) {
+      const color = this.navGrid.isStaticBlocked(i)
+        ? blockedColor
+        : this.navGrid.isDynamicBlocked(i)
+          ? dynamicColor
+          : walkableColor;
+
+      data[i * 4] = color[0];
+      data[i * 4 + 1] = color[1];
+      data[i * 4 + 2] = color[2];
+      data[i * 4 + 3] = 255;
+    }
+
+    this.overlayTexture.needsUpdate = true;
+  }
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+
+    if (this.overlay) {
+      this.scene.remove(this.overlay);
+      this.overlay.geometry.dispose();
+      (this.overlay.material as THREE.Material).dispose();
+      this.overlayTexture?.dispose();
+      this.overlay = null;
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import { EventBus } from '../core/EventBus';
+import { TransformComponent } from '../components/TransformComponent';
+import { InputComponent } from '../components/InputComponent';
+import { PickupComponent } from '../components/PickupComponent';
+import type { MapSystem } from './MapSystem';
+import type { ObjectiveState } from '../config/missions/MissionConfig';
+import { OBJECTIVE_MARKER_CONFIG } from '../config/ObjectiveMarkerConfig';
+
+/** Objective types that get world markers and HUD waypoints */
+export type WaypointKind = 'reach' | 'protect' | 'collect';
+
+/** A waypoint projected to the screen for the HUD */
+export interface ObjectiveWaypoint {
+  /** Screen X (0-1), pinned to the edge when off-screen */
+  x: number;
+  /** Screen Y (0-1), pinned to the edge when off-screen */
+  y: number;
+  /** Distance from the player (meters) */
+  distance: number;
+  kind: WaypointKind;
+  onScreen: boolean;
+}
+
+/**
+ * ObjectiveMarkerSystem shows where active objectives are:
+ * - Reach: a light column over a ground ring at the zone
+ * - Protect: a ring under each protected entity
+ * - Collect: pickups render themselves; only waypoints are added
+ * Markers hide once their objective completes or fails. Waypoints are
+ * projected every frame for the HUD (see getWaypoints).
+ */
+export class ObjectiveMarkerSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [];
+
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private mapSystem: MapSystem;
+
+  private objectives: Map<string, ObjectiveState> = new Map();
+  private reachMarkers: Map<string, THREE.Group> = new Map();
+  /** Protect rings keyed by protected entity ID */
+  private protectMarkers: Map<string, THREE.Mesh> = new Map();
+  private waypoints: ObjectiveWaypoint[] = [];
+  private time: number = 0;
+
+  // Reusable objects to avoid per-frame allocations
+  private readonly _worldPos = new THREE.Vector3();
+  private readonly _screenPos = new THREE.Vector3();
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    mapSystem: MapSystem
+  ) {
+    super();
+    this.scene = scene;
+    this.camera = camera;
+    this.mapSystem = mapSystem;
+  }
+
+  init(): void {
+    EventBus.on('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.on('objective:updated', this.onObjectiveUpdated);
+    EventBus.on('objective:added', this.onObjectiveAdded);
+  }
+
+  private onObjectivesInitialized = (states: ObjectiveState[]): void => {
+    this.clearMarkers();
+    for (const state of states) {
+      this.onObjectiveAdded(state);
+    }
+  };
+
+  private onObjectiveAdded = (state: ObjectiveState): void => {
+    this.objectives.set(state.config.id, state);
+
+    if (state.config.type === 'reach' && state.config.position) {
+      const marker = this.createReachMarker(state);
+      this.reachMarkers.set(state.config.id, marker);
+      this.scene.add(marker);
+    } else if (state.config.type === 'protect') {
+      for (const id of state.config.targetIds ?? []) {
+        const ring = this.createProtectRing();
+        this.protectMarkers.set(id, ring);
+        this.scene.add(ring);
+      }
+    }
+  };
+
+  private onObjectiveUpdated = (id: string, state: ObjectiveState): void => {
+    this.objectives.set(id, state);
+    if (this.isActive(state)) return;
+
+    // Finished objectives drop their markers
+    const reach = this.reachMarkers.get(id);
+    if (reach) reach.visible = false;
+
+    if (state.config.type === 'protect') {
+      for (const targetId of state.config.targetIds ?? []) {
+        const ring = this.protectMarkers.get(targetId);
+        if (ring) ring.visible = false;
+      }
+    }
+  };
+
+  update(dt: number): void {
+    this.time += dt;
+    this.waypoints = [];
+
+    const player = this.world
+      .getEntitiesWithComponents(InputComponent, TransformComponent)
+      .find((e) => e.getComponent(InputComponent)!.isLocalPlayer);
+    const playerPos = player?.getComponent(TransformComponent)!.position;
+
+    // Gentle pulse so zones read as interactive
+    const pulse = 0.75 + Math.sin(this.time * 3) * 0.25;
+    for (const marker of this.reachMarkers.values()) {
+      if (!marker.visible) continue;
+      for (const child of marker.children) {
+        const material = (child as THREE.Mesh).material as THREE.Material;
+        material.opacity = (child.userData.baseOpacity as number) * pulse;
+      }
+    }
+
+    for (const state of this.objectives.values()) {
+      if (!this.isActive(state)) continue;
+      const { config } = state;
+
+      switch (config.type) {
+        case 'reach':
+          if (config.position) {
+            this._worldPos.set(
+              config.position.x,
+              this.mapSystem.getHeightAt(config.position.x, config.position.z),
+              config.position.z
+            );
+            this.addWaypoint('reach', this._worldPos, playerPos);
+          }
+          break;
+
+        case 'protect':
+          for (const id of config.targetIds ?? []) {
+            this.updateProtectRing(id, playerPos);
+          }
+          break;
+
+        case 'collect':
+          for (const entity of this.world.getEntitiesWithComponents(
+            PickupComponent,
+            TransformComponent
+          )) {
+            const pickup = entity.getComponent(PickupComponent)!;
+            if (pickup.collected || pickup.objectiveId !== config.id) continue;
+            this.addWaypoint(
+              'collect',
+              entity.getComponent(TransformComponent)!.position,
+              playerPos
+            );
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Current objective waypoints in screen space
+   */
+  getWaypoints(): ObjectiveWaypoint[] {
+    return this.waypoints;
+  }
+
+  private isActive(state: ObjectiveState): boolean {
+    return state.status !== 'completed' && state.status !== 'failed';
+  }
+
+  /**
+   * Keep a protect ring under its entity and add its waypoint
+   */
+  private updateProtectRing(
+    entityId: string,
+    playerPos: THREE.Vector3 | undefined
+  ): void {
+    const ring = this.protectMarkers.get(entityId);
+    const transform = this.world
+      .getEntity(entityId)
+      ?.getComponent(TransformComponent);
+
+    if (!ring) return;
+    if (!transform) {
+      ring.visible = false;
+      return;
+    }
+
+    ring.visible = true;
+    ring.position.copy(transform.position);
+    ring.position.y += OBJECTIVE_MARKER_CONFIG.PROTECT.ringHeight;
+    ring.rotation.z = this.time * 0.5;
+
+    this.addWaypoint('protect', transform.position, playerPos);
+  }
+
+  /**
+   * Project a world position to the screen, pinning off-screen points to the edge
+   */
+  private addWaypoint(
+    kind: WaypointKind,
+    position: THREE.Vector3,
+    playerPos: THREE.Vector3 | undefined
+  ): void {
+    const { heightOffset, edgeInset } = OBJECTIVE_MARKER_CONFIG.WAYPOINT;
+
+    this._screenPos.copy(position);
+    this._screenPos.y += heightOffset;
+    this._screenPos.project(this.camera);
+
+    let { x, y } = this._screenPos;
+    const behind = this._screenPos.z > 1;
+    // Points behind the camera project mirrored
+    if (behind) {
+      x = -x;
+      y = -y;
+    }
+
+    const onScreen = !behind && Math.abs(x) <= 1 && Math.abs(y) <= 1;
+    if (!onScreen) {
+      const scale = edgeInset / Math.max(Math.abs(x), Math.abs(y), 1e-6);
+      x *= scale;
+      y *= scale;
+    }
+
+    this.waypoints.push({
+      x: (x + 1) / 2,
+      y: (-y + 1) / 2,
+      distance: playerPos ? playerPos.distanceTo(position) : 0,
+      kind,
+      onScreen,
+    });
+  }
+
+  /**
+   * Light column over a ground ring marking a reach zone
+   */
+  private createReachMarker(state: ObjectiveState): THREE.Group {
+    const { beaconHeight, color, opacity, defaultRadius } =
+      OBJECTIVE_MARKER_CONFIG.REACH;
+    const position = state.config.position!;
+    const radius = state.config.radius ?? defaultRadius;
+
+    const group = new THREE.Group();
+    group.position.set(
+      position.x,
+      this.mapSystem.getHeightAt(position.x, position.z),
+      position.z
+    );
+
+    const column = new THREE.Mesh(
+      new THREE.CylinderGeometry(
+        radius * 0.2,
+        radius * 0.2,
+        beaconHeight,
+        24,
+        1,
+        true
+      ),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      })
+    );
+    column.position.y = beaconHeight / 2;
+    column.userData.baseOpacity = opacity;
+    group.add(column);
+
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(radius - 0.8, radius, 48),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: opacity * 3,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      })
+    );
+    ring.rotation.x = -Math.PI / 2;
+    ring.position.y = 0.1;
+    ring.userData.baseOpacity = opacity * 3;
+    group.add(ring);
+
+    return group;
+  }
+
+  private createProtectRing(): THREE.Mesh {
+    const { ringRadius, color, opacity } = OBJECTIVE_MARKER_CONFIG.PROTECT;
+
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(ringRadius - 0.5, ringRadius, 6),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      })
+    );
+    ring.rotation.x = -Math.PI / 2;
+    ring.visible = false;
+    return ring;
+  }
+
+  private clearMarkers(): void {
+    for (const marker of this.reachMarkers.values()) {
+      this.scene.remove(marker);
+      marker.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+    }
+    for (const ring of this.protectMarkers.values()) {
+      this.scene.remove(ring);
+      ring.geometry.dispose();
+      (ring.material as THREE.Material).dispose();
+    }
+
+    this.reachMarkers.clear();
+    this.protectMarkers.clear();
+    this.objectives.clear();
+    this.waypoints = [];
+  }
+
+  dispose(): void {
+    EventBus.off('objectives:initialized', this.onObjectivesInitialized);
+    EventBus.off('objective:updated', this.onObjectiveUpdated);
+    EventBus.off('objective:added', this.onObjectiveAdded);
+    this.clearMarkers();
+  }
+}
@@ -1,3 +1,4 @@
+import type * as THREE from 'three';
 import { System } from '../core/System';
 import { EventBus } from '../core/EventBus';
 import type { ComponentClass } from '../core/Component';
@@ -7,12 +8,22 @@ import type {
   ObjectiveConfig,
   ObjectiveState,
   MissionState,
+  TriggerAction,
+  TriggerCondition,
 } from '../config/missions/MissionConfig';
 import { TurretComponent } from '../components/TurretComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import { InputComponent } from '../components/InputComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { AIControllerComponent } from '../components/AIControllerComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import { getFactionRelation } from '../config/FactionConfig';
+import { OBJECTIVE_MARKER_CONFIG } from '../config/ObjectiveMarkerConfig';
 
 /**
  * System for tracking mission objectives and determining victory/defeat.
  * Listens for game events and updates objective state accordingly.
+ * Also evaluates the mission's scripted triggers (MissionConfig.triggers).
  */
 export class ObjectiveSystem extends System {
   readonly requiredComponents: ComponentClass[] = [];
@@ -22,10 +33,18 @@ export class ObjectiveSystem extends System {
   private isActive: boolean = false;
   private missionStartTime: number = 0;
 
-  // Track entities for objectives
-  private targetEntityIds: Set<string> = new Set();
-  private turretEntityIds: Set<string> = new Set();
+  // Track entities for objectives (destroyed enemies stay counted after removal)
+  private enemyEntityIds: Set<string> = new Set();
   private destroyedEntityIds: Set<string> = new Set();
+  // Entities named by protect objectives never count as enemies
+  private protectedEntityIds: Set<string> = new Set();
+  // Waves still to spawn; destroy_all can't finish while any remain
+  private pendingWaves: number = 0;
+
+  // Scripted triggers: mission time each fired trigger went off
+  private firedTriggers: Map<string, number> = new Map();
+  // Every entity destroyed this mission (triggers may name any of them)
+  private seenDestroyedIds: Set<string> = new Set();
 
   constructor() {
     super();
@@ -40,6 +59,18 @@ export class ObjectiveSystem extends System {
     this.missionStartTime = Date.now();
     this.isActive = true;
     this.destroyedEntityIds.clear();
+    this.pendingWaves = config.waves?.length ?? 0;
+    this.firedTriggers.clear();
+    this.seenDestroyedIds.clear();
+
+    this.protectedEntityIds.clear();
+    for (const objective of config.objectives) {
+      if (objective.type !== 'protect') continue;
+      for (const id of objective.targetIds ?? []) {
+        this.protectedEntityIds.add(id);
+        this.enemyEntityIds.delete(id);
+      }
+    }
 
     // Initialize mission state
     this.missionState = {
@@ -67,9 +98,12 @@ export class ObjectiveSystem extends System {
     this.isActive = false;
     this.missionConfig = null;
     this.missionState = null;
-    this.targetEntityIds.clear();
-    this.turretEntityIds.clear();
+    this.enemyEntityIds.clear();
     this.destroyedEntityIds.clear();
+    this.protectedEntityIds.clear();
+    this.pendingWaves = 0;
+    this.firedTriggers.clear();
+    this.seenDestroyedIds.clear();
   }
 
   /**
@@ -108,12 +142,20 @@ export class ObjectiveSystem extends System {
 
   update(dt: number): void {
     if (!this.isActive || !this.missionState || !this.missionConfig) return;
+    if (this.missionState.isComplete) return;
 
-    // Update elapsed time
-    this.missionState.elapsedTime = (Date.now() - this.missionStartTime) / 1000;
+    // Accumulate simulated time so pausing stops the clock
+    this.missionState.elapsedTime += dt;
 
-    // Update survive objectives
+    // Update survive, reach and protect objectives
     this.updateSurviveObjectives(dt);
+    this.updateReachObjectives();
+    this.updateProtectObjectives();
+    if (this.missionState.isComplete) return;
+
+    // Scripted triggers (may add objectives or end the mission)
+    this.updateTriggers();
+    if (this.missionState.isComplete) return;
 
     // Check time limit defeat
     if (this.missionConfig.timeLimit) {
@@ -129,53 +171,88 @@ export class ObjectiveSystem extends System {
 
   onEntityAdded(entity: Entity): void {
     // Track new entities for objectives
-    if (entity.id.startsWith('target-')) {
-      this.targetEntityIds.add(entity.id);
-    }
-    if (entity.hasComponent(TurretComponent)) {
-      this.turretEntityIds.add(entity.id);
+    if (this.isEnemy(entity)) {
+      this.enemyEntityIds.add(entity.id);
+      this.updateDestroyAllTotals();
     }
   }
 
   onEntityRemoved(entity: Entity): void {
-    // Remove from tracking
-    this.targetEntityIds.delete(entity.id);
-    this.turretEntityIds.delete(entity.id);
+    // Destroyed enemies keep counting toward destroy_all after removal
+    if (!this.destroyedEntityIds.has(entity.id)) {
+      this.enemyEntityIds.delete(entity.id);
+    }
   }
 
   private setupEventListeners(): void {
     // Listen for entity destruction
-    EventBus.on('entity:destroyed', (entityId: string) => {
-      this.handleEntityDestroyed(entityId);
-    });
+    EventBus.on('entity:destroyed', this.onEntityDestroyed);
 
     // Listen for player death
-    EventBus.on('player:destroyed', () => {
-      this.handlePlayerDestroyed();
-    });
+    EventBus.on('player:destroyed', this.onPlayerDestroyed);
+
+    // Listen for collect objective pickups
+    EventBus.on('pickup:collected', this.onPickupCollected);
+
+    // Listen for wave spawns
+    EventBus.on('wave:started', this.onWaveStarted);
   }
 
+  private onEntityDestroyed = (entityId: string): void => {
+    this.handleEntityDestroyed(entityId);
+  };
+
+  private onPlayerDestroyed = (): void => {
+    this.handlePlayerDestroyed();
+  };
+
+  private onPickupCollected = (
+    _pickupId: string,
+    objectiveId: string
+  ): void => {
+    this.handlePickupCollected(objectiveId);
+  };
+
+  private onWaveStarted = (waveNumber: number, totalWaves: number): void => {
+    this.pendingWaves = totalWaves - waveNumber;
+  };
+
   private scanEntities(): void {
-    this.targetEntityIds.clear();
-    this.turretEntityIds.clear();
+    this.enemyEntityIds.clear();
 
     for (const entity of this.world.getAllEntities()) {
-      if (entity.id.startsWith('target-')) {
-        this.targetEntityIds.add(entity.id);
-      }
-      if (entity.hasComponent(TurretComponent)) {
-        this.turretEntityIds.add(entity.id);
+      if (this.isEnemy(entity)) {
+        this.enemyEntityIds.add(entity.id);
       }
     }
   }
 
+  /**
+   * Whether an entity counts toward destroy_all: target drones plus
+   * turrets and AI mechs hostile to the player
+   */
+  private isEnemy(entity: Entity): boolean {
+    if (this.protectedEntityIds.has(entity.id)) return false;
+    if (entity.id.startsWith('target-')) return true;
+    if (
+      !entity.hasComponent(TurretComponent) &&
+      !entity.hasComponent(AIControllerComponent)
+    ) {
+      return false;
+    }
+
+    const faction = entity.getComponent(FactionComponent)?.faction ?? 'neutral';
+    return getFactionRelation(faction, 'player') === 'hostile';
+  }
+
   private createObjectiveState(config: ObjectiveConfig): ObjectiveState {
     let targetProgress = 1;
+    let progress = 0;
 
     switch (config.type) {
       case 'destroy_all':
         // Count all enemies
-        targetProgress = this.targetEntityIds.size + this.turretEntityIds.size;
+        targetProgress = this.enemyEntityIds.size;
         break;
       case 'destroy':
         targetProgress = config.targetCount ?? config.targetIds?.length ?? 1;
@@ -183,6 +260,14 @@ export class ObjectiveSystem extends System {
       case 'survive':
         targetProgress = config.duration ?? 60;
         break;
+      case 'protect':
+        // Progress is the protected entities' remaining integrity (%)
+        targetProgress = 100;
+        progress = 100;
+        break;
+      case 'collect':
+        targetProgress = config.targetCount ?? config.pickups?.length ?? 1;
+        break;
       default:
         targetProgress = 1;
     }
@@ -190,14 +275,27 @@ export class ObjectiveSystem extends System {
     return {
       config,
       status: 'pending',
-      progress: 0,
+      progress,
       targetProgress,
       timeRemaining: config.duration,
     };
   }
 
   private handleEntityDestroyed(entityId: string): void {
-    if (!this.isActive || !this.missionState) return;
+    if (!this.isActive || !this.missionState || this.missionState.isComplete) {
+      return;
+    }
+    this.seenDestroyedIds.add(entityId);
+
+    if (this.protectedEntityIds.has(entityId)) {
+      this.failProtectObjectives(entityId);
+      return;
+    }
+    if (!this.enemyEntityIds.has(entityId)) {
+      // Objectives may still name non-enemy entities explicitly
+      this.updateDestroyObjectives(entityId);
+      return;
+    }
 
     this.destroyedEntityIds.add(entityId);
 
@@ -208,7 +306,10 @@ export class ObjectiveSystem extends System {
       switch (state.config.type) {
         case 'destroy_all':
           state.progress = this.destroyedEntityIds.size;
-          this.checkObjectiveCompletion(state);
+          // Later waves would add more enemies
+          if (this.pendingWaves === 0) {
+            this.checkObjectiveCompletion(state);
+          }
           break;
 
         case 'destroy':
@@ -223,9 +324,180 @@ export class ObjectiveSystem extends System {
     }
   }
 
-  private handlePlayerDestroyed(): void {
+  /**
+   * Grow destroy_all totals when enemies spawn mid-mission (waves)
+   */
+  private updateDestroyAllTotals(): void {
     if (!this.isActive || !this.missionState) return;
 
+    for (const [objId, state] of this.missionState.objectives) {
+      if (state.config.type !== 'destroy_all') continue;
+      if (state.status === 'completed' || state.status === 'failed') continue;
+
+      state.targetProgress = this.enemyEntityIds.size;
+      EventBus.emit('objective:updated', objId, state);
+    }
+  }
+
+  /**
+   * Progress destroy objectives that list a specific entity
+   */
+  private updateDestroyObjectives(entityId: string): void {
+    if (!this.missionState) return;
+
+    for (const [objId, state] of this.missionState.objectives) {
+      if (state.status === 'completed' || state.status === 'failed') continue;
+      if (
+        state.config.type === 'destroy' &&
+        state.config.targetIds?.includes(entityId)
+      ) {
+        state.progress++;
+        this.checkObjectiveCompletion(state);
+        EventBus.emit('objective:updated', objId, state);
+      }
+    }
+  }
+
+  /**
+   * Fail every protect objective guarding a destroyed entity
+   */
+  private failProtectObjectives(entityId: string): void {
+    if (!this.missionState) return;
+
+    for (const state of this.missionState.objectives.values()) {
+      if (state.status === 'completed' || state.status === 'failed') continue;
+      if (
+        state.config.type === 'protect' &&
+        state.config.targetIds?.includes(entityId)
+      ) {
+        state.progress = 0;
+        this.failObjective(state);
+      }
+    }
+  }
+
+  /**
+   * Mark an objective failed; losing a required one ends the mission
+   */
+  private failObjective(state: ObjectiveState): void {
+    if (!this.missionState) return;
+
+    state.status = 'failed';
+    EventBus.emit('objective:failed', state.config.id);
+    EventBus.emit('objective:updated', state.config.id, state);
+
+    if (state.config.required && !this.missionState.isComplete) {
+      this.missionState.isComplete = true;
+      this.missionState.isVictory = false;
+      EventBus.emit('mission:defeat', 'objective_failed');
+    }
+  }
+
+  private handlePickupCollected(objectiveId: string): void {
+    if (!this.isActive || !this.missionState || this.missionState.isComplete) {
+      return;
+    }
+
+    const state = this.missionState.objectives.get(objectiveId);
+    if (!state || state.config.type !== 'collect') return;
+    if (state.status === 'completed' || state.status === 'failed') return;
+
+    state.progress++;
+    this.checkObjectiveCompletion(state);
+    EventBus.emit('objective:updated', objectiveId, state);
+  }
+
+  /**
+   * Complete reach objectives once the player stands inside the zone
+   */
+  private updateReachObjectives(): void {
+    if (!this.missionState) return;
+
+    const playerPos = this.getPlayerPosition();
+    if (!playerPos) return;
+
+    for (const [objId, state] of this.missionState.objectives) {
+      const { config } = state;
+      if (config.type !== 'reach' || !config.position) continue;
+      if (state.status === 'completed' || state.status === 'failed') continue;
+
+      const radius =
+        config.radius ?? OBJECTIVE_MARKER_CONFIG.REACH.defaultRadius;
+      const dx = playerPos.x - config.position.x;
+      const dz = playerPos.z - config.position.z;
+      if (dx * dx + dz * dz <= radius * radius) {
+        state.progress = 1;
+        this.checkObjectiveCompletion(state);
+        EventBus.emit('objective:updated', objId, state);
+      }
+    }
+  }
+
+  /**
+   * Track protected entities' integrity and complete timed protect objectives
+   */
+  private updateProtectObjectives(): void {
+    if (!this.missionState) return;
+
+    for (const [objId, state] of this.missionState.objectives) {
+      const { config } = state;
+      if (config.type !== 'protect') continue;
+      if (state.status === 'completed' || state.status === 'failed') continue;
+
+      const lastProgress = state.progress;
+      const lastSecond = Math.ceil(state.timeRemaining ?? 0);
+      state.status = 'in_progress';
+      state.progress = this.getProtectedIntegrity(config.targetIds ?? []);
+
+      if (config.duration !== undefined) {
+        state.timeRemaining = Math.max(
+          0,
+          config.duration - this.getObjectiveTime(state)
+        );
+        if (state.timeRemaining === 0) {
+          state.status = 'completed';
+          EventBus.emit('objective:complete', config.id);
+        }
+      }
+
+      if (
+        state.status === 'completed' ||
+        state.progress !== lastProgress ||
+        Math.ceil(state.timeRemaining ?? 0) !== lastSecond
+      ) {
+        EventBus.emit('objective:updated', objId, state);
+      }
+    }
+  }
+
+  /**
+   * Average remaining armor/structure of the protected entities (whole %)
+   */
+  private getProtectedIntegrity(targetIds: string[]): number {
+    if (targetIds.length === 0) return 100;
+
+    let total = 0;
+    for (const id of targetIds) {
+      const health = this.world.getEntity(id)?.getComponent(HealthComponent);
+      if (health && !health.isDestroyed()) {
+        total += health.getTotalArmorPercentage();
+      }
+    }
+    return Math.round(total / targetIds.length);
+  }
+
+  private getPlayerPosition(): THREE.Vector3 | undefined {
+    const player = this.world
+      .getEntitiesWithComponents(InputComponent, TransformComponent)
+      .find((e) => e.getComponent(InputComponent)!.isLocalPlayer);
+    return player?.getComponent(TransformComponent)!.position;
+  }
+
+  private handlePlayerDestroyed(): void {
+    if (!this.isActive || !this.missionState || this.missionState.isComplete) {
+      return;
+    }
+
     this.missionState.isComplete = true;
     this.missionState.isVictory = false;
 
@@ -248,15 +520,15 @@ export class ObjectiveSystem extends System {
   private updateSurviveObjectives(_dt: number): void {
     if (!this.missionState) return;
 
-    for (const state of this.missionState.objectives.values()) {
+    for (const [objId, state] of this.missionState.objectives) {
       if (state.config.type === 'survive' && state.status !== 'completed') {
+        // HUD only needs whole seconds
+        const lastSecond = Math.floor(state.progress);
+
         state.status = 'in_progress';
-        state.progress = this.missionState.elapsedTime;
+        state.progress = this.getObjectiveTime(state);
 
-        if (
-          state.config.duration &&
-          this.missionState.elapsedTime >= state.config.duration
-        ) {
+        if (state.config.duration && state.progress >= state.config.duration) {
           state.status = 'completed';
           state.progress = state.config.duration;
           EventBus.emit('objective:complete', state.config.id);
@@ -265,11 +537,144 @@ export class ObjectiveSystem extends System {
         if (state.timeRemaining !== undefined) {
           state.timeRemaining = Math.max(
             0,
-            (state.config.duration ?? 0) - this.missionState.elapsedTime
+            (state.config.duration ?? 0) - state.progress
           );
         }
+
+        if (
+          state.status === 'completed' ||
+          Math.floor(state.progress) !== lastSecond
+        ) {
+          EventBus.emit('objective:updated', objId, state);
+        }
+      }
+    }
+  }
+
+  /**
+   * Seconds an objective has been active (triggers can add them mid-mission)
+   */
+  private getObjectiveTime(state: ObjectiveState): number {
+    return (this.missionState?.elapsedTime ?? 0) - (state.startTime ?? 0);
+  }
+
+  /**
+   * Fire every unfired trigger whose conditions all hold
+   */
+  private updateTriggers(): void {
+    if (!this.missionState || !this.missionConfig?.triggers) return;
+
+    for (const trigger of this.missionConfig.triggers) {
+      if (this.firedTriggers.has(trigger.id)) continue;
+      if (!trigger.conditions.every((c) => this.isConditionMet(c))) continue;
+
+      this.firedTriggers.set(trigger.id, this.missionState.elapsedTime);
+      EventBus.emit('trigger:fired', trigger.id);
+
+      for (const action of trigger.actions) {
+        this.runTriggerAction(trigger.id, action);
+      }
+      if (this.missionState.isComplete) return;
+    }
+  }
+
+  private isConditionMet(condition: TriggerCondition): boolean {
+    if (!this.missionState) return false;
+
+    switch (condition.type) {
+      case 'timer': {
+        const start =
+          condition.since !== undefined
+            ? this.firedTriggers.get(condition.since)
+            : 0;
+        return (
+          start !== undefined &&
+          this.missionState.elapsedTime - start >= condition.seconds
+        );
+      }
+
+      case 'entity_destroyed':
+        return this.seenDestroyedIds.has(condition.entityId);
+
+      case 'zone_entered': {
+        const playerPos = this.getPlayerPosition();
+        if (!playerPos) return false;
+        const dx = playerPos.x - condition.position.x;
+        const dz = playerPos.z - condition.position.z;
+        return dx * dx + dz * dz <= condition.radius * condition.radius;
+      }
+
+      case 'objective_completed':
+        return (
+          this.missionState.objectives.get(condition.objectiveId)?.status ===
+          'completed'
+        );
+
+      case 'health_below': {
+        if (this.seenDestroyedIds.has(condition.entityId)) return true;
+        const health = this.world
+          .getEntity(condition.entityId)
+          ?.getComponent(HealthComponent);
+        return (
+          health !== undefined &&
+          health.getTotalArmorPercentage() < condition.percent
+        );
+      }
+    }
+  }
+
+  private runTriggerAction(triggerId: string, action: TriggerAction): void {
+    if (!this.missionState) return;
+
+    switch (action.type) {
+      case 'spawn_group':
+        // WaveSpawnerSystem owns spawning
+        EventBus.emit('trigger:spawn', triggerId, action.group);
+        break;
+
+      case 'radio_message':
+        EventBus.emit('radio:message', action.message);
+        break;
+
+      case 'add_objective':
+        this.addObjective(action.objective);
+        break;
+
+      case 'fail_mission':
+        if (!this.missionState.isComplete) {
+          this.missionState.isComplete = true;
+          this.missionState.isVictory = false;
+          EventBus.emit('mission:defeat', action.reason ?? 'custom');
+        }
+        break;
+
+      case 'change_lighting':
+        // MapSystem owns sky, fog and lights
+        EventBus.emit('environment:change', action.environment);
+        break;
+    }
+  }
+
+  /**
+   * Add an objective mid-mission; timed objectives count from now
+   */
+  private addObjective(config: ObjectiveConfig): void {
+    if (!this.missionState || this.missionState.objectives.has(config.id)) {
+      return;
+    }
+
+    if (config.type === 'protect') {
+      for (const id of config.targetIds ?? []) {
+        this.protectedEntityIds.add(id);
+        this.enemyEntityIds.delete(id);
       }
     }
+
+    const state = this.createObjectiveState(config);
+    state.startTime = this.missionState.elapsedTime;
+    this.missionState.objectives.set(config.id, state);
+
+    EventBus.emit('objective:added', state);
   }
 
   private checkObjectiveCompletion(state: ObjectiveState): void {
@@ -288,11 +693,12 @@ export class ObjectiveSystem extends System {
 
     switch (this.missionConfig.victoryCondition) {
       case 'destroy_all': {
-        // Check if all targets and turrets are destroyed
-        const totalEnemies =
-          this.targetEntityIds.size + this.turretEntityIds.size;
+        // Check if all tracked enemies are destroyed
+        const totalEnemies = this.enemyEntityIds.size;
         victory =
-          this.destroyedEntityIds.size >= totalEnemies && totalEnemies > 0;
+          this.pendingWaves === 0 &&
+          this.destroyedEntityIds.size >= totalEnemies &&
+          totalEnemies > 0;
         break;
       }
 
@@ -318,9 +724,16 @@ export class ObjectiveSystem extends System {
     if (!this.missionState) return false;
 
     for (const state of this.missionState.objectives.values()) {
-      if (state.config.required && state.status !== 'completed') {
-        return false;
+      if (!state.config.required || state.status === 'completed') continue;
+      // Untimed protect objectives hold as long as nothing is lost
+      if (
+        state.config.type === 'protect' &&
+        state.config.duration === undefined &&
+        state.status !== 'failed'
+      ) {
+        continue;
       }
+      return false;
     }
     return true;
   }
@@ -341,5 +754,9 @@ export class ObjectiveSystem extends System {
 
   dispose(): void {
     this.stopMission();
+    EventBus.off('entity:destroyed', this.onEntityDestroyed);
+    EventBus.off('player:destroyed', this.onPlayerDestroyed);
+    EventBus.off('pickup:collected', this.onPickupCollected);
+    EventBus.off('wave:started', this.onWaveStarted);
   }
 }
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
 import { PhysicsComponent } from '../components/PhysicsComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
@@ -54,4 +55,12 @@ export class PhysicsSystem extends System {
       );
     }
   }
+
+  onEntityRemoved(entity: Entity): void {
+    // Wrecks and destroyed targets no longer collide
+    const physics = entity.getComponent(PhysicsComponent);
+    if (physics) {
+      this.physicsWorld.removeBody(physics.bodyId);
+    }
+  }
 }
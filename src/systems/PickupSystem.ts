@@ -0,0 +1,72 @@
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { PickupComponent } from '../components/PickupComponent';
+import { TransformComponent } from '../components/TransformComponent';
+import { RenderComponent } from '../components/RenderComponent';
+import { InputComponent } from '../components/InputComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { EventBus } from '../core/EventBus';
+import { OBJECTIVE_MARKER_CONFIG } from '../config/ObjectiveMarkerConfig';
+
+/**
+ * Pickup system animates collectible pickups and collects them when the
+ * player walks within range (emits pickup:collected, removes the pickup).
+ */
+export class PickupSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [
+    PickupComponent,
+    TransformComponent,
+  ];
+
+  update(dt: number): void {
+    const player = this.findPlayer();
+    const playerPos = player?.getComponent(TransformComponent)?.position;
+    const { spinSpeed, bobHeight, bobSpeed, hoverHeight } =
+      OBJECTIVE_MARKER_CONFIG.COLLECT;
+
+    for (const entity of this.getEntities()) {
+      const pickup = entity.getComponent(PickupComponent)!;
+      if (pickup.collected) continue;
+
+      const transform = entity.getComponent(TransformComponent)!;
+
+      // Spin and bob (RenderSystem applies rotation and mesh offset)
+      pickup.time += dt;
+      transform.rotation.y = pickup.time * spinSpeed;
+      const render = entity.getComponent(RenderComponent);
+      if (render) {
+        render.meshOffset.y =
+          hoverHeight + Math.sin(pickup.time * bobSpeed) * bobHeight;
+      }
+
+      if (!player || !playerPos) continue;
+
+      const dx = playerPos.x - transform.position.x;
+      const dz = playerPos.z - transform.position.z;
+      if (dx * dx + dz * dz <= pickup.radius * pickup.radius) {
+        pickup.collected = true;
+        EventBus.emit(
+          'pickup:collected',
+          entity.id,
+          pickup.objectiveId,
+          player.id
+        );
+        this.world.removeEntity(entity.id);
+      }
+    }
+  }
+
+  /**
+   * The local player, if alive
+   */
+  private findPlayer(): Entity | undefined {
+    return this.world
+      .getEntitiesWithComponents(InputComponent, TransformComponent)
+      .find(
+        (e) =>
+          e.getComponent(InputComponent)!.isLocalPlayer &&
+          !e.getComponent(HealthComponent)?.isDestroyed()
+      );
+  }
+}
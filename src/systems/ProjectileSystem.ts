@@ -6,11 +6,20 @@ import { ProjectileComponent } from '../components/ProjectileComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import { RenderComponent } from '../components/RenderComponent';
 import { HealthComponent } from '../components/HealthComponent';
+import { TargetingComponent } from '../components/TargetingComponent';
 import { EventBus } from '../core/EventBus';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+
+/** Height above an entity's origin that splash damage is measured to */
+const SPLASH_TARGET_HEIGHT = 2;
 
 /**
  * Projectile system moves projectiles and handles their lifecycle.
+ * Guided missiles steer toward their target within their turn rate while
+ * the firing mech holds its missile lock. Shells drop under gravity, stop
+ * on world geometry, and splash weapons damage everything in the blast
+ * radius that isn't behind cover.
  */
 export class ProjectileSystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -26,6 +35,13 @@ export class ProjectileSystem extends System {
   private readonly _movement = new THREE.Vector3();
   private readonly _prevPosition = new THREE.Vector3();
   private readonly _rayDirection = new THREE.Vector3();
+  private readonly _heading = new THREE.Vector3();
+  private readonly _desired = new THREE.Vector3();
+  private readonly _turn = new THREE.Quaternion();
+  private readonly _turnStep = new THREE.Quaternion();
+  private readonly _splashOrigin = new THREE.Vector3();
+  private readonly _splashTarget = new THREE.Vector3();
+  private readonly _splashDirection = new THREE.Vector3();
 
   constructor(scene: THREE.Scene, physicsWorld: PhysicsWorld) {
     super();
@@ -43,6 +59,16 @@ export class ProjectileSystem extends System {
       this._prevPosition.copy(transform.position);
       transform.storePrevious();
 
+      if (projectile.targetId) {
+        this.steerMissile(projectile, transform, render, dt);
+      }
+
+      // Gravity drop
+      if (projectile.gravity > 0) {
+        projectile.velocity.y -= projectile.gravity * dt;
+        this.faceVelocity(projectile, transform, render);
+      }
+
       // Calculate movement
       this._movement.copy(projectile.velocity).multiplyScalar(dt);
       const moveDistance = this._movement.length();
@@ -56,8 +82,8 @@ export class ProjectileSystem extends System {
           moveDistance + 0.5 // Slight overshoot to catch edge cases
         );
 
-        if (hit && hit.entityId && hit.entityId !== projectile.ownerId) {
-          // Hit something! Apply damage and remove projectile
+        if (hit && hit.entityId !== projectile.ownerId) {
+          // Hit an entity or world geometry - apply damage and remove projectile
           this.handleHit(
             entity.id,
             projectile,
@@ -88,60 +114,182 @@ export class ProjectileSystem extends System {
   }
 
   /**
-   * Handle a projectile hit on an entity
+   * Handle a projectile hit on an entity, or on world geometry when
+   * targetEntityId is undefined
    */
   private handleHit(
     projectileId: string,
     projectile: ProjectileComponent,
-    targetEntityId: string,
+    targetEntityId: string | undefined,
     hitPoint: THREE.Vector3,
     render: RenderComponent
   ): void {
-    const targetEntity = this.world.getEntity(targetEntityId);
-    if (!targetEntity) {
+    // Missiles that hit inside their arming range are duds
+    if (!projectile.isArmed()) {
       this.removeProjectile(projectileId, render);
       return;
     }
 
-    const health = targetEntity.getComponent(HealthComponent);
-    if (health) {
-      // Apply damage to torso zone (simplified - could add zone detection later)
-      const wasDestroyed = health.takeDamage('torso', projectile.damage);
-
-      // Emit damage event
+    if (targetEntityId && this.world.getEntity(targetEntityId)) {
+      // DamageSystem resolves the hit zone and applies armor damage
       EventBus.emit(
-        'entity:damaged',
+        'damage:request',
         targetEntityId,
-        projectile.damage,
-        'torso',
-        hitPoint
+        projectile.damage * projectile.damageMultiplier,
+        hitPoint,
+        projectile.ownerId
       );
 
-      // Check if entity was destroyed
-      if (health.isDestroyed()) {
-        EventBus.emit('entity:destroyed', targetEntityId, hitPoint);
-        this.world.removeEntity(targetEntityId);
-      } else if (wasDestroyed) {
-        // Zone was destroyed but entity survives
-        EventBus.emit(
-          'entity:zone_destroyed',
-          targetEntityId,
-          'torso',
-          hitPoint
-        );
-      }
+      // Emit hit event for VFX/SFX
+      EventBus.emit(
+        'projectile:hit',
+        projectile.weaponType,
+        hitPoint,
+        targetEntityId
+      );
+    }
+
+    if (projectile.splashRadius > 0) {
+      this.applySplash(projectile, hitPoint, targetEntityId);
     }
 
-    // Emit hit event for VFX/SFX
+    // Remove the projectile
+    this.removeProjectile(projectileId, render);
+  }
+
+  /**
+   * Damage every entity within the splash radius that has a clear line
+   * from the impact point. Damage falls off linearly to 0 at the edge.
+   * The directly hit entity already took the full hit and is skipped.
+   */
+  private applySplash(
+    projectile: ProjectileComponent,
+    impactPoint: THREE.Vector3,
+    directHitId: string | undefined
+  ): void {
+    const radius = projectile.splashRadius;
+    const damage = projectile.damage * projectile.damageMultiplier;
+
+    // Back off the surface so cover rays don't start inside it
+    this._splashOrigin
+      .copy(projectile.velocity)
+      .normalize()
+      .multiplyScalar(-0.3)
+      .add(impactPoint);
+
     EventBus.emit(
-      'projectile:hit',
+      'projectile:splash',
       projectile.weaponType,
-      hitPoint,
-      targetEntityId
+      impactPoint,
+      radius
     );
 
-    // Remove the projectile
-    this.removeProjectile(projectileId, render);
+    const candidates = this.world.getEntitiesWithComponents(
+      HealthComponent,
+      TransformComponent
+    );
+    for (const entity of candidates) {
+      if (entity.id === directHitId) continue;
+      if (entity.getComponent(HealthComponent)!.isDestroyed()) continue;
+
+      const transform = entity.getComponent(TransformComponent)!;
+      this._splashTarget
+        .copy(transform.position)
+        .setY(transform.position.y + SPLASH_TARGET_HEIGHT);
+      this._splashDirection.copy(this._splashTarget).sub(this._splashOrigin);
+      const distance = this._splashDirection.length();
+      if (distance > radius) continue;
+
+      // Cover: the first thing between blast and entity must be the entity
+      let hitPoint = this._splashTarget;
+      if (distance > 0) {
+        this._splashDirection.divideScalar(distance);
+        const hit = this.physicsWorld.castRay(
+          this._splashOrigin,
+          this._splashDirection,
+          distance
+        );
+        if (hit && hit.entityId !== entity.id) continue;
+        if (hit) hitPoint = hit.point;
+      }
+
+      EventBus.emit(
+        'damage:request',
+        entity.id,
+        damage * (1 - distance / radius),
+        hitPoint.clone(),
+        projectile.ownerId
+      );
+    }
+  }
+
+  /**
+   * Turn a guided missile toward its target, limited by its turn rate.
+   * Losing the target or the firing mech's lock leaves it dumb-fire.
+   */
+  private steerMissile(
+    projectile: ProjectileComponent,
+    transform: TransformComponent,
+    render: RenderComponent,
+    dt: number
+  ): void {
+    const guidance = getWeaponEntry(projectile.weaponType).guidance;
+    const target = this.world.getEntity(projectile.targetId!);
+    const targetTransform = target?.getComponent(TransformComponent);
+    const ownerTargeting = this.world
+      .getEntity(projectile.ownerId)
+      ?.getComponent(TargetingComponent);
+
+    if (
+      !guidance ||
+      !targetTransform ||
+      target?.getComponent(HealthComponent)?.isDestroyed() ||
+      !ownerTargeting?.hasMissileLock() ||
+      ownerTargeting.lockedTargetId !== projectile.targetId
+    ) {
+      projectile.targetId = null;
+      return;
+    }
+
+    // Boost phase: fly the launch arc until armed
+    if (!projectile.isArmed()) return;
+
+    const speed = projectile.velocity.length();
+    if (speed <= 0) return;
+    this._heading.copy(projectile.velocity).divideScalar(speed);
+    this._desired
+      .copy(targetTransform.position)
+      .setY(targetTransform.position.y + 2)
+      .sub(transform.position)
+      .normalize();
+
+    const angle = this._heading.angleTo(this._desired);
+    if (angle < 1e-4) return;
+
+    this._turn.setFromUnitVectors(this._heading, this._desired);
+    this._turnStep
+      .identity()
+      .slerp(this._turn, Math.min(1, (guidance.turnRate * dt) / angle));
+    projectile.velocity
+      .copy(this._heading.applyQuaternion(this._turnStep))
+      .multiplyScalar(speed);
+
+    this.faceVelocity(projectile, transform, render);
+  }
+
+  /**
+   * Point the mesh along the projectile's velocity and store the rotation
+   * so RenderSystem keeps it
+   */
+  private faceVelocity(
+    projectile: ProjectileComponent,
+    transform: TransformComponent,
+    render: RenderComponent
+  ): void {
+    this._desired.copy(transform.position).add(projectile.velocity);
+    render.mesh.position.copy(transform.position);
+    render.mesh.lookAt(this._desired);
+    transform.rotation.copy(render.mesh.rotation);
   }
 
   private updateEffects(
@@ -149,8 +297,8 @@ export class ProjectileSystem extends System {
     render: RenderComponent,
     dt: number
   ): void {
-    switch (projectile.weaponType) {
-      case 'ppc':
+    switch (getWeaponEntry(projectile.weaponType).visuals.projectile?.mesh) {
+      case 'plasma':
         this.updatePPCEffects(projectile, render, dt);
         break;
       case 'missile':
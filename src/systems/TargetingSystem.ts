@@ -4,12 +4,21 @@ import type { ComponentClass } from '../core/Component';
 import { TargetingComponent } from '../components/TargetingComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import { InputComponent } from '../components/InputComponent';
-import { TurretComponent } from '../components/TurretComponent';
 import { HealthComponent } from '../components/HealthComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import { WeaponComponent } from '../components/WeaponComponent';
+import type { Entity } from '../core/Entity';
+import { EventBus } from '../core/EventBus';
+import type { PhysicsWorld } from '../physics/PhysicsWorld';
+import { MECH_CONSTANTS } from '../config/MechConfigs';
+import { getWeaponEntry } from '../config/WeaponCatalog';
 
 /**
- * TargetingSystem handles enemy detection and target cycling.
+ * TargetingSystem handles contact detection and target cycling.
+ * Contacts are any non-neutral faction units (hostile or friendly) in range.
  * Projects 3D target positions to 2D screen coordinates for HUD display.
+ * Builds missile lock on the locked target while it stays on screen and in
+ * line of sight.
  */
 export class TargetingSystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -19,6 +28,7 @@ export class TargetingSystem extends System {
   ];
 
   private camera: THREE.PerspectiveCamera;
+  private physicsWorld: PhysicsWorld;
 
   // Track previous frame's input for edge detection
   private wasTargetPrevious: boolean = false;
@@ -28,13 +38,16 @@ export class TargetingSystem extends System {
   private readonly _playerPos = new THREE.Vector3();
   private readonly _targetPos = new THREE.Vector3();
   private readonly _screenPos = new THREE.Vector3();
+  private readonly _eyePos = new THREE.Vector3();
+  private readonly _losDirection = new THREE.Vector3();
 
-  constructor(camera: THREE.PerspectiveCamera) {
+  constructor(camera: THREE.PerspectiveCamera, physicsWorld: PhysicsWorld) {
     super();
     this.camera = camera;
+    this.physicsWorld = physicsWorld;
   }
 
-  update(_dt: number): void {
+  update(dt: number): void {
     // Process player entities with targeting
     for (const entity of this.getEntities()) {
       const targeting = entity.getComponent(TargetingComponent)!;
@@ -45,14 +58,14 @@ export class TargetingSystem extends System {
 
       this._playerPos.copy(transform.position);
 
-      // Find all enemies within detection range
-      const enemiesInRange = this.findEnemiesInRange(
-        this._playerPos,
+      // Find all contacts within detection range
+      const contactsInRange = this.findContactsInRange(
+        entity,
         targeting.detectionRange
       );
 
       // Update detected targets
-      targeting.updateDetectedTargets(enemiesInRange);
+      targeting.updateDetectedTargets(contactsInRange);
 
       // Handle target cycling input (edge-triggered)
       if (input.lastInput.targetPrevious && !this.wasTargetPrevious) {
@@ -66,26 +79,120 @@ export class TargetingSystem extends System {
       this.wasTargetNext = input.lastInput.targetNext;
 
       // Update screen positions for all detected targets
-      this.updateScreenPositions(targeting, this._playerPos);
+      this.updateScreenPositions(entity, targeting, this._playerPos);
+
+      this.updateMissileLock(entity, targeting, dt);
     }
   }
 
   /**
-   * Find all enemy entities within range
+   * Advance or drop the missile lock on the locked target
    */
-  private findEnemiesInRange(
-    playerPos: THREE.Vector3,
-    range: number
-  ): string[] {
-    const enemies: Array<{ id: string; distance: number }> = [];
-
-    // Find all entities with TurretComponent (enemies)
-    const turretEntities = this.world.getEntitiesWithComponents(
-      TurretComponent,
+  private updateMissileLock(
+    entity: Entity,
+    targeting: TargetingComponent,
+    dt: number
+  ): void {
+    targeting.missileLockTime = this.getMissileLockTime(entity);
+
+    const target = targeting.lockedTargetId
+      ? this.world.getEntity(targeting.lockedTargetId)
+      : undefined;
+    if (
+      targeting.missileLockTime <= 0 ||
+      !target ||
+      !targeting.lockedTargetVisible ||
+      !this.hasLineOfSight(entity, target)
+    ) {
+      if (targeting.missileLockTargetId !== null) {
+        targeting.resetMissileLock();
+        EventBus.emit('targeting:missile-lock-lost', entity.id);
+      }
+      return;
+    }
+
+    // Switching targets starts the lock over
+    if (targeting.missileLockTargetId !== target.id) {
+      targeting.resetMissileLock();
+      targeting.missileLockTargetId = target.id;
+    }
+
+    const wasLocked = targeting.hasMissileLock();
+    targeting.missileLockProgress = Math.min(
+      targeting.missileLockTime,
+      targeting.missileLockProgress + dt
+    );
+    if (!wasLocked && targeting.hasMissileLock()) {
+      EventBus.emit('targeting:missile-lock', entity.id, target.id);
+    }
+  }
+
+  /**
+   * Quickest lock time among the entity's working guided weapons (0 if none)
+   */
+  private getMissileLockTime(entity: Entity): number {
+    const weapons = entity.getComponent(WeaponComponent);
+    let lockTime = 0;
+    for (const weapon of weapons?.weapons ?? []) {
+      const guidance = getWeaponEntry(weapon.config.type).guidance;
+      if (!guidance || weapon.destroyed) continue;
+      if (lockTime === 0 || guidance.lockTime < lockTime) {
+        lockTime = guidance.lockTime;
+      }
+    }
+    return lockTime;
+  }
+
+  /**
+   * Check that nothing blocks the view from the viewer's torso to the target
+   */
+  private hasLineOfSight(viewer: Entity, target: Entity): boolean {
+    const { torso } = MECH_CONSTANTS.COLLISION;
+    const transform = viewer.getComponent(TransformComponent)!;
+    const targetTransform = target.getComponent(TransformComponent);
+    if (!targetTransform) return false;
+
+    this._eyePos
+      .copy(transform.position)
+      .setY(transform.position.y + torso.offsetY);
+    this._losDirection
+      .copy(targetTransform.position)
+      .setY(targetTransform.position.y + 2)
+      .sub(this._eyePos);
+    const distance = this._losDirection.length();
+    if (distance <= 0) return true;
+    this._losDirection.divideScalar(distance);
+
+    // Start outside our own collider
+    const clearance = torso.radius + 0.5;
+    this._eyePos.addScaledVector(this._losDirection, clearance);
+
+    const hit = this.physicsWorld.castRay(
+      this._eyePos,
+      this._losDirection,
+      distance - clearance
+    );
+
+    return !hit || hit.entityId === target.id;
+  }
+
+  /**
+   * Find all hostile and friendly units within range of the viewer
+   */
+  private findContactsInRange(viewer: Entity, range: number): string[] {
+    const contacts: Array<{ id: string; distance: number }> = [];
+
+    const factionEntities = this.world.getEntitiesWithComponents(
+      FactionComponent,
       TransformComponent
     );
 
-    for (const entity of turretEntities) {
+    for (const entity of factionEntities) {
+      if (entity.id === viewer.id) continue;
+      if (FactionComponent.relationBetween(viewer, entity) === 'neutral') {
+        continue;
+      }
+
       // Skip destroyed entities
       const health = entity.getComponent(HealthComponent);
       if (health && health.isDestroyed()) continue;
@@ -96,20 +203,21 @@ export class TargetingSystem extends System {
       const distance = this._playerPos.distanceTo(this._targetPos);
 
       if (distance <= range) {
-        enemies.push({ id: entity.id, distance });
+        contacts.push({ id: entity.id, distance });
       }
     }
 
     // Sort by distance (closest first)
-    enemies.sort((a, b) => a.distance - b.distance);
+    contacts.sort((a, b) => a.distance - b.distance);
 
-    return enemies.map((e) => e.id);
+    return contacts.map((e) => e.id);
   }
 
   /**
    * Project target positions to screen coordinates
    */
   private updateScreenPositions(
+    viewer: Entity,
     targeting: TargetingComponent,
     playerPos: THREE.Vector3
   ): void {
@@ -151,6 +259,7 @@ export class TargetingSystem extends System {
           y: screenY,
           distance,
           healthPercent,
+          relation: FactionComponent.relationBetween(viewer, targetEntity),
         });
       }
 
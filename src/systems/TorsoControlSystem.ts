@@ -2,6 +2,7 @@ import { System } from '../core/System';
 import type { ComponentClass } from '../core/Component';
 import { InputComponent } from '../components/InputComponent';
 import { MechComponent } from '../components/MechComponent';
+import { HeatComponent } from '../components/HeatComponent';
 import { CONTROLS_CONFIG } from '../config/ControlsConfig';
 
 /**
@@ -9,6 +10,7 @@ import { CONTROLS_CONFIG } from '../config/ControlsConfig';
  * - Mouse movement: Torso yaw and head pitch
  * - Arrow keys: Torso left/right, head up/down
  * - Updates MechComponent.torsoYaw and MechComponent.headPitch
+ * - Torso and head stay locked while the reactor is shut down
  */
 export class TorsoControlSystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -22,6 +24,7 @@ export class TorsoControlSystem extends System {
       const mech = entity.getComponent(MechComponent)!;
 
       if (!input.lastInput) continue;
+      if (entity.getComponent(HeatComponent)?.isOverheated) continue;
 
       const snapshot = input.lastInput;
 
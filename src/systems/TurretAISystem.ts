@@ -5,17 +5,23 @@ import { TurretComponent } from '../components/TurretComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import { RenderComponent } from '../components/RenderComponent';
 import { WeaponComponent } from '../components/WeaponComponent';
-import { InputComponent } from '../components/InputComponent';
-// TODO: Re-enable when turret firing is restored
-// import { EventBus } from '../core/EventBus';
+import { FactionComponent } from '../components/FactionComponent';
+import { HealthComponent } from '../components/HealthComponent';
+import { PhysicsComponent } from '../components/PhysicsComponent';
+import { EventBus } from '../core/EventBus';
 import type { TurretModel } from '../rendering/TurretModel';
 import type { Entity } from '../core/Entity';
+import type { PhysicsWorld } from '../physics/PhysicsWorld';
+
+/** Refinement passes for the lead intercept estimate */
+const LEAD_ITERATIONS = 2;
 
 /**
  * TurretAISystem handles turret behavior:
- * - Player detection
- * - Tracking/rotation
- * - Firing at player
+ * - Detection of the nearest hostile unit (by FactionComponent allegiance)
+ * - Tracking/rotation with lead prediction on moving targets
+ * - Line-of-sight checks before firing
+ * - Firing via turret:fire_request (spread scaled by difficulty)
  */
 export class TurretAISystem extends System {
   readonly requiredComponents: ComponentClass[] = [
@@ -23,45 +29,67 @@ export class TurretAISystem extends System {
     TransformComponent,
   ];
 
-  // Cached player entity reference
-  private playerEntity: Entity | null = null;
+  private physicsWorld: PhysicsWorld;
+
+  /** Enemy accuracy multiplier (MissionDifficulty.enemyAccuracy) */
+  private enemyAccuracy: number;
+
+  // Target of the turret currently being updated
+  private targetEntity: Entity | null = null;
 
   // Reusable vectors to avoid per-frame allocations
-  private readonly _toPlayer = new THREE.Vector3();
-  private readonly _playerPos = new THREE.Vector3();
+  private readonly _targetPos = new THREE.Vector3();
+  private readonly _targetVel = new THREE.Vector3();
   private readonly _turretPos = new THREE.Vector3();
+  private readonly _aimPoint = new THREE.Vector3();
+  private readonly _losDirection = new THREE.Vector3();
+  private readonly _spreadAxis = new THREE.Vector3();
+
+  constructor(physicsWorld: PhysicsWorld, enemyAccuracy: number = 1.0) {
+    super();
+    this.physicsWorld = physicsWorld;
+    this.enemyAccuracy = Math.max(0.1, enemyAccuracy);
+  }
 
   init(): void {
-    // Player detection will happen on first update
+    // Target detection happens per turret each update
   }
 
   update(dt: number): void {
-    // Find player entity if not cached
-    if (!this.playerEntity || !this.world.getEntity(this.playerEntity.id)) {
-      this.playerEntity = this.findPlayerEntity();
-    }
-
-    if (!this.playerEntity) return;
-
-    // Get player position
-    const playerTransform = this.playerEntity.getComponent(TransformComponent);
-    if (!playerTransform) return;
-
-    this._playerPos.copy(playerTransform.position);
-
-    // Process each turret
     for (const entity of this.getEntities()) {
       this.updateTurret(entity, dt);
     }
   }
 
-  private findPlayerEntity(): Entity | null {
-    // Player is the entity with InputComponent
-    const entities = this.world.getEntitiesWithComponents(
-      InputComponent,
+  /**
+   * Nearest living hostile unit within range of the turret
+   */
+  private findTarget(turretEntity: Entity, range: number): Entity | null {
+    const turretPos = turretEntity.getComponent(TransformComponent)!.position;
+    const candidates = this.world.getEntitiesWithComponents(
+      FactionComponent,
       TransformComponent
     );
-    return entities.length > 0 ? entities[0] : null;
+
+    let best: Entity | null = null;
+    let bestDistance = range;
+
+    for (const candidate of candidates) {
+      if (!FactionComponent.isHostile(turretEntity, candidate)) continue;
+
+      const health = candidate.getComponent(HealthComponent);
+      if (health?.isDestroyed()) continue;
+
+      const distance = candidate
+        .getComponent(TransformComponent)!
+        .position.distanceTo(turretPos);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        best = candidate;
+      }
+    }
+
+    return best;
   }
 
   private updateTurret(entity: Entity, dt: number): void {
@@ -72,19 +100,41 @@ export class TurretAISystem extends System {
 
     this._turretPos.copy(transform.position);
 
-    // Calculate distance and direction to player
-    this._toPlayer.copy(this._playerPos).sub(this._turretPos);
-    const distanceToPlayer = this._toPlayer.length();
+    if (turret.fireCooldown > 0) {
+      turret.fireCooldown = Math.max(0, turret.fireCooldown - dt);
+    }
 
-    // Check if player is in detection range
-    turret.hasTarget = distanceToPlayer <= turret.detectionRange;
+    // Pick the nearest hostile in detection range
+    this.targetEntity = this.findTarget(entity, turret.detectionRange);
+    turret.hasTarget = this.targetEntity !== null;
 
-    if (!turret.hasTarget) {
+    if (!this.targetEntity) {
+      turret.hasLineOfSight = false;
       return;
     }
 
-    // Calculate target yaw (angle to face player)
-    turret.targetYaw = Math.atan2(this._toPlayer.x, this._toPlayer.z);
+    this._targetPos.copy(
+      this.targetEntity.getComponent(TransformComponent)!.position
+    );
+
+    // Target velocity for lead prediction
+    const targetPhysics = this.targetEntity.getComponent(PhysicsComponent);
+    if (targetPhysics) {
+      this._targetVel.copy(targetPhysics.velocity);
+    } else {
+      this._targetVel.set(0, 0, 0);
+    }
+
+    // Aim at where the target will be when the shot arrives
+    const muzzlePos = this.getMuzzlePosition(entity);
+    const projectileSpeed = weapons?.getWeapon(1)?.config.projectileSpeed ?? 0;
+    this.predictAimPoint(muzzlePos, projectileSpeed);
+
+    // Calculate target yaw (angle to face the lead point)
+    turret.targetYaw = Math.atan2(
+      this._aimPoint.x - this._turretPos.x,
+      this._aimPoint.z - this._turretPos.z
+    );
 
     // Smoothly rotate toward target
     const angleDiff = this.normalizeAngle(turret.targetYaw - turret.currentYaw);
@@ -108,22 +158,80 @@ export class TurretAISystem extends System {
       }
     }
 
-    // Fire when aimed at player (temporarily disabled)
-    // TODO: Re-enable turret firing
-    // if (turret.isAimedAtTarget() && weapons) {
-    //   // Update weapon cooldowns
-    //   weapons.updateCooldowns(dt);
-    //
-    //   // Try to fire
-    //   if (weapons.canFire(1)) {
-    //     // Emit fire request - WeaponSystem will handle it
-    //     EventBus.emit('turret:fire_request', entity.id, 1, {
-    //       position: this.getMuzzlePosition(entity),
-    //       direction: this.getAimDirection(turret.currentYaw),
-    //     });
-    //   }
-    // }
-    void weapons; // Suppress unused variable warning
+    // Fire when aimed at the target with a clear line of fire
+    if (!turret.isAimedAtTarget() || !weapons) return;
+    if (turret.fireCooldown > 0 || !weapons.canFire(1)) return;
+
+    turret.hasLineOfSight = this.hasLineOfSight(muzzlePos);
+    if (!turret.hasLineOfSight) return;
+
+    const direction = this.getFireDirection(muzzlePos, turret);
+
+    // Emit fire request - WeaponSystem will handle it
+    EventBus.emit('turret:fire_request', entity.id, 1, {
+      position: muzzlePos,
+      direction,
+    });
+
+    turret.fireCooldown = turret.fireInterval;
+  }
+
+  /**
+   * Predict the intercept point for a projectile fired from the muzzle.
+   * Hitscan weapons (speed 0) aim straight at the target.
+   */
+  private predictAimPoint(muzzlePos: THREE.Vector3, speed: number): void {
+    this._aimPoint.copy(this._targetPos);
+    if (speed <= 0) return;
+
+    for (let i = 0; i < LEAD_ITERATIONS; i++) {
+      const timeToTarget = this._aimPoint.distanceTo(muzzlePos) / speed;
+      this._aimPoint
+        .copy(this._targetPos)
+        .addScaledVector(this._targetVel, timeToTarget);
+    }
+  }
+
+  /**
+   * Check that nothing blocks the shot between muzzle and target
+   */
+  private hasLineOfSight(muzzlePos: THREE.Vector3): boolean {
+    this._losDirection.copy(this._targetPos).sub(muzzlePos);
+    const distance = this._losDirection.length();
+    if (distance <= 0) return true;
+    this._losDirection.divideScalar(distance);
+
+    const hit = this.physicsWorld.castRay(
+      muzzlePos,
+      this._losDirection,
+      distance
+    );
+
+    // No hit means nothing in the way; otherwise the first hit must be the target
+    return !hit || hit.entityId === this.targetEntity?.id;
+  }
+
+  /**
+   * Direction from muzzle to the lead point, perturbed by the turret's spread
+   */
+  private getFireDirection(
+    muzzlePos: THREE.Vector3,
+    turret: TurretComponent
+  ): THREE.Vector3 {
+    const direction = this._aimPoint.clone().sub(muzzlePos).normalize();
+
+    // Better accuracy tightens the spread cone
+    const spread = turret.spread / this.enemyAccuracy;
+    if (spread <= 0) return direction;
+
+    // Rotate by a random angle within the cone around a random perpendicular axis
+    this._spreadAxis
+      .set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5)
+      .cross(direction)
+      .normalize();
+    if (this._spreadAxis.lengthSq() === 0) return direction;
+
+    return direction.applyAxisAngle(this._spreadAxis, Math.random() * spread);
   }
 
   /**
@@ -145,13 +253,6 @@ export class TurretAISystem extends System {
     return muzzlePos;
   }
 
-  /**
-   * Get aim direction from turret yaw
-   */
-  private getAimDirection(yaw: number): THREE.Vector3 {
-    return new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)).normalize();
-  }
-
   /**
    * Normalize angle to -PI to PI range
    */
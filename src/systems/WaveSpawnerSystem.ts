@@ -0,0 +1,240 @@
+import * as THREE from 'three';
+import { System } from '../core/System';
+import type { ComponentClass } from '../core/Component';
+import type { Entity } from '../core/Entity';
+import { EventBus } from '../core/EventBus';
+import { HealthComponent } from '../components/HealthComponent';
+import { TurretComponent } from '../components/TurretComponent';
+import { createTarget } from '../archetypes/createTarget';
+import { createTurret } from '../archetypes/createTurret';
+import { createEnemyMech } from '../archetypes/createEnemyMech';
+import { getMechById } from '../config/MechConfigs';
+import { AI_CONFIG } from '../config/AIConfig';
+import { WAVE_CONFIG } from '../config/WaveConfig';
+import type { MapSystem } from './MapSystem';
+import type { PhysicsWorld } from '../physics/PhysicsWorld';
+import type {
+  MissionConfig,
+  MissionDifficulty,
+  SpawnGroupConfig,
+  WaveConfig,
+} from '../config/missions/MissionConfig';
+
+/**
+ * Wave spawner system releases a mission's enemy waves over time.
+ * - Each wave starts `delay` seconds after the previous one
+ *   (sooner if the current wave is cleared early)
+ * - Spawns turrets, targets or AI mechs through their archetypes,
+ *   scaled by difficulty and the group's own scaling
+ * - Emits wave:started (wave, totalWaves, count) and
+ *   wave:cleared (wave, totalWaves) once every spawned entity is gone
+ * - Also spawns groups requested by mission triggers (trigger:spawn)
+ */
+export class WaveSpawnerSystem extends System {
+  readonly requiredComponents: ComponentClass[] = [];
+
+  private physicsWorld: PhysicsWorld;
+  private mapSystem: MapSystem;
+  private mission: MissionConfig;
+  private waves: WaveConfig[];
+  private difficulty: MissionDifficulty;
+
+  /** Index of the next wave to start */
+  private nextWave: number = 0;
+  /** Seconds until the next wave starts */
+  private countdown: number;
+  /** Living entity IDs per started wave (keyed by 1-based wave number) */
+  private activeWaves: Map<number, Set<string>> = new Map();
+
+  constructor(
+    physicsWorld: PhysicsWorld,
+    mapSystem: MapSystem,
+    mission: MissionConfig,
+    difficulty: MissionDifficulty
+  ) {
+    super();
+    this.physicsWorld = physicsWorld;
+    this.mapSystem = mapSystem;
+    this.mission = mission;
+    this.waves = mission.waves ?? [];
+    this.difficulty = difficulty;
+    this.countdown = this.waves[0]?.delay ?? 0;
+  }
+
+  init(): void {
+    EventBus.on('entity:destroyed', this.onEntityDestroyed);
+    EventBus.on('trigger:spawn', this.onTriggerSpawn);
+  }
+
+  update(dt: number): void {
+    if (this.nextWave >= this.waves.length) return;
+
+    this.countdown -= dt;
+    if (this.countdown <= 0) {
+      this.startWave(this.nextWave);
+    }
+  }
+
+  onEntityRemoved(entity: Entity): void {
+    this.retire(entity.id);
+  }
+
+  private onEntityDestroyed = (entityId: string): void => {
+    this.retire(entityId);
+  };
+
+  private onTriggerSpawn = (
+    triggerId: string,
+    group: SpawnGroupConfig
+  ): void => {
+    this.spawnGroup(group, triggerId);
+  };
+
+  private startWave(index: number): void {
+    const waveNumber = index + 1;
+    const spawned = this.spawnGroup(this.waves[index], `wave${waveNumber}`);
+
+    this.nextWave = waveNumber;
+    this.countdown = this.waves[this.nextWave]?.delay ?? 0;
+    this.activeWaves.set(waveNumber, spawned);
+
+    EventBus.emit('wave:started', waveNumber, this.waves.length, spawned.size);
+
+    // Nothing spawned (empty wave) counts as cleared straight away
+    if (spawned.size === 0) {
+      this.clearWave(waveNumber);
+    }
+  }
+
+  /**
+   * Drop an entity from its wave, clearing the wave when it was the last one
+   */
+  private retire(entityId: string): void {
+    for (const [waveNumber, ids] of this.activeWaves) {
+      if (ids.delete(entityId) && ids.size === 0) {
+        this.clearWave(waveNumber);
+      }
+    }
+  }
+
+  private clearWave(waveNumber: number): void {
+    this.activeWaves.delete(waveNumber);
+    EventBus.emit('wave:cleared', waveNumber, this.waves.length);
+
+    // Clearing the latest wave early brings the next one forward
+    if (waveNumber === this.nextWave && this.nextWave < this.waves.length) {
+      this.countdown = Math.min(this.countdown, WAVE_CONFIG.clearedDelay);
+    }
+  }
+
+  /**
+   * Spawn every entity in a group; IDs are `<archetype>-<tag>-<n>`
+   */
+  private spawnGroup(group: SpawnGroupConfig, tag: string): Set<string> {
+    const spawned = new Set<string>();
+
+    for (let i = 0; i < group.count; i++) {
+      const entity = this.spawnEntity(group, `${tag}-${i + 1}`, i);
+      if (entity) {
+        this.world.addEntity(entity);
+        spawned.add(entity.id);
+      }
+    }
+
+    return spawned;
+  }
+
+  private spawnEntity(
+    group: SpawnGroupConfig,
+    suffix: string,
+    index: number
+  ): Entity | null {
+    if (group.spawnPoints.length === 0) return null;
+
+    const position = this.getSpawnPosition(group, index);
+    const healthMultiplier =
+      this.difficulty.enemyHealth * (group.scaling?.health ?? 1);
+
+    switch (group.archetype) {
+      case 'target': {
+        const config: Parameters<typeof createTarget>[3] = {
+          healthMultiplier,
+        };
+        if (group.health !== undefined) config.health = group.health;
+
+        const spawn = this.mission.playerSpawn.position;
+        return createTarget(
+          `target-${suffix}`,
+          this.physicsWorld,
+          position,
+          config,
+          new THREE.Vector3(spawn.x, position.y, spawn.z)
+        );
+      }
+
+      case 'turret': {
+        const config: Parameters<typeof createTurret>[3] = {
+          healthMultiplier,
+        };
+        if (group.health !== undefined) config.health = group.health;
+        if (group.weaponType !== undefined)
+          config.weaponType = group.weaponType;
+
+        const turret = createTurret(
+          `turret-${suffix}`,
+          this.physicsWorld,
+          position,
+          config
+        );
+        const fireRate = group.scaling?.fireRate ?? 1;
+        turret.getComponent(TurretComponent)!.fireInterval /= fireRate;
+        return turret;
+      }
+
+      case 'mech': {
+        const profile = {
+          ...AI_CONFIG.DEFAULT_PROFILE,
+          ...this.mission.ai,
+          ...group.ai,
+        };
+        const mech = createEnemyMech(
+          `enemy-mech-${suffix}`,
+          getMechById(group.mechId ?? WAVE_CONFIG.defaultMechId),
+          this.physicsWorld,
+          position,
+          profile
+        );
+        mech.getComponent(HealthComponent)!.scale(healthMultiplier);
+        return mech;
+      }
+    }
+  }
+
+  /**
+   * Cycle through the group's spawn points, fanning out entities that share one
+   */
+  private getSpawnPosition(
+    group: SpawnGroupConfig,
+    index: number
+  ): THREE.Vector3 {
+    const points = group.spawnPoints;
+    const point = points[index % points.length];
+    const ring = Math.floor(index / points.length);
+
+    let x = point.x;
+    let z = point.z;
+    if (ring > 0) {
+      const angle = ring * 2.4; // Golden angle keeps neighbours apart
+      x += Math.cos(angle) * WAVE_CONFIG.spawnSpread;
+      z += Math.sin(angle) * WAVE_CONFIG.spawnSpread;
+    }
+
+    return new THREE.Vector3(x, this.mapSystem.getHeightAt(x, z) + point.y, z);
+  }
+
+  dispose(): void {
+    EventBus.off('entity:destroyed', this.onEntityDestroyed);
+    EventBus.off('trigger:spawn', this.onTriggerSpawn);
+    this.activeWaves.clear();
+  }
+}
@@ -3,11 +3,16 @@ import type { ComponentClass } from '../core/Component';
 import { InputComponent } from '../components/InputComponent';
 import { WeaponComponent } from '../components/WeaponComponent';
 import { EventBus } from '../core/EventBus';
+import { WEAPON_GROUP_CONFIG } from '../config/WeaponGroups';
 
 /**
  * WeaponControlSystem handles weapon input and selection.
- * - Fire input (mouse/space): Emits weapon:fire_request events
+ * - Fire input (mouse/space): Emits weapon:fire_request events, or
+ *   weapon:salvo_request when a weapon group fires together
  * - Weapon slot selection (1-4 keys, scroll wheel)
+ * - Weapon group selection (Shift+1-4) with chain-fire groups cycling
+ *   through their weapons every WEAPON_GROUP_CONFIG.chainFireInterval
+ * - Alpha strike (F): every weapon in one salvo
  * - Semi-auto vs auto-fire logic
  */
 export class WeaponControlSystem extends System {
@@ -16,6 +21,30 @@ export class WeaponControlSystem extends System {
     WeaponComponent,
   ];
 
+  init(): void {
+    EventBus.on('weapon:fired', this.onWeaponFired);
+  }
+
+  dispose(): void {
+    EventBus.off('weapon:fired', this.onWeaponFired);
+  }
+
+  /**
+   * Move a chain-fire group on to its next weapon once a shot goes out
+   */
+  private onWeaponFired = (
+    _type: string,
+    entityId: string,
+    slot: number
+  ): void => {
+    const weapons = this.world
+      .getEntity(entityId)
+      ?.getComponent(WeaponComponent);
+    if (weapons?.advanceChain(slot)) {
+      weapons.chainCooldown = WEAPON_GROUP_CONFIG.chainFireInterval;
+    }
+  };
+
   update(_dt: number): void {
     for (const entity of this.getEntities()) {
       const input = entity.getComponent(InputComponent)!;
@@ -25,9 +54,12 @@ export class WeaponControlSystem extends System {
 
       const snapshot = input.lastInput;
 
-      // Handle weapon selection
+      // Handle weapon and group selection
       this.handleWeaponSelection(entity.id, snapshot, weapons, input);
 
+      // Handle alpha strike
+      this.handleAlphaStrike(entity.id, snapshot, weapons, input);
+
       // Handle firing
       this.handleFiring(entity.id, snapshot, weapons, input);
     }
@@ -35,7 +67,7 @@ export class WeaponControlSystem extends System {
 
   private handleWeaponSelection(
     entityId: string,
-    snapshot: { weaponSlot: number },
+    snapshot: { weaponSlot: number; weaponGroup: number },
     weapons: WeaponComponent,
     _input: InputComponent
   ): void {
@@ -44,6 +76,30 @@ export class WeaponControlSystem extends System {
         EventBus.emit('weapon:selected', entityId, snapshot.weaponSlot);
       }
     }
+
+    if (snapshot.weaponGroup !== weapons.selectedGroup) {
+      if (weapons.selectGroup(snapshot.weaponGroup)) {
+        EventBus.emit('weapon:group_selected', entityId, snapshot.weaponGroup);
+      }
+    }
+  }
+
+  private handleAlphaStrike(
+    entityId: string,
+    snapshot: { alphaStrike: boolean },
+    weapons: WeaponComponent,
+    input: InputComponent
+  ): void {
+    // One salvo per press
+    const justPressed = snapshot.alphaStrike && !input.wasAlphaStriking;
+    input.wasAlphaStriking = snapshot.alphaStrike;
+    if (!justPressed) return;
+
+    EventBus.emit(
+      'weapon:salvo_request',
+      entityId,
+      weapons.weapons.map((w) => w.slot)
+    );
   }
 
   private handleFiring(
@@ -52,6 +108,11 @@ export class WeaponControlSystem extends System {
     weapons: WeaponComponent,
     input: InputComponent
   ): void {
+    if (weapons.getSelectedGroup()) {
+      this.handleGroupFiring(entityId, snapshot, weapons, input);
+      return;
+    }
+
     const selectedWeapon = weapons.getSelectedWeapon();
     if (!selectedWeapon) return;
 
@@ -72,4 +133,40 @@ export class WeaponControlSystem extends System {
     // Emit fire request for WeaponSystem to handle
     EventBus.emit('weapon:fire_request', entityId, weapons.selectedSlot);
   }
+
+  /**
+   * Fire the selected group while held: chain-fire groups fire their next
+   * ready weapon at a fixed interval, others fire every ready weapon
+   * together (semi-auto weapons only on the initial press)
+   */
+  private handleGroupFiring(
+    entityId: string,
+    snapshot: { fire: boolean },
+    weapons: WeaponComponent,
+    input: InputComponent
+  ): void {
+    const group = weapons.getSelectedGroup()!;
+    const justPressed = snapshot.fire && !input.wasFiring;
+    input.wasFiring = snapshot.fire;
+    if (!snapshot.fire) return;
+
+    if (group.chainFire) {
+      if (weapons.chainCooldown > 0) return;
+
+      // The chain advances on weapon:fired, so a refused shot (e.g. too
+      // hot) is retried instead of skipped
+      const slot = weapons.nextChainSlot();
+      if (slot === undefined) return;
+
+      EventBus.emit('weapon:fire_request', entityId, slot);
+      return;
+    }
+
+    const slots = group.slots.filter(
+      (slot) => justPressed || !weapons.getWeapon(slot)?.config.semiAuto
+    );
+    if (slots.length > 0) {
+      EventBus.emit('weapon:salvo_request', entityId, slots);
+    }
+  }
 }
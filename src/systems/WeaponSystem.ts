@@ -5,32 +5,57 @@ import { Entity } from '../core/Entity';
 import { WeaponComponent } from '../components/WeaponComponent';
 import { TransformComponent } from '../components/TransformComponent';
 import { MechComponent } from '../components/MechComponent';
+import { InputComponent } from '../components/InputComponent';
 import { HeatComponent } from '../components/HeatComponent';
 import { RenderComponent } from '../components/RenderComponent';
 import { ProjectileComponent } from '../components/ProjectileComponent';
+import { FactionComponent } from '../components/FactionComponent';
+import { TargetingComponent } from '../components/TargetingComponent';
 import { HealthComponent } from '../components/HealthComponent';
 import { EventBus } from '../core/EventBus';
 import type { MechModel } from '../rendering/MechModel';
 import type { Weapon } from '../components/WeaponComponent';
 import type { PhysicsWorld } from '../physics/PhysicsWorld';
 import {
-  createAutocannonMaterial,
-  createPPCCoreMaterial,
-  createPPCSparkleMaterial,
-  createMissileMaterial,
-  createFlameMaterial,
+  DIFFICULTY_PRESETS,
+  getDamageMultiplier,
+} from '../config/missions/MissionConfig';
+import type { MissionDifficulty } from '../config/missions/MissionConfig';
+import {
   createLaserBeamMaterial,
   createLaserBeamCoreMaterial,
   createMuzzleFlashMaterial,
-  createAutocannonMesh,
-  createPPCMesh,
-  createMissileMesh,
+  createProjectileMaterials,
+  createProjectileMesh,
   PROJECTILE_VISUALS,
 } from '../config/ProjectileVisuals';
+import type {
+  MuzzleFlashPreset,
+  ProjectileMaterials,
+} from '../config/ProjectileVisuals';
+import { getWeaponEntry } from '../config/WeaponCatalog';
+import type { WeaponType } from '../types';
 
 /** Default aim distance when no target is hit */
 const DEFAULT_AIM_DISTANCE = 500;
 
+/**
+ * A beam weapon that is still firing
+ */
+interface ActiveBeam {
+  ownerId: string;
+  weapon: Weapon;
+  /** Origin and direction for beams that don't track (turrets) */
+  fixedAim: { position: THREE.Vector3; direction: THREE.Vector3 } | null;
+  /** Seconds left to burn */
+  remaining: number;
+  duration: number;
+  outerMesh: THREE.Mesh;
+  innerMesh: THREE.Mesh;
+  /** Entity touched last tick, so impact effects play once per target */
+  lastHitId: string | null;
+}
+
 /**
  * Weapon system handles weapon cooldowns and firing.
  */
@@ -43,18 +68,19 @@ export class WeaponSystem extends System {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private physicsWorld: PhysicsWorld;
+  /** Damage scaling by attacker faction */
+  private difficulty: MissionDifficulty;
 
-  // Materials for projectiles
-  private autocannonMaterial!: THREE.MeshBasicMaterial;
-  private ppcCoreMaterial!: THREE.MeshBasicMaterial;
-  private ppcSparkleMaterial!: THREE.PointsMaterial;
-  private missileMaterial!: THREE.MeshBasicMaterial;
-  private flameMaterial!: THREE.MeshBasicMaterial;
+  // Shared projectile materials per weapon type, created on first shot
+  private projectileMaterials = new Map<WeaponType, ProjectileMaterials>();
   private laserBeamMaterial!: THREE.MeshBasicMaterial;
   private laserBeamCoreMaterial!: THREE.MeshBasicMaterial;
   private muzzleFlashMaterial!: THREE.MeshBasicMaterial;
 
-  // Active laser beams and muzzle flashes
+  // Beams still firing: re-aimed and dealing damage every tick
+  private activeBeams: ActiveBeam[] = [];
+
+  // Fading laser beams and muzzle flashes
   private laserBeams: Array<{
     outerMesh: THREE.Mesh;
     innerMesh: THREE.Mesh;
@@ -74,70 +100,112 @@ export class WeaponSystem extends System {
   private readonly _raycaster = new THREE.Raycaster();
   private readonly _screenCenter = new THREE.Vector2(0, 0);
   private readonly _aimTarget = new THREE.Vector3();
+  private readonly _shotDirection = new THREE.Vector3();
+  private readonly _spreadAxis = new THREE.Vector3();
+  private readonly _up = new THREE.Vector3(0, 1, 0);
 
   constructor(
     scene: THREE.Scene,
     camera: THREE.PerspectiveCamera,
-    physicsWorld: PhysicsWorld
+    physicsWorld: PhysicsWorld,
+    difficulty: MissionDifficulty = DIFFICULTY_PRESETS.normal
   ) {
     super();
     this.scene = scene;
     this.camera = camera;
     this.physicsWorld = physicsWorld;
+    this.difficulty = difficulty;
     this.createMaterials();
   }
 
   init(): void {
     // Listen for fire requests from MovementSystem (player)
-    EventBus.on('weapon:fire_request', (entityId: string, slot: number) => {
-      const entity = this.world.getEntity(entityId);
-      if (entity) {
-        this.fire(entity, slot);
-      }
-    });
-
+    EventBus.on('weapon:fire_request', this.onFireRequest);
+    // Listen for weapon group and alpha strike salvos (player)
+    EventBus.on('weapon:salvo_request', this.onSalvoRequest);
     // Listen for turret fire requests (includes position/direction)
-    EventBus.on(
-      'turret:fire_request',
-      (
-        entityId: string,
-        slot: number,
-        fireData: { position: THREE.Vector3; direction: THREE.Vector3 }
-      ) => {
-        const entity = this.world.getEntity(entityId);
-        if (entity) {
-          this.fireTurret(entity, slot, fireData.position, fireData.direction);
-        }
-      }
-    );
+    EventBus.on('turret:fire_request', this.onTurretFireRequest);
   }
 
+  private onFireRequest = (entityId: string, slot: number): void => {
+    const entity = this.world.getEntity(entityId);
+    if (entity) {
+      this.fire(entity, slot);
+    }
+  };
+
+  private onSalvoRequest = (entityId: string, slots: number[]): void => {
+    const entity = this.world.getEntity(entityId);
+    if (entity) {
+      this.fireSalvo(entity, slots);
+    }
+  };
+
+  private onTurretFireRequest = (
+    entityId: string,
+    slot: number,
+    fireData: { position: THREE.Vector3; direction: THREE.Vector3 }
+  ): void => {
+    const entity = this.world.getEntity(entityId);
+    if (entity) {
+      this.fireTurret(entity, slot, fireData.position, fireData.direction);
+    }
+  };
+
   private createMaterials(): void {
     // Use centralized material factory functions from ProjectileVisuals
-    this.autocannonMaterial = createAutocannonMaterial();
-    this.ppcCoreMaterial = createPPCCoreMaterial();
-    this.ppcSparkleMaterial = createPPCSparkleMaterial();
-    this.missileMaterial = createMissileMaterial();
-    this.flameMaterial = createFlameMaterial();
     this.laserBeamMaterial = createLaserBeamMaterial();
     this.laserBeamCoreMaterial = createLaserBeamCoreMaterial();
     this.muzzleFlashMaterial = createMuzzleFlashMaterial();
   }
 
   update(dt: number): void {
-    // Update weapon cooldowns
+    // Update weapon cooldowns and recover recoil bloom
     for (const entity of this.getEntities()) {
       const weapons = entity.getComponent(WeaponComponent)!;
       weapons.updateCooldowns(dt);
+      this.recoverBloom(weapons, dt);
     }
 
-    // Update laser beams (fade out)
+    // Burn active beams, then fade out finished ones
+    this.updateActiveBeams(dt);
     this.updateLaserBeams(dt);
 
     // Update muzzle flashes (fade out)
     this.updateMuzzleFlashes(dt);
   }
 
+  /**
+   * Re-aim each firing beam and apply this tick's share of its damage
+   * and heat. Beams stop early if the owner or weapon is destroyed or the
+   * owner's reactor shuts down.
+   */
+  private updateActiveBeams(dt: number): void {
+    for (let i = this.activeBeams.length - 1; i >= 0; i--) {
+      const beam = this.activeBeams[i];
+      const owner = this.world.getEntity(beam.ownerId);
+      const ownerDisabled =
+        !owner ||
+        owner.getComponent(HealthComponent)?.isDestroyed() ||
+        owner.getComponent(HeatComponent)?.isOverheated;
+
+      if (!ownerDisabled && !beam.weapon.destroyed && beam.remaining > 0) {
+        const step = Math.min(dt, beam.remaining);
+        const aim =
+          beam.fixedAim ?? this.getFiringSolution(owner!, beam.weapon.slot);
+        this.burnBeam(beam, aim.position, aim.direction, step / beam.duration);
+        owner!
+          .getComponent(HeatComponent)
+          ?.addHeat((beam.weapon.config.heatGenerated * step) / beam.duration);
+        beam.remaining -= step;
+        if (beam.remaining > 0) continue;
+      }
+
+      this.activeBeams.splice(i, 1);
+      this.fadeBeam(beam.outerMesh, beam.innerMesh);
+    }
+  }
+
   private updateLaserBeams(dt: number): void {
     for (let i = this.laserBeams.length - 1; i >= 0; i--) {
       const beam = this.laserBeams[i];
@@ -180,61 +248,68 @@ export class WeaponSystem extends System {
   }
 
   fire(entity: Entity, slot: number): boolean {
+    return this.fireSalvo(entity, [slot]);
+  }
+
+  /**
+   * Fire several weapons together. Weapons on cooldown or out of ammo are
+   * skipped; the heat check covers the combined salvo, so nothing fires
+   * if all of it together would overheat the mech.
+   */
+  fireSalvo(entity: Entity, slots: number[]): boolean {
     const weapons = entity.getComponent(WeaponComponent);
     const heat = entity.getComponent(HeatComponent);
     const transform = entity.getComponent(TransformComponent);
-    const render = entity.getComponent(RenderComponent);
 
     if (!weapons || !transform) return false;
 
-    const weapon = weapons.getWeapon(slot);
-    if (!weapon) return false;
-
     // Check cooldown and ammo
-    if (!weapons.canFire(slot)) return false;
+    const ready = [...new Set(slots)]
+      .filter((slot) => weapons.canFire(slot))
+      .map((slot) => weapons.getWeapon(slot)!);
+    if (ready.length === 0) return false;
 
     // Check heat
-    if (heat && !heat.canAddHeat(weapon.config.heatGenerated)) {
+    const salvoHeat = ready.reduce(
+      (sum, weapon) => sum + weapon.config.heatGenerated,
+      0
+    );
+    if (heat && !heat.canAddHeat(salvoHeat)) {
       return false;
     }
 
-    // Get firing position from mech model
-    let firingPos = transform.position.clone();
-    if (render?.model) {
-      const model = render.model as MechModel;
-      if (model.getWeaponPosition) {
-        firingPos = model.getWeaponPosition(slot);
-      }
+    for (const weapon of ready) {
+      this.fireWeapon(entity, weapon, heat);
     }
+    return true;
+  }
 
-    // Get aim target from reticle raycast, then calculate direction from weapon to target
-    const aimTarget = this.getAimTarget();
-    const direction = this.getAimDirectionToTarget(firingPos, aimTarget);
-
-    // Create projectile based on weapon type
-    if (weapon.config.type === 'laser') {
-      this.createLaserBeam(entity.id, weapon, firingPos, direction);
-    } else {
-      this.createProjectile(entity, weapon, firingPos, direction);
-    }
+  /**
+   * Discharge a mech weapon that passed its cooldown, ammo and heat checks
+   */
+  private fireWeapon(
+    entity: Entity,
+    weapon: Weapon,
+    heat?: HeatComponent
+  ): void {
+    const { position, direction } = this.getFiringSolution(entity, weapon.slot);
+    const rounds = this.discharge(entity, weapon, position, direction, true);
 
-    // Add heat
-    if (heat) {
+    // Add heat (sustained beams heat the mech while they fire instead)
+    if (heat && !getWeaponEntry(weapon.config.type).beamDuration) {
       heat.addHeat(weapon.config.heatGenerated);
     }
 
     // Start cooldown
-    weapon.cooldownRemaining = weapon.config.cooldown;
+    weapon.cooldownRemaining = this.getRecycleTime(weapon);
 
     // Use ammo
     if (weapon.ammo !== undefined) {
-      weapon.ammo--;
+      weapon.ammo -= rounds;
     }
 
     // Emit event for audio
-    EventBus.emit('weapon:fired', weapon.config.type, entity.id);
-
-    return true;
+    EventBus.emit('weapon:fired', weapon.config.type, entity.id, weapon.slot);
   }
 
   /**
@@ -255,27 +330,172 @@ export class WeaponSystem extends System {
     // Check cooldown and ammo
     if (!weapons.canFire(slot)) return false;
 
-    // Create projectile based on weapon type
-    if (weapon.config.type === 'laser') {
-      this.createLaserBeam(entity.id, weapon, position, direction);
-    } else {
-      this.createProjectile(entity, weapon, position, direction);
-    }
+    const rounds = this.discharge(entity, weapon, position, direction, false);
 
     // Start cooldown
-    weapon.cooldownRemaining = weapon.config.cooldown;
+    weapon.cooldownRemaining = this.getRecycleTime(weapon);
 
     // Use ammo
     if (weapon.ammo !== undefined) {
-      weapon.ammo--;
+      weapon.ammo -= rounds;
     }
 
     // Emit event for audio
-    EventBus.emit('weapon:fired', weapon.config.type, entity.id);
+    EventBus.emit('weapon:fired', weapon.config.type, entity.id, weapon.slot);
 
     return true;
   }
 
+  /**
+   * Fire the weapon's beam or projectiles based on its catalog behavior.
+   * Salvo weapons launch a cluster; guided ones home on a missile lock.
+   * Tracking beams follow the owner's aim for their whole duration.
+   * Returns the rounds of ammo used.
+   */
+  private discharge(
+    entity: Entity,
+    weapon: Weapon,
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    trackAim: boolean
+  ): number {
+    const entry = getWeaponEntry(weapon.config.type);
+    if (entry.behavior === 'beam') {
+      this.createLaserBeam(entity.id, weapon, position, direction, trackAim);
+      return 1;
+    }
+
+    const targetId = entry.guidance ? this.getMissileTarget(entity) : null;
+    const rounds = Math.min(entry.salvo?.count ?? 1, weapon.ammo ?? Infinity);
+    const spread =
+      (entry.salvo?.spread ?? 0) +
+      (entry.ballistics?.spread ?? 0) +
+      weapon.bloom;
+
+    for (let i = 0; i < rounds; i++) {
+      this._shotDirection.copy(direction).normalize();
+      if (targetId && entry.guidance) {
+        this.loft(this._shotDirection, entry.guidance.loftAngle);
+      }
+      this.applySpread(this._shotDirection, spread);
+
+      // Stagger salvo launch points so the cluster doesn't overlap
+      const origin = position.clone();
+      if (i > 0) {
+        origin.x += (Math.random() - 0.5) * 0.6;
+        origin.y += (Math.random() - 0.5) * 0.6;
+        origin.z += (Math.random() - 0.5) * 0.6;
+      }
+
+      this.createProjectile(
+        entity,
+        weapon,
+        origin,
+        this._shotDirection,
+        targetId
+      );
+    }
+
+    // Sustained fire widens the cone
+    if (entry.ballistics?.bloomPerShot) {
+      weapon.bloom = Math.min(
+        entry.ballistics.maxBloom ?? Infinity,
+        weapon.bloom + entry.ballistics.bloomPerShot
+      );
+    }
+
+    return rounds;
+  }
+
+  /**
+   * Seconds before a weapon can fire again; beams recycle once they stop
+   */
+  private getRecycleTime(weapon: Weapon): number {
+    return (
+      weapon.config.cooldown +
+      (getWeaponEntry(weapon.config.type).beamDuration ?? 0)
+    );
+  }
+
+  /**
+   * Shrink each weapon's recoil bloom back toward its resting cone
+   */
+  private recoverBloom(weapons: WeaponComponent, dt: number): void {
+    for (const weapon of weapons.weapons) {
+      if (weapon.bloom <= 0) continue;
+      const recovery =
+        getWeaponEntry(weapon.config.type).ballistics?.bloomRecovery ?? 0;
+      weapon.bloom =
+        recovery > 0 ? Math.max(0, weapon.bloom - recovery * dt) : 0;
+    }
+  }
+
+  /**
+   * Target a guided weapon homes on: the locked target once the missile
+   * lock is acquired, otherwise none (dumb-fire)
+   */
+  private getMissileTarget(entity: Entity): string | null {
+    const targeting = entity.getComponent(TargetingComponent);
+    return targeting?.hasMissileLock() ? targeting.lockedTargetId : null;
+  }
+
+  /**
+   * Pitch a direction up by an angle for an arcing launch
+   */
+  private loft(direction: THREE.Vector3, angle: number): void {
+    this._spreadAxis.copy(direction).cross(this._up);
+    if (this._spreadAxis.lengthSq() === 0) return;
+    direction.applyAxisAngle(this._spreadAxis.normalize(), angle);
+  }
+
+  /**
+   * Rotate a direction by a random angle within a cone
+   */
+  private applySpread(direction: THREE.Vector3, spread: number): void {
+    if (spread <= 0) return;
+
+    // Random perpendicular axis
+    this._spreadAxis
+      .set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5)
+      .cross(direction)
+      .normalize();
+    if (this._spreadAxis.lengthSq() === 0) return;
+
+    direction.applyAxisAngle(this._spreadAxis, Math.random() * spread);
+  }
+
+  /**
+   * Muzzle position and aim direction for a mech's weapon slot. The local
+   * player aims through the reticle; AI pilots fire along their torso.
+   * The direction is a shared vector, valid until the next call.
+   */
+  private getFiringSolution(
+    entity: Entity,
+    slot: number
+  ): { position: THREE.Vector3; direction: THREE.Vector3 } {
+    const transform = entity.getComponent(TransformComponent)!;
+    const render = entity.getComponent(RenderComponent);
+
+    // Get firing position from mech model
+    let position = transform.position.clone();
+    if (render?.model) {
+      const model = render.model as MechModel;
+      if (model.getWeaponPosition) {
+        position = model.getWeaponPosition(slot);
+      }
+    }
+
+    const input = entity.getComponent(InputComponent);
+    const direction = input?.isLocalPlayer
+      ? this.getAimDirectionToTarget(position, this.getAimTarget())
+      : this.getAimDirectionFromTorso(
+          transform,
+          entity.getComponent(MechComponent)
+        );
+
+    return { position, direction };
+  }
+
   /**
    * Get the aim target point by raycasting from camera through screen center (reticle)
    */
@@ -318,7 +538,7 @@ export class WeaponSystem extends System {
   }
 
   /**
-   * Legacy method for fallback - get aim direction from torso rotation
+   * Get aim direction from torso rotation (used by AI pilots)
    */
   private getAimDirectionFromTorso(
     transform: TransformComponent,
@@ -337,127 +557,149 @@ export class WeaponSystem extends System {
     return this._aimDirection;
   }
 
+  /**
+   * Difficulty damage scale for the entity that fired. Projectiles carry it
+   * from the moment they're fired, so it holds if the shooter is removed.
+   */
+  private getDamageMultiplier(ownerId: string): number {
+    const faction = this.world
+      .getEntity(ownerId)
+      ?.getComponent(FactionComponent)?.faction;
+    return faction ? getDamageMultiplier(this.difficulty, faction) : 1;
+  }
+
+  /**
+   * Fire a beam. Beams with a duration keep burning and are re-aimed every
+   * tick by updateActiveBeams; instant beams apply all their damage now.
+   */
   private createLaserBeam(
     ownerId: string,
     weapon: Weapon,
     position: THREE.Vector3,
-    direction: THREE.Vector3
+    direction: THREE.Vector3,
+    trackAim: boolean
   ): void {
-    const maxRange = weapon.config.range;
-    const { outerRadius, innerRadius, lifetime } = PROJECTILE_VISUALS.LASER;
-
-    // Hitscan: raycast to find what we hit
-    const hit = this.physicsWorld.castRay(position, direction, maxRange);
-
-    // Determine beam length - stop at hit point or max range
-    let beamLength = maxRange;
-
-    if (hit && hit.entityId && hit.entityId !== ownerId) {
-      beamLength = hit.distance;
-
-      // Apply damage to hit entity
-      const targetEntity = this.world.getEntity(hit.entityId);
-      if (targetEntity) {
-        const health = targetEntity.getComponent(HealthComponent);
-        if (health) {
-          health.takeDamage('torso', weapon.config.damage);
-
-          // Emit damage event
-          EventBus.emit(
-            'entity:damaged',
-            hit.entityId,
-            weapon.config.damage,
-            'torso',
-            hit.point
-          );
-
-          // Check if destroyed
-          if (health.isDestroyed()) {
-            EventBus.emit('entity:destroyed', hit.entityId, hit.point);
-            this.world.removeEntity(hit.entityId);
-          }
-        }
-      }
-
-      // Emit hit event for VFX/SFX
-      EventBus.emit('projectile:hit', 'laser', hit.point, hit.entityId);
-    } else if (hit) {
-      // Hit terrain or something without an entity - still shorten beam
-      beamLength = hit.distance;
-    }
+    const { visuals, beamDuration } = getWeaponEntry(weapon.config.type);
+    const width = visuals.beam?.width ?? 1;
+    const outerRadius = PROJECTILE_VISUALS.LASER.outerRadius * width;
+    const innerRadius = PROJECTILE_VISUALS.LASER.innerRadius * width;
 
-    // Outer beam - red glow
+    // Unit-length cylinders along +Z, stretched to the beam length each tick
     const outerGeometry = new THREE.CylinderGeometry(
       outerRadius,
       outerRadius,
-      beamLength,
+      1,
       6
     );
-    outerGeometry.translate(0, beamLength / 2, 0);
+    outerGeometry.translate(0, 0.5, 0);
     outerGeometry.rotateX(Math.PI / 2);
 
     const outerMaterial = this.laserBeamMaterial.clone();
+    if (visuals.beam) {
+      outerMaterial.color.setHex(visuals.beam.color);
+    }
     const outerMesh = new THREE.Mesh(outerGeometry, outerMaterial);
-    outerMesh.position.copy(position);
-    outerMesh.lookAt(position.clone().add(direction));
 
     // Inner core
     const innerGeometry = new THREE.CylinderGeometry(
       innerRadius,
       innerRadius,
-      beamLength,
+      1,
       6
     );
-    innerGeometry.translate(0, beamLength / 2, 0);
+    innerGeometry.translate(0, 0.5, 0);
     innerGeometry.rotateX(Math.PI / 2);
 
     const innerMaterial = this.laserBeamCoreMaterial.clone();
     const innerMesh = new THREE.Mesh(innerGeometry, innerMaterial);
-    innerMesh.position.copy(position);
-    innerMesh.lookAt(position.clone().add(direction));
 
     this.scene.add(outerMesh);
     this.scene.add(innerMesh);
 
-    this.laserBeams.push({
+    const beam: ActiveBeam = {
+      ownerId,
+      weapon,
+      fixedAim: trackAim
+        ? null
+        : { position: position.clone(), direction: direction.clone() },
+      remaining: beamDuration ?? 0,
+      duration: beamDuration ?? 0,
       outerMesh,
       innerMesh,
-      lifetime,
-      maxLifetime: lifetime,
-    });
+      lastHitId: null,
+    };
 
-    // Create muzzle flash
-    this.createLaserMuzzleFlash(position);
+    if (beam.duration > 0) {
+      // Damage starts with the first tick; just place the beam for now
+      this.burnBeam(beam, position, direction, 0);
+      this.activeBeams.push(beam);
+    } else {
+      this.burnBeam(beam, position, direction, 1);
+      this.fadeBeam(outerMesh, innerMesh);
+    }
+
+    if (visuals.muzzleFlash) {
+      this.createMuzzleFlash(position, visuals.muzzleFlash);
+    }
   }
 
-  private createLaserMuzzleFlash(position: THREE.Vector3): void {
-    const { coreRadius, glowRadius, lifetime } =
-      PROJECTILE_VISUALS.MUZZLE_FLASH.laser;
+  /**
+   * Raycast a beam from its muzzle, stretch its meshes to what it touches
+   * and deal a fraction of the weapon's damage there. Sweeping the beam
+   * spreads damage across every zone it crosses.
+   */
+  private burnBeam(
+    beam: ActiveBeam,
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    fraction: number
+  ): void {
+    const { weapon, ownerId } = beam;
+    const maxRange = weapon.config.range;
 
-    const coreGeometry = new THREE.SphereGeometry(coreRadius, 8, 8);
-    const coreMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff6644,
-      transparent: true,
-      opacity: 1.0,
-      blending: THREE.AdditiveBlending,
-    });
-    const core = new THREE.Mesh(coreGeometry, coreMaterial);
+    // Hitscan: raycast to find what we hit
+    const hit = this.physicsWorld.castRay(position, direction, maxRange);
 
-    const glowGeometry = new THREE.SphereGeometry(glowRadius, 8, 8);
-    const glowMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff2200,
-      transparent: true,
-      opacity: 0.5,
-      blending: THREE.AdditiveBlending,
-    });
-    const glow = new THREE.Mesh(glowGeometry, glowMaterial);
-    glow.add(core);
-    glow.position.copy(position);
+    // Determine beam length - stop at hit point or max range
+    const beamLength = hit ? hit.distance : maxRange;
+    const hitId =
+      hit?.entityId && hit.entityId !== ownerId ? hit.entityId : null;
+
+    if (hit && hitId && fraction > 0) {
+      // DamageSystem resolves the hit zone and applies armor damage
+      EventBus.emit(
+        'damage:request',
+        hitId,
+        weapon.config.damage * fraction * this.getDamageMultiplier(ownerId),
+        hit.point,
+        ownerId
+      );
+
+      // Emit hit event for VFX/SFX when the beam reaches a new target
+      if (hitId !== beam.lastHitId) {
+        EventBus.emit('projectile:hit', weapon.config.type, hit.point, hitId);
+      }
+    }
+    if (fraction > 0) {
+      beam.lastHitId = hitId;
+    }
 
-    this.scene.add(glow);
+    this._aimTarget.copy(position).add(direction);
+    for (const mesh of [beam.outerMesh, beam.innerMesh]) {
+      mesh.position.copy(position);
+      mesh.lookAt(this._aimTarget);
+      mesh.scale.z = beamLength;
+    }
+  }
 
-    this.muzzleFlashes.push({
-      mesh: glow,
+  /**
+   * Hand a beam's meshes to the fade-out list
+   */
+  private fadeBeam(outerMesh: THREE.Mesh, innerMesh: THREE.Mesh): void {
+    const { lifetime } = PROJECTILE_VISUALS.LASER;
+    this.laserBeams.push({
+      outerMesh,
+      innerMesh,
       lifetime,
       maxLifetime: lifetime,
     });
@@ -467,24 +709,20 @@ export class WeaponSystem extends System {
     entity: Entity,
     weapon: Weapon,
     position: THREE.Vector3,
-    direction: THREE.Vector3
+    direction: THREE.Vector3,
+    targetId: string | null
   ): void {
-    let mesh: THREE.Object3D;
-
-    switch (weapon.config.type) {
-      case 'autocannon':
-        mesh = this.createAutocannonMeshLocal();
-        this.createMuzzleFlash(position);
-        break;
-      case 'ppc':
-        mesh = this.createPPCMeshLocal();
-        this.createPPCMuzzleFlash(position);
-        break;
-      case 'missile':
-        mesh = this.createMissileMeshLocal();
-        break;
-      default:
-        return;
+    const { visuals, guidance, ballistics } = getWeaponEntry(
+      weapon.config.type
+    );
+    if (!visuals.projectile) return;
+
+    const mesh = createProjectileMesh(
+      visuals.projectile,
+      this.getProjectileMaterials(weapon.config.type)
+    );
+    if (visuals.muzzleFlash) {
+      this.createMuzzleFlash(position, visuals.muzzleFlash);
     }
 
     mesh.position.copy(position);
@@ -512,6 +750,11 @@ export class WeaponSystem extends System {
       direction.normalize().multiplyScalar(weapon.config.projectileSpeed),
       entity.id
     );
+    projectileComponent.damageMultiplier = this.getDamageMultiplier(entity.id);
+    projectileComponent.targetId = targetId;
+    projectileComponent.armingRange = guidance?.armingRange ?? 0;
+    projectileComponent.gravity = ballistics?.gravity ?? 0;
+    projectileComponent.splashRadius = ballistics?.splashRadius ?? 0;
 
     projectileEntity.addComponent(transformComponent);
     projectileEntity.addComponent(renderComponent);
@@ -520,31 +763,41 @@ export class WeaponSystem extends System {
     this.world.addEntity(projectileEntity);
   }
 
-  // Use shared mesh factory functions from ProjectileVisuals
-  private createAutocannonMeshLocal(): THREE.Mesh {
-    return createAutocannonMesh(this.autocannonMaterial);
-  }
-
-  private createPPCMeshLocal(): THREE.Group {
-    return createPPCMesh(this.ppcCoreMaterial, this.ppcSparkleMaterial);
-  }
-
-  private createMissileMeshLocal(): THREE.Group {
-    return createMissileMesh(this.missileMaterial, this.flameMaterial);
+  /**
+   * Shared materials for a weapon's projectiles
+   */
+  private getProjectileMaterials(type: WeaponType): ProjectileMaterials {
+    let materials = this.projectileMaterials.get(type);
+    if (!materials) {
+      const visual = getWeaponEntry(type).visuals.projectile;
+      materials = createProjectileMaterials(visual!);
+      this.projectileMaterials.set(type, materials);
+    }
+    return materials;
   }
 
-  private createMuzzleFlash(position: THREE.Vector3): void {
-    const { coreRadius, glowRadius, lifetime } =
-      PROJECTILE_VISUALS.MUZZLE_FLASH.autocannon;
+  private createMuzzleFlash(
+    position: THREE.Vector3,
+    preset: MuzzleFlashPreset
+  ): void {
+    const {
+      coreColor,
+      glowColor,
+      glowOpacity,
+      coreRadius,
+      glowRadius,
+      lifetime,
+    } = PROJECTILE_VISUALS.MUZZLE_FLASH[preset];
 
     const coreGeometry = new THREE.SphereGeometry(coreRadius, 8, 8);
     const coreMaterial = this.muzzleFlashMaterial.clone();
-    coreMaterial.color.setHex(0xffffcc);
+    coreMaterial.color.setHex(coreColor);
     const core = new THREE.Mesh(coreGeometry, coreMaterial);
 
     const glowGeometry = new THREE.SphereGeometry(glowRadius, 8, 8);
     const glowMaterial = this.muzzleFlashMaterial.clone();
-    glowMaterial.opacity = 0.6;
+    glowMaterial.color.setHex(glowColor);
+    glowMaterial.opacity = glowOpacity;
     const glow = new THREE.Mesh(glowGeometry, glowMaterial);
 
     glow.add(core);
@@ -559,52 +812,24 @@ export class WeaponSystem extends System {
     });
   }
 
-  private createPPCMuzzleFlash(position: THREE.Vector3): void {
-    const { coreRadius, glowRadius, lifetime } =
-      PROJECTILE_VISUALS.MUZZLE_FLASH.ppc;
-
-    const coreGeometry = new THREE.SphereGeometry(coreRadius, 8, 8);
-    const coreMaterial = new THREE.MeshBasicMaterial({
-      color: 0xaaffff,
-      transparent: true,
-      opacity: 1.0,
-      blending: THREE.AdditiveBlending,
-    });
-    const core = new THREE.Mesh(coreGeometry, coreMaterial);
-
-    const glowGeometry = new THREE.SphereGeometry(glowRadius, 8, 8);
-    const glowMaterial = new THREE.MeshBasicMaterial({
-      color: 0x0088ff,
-      transparent: true,
-      opacity: 0.6,
-      blending: THREE.AdditiveBlending,
-    });
-    const glow = new THREE.Mesh(glowGeometry, glowMaterial);
-    glow.add(core);
-    glow.position.copy(position);
-
-    this.scene.add(glow);
-
-    this.muzzleFlashes.push({
-      mesh: glow,
-      lifetime,
-      maxLifetime: lifetime,
-    });
-  }
-
   dispose(): void {
+    EventBus.off('weapon:fire_request', this.onFireRequest);
+    EventBus.off('weapon:salvo_request', this.onSalvoRequest);
+    EventBus.off('turret:fire_request', this.onTurretFireRequest);
+
     // Clean up materials
-    this.autocannonMaterial.dispose();
-    this.ppcCoreMaterial.dispose();
-    this.ppcSparkleMaterial.dispose();
-    this.missileMaterial.dispose();
-    this.flameMaterial.dispose();
+    for (const materials of this.projectileMaterials.values()) {
+      materials.body.dispose();
+      materials.sparkle?.dispose();
+      materials.flame?.dispose();
+    }
+    this.projectileMaterials.clear();
     this.laserBeamMaterial.dispose();
     this.laserBeamCoreMaterial.dispose();
     this.muzzleFlashMaterial.dispose();
 
     // Clean up active effects
-    for (const beam of this.laserBeams) {
+    for (const beam of [...this.activeBeams, ...this.laserBeams]) {
       this.scene.remove(beam.outerMesh);
       this.scene.remove(beam.innerMesh);
       beam.outerMesh.geometry.dispose();
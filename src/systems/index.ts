@@ -7,12 +7,22 @@ export { PhysicsSystem } from './PhysicsSystem';
 export { HeatSystem } from './HeatSystem';
 export { WeaponSystem } from './WeaponSystem';
 export { ProjectileSystem } from './ProjectileSystem';
+export { DamageSystem } from './DamageSystem';
+export { MechDestructionSystem } from './MechDestructionSystem';
 export { RenderSystem } from './RenderSystem';
 export { CameraSystem } from './CameraSystem';
 export { MechAnimationSystem } from './MechAnimationSystem';
 export { AudioSystem } from './AudioSystem';
 export { DebugTerrainSystem } from './DebugTerrainSystem';
 export { MapSystem } from './MapSystem';
+export { NavigationSystem } from './NavigationSystem';
 export { TurretAISystem } from './TurretAISystem';
+export { AIMechSystem } from './AIMechSystem';
 export { TargetingSystem } from './TargetingSystem';
 export { ObjectiveSystem } from './ObjectiveSystem';
+export { ObjectiveMarkerSystem } from './ObjectiveMarkerSystem';
+export type { ObjectiveWaypoint, WaypointKind } from './ObjectiveMarkerSystem';
+export { PickupSystem } from './PickupSystem';
+export { WaveSpawnerSystem } from './WaveSpawnerSystem';
+export { CommsSystem } from './CommsSystem';
+export type { CommsMessage } from './CommsSystem';
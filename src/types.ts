@@ -1,5 +1,7 @@
 // Core types used throughout the game
 
+import type { WEAPON_CATALOG } from './config/WeaponCatalog';
+
 export interface Vector3Like {
   x: number;
   y: number;
@@ -48,6 +50,12 @@ export interface InputSnapshot {
   mouseDeltaX: number;
   mouseDeltaY: number;
   weaponSlot: number;
+  // Weapon group to fire (Shift+1-4); 0 fires the selected slot alone
+  weaponGroup: number;
+  // Fire every weapon at once (F)
+  alphaStrike: boolean;
+  // Keep running past the heat shutdown threshold (O toggles)
+  shutdownOverride: boolean;
 }
 
 // Mech types
@@ -60,8 +68,19 @@ export interface ArmorZones {
   rightLeg: number;
 }
 
+/** Sides an entity can fight for */
+export type FactionId = 'player' | 'allied' | 'enemy' | 'neutral';
+
+/** How one faction regards another */
+export type FactionRelation = 'friendly' | 'hostile' | 'neutral';
+
+/** Internal components that can take a critical hit */
+export type CriticalSlotKind = 'weapon' | 'heatSink' | 'actuator' | 'engine';
+
 export interface MechConfig {
   name: string;
+  /** Custom loadout name when built from a mech lab variant */
+  variantName?: string;
   maxSpeed: number;
   turnRate: number;
   torsoTurnRate: number;
@@ -69,6 +88,8 @@ export interface MechConfig {
   maxHeat: number;
   heatDissipation: number;
   baseArmor: ArmorZones;
+  /** Internal structure beneath the armor of each zone */
+  baseStructure: ArmorZones;
   hardpoints: HardpointConfig[];
 }
 
@@ -76,12 +97,15 @@ export interface HardpointConfig {
   slot: number;
   position: Vector3Like;
   weaponType: WeaponType;
+  /** Armor zone the weapon is mounted in - weapon is lost when the zone is destroyed */
+  zone: keyof ArmorZones;
 }
 
-export type WeaponType = 'laser' | 'ppc' | 'missile' | 'autocannon';
+/** Weapon ID - any key of WEAPON_CATALOG */
+export type WeaponType = keyof typeof WEAPON_CATALOG;
 
-export interface WeaponConfig {
-  type: WeaponType;
+/** Combat stats of a weapon, declared per entry in WEAPON_CATALOG */
+export interface WeaponStats {
   damage: number;
   heatGenerated: number;
   cooldown: number;
@@ -92,6 +116,18 @@ export interface WeaponConfig {
   semiAuto?: boolean;
 }
 
+export interface WeaponConfig extends WeaponStats {
+  type: WeaponType;
+}
+
+/** Weapons fired by one trigger, assigned in the pause menu or mech lab */
+export interface WeaponGroup {
+  /** Hardpoint slots in the group */
+  slots: number[];
+  /** Fire the weapons one after another instead of together */
+  chainFire: boolean;
+}
+
 // Camera types
 export type CameraMode = 'first-person' | 'third-person';
 